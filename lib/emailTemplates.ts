@@ -79,24 +79,4 @@ export function getTaskDueTemplate(
   };
 }
 
-export function getOTPTemplate(otp: string): EmailTemplate {
-  return {
-    subject: 'Your One-Time Password (OTP) for Login',
-    body: `
-      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #2563eb;">Your Login Verification Code</h2>
-        <p>Please use the following code to complete your login:</p>
-        <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 16px 0; text-align: center;">
-          <h1 style="margin: 0; color: #2563eb; font-size: 36px; letter-spacing: 5px;">${otp}</h1>
-        </div>
-        <p>This code will expire in 5 minutes.</p>
-        <p style="color: #dc2626; font-weight: bold;">Do not share this code with anyone.</p>
-        <p style="color: #4b5563; margin-top: 24px; font-size: 14px;">
-          This is an automated message. Please do not reply to this email.
-        </p>
-      </div>
-    `,
-  };
-}
-
 // Add more email templates... 
\ No newline at end of file
@@ -1,90 +1,8 @@
 import { supabase } from './supabase';
+import { sendToSlack, sendToTeams } from './integrationWebhooks';
+import type { IntegrationPayload } from './integrationWebhooks';
 
-interface IntegrationPayload {
-  title: string;
-  message: string;
-  type?: 'info' | 'success' | 'warning' | 'error';
-  fields?: Record<string, string>;
-}
-
-interface SlackBlock {
-  type: string;
-  text?: {
-    type: string;
-    text: string;
-  };
-  fields?: Array<{
-    type: string;
-    text: string;
-  }>;
-}
-
-export async function sendToSlack(webhookUrl: string, payload: IntegrationPayload) {
-  const blocks: SlackBlock[] = [
-    {
-      type: 'header',
-      text: {
-        type: 'plain_text',
-        text: payload.title,
-      },
-    },
-    {
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: payload.message,
-      },
-    },
-  ];
-
-  if (payload.fields) {
-    blocks.push({
-      type: 'section',
-      fields: Object.entries(payload.fields).map(([key, value]) => ({
-        type: 'mrkdwn',
-        text: `*${key}:*\n${value}`,
-      })),
-    });
-  }
-
-  const response = await fetch(webhookUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ blocks }),
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to send Slack notification');
-  }
-}
-
-export async function sendToTeams(webhookUrl: string, payload: IntegrationPayload) {
-  const card = {
-    type: 'MessageCard',
-    context: 'http://schema.org/extensions',
-    themeColor: payload.type === 'success' ? '0076D7' :
-                payload.type === 'warning' ? 'FFA500' :
-                payload.type === 'error' ? 'FF0000' : '0076D7',
-    title: payload.title,
-    text: payload.message,
-    sections: payload.fields ? [{
-      facts: Object.entries(payload.fields).map(([key, value]) => ({
-        name: key,
-        value: value,
-      })),
-    }] : [],
-  };
-
-  const response = await fetch(webhookUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(card),
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to send Teams notification');
-  }
-}
+export { sendToSlack, sendToTeams };
 
 export async function sendIntegrationNotification(
   projectId: string,
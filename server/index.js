@@ -126,42 +126,48 @@ Please provide a comprehensive, well-structured analysis that is specific, actio
   return prompt;
 }
 
-// Function to call Gemini API
-async function generateContent(prompt) {
+// Function to call the AI provider through the ai-generate edge function, which
+// holds the API keys, applies retries and timeouts and records token usage
+async function generateContent(prompt, feature, authorization) {
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
-    const model = 'gemini-2.0-flash';
-    const url = `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent?key=${apiKey}`;
-    
-    console.log('Calling Gemini API with prompt:', prompt);
-    
-    const response = await axios.post(url, {
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 2048,
-        topP: 0.8,
-        topK: 40
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const anonKey = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+    console.log(`Calling AI provider for ${feature}, prompt length:`, prompt.length);
+
+    const response = await axios.post(`${supabaseUrl}/functions/v1/ai-generate`, {
+      feature,
+      prompt,
+      temperature: 0.7,
+      maxOutputTokens: 2048
+    }, {
+      headers: {
+        Authorization: authorization,
+        apikey: anonKey
       }
     });
-    
-    console.log('Gemini API response status:', response.status);
+
+    console.log('AI response:', {
+      provider: response.data.provider,
+      model: response.data.model,
+      attempts: response.data.attempts,
+      totalTokens: response.data.usage?.totalTokens
+    });
     return response.data;
   } catch (error) {
     if (error.response) {
       // The request was made and the server responded with a status code
       // that falls out of the range of 2xx
-      console.error('Gemini API Error Response:', {
+      console.error('AI API Error Response:', {
         status: error.response.status,
-        data: error.response.data,
-        headers: error.response.headers
+        data: error.response.data
       });
     } else if (error.request) {
       // The request was made but no response was received
-      console.error('Gemini API No Response:', error.request);
+      console.error('AI API No Response:', error.request);
     } else {
       // Something happened in setting up the request that triggered an Error
-      console.error('Gemini API Error Setup:', error.message);
+      console.error('AI API Error Setup:', error.message);
     }
     throw error;
   }
@@ -201,10 +207,14 @@ function formatAnalysisText(text) {
   return formattedText.trim();
 }
 
-// Gemini API endpoint
+// User analysis endpoint (kept at /api/gemini for existing callers)
 app.post('/api/gemini', async (req, res) => {
   try {
     const { userData } = req.body;
+
+    if (!req.headers.authorization) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
     
     if (!userData) {
       return res.status(400).json({ error: 'userData is required in the request body' });
@@ -220,11 +230,11 @@ app.post('/api/gemini', async (req, res) => {
     console.log('Generated prompt:', prompt);
     
     try {
-      // Call Gemini API
-      const result = await generateContent(prompt);
+      // Call the AI provider
+      const result = await generateContent(prompt, 'user-analysis', req.headers.authorization);
       
       // Extract and format the generated text
-      const rawText = result.candidates[0].content.parts[0].text;
+      const rawText = result.text;
       const formattedText = formatAnalysisText(rawText);
       
       // Log successful response
@@ -232,12 +242,12 @@ app.post('/api/gemini', async (req, res) => {
       
       res.json({ analysis: formattedText });
     } catch (genError) {
-      console.error('Gemini API Error:', {
+      console.error('AI API Error:', {
         message: genError.message,
         response: genError.response?.data,
         status: genError.response?.status
       });
-      throw new Error(`Gemini API Error: ${genError.response?.data?.error?.message || genError.message}`);
+      throw new Error(`AI API Error: ${genError.response?.data?.error || genError.message}`);
     }
   } catch (error) {
     // Log the detailed error
@@ -255,8 +265,8 @@ app.post('/api/gemini', async (req, res) => {
   }
 });
 
-// Function to parse CV text using Gemini API
-async function parseCVContent(cvText) {
+// Function to parse CV text using the AI provider
+async function parseCVContent(cvText, authorization) {
   const prompt = `You are a CV parser. Please analyze the following CV text and extract structured information in JSON format. The output should strictly follow this format:
 {
   "education": [
@@ -302,9 +312,9 @@ ${cvText}
 Please extract the information and return it in the exact JSON format specified above. Ensure all fields are present even if empty.`;
 
   try {
-    console.log('Sending CV text to Gemini API for parsing...');
-    const result = await generateContent(prompt);
-    const parsedText = result.candidates[0].content.parts[0].text;
+    console.log('Sending CV text to the AI provider for parsing...');
+    const result = await generateContent(prompt, 'parse-cv', authorization);
+    const parsedText = result.text;
     
     // Extract the JSON part from the response
     const jsonMatch = parsedText.match(/\{[\s\S]*\}/);
@@ -369,6 +379,10 @@ app.post('/api/parse-cv', async (req, res) => {
   try {
     console.log('Received parse CV request:', req.body);
     const { userId, fileUrl, fileName } = req.body;
+
+    if (!req.headers.authorization) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
     
     if (!userId || !fileUrl || !fileName) {
       return res.status(400).json({ 
@@ -380,8 +394,8 @@ app.post('/api/parse-cv', async (req, res) => {
     // Extract text from CV
     const cvText = await extractTextFromCV(fileUrl, fileName);
     
-    // Parse the CV text using Gemini
-    const parsedData = await parseCVContent(cvText);
+    // Parse the CV text using the AI provider
+    const parsedData = await parseCVContent(cvText, req.headers.authorization);
     
     // Validate parsed data structure
     if (!parsedData.education || !parsedData.experience || !parsedData.skills || 
@@ -480,7 +494,6 @@ app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log('Environment:', {
     nodeEnv: process.env.NODE_ENV,
-    hasApiKey: !!process.env.GEMINI_API_KEY,
-    apiKeyLength: process.env.GEMINI_API_KEY?.length || 0
+    supabaseUrl: process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || 'not set'
   });
 }); 
\ No newline at end of file
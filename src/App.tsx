@@ -8,7 +8,7 @@ import { SettingsPage } from './pages/SettingsPage';
 import { Layout } from './components/Layout';
 import { AuthProvider, useAuth } from './contexts/auth/AuthContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { supabase, supabaseAdmin, debugSession } from './lib/supabase';
+import { supabase, debugSession } from './lib/supabase';
 import toast from 'react-hot-toast';
 import type { User } from './types/auth';
 import type { Project, ProjectMember } from './types/project';
@@ -18,7 +18,20 @@ import { ProjectsPage } from './components/admin/ProjectsPage';
 import { TasksPage } from './pages/TasksPage';
 import { PhasesPage } from './pages/PhasesPage';
 import { DeepsearchPage } from './pages/DeepsearchPage';
+import { SkillsMatrixPage } from './pages/SkillsMatrixPage';
+import { AuditLogPage } from './pages/AuditLogPage';
+import { TrashPage } from './pages/TrashPage';
+import { RolesPage } from './pages/RolesPage';
+import { GuestProjectsPage } from './pages/GuestProjectsPage';
+import { GuestProjectPage } from './pages/GuestProjectPage';
+import { isGuest } from './lib/permissions';
 import { runStorageInitialization } from './lib/initStorage';
+import { NotificationsProvider } from './contexts/NotificationsContext';
+import { StepUpProvider } from './contexts/StepUpContext';
+import { MFASetup } from './components/MFASetup';
+import { MFARequired } from './components/MFARequired';
+import { StepUpDialog } from './components/StepUpDialog';
+import { fetchLoginMfaVerified, fetchSecurityPolicy, fetchTotpFactorId, isMfaMandatory, markMfaEnabled } from './lib/services/stepUp';
 
 interface ProjectWithMembers {
   id: string;
@@ -43,6 +56,10 @@ function AppContent() {
   const [admins, setAdmins] = useState<User[]>([]);
   const [projectManagers, setProjectManagers] = useState<User[]>([]);
   const [projects, setProjects] = useState<ProjectWithMembers[]>([]);
+  const [showMFASetup, setShowMFASetup] = useState(false);
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(false);
+  // null until checked for the signed-in user
+  const [mfaChallengeRequired, setMfaChallengeRequired] = useState<boolean | null>(null);
 
   useEffect(() => {
     // Log authentication state
@@ -61,10 +78,76 @@ function AppContent() {
         status: user.status,
         fullName: user.full_name
       });
-      fetchUsers();
+      // Guests have no business with the staff directory
+      if (!isGuest(user)) {
+        fetchUsers();
+      }
     }
   }, [user, session, loading]);
 
+  useEffect(() => {
+    if (user) {
+      checkMfaEnrollment();
+    }
+  }, [user?.id, user?.role]);
+
+  useEffect(() => {
+    setMfaChallengeRequired(null);
+    if (user) {
+      checkLoginMfa();
+    }
+  }, [user?.id]);
+
+  // Users with an authenticator get no data until this session has passed it
+  const checkLoginMfa = async () => {
+    try {
+      setMfaChallengeRequired(!(await fetchLoginMfaVerified()));
+    } catch (error) {
+      console.error('Error checking sign-in 2FA:', error);
+      setMfaChallengeRequired(true);
+    }
+  };
+
+  const handleLoginMfaVerified = async () => {
+    // A fresh session makes the pages load again with the data now allowed
+    const { error } = await supabase.auth.refreshSession();
+    if (error) {
+      console.error('Error refreshing session:', error);
+    }
+    await checkLoginMfa();
+  };
+
+  const handleCancelLoginMfa = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      toast.error(error.message);
+    }
+  };
+
+  const checkMfaEnrollment = async () => {
+    if (!user) return;
+
+    try {
+      const policy = await fetchSecurityPolicy();
+      setMfaEnrollmentRequired(isMfaMandatory(user, policy) && !(await fetchTotpFactorId()));
+    } catch (error) {
+      // Fail closed: if the policy can't be checked, ask privileged users to enroll
+      console.error('Error checking 2FA policy:', error);
+      setMfaEnrollmentRequired(user.role === 'admin' || user.role === 'project_manager');
+    }
+  };
+
+  const handleMFAComplete = async () => {
+    setShowMFASetup(false);
+    if (!user) return;
+
+    try {
+      await markMfaEnabled(user.id);
+    } catch (error) {
+      console.error('Error saving 2FA status:', error);
+    }
+  };
+
   const fetchUsers = async () => {
     if (!user) return;
 
@@ -167,84 +250,17 @@ function AppContent() {
     }
   };
 
-  const handleDeleteUser = async (userId: string) => {
-    try {
-      if (!supabaseAdmin) {
-        throw new Error('Admin client not available');
-      }
-
-      // Delete user profile using RPC
-      const { error: rpcError } = await supabaseAdmin.rpc('delete_user_profile', {
-        p_user_id: userId,
-        p_current_user_id: user?.id
-      });
-
-      if (rpcError) {
-        // If RPC fails, try direct deletion as fallback
-        const { error: deleteError } = await supabaseAdmin
-          .from('users')
-          .delete()
-          .eq('id', userId);
-
-        if (deleteError) throw deleteError;
-      }
-
-      toast.success('User deleted successfully');
-      fetchUsers();
-    } catch (error: any) {
-      console.error('Error deleting user:', error);
-      toast.error('Error deleting user: ' + error.message);
-    }
-  };
-
-  const handleEditUser = async (updatedUser: User) => {
-    try {
-      if (!supabaseAdmin) {
-        throw new Error('Admin client not available');
-      }
-
-      // Update user profile using RPC
-      const { error: rpcError } = await supabaseAdmin.rpc('update_user_profile', {
-        p_user_id: updatedUser.id,
-        p_full_name: updatedUser.full_name,
-        p_role: updatedUser.role,
-        p_status: updatedUser.status,
-        p_department: updatedUser.department,
-        p_position: updatedUser.position,
-        p_current_user_id: user?.id
-      });
+  // The modals have already saved the change
+  const handleDeleteUser = () => fetchUsers();
 
-      if (rpcError) {
-        // If RPC fails, try direct update as fallback
-        const { error: updateError } = await supabaseAdmin
-          .from('users')
-          .update({
-            full_name: updatedUser.full_name,
-            role: updatedUser.role,
-            status: updatedUser.status,
-            department: updatedUser.department,
-            position: updatedUser.position,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', updatedUser.id);
-
-        if (updateError) throw updateError;
-      }
-
-      toast.success('User updated successfully');
-      fetchUsers();
-    } catch (error: any) {
-      console.error('Error updating user:', error);
-      toast.error('Error updating user: ' + error.message);
-    }
-  };
+  const handleEditUser = () => fetchUsers();
 
   const handleUserCreated = async () => {
     await fetchUsers();
     setShowNewUserModal(false);
   };
 
-  if (loading) {
+  if (loading || (user && mfaChallengeRequired === null)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
@@ -260,60 +276,120 @@ function AppContent() {
     );
   }
 
+  if (mfaChallengeRequired) {
+    return (
+      <div className="min-h-screen">
+        <StepUpDialog
+          open
+          action="finish signing in"
+          onVerified={handleLoginMfaVerified}
+          onCancel={handleCancelLoginMfa}
+        />
+      </div>
+    );
+  }
+
+  if (mfaEnrollmentRequired) {
+    return <MFARequired user={user} onEnrolled={checkMfaEnrollment} />;
+  }
+
+  const mfaSetup = showMFASetup && (
+    <MFASetup onClose={() => setShowMFASetup(false)} onComplete={handleMFAComplete} />
+  );
+
+  if (isGuest(user)) {
+    return (
+      <NotificationsProvider user={user}>
+        <StepUpProvider user={user}>
+          <Layout user={user}>
+            <ErrorBoundary>
+              <Routes>
+                <Route path="/guest/projects" element={<GuestProjectsPage />} />
+                <Route path="/guest/projects/:projectId" element={<GuestProjectPage />} />
+                {/* Mention notifications link to the staff project page */}
+                <Route path="/admin/projects/:projectId" element={<GuestProjectPage />} />
+                <Route
+                  path="/settings"
+                  element={
+                    <SettingsPage
+                      user={user}
+                      onEnableMFA={() => setShowMFASetup(true)}
+                    />
+                  }
+                />
+                <Route path="*" element={<Navigate to="/guest/projects" replace />} />
+              </Routes>
+            </ErrorBoundary>
+            {mfaSetup}
+          </Layout>
+        </StepUpProvider>
+      </NotificationsProvider>
+    );
+  }
+
   return (
-    <Layout user={user}>
-      <ErrorBoundary>
-        <Routes>
-          <Route path="/" element={<Navigate to="/dashboard" replace />} />
-          <Route path="/login" element={<Navigate to="/dashboard" replace />} />
-          <Route path="/dashboard" element={
-            <DashboardPage 
-              user={user} 
-              users={users} 
-              admins={admins} 
-              projectManagers={projectManagers} 
-            />
-          } />
-          <Route
-            path="/users"
-            element={
-              <UsersPage
-                users={filteredUsers}
-                otherUsers={otherUsers}
-                projects={projects}
-                onDeleteUser={handleDeleteUser}
-                onEditUser={handleEditUser}
-                onCreateUser={() => setShowNewUserModal(true)}
+    <NotificationsProvider user={user}>
+      <StepUpProvider user={user}>
+        <Layout user={user}>
+          <ErrorBoundary>
+            <Routes>
+              <Route path="/" element={<Navigate to="/dashboard" replace />} />
+              <Route path="/login" element={<Navigate to="/dashboard" replace />} />
+              <Route path="/dashboard" element={
+                <DashboardPage 
+                  user={user} 
+                  users={users} 
+                  admins={admins} 
+                  projectManagers={projectManagers} 
+                />
+              } />
+              <Route
+                path="/users"
+                element={
+                  <UsersPage
+                    users={filteredUsers}
+                    otherUsers={otherUsers}
+                    projects={projects}
+                    onDeleteUser={handleDeleteUser}
+                    onEditUser={handleEditUser}
+                    onCreateUser={() => setShowNewUserModal(true)}
+                  />
+                }
               />
-            }
-          />
-          <Route path="/users/:userId" element={<UserDetailsPage />} />
-          <Route path="/projects" element={<Navigate to="/admin/projects" replace />} />
-          <Route path="/admin/projects" element={<ProjectsPage />} />
-          <Route path="/admin/projects/:projectId" element={<ProjectDetailsPage />} />
-          <Route path="/tasks" element={<TasksPage />} />
-          <Route path="/phases" element={<PhasesPage />} />
-          <Route path="/deepsearch" element={<DeepsearchPage />} />
-          <Route
-            path="/settings"
-            element={
-              <SettingsPage
-                user={user}
-                onEnableMFA={() => {}}
+              <Route path="/users/:userId" element={<UserDetailsPage />} />
+              <Route path="/projects" element={<Navigate to="/admin/projects" replace />} />
+              <Route path="/admin/projects" element={<ProjectsPage />} />
+              <Route path="/admin/projects/:projectId" element={<ProjectDetailsPage />} />
+              <Route path="/tasks" element={<TasksPage />} />
+              <Route path="/phases" element={<PhasesPage />} />
+              <Route path="/deepsearch" element={<DeepsearchPage />} />
+              <Route path="/skills" element={<SkillsMatrixPage />} />
+              <Route path="/admin/audit" element={<AuditLogPage />} />
+              <Route path="/admin/roles" element={<RolesPage />} />
+              <Route path="/trash" element={<TrashPage />} />
+              <Route
+                path="/settings"
+                element={
+                  <SettingsPage
+                    user={user}
+                    onEnableMFA={() => setShowMFASetup(true)}
+                  />
+                }
               />
-            }
-          />
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      </ErrorBoundary>
-
-      {showNewUserModal && (
-        <NewUserModal
-          onClose={() => setShowNewUserModal(false)}
-          onCreated={handleUserCreated}
-        />
-      )}
-    </Layout>
+              <Route path="*" element={<Navigate to="/dashboard" replace />} />
+            </Routes>
+          </ErrorBoundary>
+
+          {showNewUserModal && (
+            <NewUserModal
+              onClose={() => setShowNewUserModal(false)}
+              onCreated={handleUserCreated}
+            />
+          )}
+          {mfaSetup}
+        </Layout>
+      </StepUpProvider>
+    </NotificationsProvider>
   );
 }
 
@@ -0,0 +1,118 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import {
+  Avatar,
+  Box,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { fetchProjectHistory, fetchRecordHistory, resolveAuditReferences } from '../lib/services/auditLog';
+import { auditFieldLabel, describeAuditEntry, formatAuditValue } from '../lib/audit';
+import type { AuditLogEntry, AuditTable } from '../types/audit';
+
+type AuditHistoryProps =
+  | { projectId: string; tables?: never; recordId?: never }
+  | { projectId?: never; tables: AuditTable[]; recordId: string };
+
+/**
+ * Who changed what and when, newest first, with before and after values for
+ * each field an update touched
+ */
+export function AuditHistory({ projectId, tables, recordId }: AuditHistoryProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [field, setField] = useState('');
+
+  useEffect(() => {
+    fetchHistory();
+  }, [projectId, recordId]);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const data = projectId
+        ? await fetchProjectHistory(projectId)
+        : await fetchRecordHistory(tables!, recordId!);
+      setEntries(data);
+      setNames(await resolveAuditReferences(data));
+    } catch (error) {
+      console.error('Error fetching history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fields = useMemo(
+    () => [...new Set(entries.filter(e => e.action === 'update').flatMap(e => Object.keys(e.changes || {})))].sort(),
+    [entries]
+  );
+  const visibleEntries = field
+    ? entries.filter(entry => entry.action === 'update' && entry.changes?.[field])
+    : entries;
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Typography color="text.secondary" py={2}>
+        No changes recorded yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {fields.length > 0 && (
+        <FormControl size="small" sx={{ minWidth: 220, mb: 2 }}>
+          <InputLabel>Changed field</InputLabel>
+          <Select value={field} onChange={(e) => setField(e.target.value)} label="Changed field">
+            <MenuItem value="">All changes</MenuItem>
+            {fields.map(key => (
+              <MenuItem key={key} value={key}>{auditFieldLabel(key)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {visibleEntries.map(entry => {
+        const changes = Object.entries(entry.changes || {}).filter(([key]) => !field || key === field);
+        return (
+          <Box key={entry.id} display="flex" gap={1.5} py={1.5} borderBottom={1} borderColor="divider">
+            <Avatar sx={{ width: 28, height: 28, fontSize: 13 }}>
+              {(entry.actor?.full_name || 'S').charAt(0).toUpperCase()}
+            </Avatar>
+            <Box flex={1} minWidth={0}>
+              <Box display="flex" justifyContent="space-between" gap={1}>
+                <Typography variant="body2" fontWeight={500}>
+                  {describeAuditEntry(entry)}
+                </Typography>
+                <Tooltip title={format(new Date(entry.created_at), 'MMM d, yyyy h:mm:ss a')}>
+                  <Typography variant="caption" color="text.secondary" whiteSpace="nowrap">
+                    {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                  </Typography>
+                </Tooltip>
+              </Box>
+              {entry.action === 'update' && changes.map(([key, change]) => (
+                <Typography key={key} variant="body2" color="text.secondary" sx={{ wordBreak: 'break-word' }}>
+                  {auditFieldLabel(key)}: {formatAuditValue(key, change.old, names)} → {formatAuditValue(key, change.new, names)}
+                </Typography>
+              ))}
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
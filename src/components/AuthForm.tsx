@@ -2,9 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Mail, Lock, User, Briefcase } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { generateOtp } from '../../lib/otpService';
-import { sendEmail } from '../../lib/emailService';
-import { getOTPTemplate } from '../../lib/emailTemplates';
+import { requestOtp } from '../../lib/otpService';
 import { OTPVerification } from './OTPVerification';
 
 interface AuthFormProps {
@@ -21,7 +19,6 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
     role: 'employee' as const,
   });
   const [showOtpVerification, setShowOtpVerification] = useState(false);
-  const [credentialsValid, setCredentialsValid] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -43,7 +40,8 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
         if (error) throw error;
         toast.success('Check your email to confirm your account');
       } else {
-        // First validate credentials
+        // The session this creates can't reach any data until its code is
+        // entered; the app stays on this form until then
         const { error } = await supabase.auth.signInWithPassword({
           email: formData.email,
           password: formData.password,
@@ -51,19 +49,16 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
 
         if (error) throw error;
         
-        // Credentials are valid, generate and send OTP
-        const otpResult = await generateOtp(formData.email);
+        // Credentials are valid; the server generates the code and emails it
+        const otpResult = await requestOtp();
         
         if (!otpResult.success) {
+          // Don't leave a half signed-in session behind
+          await supabase.auth.signOut();
           throw new Error(otpResult.message || 'Failed to generate OTP');
         }
         
-        // Send OTP email
-        const emailTemplate = getOTPTemplate(otpResult.otp!);
-        await sendEmail(formData.email, emailTemplate);
-        
         // Set state to show OTP verification screen
-        setCredentialsValid(true);
         setShowOtpVerification(true);
         toast.success('Verification code sent to your email');
       }
@@ -131,13 +126,10 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
   };
 
   const handleOtpVerified = async () => {
-    // Complete the sign-in process after OTP verification
+    // The server has marked this session verified; refreshing it lets the
+    // app check again and load
     try {
-      // Use the stored credentials which were already validated
-      const { error } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: formData.password,
-      });
+      const { error } = await supabase.auth.refreshSession();
       
       if (error) throw error;
       
@@ -148,13 +140,13 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
     }
   };
 
-  const handleCancelOtp = () => {
-    setShowOtpVerification(false);
-    setCredentialsValid(false);
-    // Generate and send a new OTP if the user requests it
-    if (credentialsValid) {
-      handleSubmit({ preventDefault: () => {} } as React.FormEvent);
+  const handleCancelOtp = async () => {
+    // The unverified session is no use to anyone, so end it on the server too
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Error signing out:', error);
     }
+    setShowOtpVerification(false);
   };
 
   // If showing OTP verification, render that component
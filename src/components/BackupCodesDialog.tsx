@@ -26,6 +26,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { User } from '../types/auth';
+import { useStepUp } from '../contexts/StepUpContext';
 
 interface BackupCodesDialogProps {
   open: boolean;
@@ -39,8 +40,11 @@ export function BackupCodesDialog({ open, onClose, user }: BackupCodesDialogProp
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [showCodes, setShowCodes] = useState(false);
   const [copiedToClipboard, setCopiedToClipboard] = useState(false);
+  const { requireStepUp } = useStepUp();
 
   const generateBackupCodes = async () => {
+    if (!(await requireStepUp('generate new backup codes'))) return;
+
     setLoading(true);
     setError(null);
     try {
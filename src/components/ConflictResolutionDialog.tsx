@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { diffEdit, mergeEdit } from '../lib/editConflicts';
+import type { ConflictField, EditConflict, FieldChoice } from '../lib/editConflicts';
+
+interface ConflictResolutionDialogProps<T> {
+  conflict: EditConflict<T> | null;
+  entityName: string;
+  fields: ConflictField<T>[];
+  saving: boolean;
+  onSave: (updates: Partial<T>) => void; // saved against the current version
+  onDiscard: () => void;
+}
+
+/**
+ * Shown when a save lost the race against someone else's. Lists what each
+ * side changed and lets the user merge, overwrite or drop their edit.
+ */
+export function ConflictResolutionDialog<T extends { updated_at?: string }>({
+  conflict,
+  entityName,
+  fields,
+  saving,
+  onSave,
+  onDiscard,
+}: ConflictResolutionDialogProps<T>) {
+  const [choices, setChoices] = useState<Partial<Record<keyof T & string, FieldChoice>>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const diffs = conflict ? diffEdit(fields, conflict) : [];
+  const clashes = diffs.filter(diff => diff.change === 'both').length;
+  const current = conflict?.current;
+  const changedBy = conflict?.changedBy || 'another user';
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const merged = mergeEdit(diffs, conflict.updates, choices);
+    // Keeping their value everywhere leaves nothing of ours to save
+    if (Object.keys(merged).length === 0) {
+      onDiscard();
+    } else {
+      onSave(merged);
+    }
+  };
+
+  const handleOverwrite = () => {
+    if (conflict) onSave(conflict.updates);
+  };
+
+  return (
+    <Dialog open={!!conflict} onClose={saving ? undefined : onDiscard} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" gap={1}>
+          <AlertTriangle size={20} />
+          {current ? `This ${entityName} was changed by ${changedBy}` : `This ${entityName} was deleted`}
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {!current ? (
+          <Typography>
+            The {entityName} was deleted while you were editing it, so your changes could not be saved.
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              {changedBy} saved it
+              {current.updated_at && ` on ${format(new Date(current.updated_at), 'MMM d, yyyy h:mm a')}`} after
+              you started editing.
+              {clashes > 0
+                ? ` ${clashes} ${clashes === 1 ? 'field was' : 'fields were'} changed by both of you; pick which value to keep.`
+                : ' None of your changes clash, so merging keeps both.'}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Original</TableCell>
+                  <TableCell>Their version</TableCell>
+                  <TableCell>Your version</TableCell>
+                  <TableCell>Merge keeps</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {diffs.map(diff => (
+                  <TableRow key={diff.key} sx={diff.change === 'both' ? { bgcolor: 'action.hover' } : undefined}>
+                    <TableCell>{diff.label}</TableCell>
+                    <TableCell sx={{ color: 'text.secondary' }}>{diff.original}</TableCell>
+                    <TableCell sx={{ fontWeight: diff.change !== 'mine' ? 600 : undefined }}>{diff.theirs}</TableCell>
+                    <TableCell sx={{ fontWeight: diff.change !== 'theirs' ? 600 : undefined }}>{diff.mine}</TableCell>
+                    <TableCell>
+                      {diff.change === 'both' ? (
+                        <ToggleButtonGroup
+                          size="small"
+                          exclusive
+                          value={choices[diff.key] || 'mine'}
+                          onChange={(_, choice: FieldChoice | null) => {
+                            if (choice) setChoices(prev => ({ ...prev, [diff.key]: choice }));
+                          }}
+                        >
+                          <ToggleButton value="theirs">Theirs</ToggleButton>
+                          <ToggleButton value="mine">Mine</ToggleButton>
+                        </ToggleButtonGroup>
+                      ) : (
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          label={diff.change === 'mine' ? 'Mine' : 'Theirs'}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDiscard} disabled={saving} color="inherit">
+          {current ? 'Discard My Changes' : 'Close'}
+        </Button>
+        {current && (
+          <>
+            <Button onClick={handleOverwrite} disabled={saving} color="warning">
+              Overwrite With Mine
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleMerge}
+              disabled={saving}
+              startIcon={saving ? <CircularProgress size={16} /> : undefined}
+            >
+              Merge
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -9,12 +9,18 @@ import {
   LogOut,
   UserCircle,
   Search,
+  GraduationCap,
+  History,
+  Trash2,
+  ShieldCheck,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { ThemeToggle } from './ThemeToggle';
+import { NotificationsMenu } from './NotificationsMenu';
 import { useTheme } from '../contexts/ThemeContext';
 import { UserAvatar } from './UserAvatar';
+import { canViewAnalytics, canManageTrash, canViewAuditLog, canManageRoles, isGuest } from '../lib/permissions';
 
 interface LayoutProps {
   user: User | null;
@@ -147,7 +153,10 @@ export function Layout({ user: initialUser, children }: LayoutProps) {
           <div className="p-6 border-b dark:border-dark-border">
             <div className="flex justify-between items-center">
               <h1 className="text-xl font-bold text-gray-800 dark:text-white">Admin Panel</h1>
-              <ThemeToggle />
+              <div className="flex items-center">
+                <NotificationsMenu />
+                <ThemeToggle />
+              </div>
             </div>
             {/* User Profile Section */}
             <div className="mt-4 flex items-center space-x-3" onLoad={handleAvatarRender}>
@@ -170,13 +179,20 @@ export function Layout({ user: initialUser, children }: LayoutProps) {
             </div>
           </div>
           <nav className="flex-1 space-y-1 px-2 overflow-y-auto">
-            {[
+            {(isGuest(user) ? [
+              { icon: FolderKanban, label: 'Shared Projects', path: '/guest/projects' },
+              { icon: Settings, label: 'Settings', path: '/settings' },
+            ] : [
               { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
               { icon: Users, label: 'Users', path: '/users' },
               { icon: FolderKanban, label: 'Projects', path: '/projects' },
               { icon: Search, label: 'Deepsearch', path: '/deepsearch' },
+              ...(canViewAnalytics(user) ? [{ icon: GraduationCap, label: 'Skills', path: '/skills' }] : []),
+              ...(canViewAuditLog(user) ? [{ icon: History, label: 'Audit Log', path: '/admin/audit' }] : []),
+              ...(canManageRoles(user) ? [{ icon: ShieldCheck, label: 'Roles', path: '/admin/roles' }] : []),
+              ...(canManageTrash(user) ? [{ icon: Trash2, label: 'Trash', path: '/trash' }] : []),
               { icon: Settings, label: 'Settings', path: '/settings' },
-            ].map((item) => (
+            ]).map((item) => (
               <button
                 key={item.path}
                 onClick={() => navigate(item.path)}
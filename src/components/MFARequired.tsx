@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Shield } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { supabase } from '../lib/supabase';
+import { MFASetup } from './MFASetup';
+import { markMfaEnabled } from '../lib/services/stepUp';
+import type { User } from '../types/auth';
+
+interface MFARequiredProps {
+  user: User;
+  onEnrolled: () => void;
+}
+
+/**
+ * Shown instead of the app to admins and project managers without 2FA while
+ * the organization policy requires it
+ */
+export function MFARequired({ user, onEnrolled }: MFARequiredProps) {
+  const [showSetup, setShowSetup] = useState(false);
+
+  const handleComplete = async () => {
+    setShowSetup(false);
+    try {
+      await markMfaEnabled(user.id);
+    } catch (error) {
+      console.error('Error saving 2FA status:', error);
+    }
+    toast.success('Two-factor authentication is set up');
+    onEnrolled();
+  };
+
+  return (
+    <Box minHeight="100vh" display="flex" alignItems="center" justifyContent="center" p={3}>
+      <Paper sx={{ p: 4, maxWidth: 480, textAlign: 'center' }}>
+        <Shield size={48} style={{ marginBottom: 16 }} />
+        <Typography variant="h5" gutterBottom>
+          Two-factor authentication required
+        </Typography>
+        <Typography color="text.secondary" mb={3}>
+          Your organization requires admins and project managers to protect their accounts with an
+          authenticator app. Set it up to continue.
+        </Typography>
+        <Box display="flex" justifyContent="center" gap={2}>
+          <Button variant="outlined" onClick={() => supabase.auth.signOut()}>
+            Sign out
+          </Button>
+          <Button variant="contained" onClick={() => setShowSetup(true)}>
+            Set up 2FA
+          </Button>
+        </Box>
+      </Paper>
+
+      {showSetup && (
+        <MFASetup onClose={() => setShowSetup(false)} onComplete={handleComplete} />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Badge, Menu, MenuItem, Typography, Box, Button, Divider } from '@mui/material';
+import { formatDistanceToNow } from 'date-fns';
+import { useNotifications } from '../contexts/NotificationsContext';
+
+export function NotificationsMenu() {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const navigate = useNavigate();
+
+  const handleOpenNotification = async (id: string, link?: string) => {
+    await markAsRead(id);
+    setAnchorEl(null);
+    if (link) navigate(link);
+  };
+
+  return (
+    <>
+      <button
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        className="p-2 rounded-full transition-colors hover:bg-gray-100 dark:hover:bg-dark-surface"
+        aria-label="Notifications"
+      >
+        <Badge badgeContent={unreadCount} color="error" max={99}>
+          <Bell className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+        </Badge>
+      </button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        PaperProps={{ sx: { width: 360, maxHeight: 480 } }}
+      >
+        <Box display="flex" justifyContent="space-between" alignItems="center" px={2} py={1}>
+          <Typography variant="subtitle1">Notifications</Typography>
+          <Button size="small" onClick={markAllAsRead} disabled={unreadCount === 0}>
+            Mark all read
+          </Button>
+        </Box>
+        <Divider />
+        {notifications.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 2 }}>
+            No notifications yet
+          </Typography>
+        ) : (
+          notifications.map(notification => (
+            <MenuItem
+              key={notification.id}
+              onClick={() => handleOpenNotification(notification.id, notification.link)}
+              sx={{
+                whiteSpace: 'normal',
+                alignItems: 'flex-start',
+                flexDirection: 'column',
+                bgcolor: notification.read_at ? 'transparent' : 'action.hover'
+              }}
+            >
+              <Typography variant="body2" fontWeight={notification.read_at ? 400 : 600}>
+                {notification.title}
+              </Typography>
+              {notification.message && (
+                <Typography variant="caption" color="text.secondary">
+                  {notification.message}
+                </Typography>
+              )}
+              <Typography variant="caption" color="text.secondary">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </Typography>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { KeySquare } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { verifyOtp } from '../../lib/otpService';
+import { requestOtp, verifyOtp, OTP_TTL, OTP_RESEND_COOLDOWN } from '../../lib/otpService';
 
 interface OTPVerificationProps {
   email: string;
@@ -13,7 +13,9 @@ export function OTPVerification({ email, onVerified, onCancel }: OTPVerification
   const [loading, setLoading] = useState(false);
   const [otp, setOtp] = useState(['', '', '', '', '', '']);
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
-  const [timer, setTimer] = useState(300); // 5 minutes in seconds
+  const [timer, setTimer] = useState(OTP_TTL);
+  const [resendIn, setResendIn] = useState(OTP_RESEND_COOLDOWN);
+  const [resending, setResending] = useState(false);
 
   // Initialize input refs
   useEffect(() => {
@@ -24,15 +26,10 @@ export function OTPVerification({ email, onVerified, onCancel }: OTPVerification
       inputRefs.current[0].focus();
     }
     
-    // Start the countdown timer
+    // Start the countdown timers; a new code restarts them
     const interval = setInterval(() => {
-      setTimer((prevTimer) => {
-        if (prevTimer <= 1) {
-          clearInterval(interval);
-          return 0;
-        }
-        return prevTimer - 1;
-      });
+      setTimer((prevTimer) => Math.max(0, prevTimer - 1));
+      setResendIn((prevResendIn) => Math.max(0, prevResendIn - 1));
     }, 1000);
     
     return () => clearInterval(interval);
@@ -84,7 +81,7 @@ export function OTPVerification({ email, onVerified, onCancel }: OTPVerification
     setLoading(true);
     
     try {
-      const result = await verifyOtp(email, otpValue);
+      const result = await verifyOtp(otpValue);
       
       if (result.success) {
         toast.success('Verification successful');
@@ -102,8 +99,27 @@ export function OTPVerification({ email, onVerified, onCancel }: OTPVerification
     }
   };
   
-  const handleRequestNewCode = () => {
-    onCancel();
+  const handleRequestNewCode = async () => {
+    setResending(true);
+    
+    try {
+      const result = await requestOtp();
+      
+      if (result.success) {
+        toast.success('A new verification code has been sent');
+        setTimer(OTP_TTL);
+        setResendIn(OTP_RESEND_COOLDOWN);
+        setOtp(['', '', '', '', '', '']);
+        inputRefs.current[0]?.focus();
+      } else {
+        toast.error(result.message || 'Failed to send a new code');
+        if (result.retry_after) {
+          setResendIn(result.retry_after);
+        }
+      }
+    } finally {
+      setResending(false);
+    }
   };
   
   return (
@@ -161,14 +177,26 @@ export function OTPVerification({ email, onVerified, onCancel }: OTPVerification
             {loading ? 'Verifying...' : 'Verify & Continue'}
           </button>
           
-          <div className="text-center">
+          <div className="text-center space-y-2">
             <button
               type="button"
               onClick={handleRequestNewCode}
-              className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              disabled={resending || resendIn > 0}
+              className="text-sm text-blue-600 hover:text-blue-800 transition-colors disabled:text-gray-400"
             >
-              Didn't receive the code? Send again
+              {resendIn > 0
+                ? `Didn't receive the code? Send again in ${resendIn}s`
+                : "Didn't receive the code? Send again"}
             </button>
+            <div>
+              <button
+                type="button"
+                onClick={onCancel}
+                className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Back to sign in
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+import { fetchKnownSkillNames } from '../lib/services/skillsMatrix';
+
+interface RequiredSkillsFieldProps {
+  value: string[];
+  onChange: (skills: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tags a task or phase with the skills it needs, suggesting the names already
+ * on record so demand lines up with the skills matrix
+ */
+export function RequiredSkillsField({ value, onChange, disabled }: RequiredSkillsFieldProps) {
+  const [options, setOptions] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchKnownSkillNames()
+      .then(setOptions)
+      .catch(error => console.error('Error fetching skill names:', error));
+  }, []);
+
+  return (
+    <Autocomplete
+      multiple
+      freeSolo
+      options={options}
+      value={value}
+      onChange={(_, skills) => onChange(skills.map(skill => skill.trim()).filter(Boolean))}
+      disabled={disabled}
+      renderTags={(tags, getTagProps) =>
+        tags.map((option, index) => (
+          <Chip label={option} size="small" {...getTagProps({ index })} />
+        ))
+      }
+      renderInput={(params) => (
+        <TextField {...params} label="Required Skills" placeholder="Type a skill and press Enter" />
+      )}
+    />
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { LogOut, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { fetchUserSessions, revokeCurrentSession, revokeOtherSessions, revokeSession } from '../lib/services/sessions';
+import type { UserSession } from '../types/auth';
+
+interface SessionsListProps {
+  userId: string;
+  // Shows "Sign out other devices"; only makes sense for the signed-in user
+  isOwnAccount?: boolean;
+}
+
+function DeviceIcon({ device }: { device: string | null }) {
+  if (device && /iPhone|phone/i.test(device)) return <Smartphone size={20} />;
+  if (device && /iPad|tablet/i.test(device)) return <Tablet size={20} />;
+  return <Monitor size={20} />;
+}
+
+/**
+ * Signed-in devices for a user with device, browser, approximate location
+ * and activity, each of which can be signed out on its own
+ */
+export function SessionsList({ userId, isOwnAccount = false }: SessionsListProps) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState(false);
+  const [sessionToRevoke, setSessionToRevoke] = useState<UserSession | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [userId]);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      setSessions(await fetchUserSessions(userId));
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Error loading sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!sessionToRevoke) return;
+
+    try {
+      setRevoking(true);
+      if (sessionToRevoke.is_current) {
+        await revokeCurrentSession();
+        return;
+      }
+      await revokeSession(sessionToRevoke.id);
+      toast.success('Session signed out');
+      setSessionToRevoke(null);
+      await fetchSessions();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast.error('Error signing out session');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setRevoking(true);
+      await revokeOtherSessions();
+      toast.success('Signed out of all other devices');
+      await fetchSessions();
+    } catch (error) {
+      console.error('Error revoking other sessions:', error);
+      toast.error('Error signing out other devices');
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  if (loading) {
+    return <CircularProgress size={24} />;
+  }
+
+  if (sessions.length === 0) {
+    return <Typography variant="body2">No active sessions</Typography>;
+  }
+
+  const otherSessions = sessions.filter(session => !session.is_current);
+
+  return (
+    <Box>
+      <List disablePadding>
+        {sessions.map(session => (
+          <ListItem
+            key={session.id}
+            divider
+            sx={{ px: 0, py: 1.5 }}
+            secondaryAction={
+              <Tooltip title={session.is_current ? 'Sign out of this device' : 'Sign out this session'}>
+                <IconButton
+                  edge="end"
+                  color="error"
+                  onClick={() => setSessionToRevoke(session)}
+                  disabled={revoking}
+                >
+                  <LogOut size={18} />
+                </IconButton>
+              </Tooltip>
+            }
+          >
+            <ListItemIcon sx={{ minWidth: 40 }}>
+              <DeviceIcon device={session.device} />
+            </ListItemIcon>
+            <ListItemText
+              primary={
+                <Box display="flex" alignItems="center" gap={1}>
+                  <Typography variant="subtitle2">
+                    {session.browser && session.device
+                      ? `${session.browser} on ${session.device}`
+                      : session.user_agent || 'Unknown device'}
+                  </Typography>
+                  {session.is_current && <Chip label="This device" size="small" color="primary" />}
+                </Box>
+              }
+              secondary={
+                <>
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    {session.location || 'Unknown location'}
+                    {session.ip_address && ` • ${session.ip_address}`}
+                  </Typography>
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    Active {formatDistanceToNow(new Date(session.last_active_at), { addSuffix: true })}
+                    {' • '}Signed in {format(new Date(session.first_seen_at), 'MMM d, yyyy HH:mm')}
+                  </Typography>
+                </>
+              }
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      {isOwnAccount && otherSessions.length > 0 && (
+        <Button
+          variant="outlined"
+          color="error"
+          startIcon={<LogOut size={16} />}
+          onClick={handleRevokeOthers}
+          disabled={revoking}
+          sx={{ mt: 2 }}
+        >
+          Sign Out Other Devices
+        </Button>
+      )}
+
+      <Dialog open={!!sessionToRevoke} onClose={() => setSessionToRevoke(null)}>
+        <DialogTitle>Sign out session?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {sessionToRevoke?.is_current
+              ? 'You will need to sign in again on this device.'
+              : 'The device will need to sign in again. It may keep access for up to an hour until its current token expires.'}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSessionToRevoke(null)} disabled={revoking}>
+            Cancel
+          </Button>
+          <Button onClick={handleRevoke} color="error" variant="contained" disabled={revoking}>
+            {revoking ? 'Signing out...' : 'Sign out'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
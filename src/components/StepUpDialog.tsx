@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { fetchTotpFactorId, verifyStepUpBackupCode, verifyStepUpTotp } from '../lib/services/stepUp';
+
+interface StepUpDialogProps {
+  open: boolean;
+  action: string; // completes "Enter a code to ..."
+  onVerified: (backupCodeVerifiedAt?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for an authenticator code, or a backup code, before a sensitive action
+ */
+export function StepUpDialog({ open, action, onVerified, onCancel }: StepUpDialogProps) {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [loadingFactor, setLoadingFactor] = useState(true);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setCode('');
+      setError(null);
+      loadFactor();
+    }
+  }, [open]);
+
+  const loadFactor = async () => {
+    try {
+      setLoadingFactor(true);
+      const id = await fetchTotpFactorId();
+      setFactorId(id);
+      setUseBackupCode(!id);
+    } catch (error) {
+      console.error('Error loading 2FA factors:', error);
+      setError('Could not load your two-factor settings');
+    } finally {
+      setLoadingFactor(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      setError(null);
+
+      if (useBackupCode) {
+        const verifiedAt = await verifyStepUpBackupCode(code);
+        if (!verifiedAt) {
+          setError('That backup code is not valid or has already been used');
+          return;
+        }
+        onVerified(verifiedAt);
+      } else if (factorId) {
+        await verifyStepUpTotp(factorId, code);
+        onVerified();
+      }
+    } catch (error: any) {
+      console.error('Error verifying 2FA code:', error);
+      setError(error.message || 'Invalid code');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const codeComplete = useBackupCode ? code.trim().length === 8 : code.length === 6;
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        <Box display="flex" alignItems="center" gap={1.5}>
+          <ShieldCheck size={22} />
+          Confirm it's you
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {loadingFactor ? (
+          <Box display="flex" justifyContent="center" py={2}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <>
+            {!factorId && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                This action requires two-factor authentication. Set up an authenticator app in Settings, or
+                enter one of your backup codes.
+              </Alert>
+            )}
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              {useBackupCode
+                ? `Enter one of your backup codes to ${action}. Each code works only once.`
+                : `Enter the 6-digit code from your authenticator app to ${action}.`}
+            </Typography>
+            <TextField
+              autoFocus
+              fullWidth
+              label={useBackupCode ? 'Backup code' : 'Authentication code'}
+              value={code}
+              onChange={(e) => setCode(useBackupCode
+                ? e.target.value.toUpperCase().slice(0, 8)
+                : e.target.value.replace(/\D/g, '').slice(0, 6))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && codeComplete && !verifying) handleVerify();
+              }}
+              inputProps={{ inputMode: useBackupCode ? 'text' : 'numeric', autoComplete: 'one-time-code' }}
+            />
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>
+            )}
+            {factorId && (
+              <Link
+                component="button"
+                variant="body2"
+                onClick={() => {
+                  setUseBackupCode(!useBackupCode);
+                  setCode('');
+                  setError(null);
+                }}
+                sx={{ mt: 2 }}
+              >
+                {useBackupCode ? 'Use your authenticator app instead' : 'Use a backup code instead'}
+              </Link>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={verifying}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleVerify}
+          disabled={loadingFactor || verifying || !codeComplete}
+        >
+          {verifying ? 'Verifying...' : 'Verify'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -1,13 +1,21 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Plus, Edit2, Trash2, Filter, Search, X, SlidersHorizontal, Grid as GridIcon, List, Archive, RefreshCw } from 'lucide-react';
+import { Plus, Edit2, Trash2, Filter, Search, X, SlidersHorizontal, Grid as GridIcon, List, Archive, RefreshCw, Copy, BookmarkPlus } from 'lucide-react';
 import { supabase, debugSession } from '../../lib/supabase';
 import type { Project, ProjectStatus, ProjectFormData, ProjectMember } from '../../types/project';
 import type { User } from '../../types/auth';
 import { useAuth } from '../../contexts/auth/AuthContext';
+import { canDeleteProjects } from '../../lib/permissions';
 import { ProjectCard } from '../project/ProjectCard';
 import { NewProjectModal } from '../project/NewProjectModal';
+import type { ProjectCloneOptions } from '../project/NewProjectModal';
 import { DeleteProjectModal } from '../project/DeleteProjectModal';
 import { toast } from 'react-hot-toast';
+import { cloneProjectContent } from '../../lib/services/projectCloning';
+import { trashProject } from '../../lib/services/trash';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { updateIfUnchanged, VersionConflictError } from '../../lib/services/concurrency';
+import { conflictFromError, projectConflictFields } from '../../lib/editConflicts';
+import type { EditConflict } from '../../lib/editConflicts';
 import {
   Box,
   Typography,
@@ -41,7 +49,7 @@ import {
 
 type SortField = 'name' | 'status' | 'start_date' | 'created_at';
 type SortDirection = 'asc' | 'desc';
-type ViewType = 'active' | 'archived';
+type ViewType = 'active' | 'archived' | 'templates';
 
 export function ProjectsPage() {
   const { user: currentUser, session } = useAuth();
@@ -71,6 +79,10 @@ export function ProjectsPage() {
     budget: null,
     progress: 0
   });
+  const [cloneOptions, setCloneOptions] = useState<ProjectCloneOptions>({ sourceProjectId: '', documentIds: [] });
+  const [savingAsTemplate, setSavingAsTemplate] = useState(false);
+  const [conflict, setConflict] = useState<EditConflict<Project> | null>(null);
+  const [savingConflict, setSavingConflict] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
@@ -199,8 +211,13 @@ export function ProjectsPage() {
   const filteredAndSortedProjects = useMemo(() => {
     return projects
       .filter(project => {
-        // Filter by active/archived status first
+        // Filter by active/archived status first; templates only show in their own view
         const isArchived = project.status === 'archived';
+        if (viewType === 'templates') {
+          if (!project.is_template) return false;
+        } else if (project.is_template) {
+          return false;
+        }
         if (viewType === 'active' && isArchived) return false;
         if (viewType === 'archived' && !isArchived) return false;
 
@@ -278,12 +295,76 @@ export function ProjectsPage() {
         progress: 0
       });
     }
+    setCloneOptions({ sourceProjectId: '', documentIds: [] });
+    setSavingAsTemplate(false);
+    setShowNewProjectModal(true);
+  };
+
+  // Opens the new project dialog pre-filled from an existing project or template
+  const handleCopyProject = (project: Project, asTemplate: boolean) => {
+    setSelectedProject(null);
+    setFormData({
+      name: asTemplate ? `${project.name} Template` : project.is_template ? '' : `Copy of ${project.name}`,
+      description: project.description,
+      start_date: asTemplate ? project.start_date.slice(0, 10) : new Date().toISOString().slice(0, 10),
+      end_date: '',
+      status: 'planning',
+      owner_id: null,
+      manager_id: asTemplate ? null : project.manager_id,
+      budget: project.budget,
+      progress: 0
+    });
+    setCloneOptions({ sourceProjectId: project.id, documentIds: [] });
+    setSavingAsTemplate(asTemplate);
     setShowNewProjectModal(true);
   };
 
   const handleCloseDialog = () => {
     setShowNewProjectModal(false);
     setSelectedProject(null);
+    setSavingAsTemplate(false);
+    setCloneOptions({ sourceProjectId: '', documentIds: [] });
+  };
+
+  // Writes only if the project is still at `version`; a clash opens the
+  // conflict dialog and returns false
+  const saveProjectEdit = async (updates: Partial<Project>, base: Project, version: string) => {
+    try {
+      await updateIfUnchanged<Project>('projects', base.id, updates, version);
+      return true;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, base, updates));
+        // Refresh the list behind the dialog so it shows the saved version
+        fetchProjects();
+        return false;
+      }
+      console.error('Error updating project:', error);
+      throw error;
+    }
+  };
+
+  const handleResolveConflict = async (updates: Partial<Project>) => {
+    if (!conflict?.current) return;
+
+    setSavingConflict(true);
+    try {
+      if (await saveProjectEdit(updates, conflict.current, conflict.current.updated_at)) {
+        toast.success('Project updated successfully');
+        setConflict(null);
+        handleCloseDialog();
+        fetchProjects();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error updating project');
+    } finally {
+      setSavingConflict(false);
+    }
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    handleCloseDialog();
   };
 
   const handleSubmit = async () => {
@@ -327,30 +408,23 @@ export function ProjectsPage() {
 
       if (selectedProject) {
         // Update existing project
-        const { error } = await supabase
-          .from('projects')
-          .update({
-            name: formData.name,
-            description: formData.description,
-            start_date: formData.start_date,
-            end_date: formData.end_date || null,
-            status: formData.status,
-            owner_id: formData.owner_id || currentUser.id,
-            manager_id: formData.manager_id,
-            budget: formData.budget,
-            progress: formData.progress,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', selectedProject.id);
+        const saved = await saveProjectEdit({
+          name: formData.name,
+          description: formData.description,
+          start_date: formData.start_date,
+          end_date: formData.end_date || null,
+          status: formData.status,
+          owner_id: formData.owner_id || currentUser.id,
+          manager_id: formData.manager_id,
+          budget: formData.budget,
+          progress: formData.progress,
+        } as Partial<Project>, selectedProject, selectedProject.updated_at);
 
-        if (error) {
-          console.error('Error updating project:', error);
-          throw error;
-        }
+        if (!saved) return;
         toast.success('Project updated successfully');
       } else {
         // Create new project
-        const { error } = await supabase
+        const { data: newProject, error } = await supabase
           .from('projects')
           .insert({
             name: formData.name,
@@ -362,16 +436,40 @@ export function ProjectsPage() {
             manager_id: formData.manager_id,
             budget: formData.budget,
             progress: formData.progress,
+            is_template: savingAsTemplate,
+            source_project_id: cloneOptions.sourceProjectId || null,
             created_by: currentUser.id,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
-          });
+          })
+          .select('id')
+          .single();
 
         if (error) {
           console.error('Error creating project:', error);
           throw error;
         }
-        toast.success('Project created successfully');
+
+        if (cloneOptions.sourceProjectId) {
+          try {
+            const copied = await cloneProjectContent({
+              sourceProjectId: cloneOptions.sourceProjectId,
+              targetProjectId: newProject.id,
+              startDate: formData.start_date,
+              userId: currentUser.id,
+              documentIds: cloneOptions.documentIds
+            });
+            toast.success(
+              `${savingAsTemplate ? 'Template saved' : 'Project created'} with ${copied.phases} phases and ${copied.tasks} tasks`
+            );
+          } catch (cloneError: any) {
+            // The project itself exists at this point, so keep it and report what failed
+            console.error('Error copying project content:', cloneError);
+            toast.error('Project created, but copying its content failed: ' + (cloneError.message || 'Unknown error'));
+          }
+        } else {
+          toast.success('Project created successfully');
+        }
       }
 
       handleCloseDialog();
@@ -384,13 +482,8 @@ export function ProjectsPage() {
 
   const handleDelete = async (projectId: string) => {
     try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', projectId);
-
-      if (error) throw error;
-      toast.success('Project deleted successfully');
+      await trashProject(projectId);
+      toast.success('Project moved to trash');
       fetchProjects();
       setShowDeleteModal(false);
     } catch (error: any) {
@@ -399,6 +492,9 @@ export function ProjectsPage() {
     }
   };
 
+  const canDeleteProject = (project: Project) =>
+    !!currentUser && canDeleteProjects(currentUser, project.id, project.owner_id);
+
   const handleArchiveProject = async (project: Project) => {
     // If project is not completed, show confirmation dialog
     if (project.status !== 'completed' && project.status !== 'archived') {
@@ -490,7 +586,7 @@ export function ProjectsPage() {
         <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
           <Box>
             <Typography variant="h4" fontWeight="bold" color="white">
-              {viewType === 'active' ? 'Projects' : 'Archived Projects'}
+              {viewType === 'active' ? 'Projects' : viewType === 'archived' ? 'Archived Projects' : 'Project Templates'}
             </Typography>
             <FormControlLabel
               control={
@@ -514,6 +610,28 @@ export function ProjectsPage() {
                 </Typography>
               }
             />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={viewType === 'templates'}
+                  onChange={() => setViewType(viewType === 'templates' ? 'active' : 'templates')}
+                  color="default"
+                  sx={{
+                    '& .MuiSwitch-switchBase.Mui-checked': {
+                      color: '#ffffff',
+                    },
+                    '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.5)',
+                    },
+                  }}
+                />
+              }
+              label={
+                <Typography variant="body2" color="white" sx={{ opacity: 0.9 }}>
+                  Show templates
+                </Typography>
+              }
+            />
           </Box>
           
           {viewType === 'active' && (
@@ -542,7 +660,9 @@ export function ProjectsPage() {
         <Typography variant="body1" color="white" sx={{ opacity: 0.9 }} mb={2}>
           {viewType === 'active' 
             ? 'Manage and track all your organization\'s active projects in one place.'
-            : 'View and manage your archived projects. You can restore projects if needed.'
+            : viewType === 'archived'
+              ? 'View and manage your archived projects. You can restore projects if needed.'
+              : 'Reusable project blueprints. Start a new project from a template to copy its phases, tasks and knowledge base.'
           }
         </Typography>
       </Paper>
@@ -765,11 +885,13 @@ export function ProjectsPage() {
                     project={project}
                     isAdmin={currentUser?.role === 'admin'}
                     onEdit={handleOpenDialog}
-                    onDelete={(id) => {
+                    onDelete={canDeleteProject(project) ? () => {
                       setSelectedProject(project);
                       setShowDeleteModal(true);
-                    }}
-                    onArchive={() => handleArchiveProject(project)}
+                    } : undefined}
+                    onArchive={project.is_template ? undefined : () => handleArchiveProject(project)}
+                    onDuplicate={(source) => handleCopyProject(source, false)}
+                    onSaveAsTemplate={project.is_template ? undefined : (source) => handleCopyProject(source, true)}
                     isArchived={project.status === 'archived'}
                   />
                 </Grid>
@@ -845,6 +967,32 @@ export function ProjectsPage() {
                         <Box display="flex" alignItems="center" gap={1}>
                           {currentUser?.role === 'admin' && (
                             <>
+                              <Tooltip title={project.is_template ? 'Use template' : 'Duplicate'}>
+                                <IconButton
+                                  size="small"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleCopyProject(project, false);
+                                  }}
+                                >
+                                  <Copy className="h-4 w-4" />
+                                </IconButton>
+                              </Tooltip>
+
+                              {!project.is_template && (
+                                <Tooltip title="Save as template">
+                                  <IconButton
+                                    size="small"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleCopyProject(project, true);
+                                    }}
+                                  >
+                                    <BookmarkPlus className="h-4 w-4" />
+                                  </IconButton>
+                                </Tooltip>
+                              )}
+
                               <Tooltip title={project.status === 'archived' ? "Unarchive" : "Archive"}>
                                 <IconButton 
                                   size="small" 
@@ -872,17 +1020,19 @@ export function ProjectsPage() {
                                 <Edit2 className="h-4 w-4" />
                               </IconButton>
                               
-                              <IconButton 
-                                size="small" 
-                                color="error"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setSelectedProject(project);
-                                  setShowDeleteModal(true);
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </IconButton>
+                              {canDeleteProject(project) && (
+                                <IconButton 
+                                  size="small" 
+                                  color="error"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setSelectedProject(project);
+                                    setShowDeleteModal(true);
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </IconButton>
+                              )}
                             </>
                           )}
                         </Box>
@@ -907,14 +1057,16 @@ export function ProjectsPage() {
           }}
         >
           <Typography variant="h6" color="text.secondary" gutterBottom>
-            {viewType === 'active' ? 'No projects found' : 'No archived projects found'}
+            {viewType === 'active' ? 'No projects found' : viewType === 'archived' ? 'No archived projects found' : 'No project templates yet'}
           </Typography>
           <Typography variant="body2" color="text.secondary" paragraph>
             {searchQuery || statusFilter !== 'all' || dateFilter !== 'all' 
               ? 'Try adjusting your filters to see more results' 
               : viewType === 'active' 
                 ? 'Create your first project to get started'
-                : 'You have not archived any projects yet.'
+                : viewType === 'archived'
+                  ? 'You have not archived any projects yet.'
+                  : 'Save any project as a template to reuse its structure.'
             }
           </Typography>
           {!(searchQuery || statusFilter !== 'all' || dateFilter !== 'all') && viewType === 'active' && (
@@ -945,10 +1097,23 @@ export function ProjectsPage() {
           formData={formData}
           setFormData={setFormData}
           projectManagers={projectManagers}
+          sourceProjects={projects}
+          cloneOptions={cloneOptions}
+          setCloneOptions={setCloneOptions}
+          isTemplate={savingAsTemplate}
         />
       )}
 
-      {showDeleteModal && selectedProject && (
+      <ConflictResolutionDialog
+        conflict={conflict}
+        entityName="project"
+        fields={projectConflictFields([...projectManagers, ...(currentUser ? [currentUser] : [])])}
+        saving={savingConflict}
+        onSave={handleResolveConflict}
+        onDiscard={handleDiscardConflict}
+      />
+
+      {showDeleteModal && selectedProject && canDeleteProject(selectedProject) && (
         <DeleteProjectModal
           projectId={selectedProject.id}
           projectName={selectedProject.name}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import type { AIAnalysisVersion } from '../../types/aiAnalysis';
+import { getStaleReason } from '../../lib/services/aiAnalysisCache';
+
+interface AIAnalysisCompareDialogProps<T> {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  versions: AIAnalysisVersion<T>[]; // newest first
+  currentInputHash?: string;
+  renderVersion: (data: T) => ReactNode;
+}
+
+export function AIAnalysisCompareDialog<T>({
+  open,
+  onClose,
+  title,
+  versions,
+  currentInputHash,
+  renderVersion,
+}: AIAnalysisCompareDialogProps<T>) {
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+
+  // Default to the previous generation on the left and the latest on the right
+  useEffect(() => {
+    if (open) {
+      setLeftId(versions[1]?.id || '');
+      setRightId(versions[0]?.id || '');
+    }
+  }, [open, versions]);
+
+  const renderColumn = (versionId: string, onSelect: (id: string) => void, label: string) => {
+    const version = versions.find(v => v.id === versionId);
+
+    return (
+      <Grid item xs={12} md={6}>
+        <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+          <InputLabel>{label}</InputLabel>
+          <Select value={versionId} onChange={(e) => onSelect(e.target.value)} label={label}>
+            {versions.map(v => (
+              <MenuItem key={v.id} value={v.id}>
+                Version {v.version} · {format(new Date(v.created_at), 'MMM d, yyyy HH:mm')}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {version && (
+          <Paper variant="outlined" sx={{ p: 2 }}>
+            <Box display="flex" alignItems="center" gap={1} mb={1.5}>
+              <Typography variant="caption" color="text.secondary">
+                {version.creator ? `Generated by ${version.creator.full_name}` : 'Generated'}
+              </Typography>
+              {getStaleReason(version, currentInputHash) === 'inputs_changed' && (
+                <Chip label="Inputs changed since" size="small" color="warning" variant="outlined" />
+              )}
+            </Box>
+            {renderVersion(version.analysis_data)}
+          </Paper>
+        )}
+      </Grid>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          {renderColumn(leftId, setLeftId, 'Compare')}
+          {renderColumn(rightId, setRightId, 'With')}
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
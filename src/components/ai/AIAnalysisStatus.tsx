@@ -0,0 +1,68 @@
+import { Box, Button, Chip, Typography } from '@mui/material';
+import { GitCompare, RefreshCw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { AIAnalysisStaleReason, AIAnalysisVersion } from '../../types/aiAnalysis';
+
+interface AIAnalysisStatusProps {
+  version: AIAnalysisVersion | null;
+  staleReason: AIAnalysisStaleReason | null;
+  versionCount: number;
+  onRegenerate: () => void;
+  onCompare: () => void;
+  regenerating?: boolean;
+}
+
+const STALE_LABELS: Record<AIAnalysisStaleReason, string> = {
+  inputs_changed: 'Inputs changed since',
+  expired: 'Expired',
+};
+
+export function AIAnalysisStatus({
+  version,
+  staleReason,
+  versionCount,
+  onRegenerate,
+  onCompare,
+  regenerating = false,
+}: AIAnalysisStatusProps) {
+  if (!version) return null;
+
+  return (
+    <Box
+      display="flex"
+      alignItems="center"
+      justifyContent="space-between"
+      gap={1}
+      flexWrap="wrap"
+      sx={{ px: 1.5, py: 1, mb: 2, borderRadius: 1, bgcolor: 'action.hover' }}
+    >
+      <Box display="flex" alignItems="center" gap={1}>
+        <Typography variant="body2" color="text.secondary">
+          Version {version.version} · generated {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+          {version.creator && ` by ${version.creator.full_name}`}
+        </Typography>
+        {staleReason && (
+          <Chip label={STALE_LABELS[staleReason]} size="small" color="warning" variant="outlined" />
+        )}
+      </Box>
+      <Box display="flex" gap={1}>
+        <Button
+          size="small"
+          startIcon={<GitCompare size={14} />}
+          onClick={onCompare}
+          disabled={versionCount < 2}
+        >
+          Compare versions
+        </Button>
+        <Button
+          size="small"
+          startIcon={<RefreshCw size={14} />}
+          onClick={onRegenerate}
+          disabled={regenerating}
+        >
+          Regenerate
+        </Button>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Collapse, Typography } from '@mui/material';
+import type { RejectedSuggestion } from '../../types/aiAnalysis';
+
+interface RejectedSuggestionsProps {
+  rejected: RejectedSuggestion[];
+}
+
+export function RejectedSuggestions({ rejected }: RejectedSuggestionsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (rejected.length === 0) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ mb: 2 }}
+      action={
+        <Button color="inherit" size="small" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Hide' : 'Details'}
+        </Button>
+      }
+    >
+      {rejected.length} {rejected.length === 1 ? 'suggestion was' : 'suggestions were'} dropped because they failed validation.
+      <Collapse in={expanded}>
+        {rejected.map(suggestion => (
+          <Box key={suggestion.index} mt={1}>
+            <Typography variant="body2" fontWeight={600}>
+              {suggestion.label}
+            </Typography>
+            {suggestion.issues.map((issue, index) => (
+              <Typography key={index} variant="body2">
+                {issue.field}: {issue.message}
+              </Typography>
+            ))}
+          </Box>
+        ))}
+      </Collapse>
+    </Alert>
+  );
+}
@@ -15,12 +15,21 @@ import {
   IconButton,
   Box,
   Grid,
+  Tabs,
+  Tab,
 } from '@mui/material';
+import { RequiredSkillsField } from '../RequiredSkillsField';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { VersionConflictError } from '../../lib/services/concurrency';
+import { conflictFromError, PHASE_CONFLICT_FIELDS } from '../../lib/editConflicts';
+import type { EditConflict } from '../../lib/editConflicts';
+import { AuditHistory } from '../AuditHistory';
 
 interface EditPhaseModalProps {
   phase: Phase;
   onClose: () => void;
-  onSave: (updates: Partial<Phase>) => Promise<void>;
+  // Saves against the given version, throwing VersionConflictError if it has moved on
+  onSave: (updates: Partial<Phase>, expectedUpdatedAt?: string) => Promise<void>;
 }
 
 export function EditPhaseModal({ phase, onClose, onSave }: EditPhaseModalProps) {
@@ -32,7 +41,11 @@ export function EditPhaseModal({ phase, onClose, onSave }: EditPhaseModalProps)
     sequence_order: phase.sequence_order,
     start_date: phase.start_date ? new Date(phase.start_date).toISOString().split('T')[0] : '',
     end_date: phase.end_date ? new Date(phase.end_date).toISOString().split('T')[0] : '',
+    required_skills: phase.required_skills || [],
   });
+  const [conflict, setConflict] = useState<EditConflict<Phase> | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const [tab, setTab] = useState(0);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,26 +54,57 @@ export function EditPhaseModal({ phase, onClose, onSave }: EditPhaseModalProps)
       return;
     }
 
+    const updates: Partial<Phase> = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      status: formData.status as PhaseStatus,
+      sequence_order: formData.sequence_order,
+      start_date: formData.start_date || null,
+      end_date: formData.end_date || null,
+      required_skills: formData.required_skills,
+    };
+
     setLoading(true);
     try {
-      await onSave({
-        name: formData.name.trim(),
-        description: formData.description.trim() || null,
-        status: formData.status as PhaseStatus,
-        sequence_order: formData.sequence_order,
-        start_date: formData.start_date || null,
-        end_date: formData.end_date || null,
-        updated_at: new Date().toISOString(),
-      });
+      await onSave(updates, phase.updated_at);
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, phase, updates));
+        return;
+      }
       console.error('Error updating phase:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleResolveConflict = async (updates: Partial<Phase>) => {
+    if (!conflict?.current) return;
+    const current = conflict.current;
+    setResolvingConflict(true);
+    try {
+      await onSave(updates, current.updated_at);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, current, updates));
+        return;
+      }
+      console.error('Error updating phase:', error);
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
   return (
     <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <ConflictResolutionDialog
+        conflict={conflict}
+        entityName="phase"
+        fields={PHASE_CONFLICT_FIELDS}
+        saving={resolvingConflict}
+        onSave={handleResolveConflict}
+        onDiscard={onClose}
+      />
       <DialogTitle>
         <Box display="flex" justifyContent="space-between" alignItems="center">
           Edit Phase
@@ -69,9 +113,15 @@ export function EditPhaseModal({ phase, onClose, onSave }: EditPhaseModalProps)
           </IconButton>
         </Box>
       </DialogTitle>
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', px: 3 }}>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)}>
+          <Tab label="Details" />
+          <Tab label="History" />
+        </Tabs>
+      </Box>
 
       <form onSubmit={handleSubmit}>
-        <DialogContent>
+        <DialogContent sx={{ display: tab === 0 ? undefined : 'none' }}>
           <Grid container spacing={2}>
             <Grid item xs={12}>
               <TextField
@@ -148,9 +198,22 @@ export function EditPhaseModal({ phase, onClose, onSave }: EditPhaseModalProps)
                 }}
               />
             </Grid>
+
+            <Grid item xs={12}>
+              <RequiredSkillsField
+                value={formData.required_skills}
+                onChange={(skills) => setFormData({ ...formData, required_skills: skills })}
+              />
+            </Grid>
           </Grid>
         </DialogContent>
 
+        {tab === 1 && (
+          <DialogContent>
+            <AuditHistory tables={['project_phases']} recordId={phase.id} />
+          </DialogContent>
+        )}
+
         <DialogActions>
           <Button onClick={onClose} color="inherit">
             Cancel
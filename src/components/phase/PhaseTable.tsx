@@ -5,6 +5,7 @@ import type { User } from '../../types/auth';
 import { supabase } from '../../../lib/supabase';
 import { toast } from 'react-hot-toast';
 import { format } from 'date-fns';
+import { trashPhase, TRASH_RETENTION_DAYS } from '../../lib/services/trash';
 import {
   Table,
   TableBody,
@@ -36,7 +37,7 @@ import { logActivity } from '../../lib/services/activityLogger';
 
 interface PhaseTableProps {
   phases: Phase[];
-  onUpdatePhase: (phaseId: string, updates: Partial<Phase>) => Promise<void>;
+  onUpdatePhase: (phaseId: string, updates: Partial<Phase>, expectedUpdatedAt?: string) => Promise<void>;
   currentUser: User;
   canManagePhases: boolean;
 }
@@ -68,36 +69,22 @@ export function PhaseTable({ phases, onUpdatePhase, currentUser, canManagePhases
 
       if (tasksError) throw tasksError;
 
+      const taskCount = tasksData?.length || 0;
+
       // If there are tasks associated with this phase, ask for confirmation
-      if (tasksData && tasksData.length > 0) {
+      if (taskCount > 0) {
         const isConfirmed = window.confirm(
-          `This phase has ${tasksData.length} associated tasks. Deleting this phase will also delete all associated tasks. Are you sure you want to continue?`
+          `This phase has ${taskCount} associated tasks. Deleting this phase will move them to the trash with it, where they can be restored for ${TRASH_RETENTION_DAYS} days. Are you sure you want to continue?`
         );
         
         if (!isConfirmed) {
           return;
         }
-        
-        // Delete all tasks associated with this phase
-        const { error: deleteTasksError } = await supabase
-          .from('tasks')
-          .delete()
-          .eq('phase_id', phase.id);
-          
-        if (deleteTasksError) throw deleteTasksError;
-        
-        toast.success(`Deleted ${tasksData.length} tasks associated with this phase`);
       }
 
-      // Proceed with phase deletion
-      const { error } = await supabase
-        .from('project_phases')
-        .delete()
-        .eq('id', phase.id);
-
-      if (error) throw error;
+      await trashPhase(phase.id);
 
-      toast.success('Phase deleted successfully');
+      toast.success(taskCount > 0 ? `Phase and ${taskCount} tasks moved to trash` : 'Phase moved to trash');
       
       // Emit a custom event instead of reloading the page
       const phaseDeletedEvent = new CustomEvent('phase-deleted', {
@@ -336,8 +323,8 @@ export function PhaseTable({ phases, onUpdatePhase, currentUser, canManagePhases
         <EditPhaseModal
           phase={selectedPhase}
           onClose={() => setIsEditModalOpen(false)}
-          onSave={async (updates) => {
-            await onUpdatePhase(selectedPhase.id, updates);
+          onSave={async (updates, expectedUpdatedAt) => {
+            await onUpdatePhase(selectedPhase.id, updates, expectedUpdatedAt);
             setIsEditModalOpen(false);
           }}
         />
@@ -0,0 +1,462 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Box, Typography, Paper, Tooltip, Chip, Button } from '@mui/material';
+import { AlertTriangle } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay, isWeekend } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import type { Phase } from '../../types/phase';
+import type { Task, TaskDependency } from '../../types/task';
+import { fetchProjectDependencies } from '../../lib/services/taskDependencies';
+
+interface PhaseTimelineProps {
+  projectId: string;
+  phases: Phase[];
+  tasks: Task[];
+  canManage: boolean;
+  onUpdatePhase: (phaseId: string, updates: Partial<Phase>) => Promise<void>;
+  onUpdateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
+}
+
+type Zoom = 'day' | 'week';
+
+const DAY_WIDTHS: Record<Zoom, number> = { day: 32, week: 12 };
+const LABEL_WIDTH = 220;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+// Hours of estimated work that make up one day on the timeline
+const HOURS_PER_DAY = 8;
+
+interface TimelineRow {
+  key: string;
+  kind: 'phase' | 'task';
+  label: string;
+  start: Date | null;
+  end: Date | null;
+  overdue: boolean;
+  completed: boolean;
+  phase?: Phase;
+  task?: Task;
+}
+
+interface DragState {
+  row: TimelineRow;
+  originX: number;
+  deltaDays: number;
+}
+
+/**
+ * Tasks only carry a due date, so a bar ends on the due date and stretches
+ * back by the estimated effort (at least one day).
+ */
+const getTaskSpan = (task: Task): { start: Date; end: Date } | null => {
+  if (!task.due_date) return null;
+  const end = startOfDay(new Date(task.due_date));
+  const days = Math.max(1, Math.ceil((task.estimated_hours || 0) / HOURS_PER_DAY));
+  return { start: addDays(end, -(days - 1)), end };
+};
+
+const getPhaseSpan = (phase: Phase): { start: Date; end: Date } | null => {
+  if (!phase.start_date && !phase.end_date) return null;
+  const start = startOfDay(parseISO((phase.start_date || phase.end_date)!));
+  const end = startOfDay(parseISO((phase.end_date || phase.start_date)!));
+  return { start, end: end < start ? start : end };
+};
+
+export function PhaseTimeline({
+  projectId,
+  phases,
+  tasks,
+  canManage,
+  onUpdatePhase,
+  onUpdateTask,
+}: PhaseTimelineProps) {
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const dayWidth = DAY_WIDTHS[zoom];
+  const today = useMemo(() => startOfDay(new Date()), []);
+
+  useEffect(() => {
+    const loadDependencies = async () => {
+      try {
+        setDependencies(await fetchProjectDependencies(projectId));
+      } catch (error) {
+        console.error('Error fetching task dependencies:', error);
+      }
+    };
+
+    loadDependencies();
+  }, [projectId]);
+
+  const rows = useMemo(() => {
+    const result: TimelineRow[] = [];
+
+    const pushTasks = (laneTasks: Task[]) => {
+      laneTasks
+        .map(task => ({ task, span: getTaskSpan(task) }))
+        .filter(({ span }) => span !== null)
+        .sort((a, b) => a.span!.end.getTime() - b.span!.end.getTime())
+        .forEach(({ task, span }) => {
+          result.push({
+            key: `task-${task.id}`,
+            kind: 'task',
+            label: task.title,
+            start: span!.start,
+            end: span!.end,
+            overdue: task.status !== 'completed' && span!.end < today,
+            completed: task.status === 'completed',
+            task,
+          });
+        });
+    };
+
+    [...phases]
+      .sort((a, b) => a.sequence_order - b.sequence_order)
+      .forEach(phase => {
+        const span = getPhaseSpan(phase);
+        result.push({
+          key: `phase-${phase.id}`,
+          kind: 'phase',
+          label: phase.name,
+          start: span?.start || null,
+          end: span?.end || null,
+          overdue: !!span && phase.status !== 'completed' && phase.status !== 'cancelled' && span.end < today,
+          completed: phase.status === 'completed',
+          phase,
+        });
+        pushTasks(tasks.filter(task => task.phase_id === phase.id));
+      });
+
+    const unphased = tasks.filter(task => !task.phase_id || !phases.some(p => p.id === task.phase_id));
+    if (unphased.some(task => task.due_date)) {
+      result.push({
+        key: 'phase-none',
+        kind: 'phase',
+        label: 'No Phase',
+        start: null,
+        end: null,
+        overdue: false,
+        completed: false,
+      });
+      pushTasks(unphased);
+    }
+
+    return result;
+  }, [phases, tasks, today]);
+
+  const unscheduledCount = tasks.filter(task => !task.due_date).length;
+
+  // Visible range: every dated item plus today, padded on both sides
+  const range = useMemo(() => {
+    const dates = rows.flatMap(row => [row.start, row.end]).filter((d): d is Date => d !== null);
+    dates.push(today);
+    const min = new Date(Math.min(...dates.map(d => d.getTime())));
+    const max = new Date(Math.max(...dates.map(d => d.getTime())));
+    const start = addDays(min, -3);
+    return { start, days: differenceInCalendarDays(addDays(max, 7), start) + 1 };
+  }, [rows, today]);
+
+  const xFor = (date: Date) => differenceInCalendarDays(date, range.start) * dayWidth;
+
+  const rowIndex = useMemo(() => {
+    const index = new Map<string, number>();
+    rows.forEach((row, i) => {
+      if (row.task) index.set(row.task.id, i);
+    });
+    return index;
+  }, [rows]);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const deltaDays = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) {
+        setDrag({ ...drag, deltaDays });
+      }
+    };
+
+    const handleUp = () => {
+      const { row, deltaDays } = drag;
+      setDrag(null);
+      if (deltaDays !== 0) {
+        persistMove(row, deltaDays);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, dayWidth]);
+
+  const persistMove = async (row: TimelineRow, deltaDays: number) => {
+    setSaving(true);
+    try {
+      if (row.phase) {
+        // Same date format EditPhaseModal sends
+        await onUpdatePhase(row.phase.id, {
+          start_date: row.phase.start_date ? format(addDays(parseISO(row.phase.start_date), deltaDays), 'yyyy-MM-dd') : null,
+          end_date: row.phase.end_date ? format(addDays(parseISO(row.phase.end_date), deltaDays), 'yyyy-MM-dd') : null,
+        });
+      } else if (row.task?.due_date) {
+        await onUpdateTask(row.task.id, {
+          due_date: addDays(new Date(row.task.due_date), deltaDays).toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error('Error rescheduling:', error);
+      toast.error('Failed to reschedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const offsetFor = (row: TimelineRow) => (drag && drag.row.key === row.key ? drag.deltaDays * dayWidth : 0);
+
+  const renderBar = (row: TimelineRow) => {
+    if (!row.start || !row.end) return null;
+
+    const left = xFor(row.start) + offsetFor(row);
+    const width = (differenceInCalendarDays(row.end, row.start) + 1) * dayWidth;
+    const isPhase = row.kind === 'phase';
+    const draggable = canManage && !saving && (isPhase ? !!row.phase : true);
+    const color = row.overdue ? 'error' : row.completed ? 'success' : isPhase ? 'primary' : 'info';
+
+    const tooltip = `${row.label}: ${format(addDays(row.start, offsetFor(row) / dayWidth), 'MMM d')} - ${format(addDays(row.end, offsetFor(row) / dayWidth), 'MMM d, yyyy')}${row.overdue ? ' (overdue)' : ''}`;
+
+    return (
+      <Tooltip title={tooltip} disableHoverListener={!!drag}>
+        <Box
+          onMouseDown={(e) => {
+            if (!draggable || e.button !== 0) return;
+            e.preventDefault();
+            setDrag({ row, originX: e.clientX, deltaDays: 0 });
+          }}
+          sx={{
+            position: 'absolute',
+            left,
+            width,
+            top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+            height: BAR_HEIGHT,
+            borderRadius: 1,
+            bgcolor: isPhase ? `${color}.main` : `${color}.light`,
+            border: '1px solid',
+            borderColor: `${color}.dark`,
+            opacity: row.completed ? 0.7 : 1,
+            cursor: draggable ? (drag ? 'grabbing' : 'grab') : 'default',
+            overflow: 'hidden',
+            px: 0.5,
+            zIndex: 2,
+          }}
+        >
+          {isPhase && width > 60 && (
+            <Typography variant="caption" sx={{ color: 'common.white', whiteSpace: 'nowrap', lineHeight: `${BAR_HEIGHT - 2}px` }}>
+              {row.label}
+            </Typography>
+          )}
+        </Box>
+      </Tooltip>
+    );
+  };
+
+  const renderDependencyArrows = () => {
+    const paths = dependencies.flatMap(dep => {
+      const fromIndex = rowIndex.get(dep.dependency_task_id);
+      const toIndex = rowIndex.get(dep.dependent_task_id);
+      if (fromIndex === undefined || toIndex === undefined) return [];
+
+      const from = rows[fromIndex];
+      const to = rows[toIndex];
+      const x1 = xFor(from.end!) + dayWidth + offsetFor(from);
+      const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      const x2 = xFor(to.start!) + offsetFor(to);
+      const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+      // A dependent that starts before its blocker finishes is a scheduling conflict
+      const conflict = x2 < x1;
+      const elbow = Math.max(x1, x2) + 8;
+
+      return [(
+        <path
+          key={`${dep.dependency_task_id}-${dep.dependent_task_id}`}
+          d={conflict
+            ? `M ${x1} ${y1} H ${elbow} V ${(y1 + y2) / 2} H ${x2 - 8} V ${y2} H ${x2}`
+            : `M ${x1} ${y1} H ${(x1 + x2) / 2} V ${y2} H ${x2}`}
+          fill="none"
+          stroke={conflict ? '#d32f2f' : '#757575'}
+          strokeWidth={1.5}
+          markerEnd={conflict ? 'url(#timeline-arrow-conflict)' : 'url(#timeline-arrow)'}
+        />
+      )];
+    });
+
+    return (
+      <svg
+        width={range.days * dayWidth}
+        height={rows.length * ROW_HEIGHT}
+        style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none', zIndex: 3 }}
+      >
+        <defs>
+          <marker id="timeline-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+            <path d="M 0 0 L 8 4 L 0 8 z" fill="#757575" />
+          </marker>
+          <marker id="timeline-arrow-conflict" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+            <path d="M 0 0 L 8 4 L 0 8 z" fill="#d32f2f" />
+          </marker>
+        </defs>
+        {paths}
+      </svg>
+    );
+  };
+
+  if (rows.length === 0) {
+    return (
+      <Paper sx={{ p: 3, textAlign: 'center', bgcolor: 'grey.50' }}>
+        <Typography color="text.secondary">
+          Add start/end dates to phases or due dates to tasks to see them on the timeline.
+        </Typography>
+      </Paper>
+    );
+  }
+
+  const days = Array.from({ length: range.days }, (_, i) => addDays(range.start, i));
+  const overdueCount = rows.filter(row => row.overdue).length;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box display="flex" gap={1} alignItems="center">
+          {overdueCount > 0 && (
+            <Chip icon={<AlertTriangle size={14} />} label={`${overdueCount} overdue`} color="error" size="small" variant="outlined" />
+          )}
+          {unscheduledCount > 0 && (
+            <Chip label={`${unscheduledCount} tasks without a due date`} size="small" variant="outlined" />
+          )}
+          {canManage && (
+            <Typography variant="caption" color="text.secondary">
+              Drag a bar to reschedule it
+            </Typography>
+          )}
+        </Box>
+        <Box display="flex" gap={1}>
+          <Button size="small" variant={zoom === 'day' ? 'contained' : 'outlined'} onClick={() => setZoom('day')}>
+            Days
+          </Button>
+          <Button size="small" variant={zoom === 'week' ? 'contained' : 'outlined'} onClick={() => setZoom('week')}>
+            Weeks
+          </Button>
+        </Box>
+      </Box>
+
+      <Paper variant="outlined" sx={{ overflowX: 'auto', userSelect: drag ? 'none' : 'auto' }}>
+        <Box sx={{ display: 'flex', minWidth: LABEL_WIDTH + range.days * dayWidth }}>
+          {/* Row labels */}
+          <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, position: 'sticky', left: 0, zIndex: 4, bgcolor: 'background.paper', borderRight: 1, borderColor: 'divider' }}>
+            <Box sx={{ height: ROW_HEIGHT, borderBottom: 1, borderColor: 'divider' }} />
+            {rows.map(row => (
+              <Box
+                key={row.key}
+                sx={{
+                  height: ROW_HEIGHT,
+                  display: 'flex',
+                  alignItems: 'center',
+                  px: row.kind === 'phase' ? 1 : 3,
+                  bgcolor: row.kind === 'phase' ? 'action.hover' : 'transparent',
+                  borderBottom: 1,
+                  borderColor: 'divider',
+                }}
+              >
+                <Typography
+                  variant={row.kind === 'phase' ? 'subtitle2' : 'body2'}
+                  noWrap
+                  color={row.overdue ? 'error' : 'text.primary'}
+                  title={row.label}
+                >
+                  {row.label}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+
+          {/* Timeline grid */}
+          <Box sx={{ position: 'relative', flexGrow: 1 }}>
+            <Box sx={{ display: 'flex', height: ROW_HEIGHT, borderBottom: 1, borderColor: 'divider' }}>
+              {days.map(day => (
+                <Box
+                  key={day.toISOString()}
+                  sx={{
+                    width: dayWidth,
+                    flexShrink: 0,
+                    textAlign: 'center',
+                    borderLeft: zoom === 'day' || day.getDay() === 1 ? 1 : 0,
+                    borderColor: 'divider',
+                  }}
+                >
+                  {(zoom === 'day' || day.getDay() === 1) && (
+                    <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap', fontSize: '0.65rem' }}>
+                      {zoom === 'day' ? format(day, 'd') : format(day, 'MMM d')}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+
+            <Box sx={{ position: 'relative' }}>
+              {rows.map(row => (
+                <Box
+                  key={row.key}
+                  sx={{
+                    position: 'relative',
+                    height: ROW_HEIGHT,
+                    borderBottom: 1,
+                    borderColor: 'divider',
+                    bgcolor: row.kind === 'phase' ? 'action.hover' : 'transparent',
+                  }}
+                >
+                  {renderBar(row)}
+                </Box>
+              ))}
+
+              {/* Weekend shading */}
+              {zoom === 'day' && days.filter(day => isWeekend(day)).map(day => (
+                <Box
+                  key={`weekend-${day.toISOString()}`}
+                  sx={{
+                    position: 'absolute',
+                    top: 0,
+                    bottom: 0,
+                    left: xFor(day),
+                    width: dayWidth,
+                    bgcolor: 'action.selected',
+                    opacity: 0.3,
+                    pointerEvents: 'none',
+                  }}
+                />
+              ))}
+
+              {/* Today line */}
+              <Tooltip title={`Today (${format(today, 'MMM d, yyyy')})`}>
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: 0,
+                    bottom: 0,
+                    left: xFor(today) + dayWidth / 2,
+                    width: 2,
+                    bgcolor: 'error.main',
+                    zIndex: 3,
+                  }}
+                />
+              </Tooltip>
+
+              {renderDependencyArrows()}
+            </Box>
+          </Box>
+        </Box>
+      </Paper>
+    </Box>
+  );
+}
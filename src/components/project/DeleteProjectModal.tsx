@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { X } from 'lucide-react';
-import { supabase } from '../../../lib/supabase';
 import { toast } from 'react-hot-toast';
+import { trashProject, TRASH_RETENTION_DAYS } from '../../lib/services/trash';
+import { useStepUp } from '../../contexts/StepUpContext';
 import {
   Dialog,
   DialogTitle,
@@ -22,18 +23,16 @@ interface DeleteProjectModalProps {
 
 export function DeleteProjectModal({ projectId, projectName, onClose, onDeleted }: DeleteProjectModalProps) {
   const [loading, setLoading] = useState(false);
+  const { requireStepUp } = useStepUp();
 
   const handleDelete = async () => {
+    if (!(await requireStepUp('delete this project'))) return;
+
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', projectId);
-
-      if (error) throw error;
+      await trashProject(projectId);
 
-      toast.success('Project deleted successfully');
+      toast.success('Project moved to trash');
       onDeleted();
       onClose();
     } catch (error: any) {
@@ -57,11 +56,11 @@ export function DeleteProjectModal({ projectId, projectName, onClose, onDeleted
 
       <DialogContent>
         <Typography variant="body1" gutterBottom>
-          Are you sure you want to delete {projectName ? <strong>"{projectName}"</strong> : 'this project'}? 
-          This action cannot be undone.
+          Are you sure you want to delete {projectName ? <strong>"{projectName}"</strong> : 'this project'}?
         </Typography>
         <Typography variant="body2" color="text.secondary">
-          All associated data, including team members and tasks, will be permanently deleted.
+          The project moves to the trash with its phases, tasks, team and documents. It can be restored
+          from the trash for {TRASH_RETENTION_DAYS} days, after which it is permanently deleted.
         </Typography>
       </DialogContent>
 
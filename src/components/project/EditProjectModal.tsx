@@ -1,8 +1,11 @@
 import { useState } from 'react';
-import { supabase } from '../../lib/supabase';
-import { Project, ProjectStatus } from '../types/project';
-import { User } from '../types/auth';
+import type { Project, ProjectStatus } from '../../types/project';
+import type { User } from '../../types/auth';
 import toast from 'react-hot-toast';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { updateIfUnchanged, VersionConflictError } from '../../lib/services/concurrency';
+import { conflictFromError, projectConflictFields } from '../../lib/editConflicts';
+import type { EditConflict } from '../../lib/editConflicts';
 
 interface EditProjectModalProps {
   project: Project;
@@ -29,31 +32,24 @@ export function EditProjectModal({
     owner_id: project.owner_id || '',
     manager_id: project.manager_id || ''
   });
+  const [conflict, setConflict] = useState<EditConflict<Project> | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Writes only if the project is still at `version`; a clash opens the conflict dialog
+  const saveProject = async (updates: Partial<Project>, base: Project, version: string) => {
     setLoading(true);
-
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({
-          name: formData.name,
-          description: formData.description,
-          status: formData.status,
-          start_date: formData.start_date || null,
-          end_date: formData.end_date || null,
-          owner_id: formData.owner_id || null,
-          manager_id: formData.manager_id || null,
-        })
-        .eq('id', project.id);
-
-      if (error) throw error;
+      await updateIfUnchanged<Project>('projects', project.id, updates, version);
 
       toast.success('Project updated successfully');
       onUpdate();
       onClose();
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, base, updates));
+        // Refresh the list behind the dialog so it shows the saved version
+        onUpdate();
+        return;
+      }
       console.error('Error updating project:', error);
       toast.error(error.message || 'Error updating project');
     } finally {
@@ -61,8 +57,35 @@ export function EditProjectModal({
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await saveProject({
+      name: formData.name,
+      description: formData.description,
+      status: formData.status,
+      start_date: formData.start_date || null,
+      end_date: formData.end_date || null,
+      owner_id: formData.owner_id || null,
+      manager_id: formData.manager_id || null,
+    } as Partial<Project>, project, project.updated_at);
+  };
+
+  const handleResolveConflict = (updates: Partial<Project>) => {
+    if (conflict?.current) {
+      saveProject(updates, conflict.current, conflict.current.updated_at);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <ConflictResolutionDialog
+        conflict={conflict}
+        entityName="project"
+        fields={projectConflictFields([...admins, ...projectManagers])}
+        saving={loading}
+        onSave={handleResolveConflict}
+        onDiscard={onClose}
+      />
       <div className="bg-white rounded-lg p-6 max-w-md w-full">
         <h2 className="text-xl font-semibold mb-4">Edit Project</h2>
         
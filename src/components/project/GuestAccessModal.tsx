@@ -0,0 +1,343 @@
+import { useState, useEffect } from 'react';
+import { X, UserPlus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  List,
+  ListItem,
+  Paper,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { UserAvatar } from '../UserAvatar';
+import { useAuth } from '../../contexts/auth/AuthContext';
+import {
+  fetchProjectGuests,
+  fetchShareableTasks,
+  inviteProjectGuest,
+  removeProjectGuest,
+  setTasksVisibleToGuests,
+  updateGuestVisibility,
+} from '../../lib/services/guests';
+import type { User } from '../../types/auth';
+import type { GuestVisibility, Project, ProjectGuest } from '../../types/project';
+import type { Task } from '../../types/task';
+
+interface GuestAccessModalProps {
+  project: Pick<Project, 'id' | 'name'> & GuestVisibility;
+  onClose: () => void;
+  onVisibilityChange: (visibility: GuestVisibility) => void;
+}
+
+type ShareableTask = Pick<Task, 'id' | 'title' | 'status' | 'visible_to_guests'>;
+
+const SECTION_LABELS: { key: keyof GuestVisibility; label: string }[] = [
+  { key: 'guest_phases_visible', label: 'Phases' },
+  { key: 'guest_faqs_visible', label: 'FAQs' },
+  { key: 'guest_resources_visible', label: 'Resources' },
+];
+
+export function GuestAccessModal({ project, onClose, onVisibilityChange }: GuestAccessModalProps) {
+  const { user: currentUser } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [guests, setGuests] = useState<ProjectGuest[]>([]);
+  const [tasks, setTasks] = useState<ShareableTask[]>([]);
+  const [visibility, setVisibility] = useState<GuestVisibility>({
+    guest_phases_visible: project.guest_phases_visible ?? true,
+    guest_faqs_visible: project.guest_faqs_visible ?? false,
+    guest_resources_visible: project.guest_resources_visible ?? false,
+  });
+  const [invite, setInvite] = useState({ email: '', fullName: '' });
+  const [inviting, setInviting] = useState(false);
+  const [taskFilter, setTaskFilter] = useState('');
+
+  useEffect(() => {
+    fetchData();
+  }, [project.id]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [guestData, taskData] = await Promise.all([
+        fetchProjectGuests(project.id),
+        fetchShareableTasks(project.id),
+      ]);
+      setGuests(guestData);
+      setTasks(taskData);
+    } catch (error) {
+      console.error('Error fetching guest access:', error);
+      toast.error('Error loading guest access');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!currentUser || !invite.email.trim() || !invite.fullName.trim()) return;
+
+    try {
+      setInviting(true);
+      const guest = await inviteProjectGuest({
+        project,
+        email: invite.email,
+        fullName: invite.fullName.trim(),
+        invitedBy: currentUser.id,
+      });
+      setGuests(prev => [...prev, guest]);
+      setInvite({ email: '', fullName: '' });
+      toast.success(`Invited ${guest.user?.full_name || invite.email}`);
+    } catch (error: any) {
+      console.error('Error inviting guest:', error);
+      toast.error('Error inviting guest: ' + (error.message || 'Unknown error'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRemove = async (guest: ProjectGuest) => {
+    if (!window.confirm(`Remove ${guest.user?.full_name || 'this guest'}'s access to this project?`)) return;
+
+    try {
+      await removeProjectGuest(guest.id);
+      setGuests(prev => prev.filter(g => g.id !== guest.id));
+      toast.success('Guest removed');
+    } catch (error: any) {
+      console.error('Error removing guest:', error);
+      toast.error('Error removing guest: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const handleVisibilityChange = async (key: keyof GuestVisibility, value: boolean) => {
+    const previous = visibility;
+    const next = { ...visibility, [key]: value };
+    setVisibility(next);
+
+    try {
+      await updateGuestVisibility(project.id, next);
+      onVisibilityChange(next);
+    } catch (error: any) {
+      console.error('Error updating guest visibility:', error);
+      toast.error('Error updating guest visibility: ' + (error.message || 'Unknown error'));
+      setVisibility(previous);
+    }
+  };
+
+  const handleTaskToggle = async (taskIds: string[], visible: boolean) => {
+    const previous = tasks;
+    setTasks(prev => prev.map(task => taskIds.includes(task.id) ? { ...task, visible_to_guests: visible } : task));
+
+    try {
+      await setTasksVisibleToGuests(taskIds, visible);
+    } catch (error: any) {
+      console.error('Error sharing tasks:', error);
+      toast.error('Error sharing tasks: ' + (error.message || 'Unknown error'));
+      setTasks(previous);
+    }
+  };
+
+  const visibleTasks = tasks.filter(task => task.title.toLowerCase().includes(taskFilter.toLowerCase()));
+  const sharedCount = tasks.filter(task => task.visible_to_guests).length;
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h5" fontWeight="medium">
+            Guest Access
+          </Typography>
+          <IconButton onClick={onClose} size="small" sx={{ color: 'text.secondary' }}>
+            <X />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent sx={{ pb: 4 }}>
+        <Typography variant="body2" color="text.secondary" mb={3}>
+          Guests follow the project's progress and can comment on shared tasks. They never see the team,
+          CVs, budget, documents or other projects.
+        </Typography>
+
+        <Box mb={4}>
+          <Typography variant="h6" mb={2}>
+            Invite a Guest
+          </Typography>
+          <Paper sx={{ p: 3, bgcolor: 'grey.50' }}>
+            <Grid container spacing={2} alignItems="center">
+              <Grid item xs={12} sm={5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Full name"
+                  value={invite.fullName}
+                  onChange={(e) => setInvite({ ...invite, fullName: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  type="email"
+                  label="Email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12} sm={2}>
+                <Button
+                  fullWidth
+                  variant="contained"
+                  startIcon={<UserPlus size={18} />}
+                  onClick={handleInvite}
+                  disabled={inviting || !invite.email.trim() || !invite.fullName.trim()}
+                >
+                  {inviting ? 'Inviting...' : 'Invite'}
+                </Button>
+              </Grid>
+            </Grid>
+          </Paper>
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <Box mb={4}>
+              <Typography variant="h6" mb={1}>
+                Guests ({guests.length})
+              </Typography>
+              {guests.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  Nobody outside the team has access yet.
+                </Typography>
+              ) : (
+                <List disablePadding>
+                  {guests.map(guest => (
+                    <ListItem
+                      key={guest.id}
+                      divider
+                      secondaryAction={
+                        <Tooltip title="Remove access">
+                          <IconButton edge="end" color="error" onClick={() => handleRemove(guest)}>
+                            <Trash2 size={18} />
+                          </IconButton>
+                        </Tooltip>
+                      }
+                    >
+                      <Box display="flex" alignItems="center" gap={2}>
+                        <UserAvatar user={guest.user as User} sx={{ width: 32, height: 32 }} />
+                        <Box>
+                          <Typography variant="subtitle2">{guest.user?.full_name || 'Unknown'}</Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {guest.user?.email} · invited {format(new Date(guest.invited_at), 'MMM d, yyyy')}
+                          </Typography>
+                        </Box>
+                      </Box>
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </Box>
+
+            <Box mb={4}>
+              <Typography variant="h6" mb={1}>
+                What Guests See
+              </Typography>
+              <Typography variant="body2" color="text.secondary" mb={1}>
+                Overall progress is always shown.
+              </Typography>
+              <Box display="flex" gap={3} flexWrap="wrap">
+                {SECTION_LABELS.map(section => (
+                  <FormControlLabel
+                    key={section.key}
+                    control={
+                      <Switch
+                        checked={!!visibility[section.key]}
+                        onChange={(e) => handleVisibilityChange(section.key, e.target.checked)}
+                      />
+                    }
+                    label={section.label}
+                  />
+                ))}
+              </Box>
+            </Box>
+
+            <Box>
+              <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                <Typography variant="h6">
+                  Shared Tasks ({sharedCount} of {tasks.length})
+                </Typography>
+                <Box display="flex" gap={1}>
+                  <Button
+                    size="small"
+                    onClick={() => handleTaskToggle(visibleTasks.filter(task => !task.visible_to_guests).map(task => task.id), true)}
+                    disabled={visibleTasks.every(task => task.visible_to_guests)}
+                  >
+                    Share all
+                  </Button>
+                  <Button
+                    size="small"
+                    color="inherit"
+                    onClick={() => handleTaskToggle(visibleTasks.filter(task => task.visible_to_guests).map(task => task.id), false)}
+                    disabled={!visibleTasks.some(task => task.visible_to_guests)}
+                  >
+                    Unshare all
+                  </Button>
+                </Box>
+              </Box>
+              <TextField
+                fullWidth
+                size="small"
+                placeholder="Filter tasks"
+                value={taskFilter}
+                onChange={(e) => setTaskFilter(e.target.value)}
+                sx={{ mb: 1 }}
+              />
+              <Paper variant="outlined" sx={{ maxHeight: 300, overflowY: 'auto' }}>
+                <List dense disablePadding>
+                  {visibleTasks.map(task => (
+                    <ListItem key={task.id} divider>
+                      <FormControlLabel
+                        sx={{ flex: 1 }}
+                        control={
+                          <Checkbox
+                            size="small"
+                            checked={!!task.visible_to_guests}
+                            onChange={(e) => handleTaskToggle([task.id], e.target.checked)}
+                          />
+                        }
+                        label={task.title}
+                      />
+                      <Chip label={task.status.replace('_', ' ')} size="small" variant="outlined" />
+                    </ListItem>
+                  ))}
+                  {visibleTasks.length === 0 && (
+                    <ListItem>
+                      <Typography variant="body2" color="text.secondary">
+                        No tasks found.
+                      </Typography>
+                    </ListItem>
+                  )}
+                </List>
+              </Paper>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import type { Project, ProjectStatus, ProjectFormData } from '../../types/project';
 import type { User } from '../../types/auth';
@@ -15,7 +16,21 @@ import {
   IconButton,
   Box,
   Grid,
+  Divider,
+  Typography,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+  ListSubheader,
+  CircularProgress,
 } from '@mui/material';
+import type { CloneableDocument } from '../../lib/services/projectCloning';
+import { fetchCloneableDocuments, GENERATED_DOCUMENT_CATEGORIES } from '../../lib/services/projectCloning';
+
+export interface ProjectCloneOptions {
+  sourceProjectId: string; // empty for a blank project
+  documentIds: string[];
+}
 
 interface NewProjectModalProps {
   project: Project | null;
@@ -24,6 +39,10 @@ interface NewProjectModalProps {
   formData: ProjectFormData;
   setFormData: React.Dispatch<React.SetStateAction<ProjectFormData>>;
   projectManagers: User[];
+  sourceProjects?: Project[]; // templates and projects a new project can be copied from
+  cloneOptions?: ProjectCloneOptions;
+  setCloneOptions?: React.Dispatch<React.SetStateAction<ProjectCloneOptions>>;
+  isTemplate?: boolean;
 }
 
 export function NewProjectModal({ 
@@ -32,13 +51,75 @@ export function NewProjectModal({
   onSubmit, 
   formData, 
   setFormData,
-  projectManagers 
+  projectManagers,
+  sourceProjects = [],
+  cloneOptions,
+  setCloneOptions,
+  isTemplate = false
 }: NewProjectModalProps) {
+  const [documents, setDocuments] = useState<CloneableDocument[]>([]);
+  const [loadingDocuments, setLoadingDocuments] = useState(false);
+  const sourceProjectId = cloneOptions?.sourceProjectId || '';
+  const canClone = !project && !!cloneOptions && !!setCloneOptions;
+
+  useEffect(() => {
+    if (!canClone || !sourceProjectId) {
+      setDocuments([]);
+      return;
+    }
+
+    const loadDocuments = async () => {
+      setLoadingDocuments(true);
+      try {
+        const data = await fetchCloneableDocuments(sourceProjectId);
+        setDocuments(data);
+        // Written documentation comes along by default, generated activity logs don't
+        setCloneOptions?.(options => ({
+          ...options,
+          documentIds: data
+            .filter(doc => !GENERATED_DOCUMENT_CATEGORIES.includes(doc.category || ''))
+            .map(doc => doc.id)
+        }));
+      } catch (error) {
+        console.error('Error fetching source documents:', error);
+        setDocuments([]);
+      } finally {
+        setLoadingDocuments(false);
+      }
+    };
+
+    loadDocuments();
+  }, [sourceProjectId, canClone]);
+
+  const handleSourceChange = (id: string) => {
+    setCloneOptions?.({ sourceProjectId: id, documentIds: [] });
+    const source = sourceProjects.find(p => p.id === id);
+    if (source) {
+      setFormData(data => ({
+        ...data,
+        description: data.description || source.description,
+        budget: data.budget ?? source.budget
+      }));
+    }
+  };
+
+  const toggleDocument = (id: string) => {
+    setCloneOptions?.(options => ({
+      ...options,
+      documentIds: options.documentIds.includes(id)
+        ? options.documentIds.filter(docId => docId !== id)
+        : [...options.documentIds, id]
+    }));
+  };
+
+  const templates = sourceProjects.filter(p => p.is_template);
+  const otherProjects = sourceProjects.filter(p => !p.is_template);
+
   return (
     <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
       <DialogTitle>
         <Box display="flex" justifyContent="space-between" alignItems="center">
-          {project ? 'Edit Project' : 'New Project'}
+          {project ? 'Edit Project' : isTemplate ? 'Save as Template' : 'New Project'}
           <IconButton onClick={onClose} size="small">
             <X />
           </IconButton>
@@ -47,9 +128,31 @@ export function NewProjectModal({
 
       <DialogContent>
         <Box component="form" noValidate sx={{ mt: 2 }}>
+          {canClone && !isTemplate && (
+            <FormControl fullWidth sx={{ mb: 2 }}>
+              <InputLabel>Start From</InputLabel>
+              <Select
+                value={sourceProjectId}
+                onChange={(e) => handleSourceChange(e.target.value)}
+                label="Start From"
+              >
+                <MenuItem value="">
+                  <em>Blank project</em>
+                </MenuItem>
+                {templates.length > 0 && <ListSubheader>Templates</ListSubheader>}
+                {templates.map((source) => (
+                  <MenuItem key={source.id} value={source.id}>{source.name}</MenuItem>
+                ))}
+                {otherProjects.length > 0 && <ListSubheader>Copy an existing project</ListSubheader>}
+                {otherProjects.map((source) => (
+                  <MenuItem key={source.id} value={source.id}>{source.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
           <TextField
             fullWidth
-            label="Project Name"
+            label={isTemplate ? 'Template Name' : 'Project Name'}
             value={formData.name}
             onChange={(e) => setFormData({ ...formData, name: e.target.value })}
             required
@@ -137,6 +240,44 @@ export function NewProjectModal({
             onChange={(e) => setFormData({ ...formData, progress: parseInt(e.target.value) || 0 })}
             InputProps={{ inputProps: { min: 0, max: 100 } }}
           />
+          {canClone && sourceProjectId && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <Typography variant="subtitle2" gutterBottom>
+                What gets copied
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Phases, tasks, dependencies, FAQs and resources are copied with their dates moved to the new
+                start date. Team members, activity and progress are not.
+              </Typography>
+              <Typography variant="subtitle2" gutterBottom>
+                Documents
+              </Typography>
+              {loadingDocuments ? (
+                <CircularProgress size={20} />
+              ) : documents.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  The source has no documents.
+                </Typography>
+              ) : (
+                <FormGroup>
+                  {documents.map((doc) => (
+                    <FormControlLabel
+                      key={doc.id}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={cloneOptions?.documentIds.includes(doc.id) || false}
+                          onChange={() => toggleDocument(doc.id)}
+                        />
+                      }
+                      label={doc.category ? `${doc.title} (${doc.category})` : doc.title}
+                    />
+                  ))}
+                </FormGroup>
+              )}
+            </>
+          )}
         </Box>
       </DialogContent>
 
@@ -149,7 +290,7 @@ export function NewProjectModal({
           variant="contained"
           color="primary"
         >
-          {project ? 'Update Project' : 'Create Project'}
+          {project ? 'Update Project' : isTemplate ? 'Save Template' : 'Create Project'}
         </Button>
       </DialogActions>
     </Dialog>
@@ -26,7 +26,7 @@ import {
 } from '@mui/material';
 import { format } from 'date-fns';
 import { toast } from 'react-hot-toast';
-import { CheckCircle, AlertCircle, FileText, MessageSquare, Plus, X } from 'lucide-react';
+import { CheckCircle, AlertCircle, FileText, MessageSquare, MessageCircle, Plus, X } from 'lucide-react';
 import { useAuth } from '../../contexts/auth/AuthContext';
 import type { ActivityLog, ActivityType } from '../../types/activity';
 import { logActivity } from '../../lib/services/activityLogger';
@@ -150,6 +150,8 @@ export function ProjectActivityLogs({ projectId, canEdit, onActivityAdded }: Pro
         return <AlertCircle size={20} color="#ff9800" />;
       case 'note':
         return <MessageSquare size={20} color="#9c27b0" />;
+      case 'comment':
+        return <MessageCircle size={20} color="#00897b" />;
       default:
         return <FileText size={20} />;
     }
@@ -165,6 +167,8 @@ export function ProjectActivityLogs({ projectId, canEdit, onActivityAdded }: Pro
         return 'Decision';
       case 'note':
         return 'Note';
+      case 'comment':
+        return 'Comment';
       default:
         return type;
     }
@@ -180,6 +184,8 @@ export function ProjectActivityLogs({ projectId, canEdit, onActivityAdded }: Pro
         return 'warning';
       case 'note':
         return 'secondary';
+      case 'comment':
+        return 'info';
       default:
         return 'default';
     }
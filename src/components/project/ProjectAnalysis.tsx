@@ -23,10 +23,15 @@ import {
   PieChart,
   Pie,
   Cell,
+  Legend,
 } from 'recharts';
 import { format, differenceInDays } from 'date-fns';
 import type { Task } from '../../types/task';
 import type { ProjectMember } from '../../types/project';
+import { compareEstimates } from '../../lib/services/timeTracking';
+import { getLeafTasks } from '../../lib/services/subtasks';
+import { calculateMemberWorkload } from '../../lib/services/workload';
+import type { EstimateComparison } from '../../lib/services/timeTracking';
 
 interface ProjectAnalysisProps {
   projectId: string;
@@ -44,7 +49,7 @@ interface TaskStats {
 
 interface TeamStats {
   totalMembers: number;
-  taskDistribution: { name: string; tasks: number }[];
+  taskDistribution: { name: string; tasks: number; openHours: number }[];
   completionRate: { name: string; rate: number }[];
 }
 
@@ -68,6 +73,7 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
     taskDistribution: [],
     completionRate: [],
   });
+  const [estimateComparison, setEstimateComparison] = useState<EstimateComparison[]>([]);
 
   useEffect(() => {
     fetchData();
@@ -85,6 +91,9 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
           assigned_user:users!tasks_assigned_to_fkey (
             id,
             full_name
+          ),
+          time_entries (
+            duration_minutes
           )
         `)
         .eq('project_id', projectId);
@@ -108,9 +117,11 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
       setTasks(tasksData || []);
       setTeamMembers(membersData || []);
       
-      // Calculate statistics
-      calculateTaskStats(tasksData || []);
-      calculateTeamStats(tasksData || [], membersData || []);
+      // Calculate statistics, counting broken-down tasks through their subtasks
+      const leafTasks = getLeafTasks<Task>(tasksData || []);
+      calculateTaskStats(leafTasks);
+      calculateTeamStats(leafTasks, membersData || []);
+      setEstimateComparison(compareEstimates(leafTasks));
     } catch (error) {
       console.error('Error fetching project analysis data:', error);
     } finally {
@@ -136,11 +147,16 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
   };
 
   const calculateTeamStats = (tasks: Task[], members: ProjectMember[]) => {
-    // Calculate task distribution per member
-    const taskDistribution = members
-      .map(member => ({
-        name: member.user?.full_name || 'Unknown',
-        tasks: tasks.filter(t => t.assigned_to === member.user_id).length,
+    // Calculate task distribution and remaining open hours per member
+    const workloads = calculateMemberWorkload(
+      tasks,
+      members.map(member => ({ id: member.user_id, full_name: member.user?.full_name || 'Unknown' }))
+    );
+    const taskDistribution = workloads
+      .map(workload => ({
+        name: workload.name,
+        tasks: tasks.filter(t => t.assigned_to === workload.userId).length,
+        openHours: workload.openHours,
       }))
       .filter(item => item.tasks > 0)
       .sort((a, b) => b.tasks - a.tasks);
@@ -175,6 +191,10 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
     );
   }
 
+  const totalEstimated = estimateComparison.reduce((sum, row) => sum + row.estimated, 0);
+  const totalActual = estimateComparison.reduce((sum, row) => sum + row.actual, 0);
+  const estimateAccuracy = totalEstimated > 0 ? Math.round((totalActual / totalEstimated) * 100) : 0;
+
   const taskStatusData = [
     { name: 'To Do', value: taskStats.todo },
     { name: 'In Progress', value: taskStats.inProgress },
@@ -423,13 +443,52 @@ export function ProjectAnalysis({ projectId }: ProjectAnalysisProps) {
                   <XAxis dataKey="name" />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="tasks" fill="#8884d8" />
+                  <Legend />
+                  <Bar dataKey="tasks" name="Tasks" fill="#8884d8" />
+                  <Bar dataKey="openHours" name="Open hours" fill="#FFBB28" />
                 </BarChart>
               </ResponsiveContainer>
             </Box>
           </Paper>
         </Grid>
 
+        {/* Estimated vs Actual Hours */}
+        <Grid item xs={12}>
+          <Paper sx={{ p: 3 }}>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="h6">
+                Estimated vs Actual Hours
+              </Typography>
+              {estimateComparison.length > 0 && (
+                <Chip
+                  label={`Actual effort is ${estimateAccuracy}% of estimates`}
+                  color={estimateAccuracy > 120 ? 'warning' : estimateAccuracy < 80 ? 'info' : 'success'}
+                  size="small"
+                />
+              )}
+            </Box>
+            {estimateComparison.length === 0 ? (
+              <Typography color="text.secondary">
+                No logged time against estimated tasks yet.
+              </Typography>
+            ) : (
+              <Box height={300}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={estimateComparison.slice(0, 20)}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="title" tick={false} />
+                    <YAxis unit="h" />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="estimated" name="Estimated" fill="#8884d8" />
+                    <Bar dataKey="actual" name="Actual" fill="#FF8042" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Box>
+            )}
+          </Paper>
+        </Grid>
+
         {/* Completion Rates */}
         <Grid item xs={12}>
           <Paper sx={{ p: 3 }}>
@@ -0,0 +1,437 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Grid,
+  Card,
+  Typography,
+  Button,
+  IconButton,
+  CircularProgress,
+  LinearProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Chip,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material';
+import { Plus, Trash2, X, Bell } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import type { Project } from '../../types/project';
+import type { User } from '../../types/auth';
+import {
+  fetchBudgetLedger,
+  addProjectExpense,
+  deleteProjectExpense,
+  buildBurnDown,
+  fetchBudgetAlertLevel,
+  updateBudgetThresholds,
+  DEFAULT_BUDGET_THRESHOLDS,
+} from '../../lib/services/projectBudget';
+import type { CostEntry } from '../../lib/services/projectBudget';
+
+interface ProjectBudgetProps {
+  project: Project;
+  currentUser: User;
+  canEdit: boolean;
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function ProjectBudget({ project, currentUser, canEdit }: ProjectBudgetProps) {
+  const [ledger, setLedger] = useState<CostEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [alertLevel, setAlertLevel] = useState(project.budget_alerted_threshold || 0);
+  const [thresholds, setThresholds] = useState<number[]>(
+    project.budget_alert_thresholds?.length ? project.budget_alert_thresholds : DEFAULT_BUDGET_THRESHOLDS
+  );
+  const [showExpenseDialog, setShowExpenseDialog] = useState(false);
+  const [showThresholdDialog, setShowThresholdDialog] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [expenseForm, setExpenseForm] = useState({
+    description: '',
+    category: '',
+    amount: '',
+    incurred_on: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  useEffect(() => {
+    loadLedger();
+  }, [project.id]);
+
+  const loadLedger = async () => {
+    try {
+      setLoading(true);
+      const [entries, level] = await Promise.all([
+        fetchBudgetLedger(project.id),
+        fetchBudgetAlertLevel(project.id),
+      ]);
+      setLedger(entries);
+      setAlertLevel(level);
+    } catch (error) {
+      console.error('Error fetching budget ledger:', error);
+      toast.error('Error loading budget');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddExpense = async () => {
+    const amount = parseFloat(expenseForm.amount);
+    if (!expenseForm.description.trim() || !amount || amount <= 0) {
+      toast.error('Enter a description and a positive amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addProjectExpense({
+        project_id: project.id,
+        description: expenseForm.description.trim(),
+        category: expenseForm.category.trim() || null,
+        amount,
+        incurred_on: expenseForm.incurred_on,
+      }, currentUser.id);
+      toast.success('Expense added');
+      setShowExpenseDialog(false);
+      setExpenseForm({ description: '', category: '', amount: '', incurred_on: format(new Date(), 'yyyy-MM-dd') });
+      await loadLedger();
+    } catch (error: any) {
+      console.error('Error adding expense:', error);
+      toast.error('Error adding expense: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expenseId: string) => {
+    if (!window.confirm('Delete this expense?')) return;
+
+    try {
+      await deleteProjectExpense(expenseId);
+      toast.success('Expense deleted');
+      await loadLedger();
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      toast.error('Error deleting expense');
+    }
+  };
+
+  const handleSaveThresholds = async () => {
+    const parsed = thresholdInput
+      .split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(value => !isNaN(value) && value > 0);
+
+    if (parsed.length === 0) {
+      toast.error('Enter at least one percentage, e.g. 50, 75, 90, 100');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateBudgetThresholds(project.id, parsed);
+      const sorted = [...new Set(parsed)].sort((a, b) => a - b);
+      setThresholds(sorted);
+      setShowThresholdDialog(false);
+      toast.success('Alert thresholds updated');
+      // The database re-checks the thresholds when they change
+      setAlertLevel(await fetchBudgetAlertLevel(project.id));
+    } catch (error) {
+      console.error('Error updating thresholds:', error);
+      toast.error('Error updating alert thresholds');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const budget = project.budget || 0;
+  const labourCost = ledger.filter(e => e.type === 'labour').reduce((sum, e) => sum + e.amount, 0);
+  const expenseCost = ledger.filter(e => e.type === 'expense').reduce((sum, e) => sum + e.amount, 0);
+  const spent = labourCost + expenseCost;
+  const percentUsed = budget > 0 ? (spent / budget) * 100 : 0;
+  const uncostedHours = ledger
+    .filter(e => e.type === 'labour' && !e.rated)
+    .reduce((sum, e) => sum + (e.hours || 0), 0);
+  const burnDown = budget > 0 && project.start_date
+    ? buildBurnDown(budget, project.start_date, project.end_date, ledger)
+    : [];
+
+  return (
+    <Box>
+      {!budget && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          This project has no budget set. Set one in the project settings to track burn against it.
+        </Alert>
+      )}
+      {uncostedHours > 0 && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          {Math.round(uncostedHours * 10) / 10} logged hours belong to users without an hourly rate and are not costed.
+        </Alert>
+      )}
+
+      <Grid container spacing={3} mb={4}>
+        {[
+          { label: 'Budget', value: formatAmount(budget), color: 'primary.main' },
+          { label: 'Spent', value: formatAmount(spent), color: percentUsed >= 100 ? 'error.main' : 'warning.main' },
+          { label: 'Remaining', value: formatAmount(budget - spent), color: budget - spent < 0 ? 'error.main' : 'success.main' },
+          { label: 'Labour / Expenses', value: `${formatAmount(labourCost)} / ${formatAmount(expenseCost)}`, color: 'info.main' },
+        ].map(card => (
+          <Grid item xs={12} md={3} key={card.label}>
+            <Card sx={{ p: 2.5, height: '100%', borderTop: 4, borderColor: card.color }}>
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                {card.label}
+              </Typography>
+              <Typography variant="h5" fontWeight="medium">
+                {card.value}
+              </Typography>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {budget > 0 && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+            <Typography variant="h6">Budget Used</Typography>
+            <Box display="flex" alignItems="center" gap={1}>
+              {thresholds.map(threshold => (
+                <Chip
+                  key={threshold}
+                  label={`${threshold}%`}
+                  size="small"
+                  color={threshold <= alertLevel ? 'warning' : 'default'}
+                  variant={threshold <= alertLevel ? 'filled' : 'outlined'}
+                />
+              ))}
+              {canEdit && (
+                <IconButton
+                  size="small"
+                  title="Configure alert thresholds"
+                  onClick={() => {
+                    setThresholdInput(thresholds.join(', '));
+                    setShowThresholdDialog(true);
+                  }}
+                >
+                  <Bell size={16} />
+                </IconButton>
+              )}
+            </Box>
+          </Box>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {Math.round(percentUsed)}% of the budget has been spent
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, percentUsed)}
+            color={percentUsed >= 100 ? 'error' : percentUsed >= 75 ? 'warning' : 'primary'}
+            sx={{ height: 8, borderRadius: 4 }}
+          />
+        </Paper>
+      )}
+
+      {burnDown.length > 0 && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Budget Burn-down
+          </Typography>
+          <Box height={300}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={burnDown}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="ideal" name="Planned" stroke="#8884d8" strokeDasharray="5 5" dot={false} />
+                <Line type="monotone" dataKey="remaining" name="Remaining" stroke="#FF8042" dot={false} connectNulls={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+        </Paper>
+      )}
+
+      <Paper sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h6">Cost Ledger</Typography>
+          {canEdit && (
+            <Button variant="contained" startIcon={<Plus />} onClick={() => setShowExpenseDialog(true)}>
+              Add Expense
+            </Button>
+          )}
+        </Box>
+
+        {ledger.length === 0 ? (
+          <Typography color="text.secondary">
+            No costs recorded yet. Labour appears here as team members log time.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell>By</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  {canEdit && <TableCell />}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ledger.map(entry => (
+                  <TableRow key={`${entry.type}-${entry.id}`}>
+                    <TableCell>{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={entry.type === 'labour' ? 'Labour' : entry.category || 'Expense'}
+                        size="small"
+                        color={entry.type === 'labour' ? 'info' : 'default'}
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {entry.description}
+                      {entry.type === 'labour' && (
+                        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                          {entry.hours}h{!entry.rated && ' (no rate)'}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.userName || '-'}</TableCell>
+                    <TableCell align="right">{formatAmount(entry.amount)}</TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        {entry.type === 'expense' && (
+                          <IconButton size="small" onClick={() => handleDeleteExpense(entry.id)} sx={{ color: 'error.main' }}>
+                            <Trash2 size={16} />
+                          </IconButton>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Dialog open={showExpenseDialog} onClose={() => setShowExpenseDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            Add Expense
+            <IconButton onClick={() => setShowExpenseDialog(false)} size="small">
+              <X />
+            </IconButton>
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12}>
+              <TextField
+                label="Description"
+                required
+                fullWidth
+                value={expenseForm.description}
+                onChange={(e) => setExpenseForm({ ...expenseForm, description: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Category"
+                fullWidth
+                placeholder="e.g. Software, Travel"
+                value={expenseForm.category}
+                onChange={(e) => setExpenseForm({ ...expenseForm, category: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Amount"
+                type="number"
+                required
+                fullWidth
+                value={expenseForm.amount}
+                onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })}
+                inputProps={{ min: 0, step: 0.01 }}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Date"
+                type="date"
+                fullWidth
+                value={expenseForm.incurred_on}
+                onChange={(e) => setExpenseForm({ ...expenseForm, incurred_on: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowExpenseDialog(false)} color="inherit">
+            Cancel
+          </Button>
+          <Button onClick={handleAddExpense} variant="contained" disabled={saving}>
+            {saving ? 'Saving...' : 'Add Expense'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={showThresholdDialog} onClose={() => setShowThresholdDialog(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Budget Alert Thresholds</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Connected Slack/Teams integrations are notified when spending crosses each percentage of the budget.
+          </Typography>
+          <TextField
+            label="Thresholds (%)"
+            fullWidth
+            value={thresholdInput}
+            onChange={(e) => setThresholdInput(e.target.value)}
+            helperText="Comma separated, e.g. 50, 75, 90, 100"
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowThresholdDialog(false)} color="inherit">
+            Cancel
+          </Button>
+          <Button onClick={handleSaveThresholds} variant="contained" disabled={saving}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
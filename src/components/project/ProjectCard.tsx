@@ -1,4 +1,4 @@
-import { Calendar, Users, Clock, ChevronRight, Edit2, Trash2, Archive, RefreshCw } from 'lucide-react';
+import { Calendar, Users, Clock, ChevronRight, Edit2, Trash2, Archive, RefreshCw, Copy, BookmarkPlus } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Box, Typography, IconButton, Card, Chip, CircularProgress, LinearProgress, Avatar, AvatarGroup, Tooltip } from '@mui/material';
@@ -11,10 +11,12 @@ interface ProjectCardProps {
   onEdit?: (project: Project) => void;
   onDelete?: (projectId: string) => void;
   onArchive?: (project: Project) => void;
+  onDuplicate?: (project: Project) => void;
+  onSaveAsTemplate?: (project: Project) => void;
   isArchived?: boolean;
 }
 
-export function ProjectCard({ project, isAdmin, onEdit, onDelete, onArchive, isArchived = false }: ProjectCardProps) {
+export function ProjectCard({ project, isAdmin, onEdit, onDelete, onArchive, onDuplicate, onSaveAsTemplate, isArchived = false }: ProjectCardProps) {
   const navigate = useNavigate();
   const [isNavigating, setIsNavigating] = useState(false);
   const memberCount = project.team_members?.length || 0;
@@ -114,6 +116,9 @@ export function ProjectCard({ project, isAdmin, onEdit, onDelete, onArchive, isA
           </Typography>
           
           <Box display="flex" gap={1}>
+            {project.is_template && (
+              <Chip label="Template" size="small" variant="outlined" color="primary" />
+            )}
             <Chip
               label={project.status.replace('_', ' ')}
               color={getStatusColor(project.status) as any}
@@ -123,6 +128,32 @@ export function ProjectCard({ project, isAdmin, onEdit, onDelete, onArchive, isA
             
             {isAdmin && (
               <Box display="flex">
+                {onDuplicate && (
+                  <Tooltip title={project.is_template ? 'Use template' : 'Duplicate'}>
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDuplicate(project);
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {onSaveAsTemplate && (
+                  <Tooltip title="Save as template">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSaveAsTemplate(project);
+                      }}
+                    >
+                      <BookmarkPlus className="h-4 w-4" />
+                    </IconButton>
+                  </Tooltip>
+                )}
                 {onArchive && (
                   <Tooltip title={isArchived ? "Unarchive" : "Archive"}>
                     <IconButton
@@ -127,14 +127,20 @@ interface TeamMemberRecord {
   } | null;
 }
 
+export type KnowledgebaseSection = 'documents' | 'faqs' | 'resources' | 'team';
+
+// Tab order; a section's position is also its tab value
+const SECTIONS: KnowledgebaseSection[] = ['documents', 'faqs', 'resources', 'team'];
+
 interface ProjectKnowledgebaseProps {
   projectId: string;
   canEdit: boolean;
+  sections?: KnowledgebaseSection[]; // defaults to every section
   key?: string;
 }
 
-export function ProjectKnowledgebase({ projectId, canEdit }: ProjectKnowledgebaseProps) {
-  const [activeTab, setActiveTab] = useState(0);
+export function ProjectKnowledgebase({ projectId, canEdit, sections = SECTIONS }: ProjectKnowledgebaseProps) {
+  const [activeTab, setActiveTab] = useState(() => SECTIONS.findIndex(section => sections.includes(section)));
   const [documents, setDocuments] = useState<DocumentItem[]>([]);
   const [completedTasks, setCompletedTasks] = useState<any[]>([]);
   const [completedPhases, setCompletedPhases] = useState<any[]>([]);
@@ -197,12 +203,10 @@ export function ProjectKnowledgebase({ projectId, canEdit }: ProjectKnowledgebas
       setLoading(true);
       console.log('Fetching all knowledge base data');
       await Promise.all([
-        fetchDocuments(),
-        fetchFAQs(),
-        fetchResources(),
-        fetchTeamMembers(),
-        fetchCompletedTasks(),
-        fetchCompletedPhases(),
+        ...(sections.includes('documents') ? [fetchDocuments(), fetchCompletedTasks(), fetchCompletedPhases()] : []),
+        ...(sections.includes('faqs') ? [fetchFAQs()] : []),
+        ...(sections.includes('resources') ? [fetchResources()] : []),
+        ...(sections.includes('team') ? [fetchTeamMembers()] : []),
       ]);
     } catch (error) {
       console.error('Error fetching knowledge base data:', error);
@@ -906,26 +910,38 @@ export function ProjectKnowledgebase({ projectId, canEdit }: ProjectKnowledgebas
             px: 2,
           }}
         >
-          <Tab
-            icon={<FileText size={18} />}
-            label="Documentation"
-            iconPosition="start"
-          />
-          <Tab
-            icon={<HelpCircle size={18} />}
-            label="FAQs"
-            iconPosition="start"
-          />
-          <Tab
-            icon={<LinkIcon size={18} />}
-            label="Resources"
-            iconPosition="start"
-          />
-          <Tab
-            icon={<Users size={18} />}
-            label="Team Members"
-            iconPosition="start"
-          />
+          {sections.includes('documents') && (
+            <Tab
+              value={0}
+              icon={<FileText size={18} />}
+              label="Documentation"
+              iconPosition="start"
+            />
+          )}
+          {sections.includes('faqs') && (
+            <Tab
+              value={1}
+              icon={<HelpCircle size={18} />}
+              label="FAQs"
+              iconPosition="start"
+            />
+          )}
+          {sections.includes('resources') && (
+            <Tab
+              value={2}
+              icon={<LinkIcon size={18} />}
+              label="Resources"
+              iconPosition="start"
+            />
+          )}
+          {sections.includes('team') && (
+            <Tab
+              value={3}
+              icon={<Users size={18} />}
+              label="Team Members"
+              iconPosition="start"
+            />
+          )}
         </Tabs>
 
         <TabPanel value={activeTab} index={0}>
@@ -8,6 +8,7 @@ import { NewProjectModal } from '../project/NewProjectModal';
 import { EditProjectModal } from './EditProjectModal';
 import toast from 'react-hot-toast';
 import { DeleteProjectModal } from '../project/DeleteProjectModal';
+import { canDeleteProjects } from '../../lib/permissions';
 
 interface ProjectsViewProps {
   user: User;
@@ -58,7 +59,8 @@ export function ProjectsView({ user, onProjectCreated }: ProjectsViewProps) {
         .select(`
           *,
           members:project_members(user_id, role)
-        `);
+        `)
+        .eq('is_template', false);
 
       if (error) throw error;
 
@@ -238,7 +240,7 @@ export function ProjectsView({ user, onProjectCreated }: ProjectsViewProps) {
             project={project}
             isAdmin={user.role === 'admin'}
             onEdit={handleEditProject}
-            onDelete={handleDeleteProject}
+            onDelete={canDeleteProjects(user, project.id, project.owner_id) ? handleDeleteProject : undefined}
           />
         ))}
       </div>
@@ -270,7 +272,7 @@ export function ProjectsView({ user, onProjectCreated }: ProjectsViewProps) {
         />
       )}
 
-      {showDeleteModal && selectedProject && (
+      {showDeleteModal && selectedProject && canDeleteProjects(user, selectedProject.id, selectedProject.owner_id) && (
         <DeleteProjectModal
           projectId={selectedProject.id}
           onClose={() => setSelectedProject(null)}
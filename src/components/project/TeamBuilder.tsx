@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react';
+import { UserPlus, Sparkles } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  Autocomplete,
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  List,
+  ListItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { fetchCandidateProfiles, rankCandidates } from '../../lib/services/teamBuilder';
+import type { CandidateProfile } from '../../lib/services/teamBuilder';
+
+interface TeamBuilderProps {
+  projectId: string;
+  onAdd: (userId: string) => Promise<boolean>;
+}
+
+export function TeamBuilder({ projectId, onAdd }: TeamBuilderProps) {
+  const [loading, setLoading] = useState(true);
+  const [profiles, setProfiles] = useState<CandidateProfile[]>([]);
+  const [requiredSkills, setRequiredSkills] = useState<string[]>([]);
+  const [headcount, setHeadcount] = useState(3);
+  const [addingIds, setAddingIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [projectId]);
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true);
+      setProfiles(await fetchCandidateProfiles(projectId));
+    } catch (error) {
+      console.error('Error loading candidates:', error);
+      toast.error('Error loading candidates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Offer every skill someone already has, so requirements are spelled the way the data is
+  const skillOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    profiles.forEach(profile => profile.skills.forEach(skill => {
+      const key = skill.name.trim().toLowerCase();
+      if (key && !names.has(key)) names.set(key, skill.name.trim());
+    }));
+    return [...names.values()].sort((a, b) => a.localeCompare(b));
+  }, [profiles]);
+
+  const rankings = useMemo(
+    () => (requiredSkills.length > 0 ? rankCandidates(profiles, requiredSkills) : []),
+    [profiles, requiredSkills]
+  );
+  const recommended = rankings.slice(0, headcount);
+
+  const handleAdd = async (userIds: string[]) => {
+    setAddingIds(userIds);
+    const added: string[] = [];
+    for (const userId of userIds) {
+      if (await onAdd(userId)) added.push(userId);
+    }
+    setProfiles(prev => prev.filter(profile => !added.includes(profile.user.id)));
+    setAddingIds([]);
+  };
+
+  return (
+    <Box>
+      <Box display="flex" gap={2} mb={2}>
+        <Autocomplete
+          multiple
+          freeSolo
+          options={skillOptions}
+          value={requiredSkills}
+          onChange={(_, value) => setRequiredSkills(value)}
+          renderTags={(value, getTagProps) =>
+            value.map((option, index) => (
+              <Chip label={option} size="small" {...getTagProps({ index })} />
+            ))
+          }
+          renderInput={(params) => (
+            <TextField {...params} label="Required skills" placeholder="Type a skill and press Enter" />
+          )}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label="Headcount"
+          type="number"
+          value={headcount}
+          onChange={(e) => setHeadcount(Math.max(1, parseInt(e.target.value) || 1))}
+          inputProps={{ min: 1 }}
+          sx={{ width: 120 }}
+        />
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : requiredSkills.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" align="center" py={2}>
+          Enter the skills the project needs to rank {profiles.length} available candidate{profiles.length === 1 ? '' : 's'}.
+        </Typography>
+      ) : rankings.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" align="center" py={2}>
+          Everyone active is already on this project.
+        </Typography>
+      ) : (
+        <>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+            <Typography variant="body2" color="text.secondary">
+              Ranked by skill match, open work across projects and interview results
+            </Typography>
+            <Button
+              size="small"
+              variant="contained"
+              startIcon={<Sparkles size={16} />}
+              onClick={() => handleAdd(recommended.map(ranking => ranking.profile.user.id))}
+              disabled={addingIds.length > 0}
+            >
+              Add top {recommended.length}
+            </Button>
+          </Box>
+          <List disablePadding sx={{ maxHeight: 400, overflowY: 'auto', bgcolor: 'background.paper', borderRadius: 1 }}>
+            {rankings.map((ranking, index) => {
+              const { user } = ranking.profile;
+              return (
+                <ListItem
+                  key={user.id}
+                  sx={{
+                    borderBottom: '1px solid',
+                    borderColor: 'divider',
+                    alignItems: 'flex-start',
+                    bgcolor: index < headcount ? 'action.selected' : 'transparent',
+                  }}
+                >
+                  <Box display="flex" gap={2} width="100%">
+                    <Avatar src={user.avatar_url || undefined}>{user.full_name?.[0]}</Avatar>
+                    <Box sx={{ minWidth: 0, flex: 1 }}>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <Typography variant="subtitle2">
+                          {index + 1}. {user.full_name}
+                        </Typography>
+                        {index < headcount && <Chip label="Recommended" size="small" color="primary" />}
+                      </Box>
+                      <Typography variant="body2" color="text.secondary">
+                        {user.position || 'No Position'} • {user.department || 'No Department'}
+                      </Typography>
+                      <Box display="flex" flexWrap="wrap" gap={0.5} my={1}>
+                        {ranking.matches.map(match => (
+                          <Chip
+                            key={match.skill}
+                            label={match.skill}
+                            size="small"
+                            color={match.source === 'skills' ? 'success' : match.source === 'experience' ? 'info' : 'default'}
+                            variant={match.source ? 'filled' : 'outlined'}
+                          />
+                        ))}
+                      </Box>
+                      {ranking.explanation.map((line, lineIndex) => (
+                        <Typography key={lineIndex} variant="caption" color="text.secondary" display="block">
+                          {line}
+                        </Typography>
+                      ))}
+                    </Box>
+                    <Box display="flex" flexDirection="column" alignItems="flex-end" gap={1} minWidth={110}>
+                      <Typography variant="h6">{ranking.score}</Typography>
+                      <LinearProgress
+                        variant="determinate"
+                        value={ranking.score}
+                        sx={{ width: '100%', height: 6, borderRadius: 3 }}
+                      />
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<UserPlus size={16} />}
+                        onClick={() => handleAdd([user.id])}
+                        disabled={addingIds.length > 0}
+                      >
+                        {addingIds.includes(user.id) ? 'Adding...' : 'Add'}
+                      </Button>
+                    </Box>
+                  </Box>
+                </ListItem>
+              );
+            })}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { X, Search, UserPlus, Trash2 } from 'lucide-react';
 import { supabase } from '../../../lib/supabase';
-import type { User } from '../../types/auth';
+import type { Role, User } from '../../types/auth';
 import type { ProjectMember } from '../../types/project';
 import { toast } from 'react-hot-toast';
 import {
@@ -26,8 +26,15 @@ import {
   Avatar,
   Radio,
   Checkbox,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import { UserAvatar } from '../UserAvatar';
+import { TeamBuilder } from './TeamBuilder';
+import { addProjectMember, setMemberRoleOverride } from '../../lib/services/projectMembers';
+import { fetchRoles } from '../../lib/services/roles';
+import { canManageRoles } from '../../lib/permissions';
+import { useAuth } from '../../contexts/auth/AuthContext';
 
 interface TeamManagementModalProps {
   projectId: string;
@@ -42,11 +49,23 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
   const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
   const [selectedRole, setSelectedRole] = useState<'member' | 'manager'>('member');
   const [teamMembers, setTeamMembers] = useState<ProjectMember[]>([]);
+  const [addMode, setAddMode] = useState<'search' | 'builder'>('search');
+  const { user: currentUser } = useAuth();
+  const [roles, setRoles] = useState<Role[]>([]);
+  const canOverrideRoles = !!currentUser && canManageRoles(currentUser);
 
   useEffect(() => {
     fetchTeamMembers();
   }, [projectId]);
 
+  useEffect(() => {
+    if (canOverrideRoles) {
+      fetchRoles()
+        .then(setRoles)
+        .catch(error => console.error('Error fetching roles:', error));
+    }
+  }, [canOverrideRoles]);
+
   const fetchTeamMembers = async () => {
     try {
       const { data, error } = await supabase
@@ -55,6 +74,7 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
           project_id,
           user_id,
           role,
+          role_id,
           joined_at,
           created_at,
           updated_at,
@@ -78,6 +98,7 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
         project_id: item.project_id,
         user_id: item.user_id,
         role: item.role as 'member' | 'manager',
+        role_id: item.role_id,
         joined_at: item.joined_at,
         created_at: item.created_at || new Date().toISOString(),
         updated_at: item.updated_at || new Date().toISOString(),
@@ -113,6 +134,7 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
         .select('*')
         .ilike('full_name', `%${searchQuery}%`)
         .eq('status', 'active')
+        .neq('role', 'guest')
         .limit(5);
 
       if (error) throw error;
@@ -139,46 +161,7 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
     setLoading(true);
     try {
       for (const userId of selectedUserIds) {
-        // First, add the member to project_members
-        const { error: memberError } = await supabase
-          .from('project_members')
-          .insert({
-            project_id: projectId,
-            user_id: userId,
-            role: selectedRole,
-            joined_at: new Date().toISOString(),
-          });
-
-        if (memberError) throw memberError;
-
-        // Try to fetch user's CV data, but don't block if it fails
-        try {
-          const { data: cvData } = await supabase
-            .from('cv_parsed_data')
-            .select('education, work_experience, skills, languages, certifications')
-            .eq('user_id', userId)
-            .single();
-
-          // Create team member record with CV data if available
-          await supabase
-            .from('team_member_records')
-            .insert({
-              project_id: projectId,
-              user_id: userId,
-              cv_data: cvData || null,
-              joined_at: new Date().toISOString(),
-            });
-        } catch (cvError) {
-          console.warn('Warning: Could not fetch CV data:', cvError);
-          // Create team member record without CV data
-          await supabase
-            .from('team_member_records')
-            .insert({
-              project_id: projectId,
-              user_id: userId,
-              joined_at: new Date().toISOString(),
-            });
-        }
+        await addProjectMember(projectId, userId, selectedRole);
       }
 
       toast.success(`${selectedUserIds.length} team member${selectedUserIds.length > 1 ? 's' : ''} added successfully`);
@@ -200,6 +183,21 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
     }
   };
 
+  // Team builder candidates join as regular members, one at a time
+  const handleAddCandidate = async (userId: string) => {
+    try {
+      await addProjectMember(projectId, userId);
+      toast.success('Team member added successfully');
+      fetchTeamMembers();
+      onUpdate();
+      return true;
+    } catch (error: any) {
+      console.error('Error adding team member:', error);
+      toast.error(`Error adding team member: ${error.message || 'Unknown error'}`);
+      return false;
+    }
+  };
+
   const handleRemoveMember = async (userId: string) => {
     setLoading(true);
     try {
@@ -260,6 +258,21 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
     }
   };
 
+  const handleRoleOverride = async (userId: string, roleId: string | null) => {
+    setLoading(true);
+    try {
+      await setMemberRoleOverride(projectId, userId, roleId);
+      toast.success(roleId ? 'Project role override set' : 'Project role override removed');
+      fetchTeamMembers();
+      onUpdate();
+    } catch (error: any) {
+      console.error('Error updating role override:', error);
+      toast.error('Error updating role override: ' + (error.message || 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <Dialog open onClose={onClose} maxWidth="md" fullWidth>
       <DialogTitle>
@@ -285,103 +298,113 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
               </Typography>
             )}
           </Box>
+          <Tabs value={addMode} onChange={(_, value) => setAddMode(value)} sx={{ mb: 2 }}>
+            <Tab value="search" label="Search Users" />
+            <Tab value="builder" label="Team Builder" />
+          </Tabs>
           <Paper sx={{ p: 3, bgcolor: 'grey.50' }}>
-            <Box display="flex" gap={2} mb={2}>
-              <TextField
-                label="Search Users"
-                value={searchQuery}
-                onChange={(e) => {
-                  setSearchQuery(e.target.value);
-                  fetchUsers();
-                }}
-                fullWidth
-                variant="outlined"
-                placeholder="Search by name..."
-                InputProps={{
-                  startAdornment: (
-                    <Box component="span" sx={{ color: 'text.secondary', mr: 1 }}>
-                      <Search size={20} />
-                    </Box>
-                  ),
-                }}
-              />
-              <FormControl sx={{ minWidth: 150 }}>
-                <InputLabel>Role</InputLabel>
-                <Select
-                  value={selectedRole}
-                  onChange={(e) => setSelectedRole(e.target.value as 'member' | 'manager')}
-                  label="Role"
-                >
-                  <MenuItem value="member">Team Member</MenuItem>
-                  <MenuItem value="manager">Team Manager</MenuItem>
-                </Select>
-              </FormControl>
-            </Box>
-            {availableUsers.length > 0 && (
-              <Box sx={{ maxHeight: 300, overflowY: 'auto', bgcolor: 'background.paper', borderRadius: 1 }}>
-                <List disablePadding>
-                  {availableUsers.map((user) => (
-                    <ListItem
-                      key={user.id}
-                      sx={{ 
-                        cursor: 'pointer',
-                        bgcolor: selectedUserIds.includes(user.id) ? 'action.selected' : 'transparent',
-                        '&:hover': {
-                          bgcolor: 'action.hover'
-                        },
-                        borderBottom: '1px solid',
-                        borderColor: 'divider'
-                      }}
-                      onClick={() => handleToggleUser(user.id)}
-                    >
-                      <Box display="flex" alignItems="center" gap={2} width="100%">
-                        <UserAvatar 
-                          user={user}
-                          sx={{ width: 40, height: 40 }}
-                        />
-                        <Box sx={{ minWidth: 0, flex: 1 }}>
-                          <Typography
-                            variant="subtitle2"
-                            sx={{
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap'
-                            }}
-                          >
-                            {user.full_name}
-                          </Typography>
-                          <Typography
-                            variant="body2"
-                            color="text.secondary"
-                            sx={{
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap'
-                            }}
-                          >
-                            {user.email} • {user.department || 'No Department'}
-                          </Typography>
+            {addMode === 'builder' ? (
+              <TeamBuilder projectId={projectId} onAdd={handleAddCandidate} />
+            ) : (
+              <>
+                <Box display="flex" gap={2} mb={2}>
+                  <TextField
+                    label="Search Users"
+                    value={searchQuery}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value);
+                      fetchUsers();
+                    }}
+                    fullWidth
+                    variant="outlined"
+                    placeholder="Search by name..."
+                    InputProps={{
+                      startAdornment: (
+                        <Box component="span" sx={{ color: 'text.secondary', mr: 1 }}>
+                          <Search size={20} />
                         </Box>
-                        <Checkbox
-                          checked={selectedUserIds.includes(user.id)}
-                          sx={{ p: 1 }}
-                        />
-                      </Box>
-                    </ListItem>
-                  ))}
-                </List>
-              </Box>
+                      ),
+                    }}
+                  />
+                  <FormControl sx={{ minWidth: 150 }}>
+                    <InputLabel>Role</InputLabel>
+                    <Select
+                      value={selectedRole}
+                      onChange={(e) => setSelectedRole(e.target.value as 'member' | 'manager')}
+                      label="Role"
+                    >
+                      <MenuItem value="member">Team Member</MenuItem>
+                      <MenuItem value="manager">Team Manager</MenuItem>
+                    </Select>
+                  </FormControl>
+                </Box>
+                {availableUsers.length > 0 && (
+                  <Box sx={{ maxHeight: 300, overflowY: 'auto', bgcolor: 'background.paper', borderRadius: 1 }}>
+                    <List disablePadding>
+                      {availableUsers.map((user) => (
+                        <ListItem
+                          key={user.id}
+                          sx={{ 
+                            cursor: 'pointer',
+                            bgcolor: selectedUserIds.includes(user.id) ? 'action.selected' : 'transparent',
+                            '&:hover': {
+                              bgcolor: 'action.hover'
+                            },
+                            borderBottom: '1px solid',
+                            borderColor: 'divider'
+                          }}
+                          onClick={() => handleToggleUser(user.id)}
+                        >
+                          <Box display="flex" alignItems="center" gap={2} width="100%">
+                            <UserAvatar 
+                              user={user}
+                              sx={{ width: 40, height: 40 }}
+                            />
+                            <Box sx={{ minWidth: 0, flex: 1 }}>
+                              <Typography
+                                variant="subtitle2"
+                                sx={{
+                                  overflow: 'hidden',
+                                  textOverflow: 'ellipsis',
+                                  whiteSpace: 'nowrap'
+                                }}
+                              >
+                                {user.full_name}
+                              </Typography>
+                              <Typography
+                                variant="body2"
+                                color="text.secondary"
+                                sx={{
+                                  overflow: 'hidden',
+                                  textOverflow: 'ellipsis',
+                                  whiteSpace: 'nowrap'
+                                }}
+                              >
+                                {user.email} • {user.department || 'No Department'}
+                              </Typography>
+                            </Box>
+                            <Checkbox
+                              checked={selectedUserIds.includes(user.id)}
+                              sx={{ p: 1 }}
+                            />
+                          </Box>
+                        </ListItem>
+                      ))}
+                    </List>
+                  </Box>
+                )}
+                <Button
+                  variant="contained"
+                  onClick={handleAddMembers}
+                  disabled={selectedUserIds.length === 0 || loading}
+                  sx={{ mt: 2 }}
+                  startIcon={<UserPlus size={20} />}
+                  fullWidth
+                >
+                  Add Selected Members ({selectedUserIds.length})
+                </Button>
+              </>
             )}
-            <Button
-              variant="contained"
-              onClick={handleAddMembers}
-              disabled={selectedUserIds.length === 0 || loading}
-              sx={{ mt: 2 }}
-              startIcon={<UserPlus size={20} />}
-              fullWidth
-            >
-              Add Selected Members ({selectedUserIds.length})
-            </Button>
           </Paper>
         </Box>
 
@@ -442,6 +465,23 @@ export function TeamManagementModal({ projectId, onClose, onUpdate }: TeamManage
                             <MenuItem value="manager">Team Manager</MenuItem>
                           </Select>
                         </FormControl>
+                        {canOverrideRoles && roles.length > 0 && (
+                          <FormControl size="small" sx={{ minWidth: 170 }}>
+                            <Select
+                              value={member.role_id || ''}
+                              onChange={(e) => handleRoleOverride(member.user_id, e.target.value || null)}
+                              variant="outlined"
+                              displayEmpty
+                              disabled={loading}
+                              sx={{ height: 36 }}
+                            >
+                              <MenuItem value="">Own role permissions</MenuItem>
+                              {roles.map(role => (
+                                <MenuItem key={role.id} value={role.id}>As {role.name}</MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                        )}
                         <IconButton
                           onClick={() => handleRemoveMember(member.user_id)}
                           color="error"
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { Task, TaskStatus } from '../../types/task';
+import type { Task, TaskStatus, TaskDependency } from '../../types/task';
 import type { User } from '../../types/auth';
 import type { Phase } from '../../types/phase';
 import { toast } from 'react-hot-toast';
@@ -12,10 +12,14 @@ import {
   CardActions,
   IconButton,
   Chip,
-  Grid
+  Grid,
+  Tooltip,
+  LinearProgress
 } from '@mui/material';
-import { Edit, Trash } from 'lucide-react';
+import { Edit, Trash, Lock, MessageSquare, Paperclip } from 'lucide-react';
 import { canUpdateTaskStatus } from '../../lib/permissions';
+import { getOpenBlockers, BLOCKED_STATUSES } from '../../lib/services/taskDependencies';
+import { getTaskProgress } from '../../lib/services/subtasks';
 
 interface BoardViewProps {
   tasks: Task[];
@@ -24,6 +28,7 @@ interface BoardViewProps {
   onDeleteTask?: (taskId: string) => Promise<void>;
   currentUser: User;
   canManageTasks: boolean;
+  dependencies?: TaskDependency[];
 }
 
 export function BoardView({ 
@@ -32,7 +37,8 @@ export function BoardView({
   onUpdateTask, 
   onDeleteTask, 
   currentUser, 
-  canManageTasks 
+  canManageTasks,
+  dependencies = []
 }: BoardViewProps) {
   
   const handleDragStart = (e: React.DragEvent, task: Task) => {
@@ -55,6 +61,14 @@ export function BoardView({
       toast.error("You don't have permission to update this task");
       return;
     }
+
+    if (task.status === status) return;
+
+    const openBlockers = getOpenBlockers(task.id, dependencies);
+    if (BLOCKED_STATUSES.includes(status) && openBlockers.length > 0) {
+      toast.error(`Task is blocked by ${openBlockers.map(b => `"${b.title}"`).join(', ')}`);
+      return;
+    }
     
     try {
       await onUpdateTask(taskId, { status });
@@ -137,62 +151,111 @@ export function BoardView({
               </Typography>
               
               <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
-                {statusTasks.map(task => (
-                  <Card 
-                    key={task.id} 
-                    sx={{ 
-                      mb: 2,
-                      cursor: canUpdateTaskStatus(currentUser, task) ? 'grab' : 'default',
-                      '&:hover': {
-                        boxShadow: 3
-                      }
-                    }}
-                    draggable={canUpdateTaskStatus(currentUser, task)}
-                    onDragStart={(e) => handleDragStart(e, task)}
-                  >
-                    <CardContent sx={{ pb: 1 }}>
-                      <Typography variant="subtitle1" gutterBottom>
-                        {task.title}
-                      </Typography>
+                {statusTasks.map(task => {
+                  const openBlockers = getOpenBlockers(task.id, dependencies);
+                  const progress = getTaskProgress(task);
+
+                  return (
+                    <Card 
+                      key={task.id} 
+                      sx={{ 
+                        mb: 2,
+                        cursor: canUpdateTaskStatus(currentUser, task) ? 'grab' : 'default',
+                        '&:hover': {
+                          boxShadow: 3
+                        }
+                      }}
+                      draggable={canUpdateTaskStatus(currentUser, task)}
+                      onDragStart={(e) => handleDragStart(e, task)}
+                    >
+                      <CardContent sx={{ pb: 1 }}>
+                        <Typography variant="subtitle1" gutterBottom>
+                          {task.title}
+                        </Typography>
                       
-                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
-                        <Chip 
-                          label={task.priority} 
-                          color={getPriorityColor(task.priority)} 
-                          size="small"
-                        />
-                        
-                        {task.phase && (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
                           <Chip 
-                            label={task.phase.name} 
-                            size="small" 
-                            variant="outlined"
+                            label={task.priority} 
+                            color={getPriorityColor(task.priority)} 
+                            size="small"
                           />
+                        
+                          {task.phase && (
+                            <Chip 
+                              label={task.phase.name} 
+                              size="small" 
+                              variant="outlined"
+                            />
+                          )}
+
+                          {(task.comments?.[0]?.count ?? 0) > 0 && (
+                            <Chip
+                              icon={<MessageSquare size={12} />}
+                              label={task.comments![0].count}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
+
+                          {(task.attachments?.[0]?.count ?? 0) > 0 && (
+                            <Chip
+                              icon={<Paperclip size={12} />}
+                              label={task.attachments![0].count}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
+
+                          {openBlockers.length > 0 && (
+                            <Tooltip title={`Blocked by: ${openBlockers.map(b => b.title).join(', ')}`}>
+                              <Chip
+                                icon={<Lock size={12} />}
+                                label={`Blocked (${openBlockers.length})`}
+                                size="small"
+                                color="error"
+                                variant="outlined"
+                              />
+                            </Tooltip>
+                          )}
+                        </Box>
+
+                        {progress && (
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                            <LinearProgress
+                              variant="determinate"
+                              value={progress.percent}
+                              color={progress.completed === progress.total ? 'success' : 'primary'}
+                              sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+                            />
+                            <Typography variant="caption" color="text.secondary">
+                              {progress.completed}/{progress.total}
+                            </Typography>
+                          </Box>
                         )}
-                      </Box>
                       
-                      <Typography variant="body2" color="text.secondary">
-                        {task.assignee ? task.assignee.full_name : 'Unassigned'}
-                      </Typography>
-                      
-                      {task.due_date && (
-                        <Typography variant="caption" color="text.secondary" display="block">
-                          Due: {new Date(task.due_date).toLocaleDateString()}
+                        <Typography variant="body2" color="text.secondary">
+                          {task.assignee ? task.assignee.full_name : 'Unassigned'}
                         </Typography>
-                      )}
-                    </CardContent>
+                      
+                        {task.due_date && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            Due: {new Date(task.due_date).toLocaleDateString()}
+                          </Typography>
+                        )}
+                      </CardContent>
                     
-                    {canManageTasks && (
-                      <CardActions sx={{ pt: 0 }}>
-                        <Box sx={{ ml: 'auto', display: 'flex' }}>
-                          <IconButton size="small" onClick={() => onDeleteTask?.(task.id)}>
-                            <Trash size={16} />
-                          </IconButton>
-                        </Box>
-                      </CardActions>
-                    )}
-                  </Card>
-                ))}
+                      {canManageTasks && (
+                        <CardActions sx={{ pt: 0 }}>
+                          <Box sx={{ ml: 'auto', display: 'flex' }}>
+                            <IconButton size="small" onClick={() => onDeleteTask?.(task.id)}>
+                              <Trash size={16} />
+                            </IconButton>
+                          </Box>
+                        </CardActions>
+                      )}
+                    </Card>
+                  );
+                })}
               </Box>
             </Paper>
           </Grid>
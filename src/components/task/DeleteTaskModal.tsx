@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { X } from 'lucide-react';
 import type { Task } from '../../types/task';
+import { TRASH_RETENTION_DAYS } from '../../lib/services/trash';
 import {
   Dialog,
   DialogTitle,
@@ -46,7 +47,8 @@ export function DeleteTaskModal({ task, onClose, onDelete }: DeleteTaskModalProp
 
       <DialogContent>
         <Typography>
-          Are you sure you want to delete the task "{task.title}"? This action cannot be undone.
+          Are you sure you want to delete the task "{task.title}"? It moves to the trash with its
+          subtasks and can be restored for {TRASH_RETENTION_DAYS} days.
         </Typography>
       </DialogContent>
 
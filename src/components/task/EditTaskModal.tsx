@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import type { Task, TaskPriority, TaskStatus } from '../../types/task';
+import type { Task, TaskPriority, TaskStatus, TaskDependency } from '../../types/task';
 import type { Phase } from '../../types/phase';
 import type { User } from '../../types/auth';
 import { supabase } from '../../../lib/supabase';
@@ -19,14 +19,36 @@ import {
   Grid,
   Typography,
   Alert,
+  Autocomplete,
+  Chip,
+  Divider,
+  Tabs,
+  Tab,
 } from '@mui/material';
 import { canEditTask } from '../../lib/permissions';
 import { format } from 'date-fns';
+import {
+  findDependencyCycle,
+  getPhaseOrderWarning,
+  setTaskBlockers,
+} from '../../lib/services/taskDependencies';
+import { TaskComments } from './TaskComments';
+import { TaskAttachments } from './TaskAttachments';
+import { TaskTimeTracker } from './TaskTimeTracker';
+import { TaskSubtasks } from './TaskSubtasks';
+import { TaskChecklist } from './TaskChecklist';
+import { RequiredSkillsField } from '../RequiredSkillsField';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { VersionConflictError } from '../../lib/services/concurrency';
+import { conflictFromError, taskConflictFields } from '../../lib/editConflicts';
+import type { EditConflict } from '../../lib/editConflicts';
+import { AuditHistory } from '../AuditHistory';
 
 // Define a simplified Phase type for the props
 interface SimplePhase {
   id: string;
   name: string;
+  sequence_order?: number;
 }
 
 interface EditTaskModalProps {
@@ -34,11 +56,27 @@ interface EditTaskModalProps {
   projectMembers: Array<{ id: string; full_name: string }>;
   phases?: Array<SimplePhase>;
   onClose: () => void;
-  onSave: (taskId: string, updates: Partial<Task>) => void;
+  // Saves against the given version, throwing VersionConflictError if it has moved on
+  onSave: (taskId: string, updates: Partial<Task>, expectedUpdatedAt: string) => Promise<unknown>;
   currentUser: User;
+  projectTasks?: Task[];
+  dependencies?: TaskDependency[];
+  onDependenciesChange?: () => void;
+  onProgressChange?: () => void; // subtasks or checklist items changed
 }
 
-export function EditTaskModal({ task, projectMembers, phases: initialPhases, onClose, onSave, currentUser }: EditTaskModalProps) {
+export function EditTaskModal({
+  task,
+  projectMembers,
+  phases: initialPhases,
+  onClose,
+  onSave,
+  currentUser,
+  projectTasks = [],
+  dependencies = [],
+  onDependenciesChange,
+  onProgressChange,
+}: EditTaskModalProps) {
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     title: task.title,
@@ -49,8 +87,17 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
     due_date: task.due_date ? new Date(task.due_date).toISOString().split('T')[0] : '',
     phase_id: task.phase_id || '',
     estimated_hours: task.estimated_hours || null,
+    required_skills: task.required_skills || [],
   });
   const [phases, setPhases] = useState<Phase[]>([]);
+  const [conflict, setConflict] = useState<EditConflict<Task> | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const [tab, setTab] = useState(0);
+  const [blockerIds, setBlockerIds] = useState<string[]>(
+    dependencies
+      .filter(dep => dep.dependent_task_id === task.id)
+      .map(dep => dep.dependency_task_id)
+  );
 
   // Check if the current user can edit all fields
   const canEditAllFields = canEditTask(currentUser, task);
@@ -65,7 +112,7 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
         name: p.name,
         project_id: task.project_id, // Use task's project_id
         status: 'pending' as any, // Default value
-        sequence_order: 0, // Default value
+        sequence_order: p.sequence_order ?? 0, // Needed for dependency phase-order warnings
         // Add any other required properties with default values
       })));
     } else {
@@ -96,6 +143,48 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
     }
   };
 
+  // Blocker candidates are the other tasks of the project, plus any linked task that isn't loaded
+  const blockerOptions = [
+    ...projectTasks
+      .filter(t => t.id !== task.id)
+      .map(t => ({ id: t.id, title: t.title, status: t.status, phase_id: t.phase_id })),
+    ...dependencies
+      .filter(dep => dep.dependent_task_id === task.id && dep.dependency)
+      .map(dep => dep.dependency!)
+      .filter(dep => !projectTasks.some(t => t.id === dep.id)),
+  ];
+
+  const selectedBlockers = blockerOptions.filter(option => blockerIds.includes(option.id));
+
+  const handleBlockersChange = (newBlockers: typeof blockerOptions) => {
+    const added = newBlockers.find(blocker => !blockerIds.includes(blocker.id));
+
+    if (added) {
+      // Ignore the links being replaced so removing and re-adding in one edit is judged correctly
+      const otherDependencies = dependencies.filter(dep => dep.dependent_task_id !== task.id);
+      const pending = blockerIds.map(id => ({
+        dependent_task_id: task.id,
+        dependency_task_id: id,
+        created_at: '',
+      }));
+      const cycle = findDependencyCycle([...otherDependencies, ...pending], task.id, added.id);
+
+      if (cycle) {
+        const titles = cycle.map(id =>
+          id === task.id ? task.title : blockerOptions.find(o => o.id === id)?.title || 'Unknown task'
+        );
+        toast.error(`This would create a dependency cycle: ${titles.join(' → ')}`);
+        return;
+      }
+    }
+
+    setBlockerIds(newBlockers.map(blocker => blocker.id));
+  };
+
+  const phaseOrderWarnings = selectedBlockers
+    .map(blocker => getPhaseOrderWarning({ phase_id: formData.phase_id || null }, blocker, phases))
+    .filter((warning): warning is string => !!warning);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -104,26 +193,40 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
       return;
     }
 
+    // Handle new phase creation if needed
+    let phaseId = formData.phase_id;
+    const updates: Partial<Task> = {
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      status: formData.status,
+      priority: formData.priority,
+      assigned_to: formData.assigned_to || null,
+      due_date: formData.due_date || null,
+      phase_id: phaseId || null,
+      estimated_hours: formData.estimated_hours || null,
+      required_skills: formData.required_skills
+    };
+
     setLoading(true);
     try {
-      // Handle new phase creation if needed
-      let phaseId = formData.phase_id;
+
+      // Save blockers first so the status change below is checked against them
+      if (canEditAllFields) {
+        await setTaskBlockers(task.id, blockerIds, dependencies);
+        onDependenciesChange?.();
+      }
       
-      await onSave(task.id, {
-        title: formData.title.trim(),
-        description: formData.description.trim() || null,
-        status: formData.status,
-        priority: formData.priority,
-        assigned_to: formData.assigned_to || null,
-        due_date: formData.due_date || null,
-        phase_id: phaseId || null,
-        estimated_hours: formData.estimated_hours || null,
-        updated_at: new Date().toISOString()
-      });
+      const saved = await onSave(task.id, updates, task.updated_at);
+      // The board has already explained why a save was refused
+      if (saved === null) return;
       
       toast.success('Task updated successfully');
       onClose();
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, task, updates));
+        return;
+      }
       console.error('Error updating task:', error);
       toast.error('Error updating task: ' + (error.message || 'Unknown error'));
     } finally {
@@ -131,11 +234,47 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
     }
   };
 
+  const handleResolveConflict = async (updates: Partial<Task>) => {
+    if (!conflict?.current) return;
+    const current = conflict.current;
+    setResolvingConflict(true);
+    try {
+      const saved = await onSave(task.id, updates, current.updated_at);
+      if (saved === null) return;
+      toast.success('Task updated successfully');
+      onClose();
+    } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        setConflict(conflictFromError(error, current, updates));
+        return;
+      }
+      console.error('Error updating task:', error);
+      toast.error('Error updating task: ' + (error.message || 'Unknown error'));
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
   return (
     <Dialog open={true} onClose={onClose} maxWidth="md" fullWidth>
+      <ConflictResolutionDialog
+        conflict={conflict}
+        entityName="task"
+        fields={taskConflictFields(projectMembers, phases)}
+        saving={resolvingConflict}
+        onSave={handleResolveConflict}
+        onDiscard={onClose}
+      />
       <DialogTitle>Edit Task</DialogTitle>
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', px: 3 }}>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)}>
+          <Tab label="Details" />
+          <Tab label="History" />
+        </Tabs>
+      </Box>
       <form onSubmit={handleSubmit}>
-        <DialogContent>
+        {/* Kept mounted while on History so unsaved edits survive the switch */}
+        <DialogContent sx={{ display: tab === 0 ? undefined : 'none' }}>
           <Box mb={3}>
             <Typography variant="body2" color="textSecondary">
               Last updated: {formatDate(task.updated_at)}
@@ -266,7 +405,58 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
                 disabled={!canEditAllFields}
               />
             </Grid>
+
+            <Grid item xs={12}>
+              <RequiredSkillsField
+                value={formData.required_skills}
+                onChange={(skills) => setFormData({ ...formData, required_skills: skills })}
+                disabled={!canEditAllFields}
+              />
+            </Grid>
+
+            <Grid item xs={12}>
+              <Autocomplete
+                multiple
+                options={blockerOptions}
+                value={selectedBlockers}
+                onChange={(_, value) => handleBlockersChange(value)}
+                getOptionLabel={(option) => option.title}
+                isOptionEqualToValue={(option, value) => option.id === value.id}
+                disabled={!canEditAllFields}
+                renderTags={(value, getTagProps) =>
+                  value.map((option, index) => (
+                    <Chip
+                      {...getTagProps({ index })}
+                      key={option.id}
+                      label={option.title}
+                      size="small"
+                      color={option.status === 'completed' ? 'success' : 'warning'}
+                    />
+                  ))
+                }
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Blocked by"
+                    helperText="This task can't be started or completed until these tasks are completed"
+                  />
+                )}
+              />
+            </Grid>
           </Grid>
+
+          {phaseOrderWarnings.length > 0 && (
+            <Box mt={2}>
+              <Alert severity="warning">
+                Some blockers are out of phase order:
+                <ul style={{ margin: 0, paddingLeft: 20 }}>
+                  {phaseOrderWarnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </Alert>
+            </Box>
+          )}
           
           {!canEditAllFields && isAssignedToCurrentUser && (
             <Box mt={2}>
@@ -275,8 +465,57 @@ export function EditTaskModal({ task, projectMembers, phases: initialPhases, onC
               </Alert>
             </Box>
           )}
+
+          <Divider sx={{ my: 3 }} />
+
+          <TaskSubtasks
+            task={task}
+            currentUser={currentUser}
+            canManage={canEditAllFields}
+            onChange={onProgressChange}
+          />
+
+          <Divider sx={{ my: 3 }} />
+
+          <TaskChecklist
+            task={task}
+            currentUser={currentUser}
+            canEdit={canEditAllFields}
+            canCheck={canEditAllFields || isAssignedToCurrentUser}
+            onChange={onProgressChange}
+          />
+
+          <Divider sx={{ my: 3 }} />
+
+          <TaskTimeTracker
+            task={task}
+            currentUser={currentUser}
+            canLogTime={canEditAllFields || isAssignedToCurrentUser}
+          />
+
+          <Divider sx={{ my: 3 }} />
+
+          <TaskAttachments
+            task={task}
+            currentUser={currentUser}
+            canManage={canEditAllFields || isAssignedToCurrentUser}
+          />
+
+          <Divider sx={{ my: 3 }} />
+
+          <TaskComments
+            task={task}
+            currentUser={currentUser}
+            projectMembers={projectMembers}
+          />
         </DialogContent>
 
+        {tab === 1 && (
+          <DialogContent>
+            <AuditHistory tables={['tasks']} recordId={task.id} />
+          </DialogContent>
+        )}
+
         <DialogActions>
           <Button onClick={onClose} color="inherit">
             Cancel
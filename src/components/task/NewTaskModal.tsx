@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import type { Task, TaskPriority, TaskStatus } from '../../types/task';
+import type { Task, TaskPriority, TaskStatus, TaskTemplate } from '../../types/task';
 import type { Phase } from '../../types/phase';
 import type { User } from '../../types/auth';
 import { supabase } from '../../../lib/supabase';
 import { toast } from 'react-hot-toast';
+import { fetchTaskTemplates } from '../../lib/services/taskTemplates';
+import { addChecklistItems } from '../../lib/services/subtasks';
 import {
   Dialog,
   DialogTitle,
@@ -22,6 +24,7 @@ import {
   Autocomplete,
   Chip,
 } from '@mui/material';
+import { RequiredSkillsField } from '../RequiredSkillsField';
 
 interface NewTaskModalProps {
   projectId: string;
@@ -40,8 +43,12 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
     priority: 'medium' as TaskPriority,
     assigned_to: '',
     due_date: '',
-    phase_id: ''
+    phase_id: '',
+    estimated_hours: '',
+    required_skills: [] as string[]
   });
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
   const [phases, setPhases] = useState<Phase[]>([]);
   const [phaseInputValue, setPhaseInputValue] = useState('');
   const [suggestedPhases, setSuggestedPhases] = useState<Phase[]>([]);
@@ -49,6 +56,7 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
 
   useEffect(() => {
     fetchPhases();
+    fetchTemplates();
   }, [projectId]);
 
   useEffect(() => {
@@ -72,6 +80,33 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      setTemplates(await fetchTaskTemplates(projectId));
+    } catch (error) {
+      console.error('Error fetching task templates:', error);
+    }
+  };
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    const phase = phases.find(p => p.id === template.phase_id);
+    setFormData({
+      ...formData,
+      title: template.title,
+      description: template.description || '',
+      priority: template.priority,
+      estimated_hours: template.estimated_hours?.toString() || '',
+      phase_id: phase?.id || formData.phase_id
+    });
+    if (phase) {
+      setPhaseInputValue(phase.name);
+    }
+  };
+
   const suggestPhases = async (query: string) => {
     setLoadingSuggestions(true);
     try {
@@ -186,7 +221,7 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
         }
       }
       
-      const { error } = await supabase
+      const { data: newTask, error } = await supabase
         .from('tasks')
         .insert({
           project_id: projectId,
@@ -196,13 +231,24 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
           priority: formData.priority,
           assigned_to: formData.assigned_to || null,
           due_date: formData.due_date || null,
+          estimated_hours: formData.estimated_hours ? Number(formData.estimated_hours) : null,
           phase_id: phaseId || null,
+          required_skills: formData.required_skills,
+          template_id: templateId || null,
           created_by: currentUser.id,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
+
+      // The template's checklist becomes the new task's checklist
+      const template = templates.find(t => t.id === templateId);
+      if (template?.checklist?.length) {
+        await addChecklistItems(newTask.id, template.checklist, currentUser.id);
+      }
       
       toast.success('Task created successfully');
       onCreated();
@@ -241,6 +287,29 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
       <form onSubmit={handleSubmit}>
         <DialogContent>
           <Grid container spacing={2}>
+            {templates.length > 0 && (
+              <Grid item xs={12}>
+                <FormControl fullWidth>
+                  <InputLabel>Start from Template</InputLabel>
+                  <Select
+                    value={templateId}
+                    onChange={(e) => applyTemplate(e.target.value)}
+                    label="Start from Template"
+                  >
+                    <MenuItem value="">Blank task</MenuItem>
+                    {templates.map((template) => (
+                      <MenuItem key={template.id} value={template.id}>
+                        {template.name}
+                        {template.project_id === null && (
+                          <Chip label="Shared" size="small" variant="outlined" sx={{ ml: 1 }} />
+                        )}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            )}
+
             <Grid item xs={12}>
               <TextField
                 label="Title"
@@ -358,6 +427,24 @@ export function NewTaskModal({ projectId, currentUser, projectMembers, onClose,
                 }}
               />
             </Grid>
+
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Estimated Hours"
+                type="number"
+                value={formData.estimated_hours}
+                onChange={(e) => setFormData({ ...formData, estimated_hours: e.target.value })}
+                inputProps={{ min: 0, step: 0.5 }}
+                fullWidth
+              />
+            </Grid>
+
+            <Grid item xs={12}>
+              <RequiredSkillsField
+                value={formData.required_skills}
+                onChange={(skills) => setFormData({ ...formData, required_skills: skills })}
+              />
+            </Grid>
           </Grid>
         </DialogContent>
 
@@ -0,0 +1,30 @@
+import { Avatar, AvatarGroup, Box, Tooltip, Typography } from '@mui/material';
+import type { ProjectViewer } from '../../hooks/useTaskRealtime';
+
+interface ProjectViewersProps {
+  viewers: ProjectViewer[];
+}
+
+/**
+ * Avatars of the other people who have this project's tasks open
+ */
+export function ProjectViewers({ viewers }: ProjectViewersProps) {
+  if (viewers.length === 0) return null;
+
+  return (
+    <Box display="flex" alignItems="center" gap={1}>
+      <Typography variant="caption" color="text.secondary">
+        Also viewing
+      </Typography>
+      <AvatarGroup max={5} sx={{ '& .MuiAvatar-root': { width: 28, height: 28, fontSize: 13 } }}>
+        {viewers.map(viewer => (
+          <Tooltip key={viewer.user_id} title={viewer.full_name}>
+            <Avatar alt={viewer.full_name} src={viewer.avatar_url || undefined}>
+              {viewer.full_name.charAt(0).toUpperCase()}
+            </Avatar>
+          </Tooltip>
+        ))}
+      </AvatarGroup>
+    </Box>
+  );
+}
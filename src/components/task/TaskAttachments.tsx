@@ -0,0 +1,346 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Tooltip,
+  Paper,
+} from '@mui/material';
+import { Paperclip, Upload, Download, Trash2, Eye, FileText, Image as ImageIcon, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import * as pdfjsLib from 'pdfjs-dist';
+import type { Task, TaskAttachment } from '../../types/task';
+import type { User } from '../../types/auth';
+import {
+  fetchTaskAttachments,
+  uploadTaskAttachment,
+  deleteTaskAttachment,
+  getAttachmentUrl,
+  validateAttachment,
+  MAX_ATTACHMENT_SIZE,
+} from '../../lib/services/taskAttachments';
+
+// Configure PDF.js
+pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.js';
+
+// Only the first pages of a PDF are rendered in the preview
+const MAX_PREVIEW_PAGES = 5;
+
+interface TaskAttachmentsProps {
+  task: Pick<Task, 'id' | 'project_id'>;
+  currentUser: User;
+  canManage: boolean;
+  onCountChange?: (count: number) => void;
+}
+
+const isImage = (attachment: TaskAttachment) => !!attachment.file_type?.startsWith('image/');
+const isPdf = (attachment: TaskAttachment) => attachment.file_type === 'application/pdf';
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+function PdfPreview({ url }: { url: string }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const pdf = await pdfjsLib.getDocument({ url }).promise;
+        const container = containerRef.current;
+        if (!container || cancelled) return;
+        container.innerHTML = '';
+
+        for (let i = 1; i <= Math.min(pdf.numPages, MAX_PREVIEW_PAGES); i++) {
+          const page = await pdf.getPage(i);
+          const viewport = page.getViewport({ scale: 1.2 });
+          const canvas = document.createElement('canvas');
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          canvas.style.maxWidth = '100%';
+          canvas.style.marginBottom = '8px';
+          const context = canvas.getContext('2d');
+          if (!context || cancelled) return;
+          container.appendChild(canvas);
+          await page.render({ canvasContext: context, viewport }).promise;
+        }
+
+        if (pdf.numPages > MAX_PREVIEW_PAGES && !cancelled) {
+          const note = document.createElement('p');
+          note.textContent = `Showing ${MAX_PREVIEW_PAGES} of ${pdf.numPages} pages. Download the file to see the rest.`;
+          container.appendChild(note);
+        }
+      } catch (error) {
+        console.error('Error rendering PDF preview:', error);
+        toast.error('Could not render PDF preview');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return (
+    <Box>
+      {loading && (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      )}
+      <Box ref={containerRef} textAlign="center" />
+    </Box>
+  );
+}
+
+export function TaskAttachments({ task, currentUser, canManage, onCountChange }: TaskAttachmentsProps) {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [preview, setPreview] = useState<{ attachment: TaskAttachment; url: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [task.id]);
+
+  const updateAttachments = (next: TaskAttachment[]) => {
+    setAttachments(next);
+    onCountChange?.(next.length);
+  };
+
+  const loadAttachments = async () => {
+    try {
+      setLoading(true);
+      const data = await fetchTaskAttachments(task.id);
+      setAttachments(data);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast.error('Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFiles = async (files: FileList | File[]) => {
+    const list = Array.from(files);
+    if (list.length === 0) return;
+
+    // Reject invalid files up front so one bad file doesn't stop the rest
+    const valid = list.filter(file => {
+      const validationError = validateAttachment(file);
+      if (validationError) toast.error(validationError);
+      return !validationError;
+    });
+    if (valid.length === 0) return;
+
+    setUploading(true);
+    const uploaded: TaskAttachment[] = [];
+    for (const file of valid) {
+      try {
+        uploaded.push(await uploadTaskAttachment(task, file, currentUser.id));
+      } catch (error: any) {
+        console.error('Error uploading attachment:', error);
+        toast.error(`Failed to upload "${file.name}": ${error.message || 'Unknown error'}`);
+      }
+    }
+    setUploading(false);
+
+    if (uploaded.length > 0) {
+      updateAttachments([...uploaded, ...attachments]);
+      toast.success(`Uploaded ${uploaded.length} ${uploaded.length === 1 ? 'file' : 'files'}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    if (!canManage) return;
+    handleFiles(e.dataTransfer.files);
+  };
+
+  const handlePreview = async (attachment: TaskAttachment) => {
+    try {
+      const url = await getAttachmentUrl(attachment);
+      setPreview({ attachment, url });
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast.error('Failed to open attachment');
+    }
+  };
+
+  const handleDownload = async (attachment: TaskAttachment) => {
+    try {
+      const url = await getAttachmentUrl(attachment, true);
+      window.open(url, '_blank');
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast.error('Failed to download attachment');
+    }
+  };
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    if (!window.confirm(`Delete "${attachment.file_name}"?`)) return;
+
+    try {
+      await deleteTaskAttachment(attachment);
+      updateAttachments(attachments.filter(a => a.id !== attachment.id));
+      toast.success('Attachment deleted');
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error('Failed to delete attachment');
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1} mb={1}>
+        <Paperclip size={18} />
+        <Typography variant="subtitle1">
+          Attachments ({attachments.length})
+        </Typography>
+      </Box>
+
+      {canManage && (
+        <Paper
+          variant="outlined"
+          onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          sx={{
+            p: 2,
+            mb: 1,
+            textAlign: 'center',
+            cursor: 'pointer',
+            borderStyle: 'dashed',
+            borderColor: isDragging ? 'primary.main' : 'divider',
+            bgcolor: isDragging ? 'action.hover' : 'transparent',
+          }}
+        >
+          {uploading ? (
+            <CircularProgress size={24} />
+          ) : (
+            <Box display="flex" alignItems="center" justifyContent="center" gap={1}>
+              <Upload size={18} />
+              <Typography variant="body2" color="text.secondary">
+                Drop files here or click to upload (max {MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB each)
+              </Typography>
+            </Box>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={(e) => {
+              if (e.target.files) handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </Paper>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : attachments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No attachments
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {attachments.map(attachment => (
+            <ListItem
+              key={attachment.id}
+              secondaryAction={
+                <Box display="flex">
+                  {(isImage(attachment) || isPdf(attachment)) && (
+                    <Tooltip title="Preview">
+                      <IconButton size="small" onClick={() => handlePreview(attachment)}>
+                        <Eye size={16} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="Download">
+                    <IconButton size="small" onClick={() => handleDownload(attachment)}>
+                      <Download size={16} />
+                    </IconButton>
+                  </Tooltip>
+                  {(canManage || attachment.uploaded_by === currentUser.id) && (
+                    <Tooltip title="Delete">
+                      <IconButton size="small" onClick={() => handleDelete(attachment)} sx={{ color: 'error.main' }}>
+                        <Trash2 size={16} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </Box>
+              }
+            >
+              <ListItemIcon sx={{ minWidth: 32 }}>
+                {isImage(attachment) ? <ImageIcon size={18} /> : <FileText size={18} />}
+              </ListItemIcon>
+              <ListItemText
+                primary={attachment.file_name}
+                secondary={[
+                  formatFileSize(attachment.file_size),
+                  attachment.uploader?.full_name,
+                  format(new Date(attachment.uploaded_at), 'MMM d, yyyy'),
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Dialog open={!!preview} onClose={() => setPreview(null)} maxWidth="lg" fullWidth>
+        {preview && (
+          <>
+            <DialogTitle>
+              <Box display="flex" justifyContent="space-between" alignItems="center">
+                {preview.attachment.file_name}
+                <IconButton onClick={() => setPreview(null)} size="small">
+                  <X />
+                </IconButton>
+              </Box>
+            </DialogTitle>
+            <DialogContent>
+              {isImage(preview.attachment) ? (
+                <Box textAlign="center">
+                  <img
+                    src={preview.url}
+                    alt={preview.attachment.file_name}
+                    style={{ maxWidth: '100%', maxHeight: '75vh' }}
+                  />
+                </Box>
+              ) : (
+                <PdfPreview url={preview.url} />
+              )}
+            </DialogContent>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Plus, Sparkles, Check, Filter, Grid as GridIcon, List as ListIcon } from 'lucide-react';
+import { Plus, Sparkles, Check, Grid as GridIcon, List as ListIcon, Repeat, ListTree, Scale } from 'lucide-react';
 import { supabase } from '../../../lib/supabase';
-import type { Task, TaskStatus, TaskSuggestion, TaskPriority } from '../../types/task';
+import type { Task, TaskStatus, TaskSuggestion, TaskPriority, TaskDependency, TaskViewConfig } from '../../types/task';
 import type { User } from '../../types/auth';
 import { toast } from 'react-hot-toast';
 import { TaskTable } from './TaskTable';
 import { NewTaskModal } from './NewTaskModal';
+import { TaskTemplatesManager } from './TaskTemplatesManager';
 import {
   Box,
   Button,
@@ -19,9 +20,6 @@ import {
   ListItem,
   ListItemText,
   Chip,
-  FormControl,
-  Select,
-  MenuItem,
 } from '@mui/material';
 import { suggestTasks } from '../../lib/ai/suggest-tasks';
 import { enhanceTasks } from '../../lib/ai/enhance-tasks';
@@ -29,43 +27,140 @@ import { logActivity } from '../../lib/services/activityLogger';
 import type { Phase } from '../../types/phase';
 import { EditTaskModal } from './EditTaskModal';
 import { BoardView } from './BoardView';
+import { TaskFilterBar } from './TaskFilterBar';
+import { TaskViewControls } from './TaskViewControls';
 import { isEmployee } from '../../lib/permissions';
+import { fetchProjectDependencies, fetchOpenBlockers, BLOCKED_STATUSES } from '../../lib/services/taskDependencies';
+import { trashTask } from '../../lib/services/trash';
+import { generateDueRecurringTasks } from '../../lib/services/taskTemplates';
+import { TASK_PROGRESS_SELECT, createSubtasks } from '../../lib/services/subtasks';
+import { DEFAULT_TASK_VIEW, applyTaskFilters } from '../../lib/taskFilters';
+import { hashAnalysisInput, findCachedAnalysis, saveAnalysisVersion, fetchAnalysisVersions, getStaleReason } from '../../lib/services/aiAnalysisCache';
+import type { AIAnalysisVersion, RejectedSuggestion, SuggestionResult } from '../../types/aiAnalysis';
+import { AIAnalysisStatus } from '../ai/AIAnalysisStatus';
+import { AIAnalysisCompareDialog } from '../ai/AIAnalysisCompareDialog';
+import { RejectedSuggestions } from '../ai/RejectedSuggestions';
+import { WorkloadRebalanceDialog } from './WorkloadRebalanceDialog';
+import { ProjectViewers } from './ProjectViewers';
+import { ConflictResolutionDialog } from '../ConflictResolutionDialog';
+import { useTaskRealtime } from '../../hooks/useTaskRealtime';
+import { updateIfUnchanged, VersionConflictError } from '../../lib/services/concurrency';
+import { conflictFromError, taskConflictFields } from '../../lib/editConflicts';
+import type { EditConflict } from '../../lib/editConflicts';
 
 interface TaskBoardProps {
   projectId: string;
   currentUser: User;
   canManageTasks: boolean;
+  openTaskId?: string | null; // opened once the tasks have loaded
+  onTaskOpened?: () => void;
 }
 
-export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardProps) {
+export function TaskBoard({ projectId, currentUser, canManageTasks, openTaskId, onTaskOpened }: TaskBoardProps) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [projectMembers, setProjectMembers] = useState<User[]>([]);
   const [showNewTaskModal, setShowNewTaskModal] = useState(false);
+  const [showTemplatesManager, setShowTemplatesManager] = useState(false);
   const [showSuggestionsModal, setShowSuggestionsModal] = useState(false);
   const [suggestedTasks, setSuggestedTasks] = useState<(TaskSuggestion & { added: boolean })[]>([]);
   const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   const [isSuggestionsDialogOpen, setIsSuggestionsDialogOpen] = useState(false);
+  const [rejectedSuggestions, setRejectedSuggestions] = useState<RejectedSuggestion[]>([]);
+  const [suggestionVersion, setSuggestionVersion] = useState<AIAnalysisVersion<SuggestionResult<TaskSuggestion>> | null>(null);
+  const [suggestionVersions, setSuggestionVersions] = useState<AIAnalysisVersion<SuggestionResult<TaskSuggestion>>[]>([]);
+  const [suggestionInputHash, setSuggestionInputHash] = useState<string>();
+  const [showSuggestionVersions, setShowSuggestionVersions] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [phases, setPhases] = useState<Phase[]>([]);
   const [loadingPhases, setLoadingPhases] = useState(false);
-  const [phaseFilter, setPhaseFilter] = useState<string | null>(null);
+  const [viewConfig, setViewConfig] = useState<TaskViewConfig>(DEFAULT_TASK_VIEW);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [view, setView] = useState<'table' | 'board'>('table');
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
   
   // New states for AI task edition
   const [enhancedTasks, setEnhancedTasks] = useState<(TaskSuggestion & { applied: boolean })[]>([]);
   const [isEnhancingTasks, setIsEnhancingTasks] = useState(false);
   const [isEnhanceDialogOpen, setIsEnhanceDialogOpen] = useState(false);
   const [showEnhancementsModal, setShowEnhancementsModal] = useState(false);
+  const [showRebalanceDialog, setShowRebalanceDialog] = useState(false);
+  const [conflict, setConflict] = useState<EditConflict<Task> | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+
+  // Employees only see the tasks assigned to them
+  const isVisibleTask = (task: Task) =>
+    !task.deleted_at && (!isEmployee(currentUser) || task.assigned_to === currentUser.id);
+
+  // Realtime rows and optimistic edits carry ids only, so fill in the joined fields from what's loaded
+  const withJoinedFields = (task: Task): Task => {
+    const assignee = projectMembers.find(member => member.id === task.assigned_to);
+    return {
+      ...task,
+      assignee: assignee ? { id: assignee.id, full_name: assignee.full_name, email: assignee.email } : undefined,
+      phase: phases.find(phase => phase.id === task.phase_id),
+    };
+  };
+
+  // Keep a parent's subtask progress in step with changes to one of its subtasks
+  const syncSubtaskProgress = (list: Task[], row: Task, removed = false): Task[] =>
+    list.map(task => {
+      const subtasks = (task.subtasks || []).filter(subtask => subtask.id !== row.id);
+      if (task.id === row.parent_task_id && !removed) {
+        return { ...task, subtasks: [...subtasks, { id: row.id, status: row.status }] };
+      }
+      return subtasks.length !== (task.subtasks || []).length ? { ...task, subtasks } : task;
+    });
+
+  const viewers = useTaskRealtime(projectId, currentUser, {
+    onInsert: (row) => {
+      if (!isVisibleTask(row)) return;
+      setTasks(prev => prev.some(task => task.id === row.id)
+        ? prev
+        : syncSubtaskProgress([...prev, withJoinedFields({ ...row, subtasks: [], checklist_items: [] })], row));
+    },
+    onUpdate: (row) => {
+      setTasks(prev => {
+        const existing = prev.find(task => task.id === row.id);
+        if (!isVisibleTask(row)) {
+          return syncSubtaskProgress(prev.filter(task => task.id !== row.id), row, true);
+        }
+        if (!existing) {
+          return syncSubtaskProgress([...prev, withJoinedFields({ ...row, subtasks: [], checklist_items: [] })], row);
+        }
+        // Ignore events that arrive after a newer version is already on screen
+        if (new Date(row.updated_at) < new Date(existing.updated_at)) return prev;
+        return syncSubtaskProgress(
+          prev.map(task => task.id === row.id ? withJoinedFields({ ...task, ...row }) : task),
+          row
+        );
+      });
+    },
+    onDelete: (taskId) => {
+      setTasks(prev => {
+        const removed = prev.find(task => task.id === taskId);
+        return removed
+          ? syncSubtaskProgress(prev.filter(task => task.id !== taskId), removed, true)
+          : prev;
+      });
+      if (selectedTask?.id === taskId) {
+        setSelectedTask(null);
+        toast.error('The task you were editing was deleted by another user');
+      }
+    },
+  });
 
   useEffect(() => {
     fetchTasks();
     fetchProjectMembers();
     fetchPhases();
+    fetchDependencies();
+    generateRecurringTasks();
 
-    // Set up polling to refresh tasks every 30 seconds
-    const intervalId = setInterval(fetchTasks, 30000);
+    // Tasks arrive through the realtime subscription; dependencies are still polled
+    const intervalId = setInterval(() => {
+      fetchDependencies();
+    }, 30000);
 
     // Clear interval on component unmount
     return () => clearInterval(intervalId);
@@ -81,7 +176,10 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
           *,
           assignee:assigned_to(id, full_name, email),
           creator:created_by(id, full_name, email),
-          phase:phase_id(id, name)
+          phase:phase_id(id, name),
+          comments:task_comments(count),
+          attachments:task_attachments(count),
+          ${TASK_PROGRESS_SELECT}
         `)
         .eq('project_id', projectId);
       
@@ -106,6 +204,18 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
     }
   };
 
+  // Catch up on recurring tasks that came due while nobody had the board open
+  const generateRecurringTasks = async () => {
+    try {
+      const created = await generateDueRecurringTasks(projectId);
+      if (created > 0) {
+        fetchTasks();
+      }
+    } catch (error) {
+      console.error('Error generating recurring tasks:', error);
+    }
+  };
+
   const fetchProjectMembers = async () => {
     try {
       const { data: memberData, error: memberError } = await supabase
@@ -152,8 +262,34 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
     }
   };
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
+  const fetchDependencies = async () => {
     try {
+      const data = await fetchProjectDependencies(projectId);
+      setDependencies(data);
+    } catch (error) {
+      console.error('Error fetching task dependencies:', error);
+    }
+  };
+
+  /**
+   * Saves a task as long as nobody else has changed it since it was loaded.
+   * Callers that pass the version they edited resolve conflicts themselves and
+   * get the VersionConflictError; otherwise the board's conflict dialog opens.
+   */
+  const handleUpdateTask = async (taskId: string, updates: Partial<Task>, expectedUpdatedAt?: string) => {
+    const currentTask = tasks.find(t => t.id === taskId);
+    try {
+      // Refuse to start or complete a task while any of its blockers are still open
+      const isChangingStatus = updates.status && updates.status !== currentTask?.status;
+      if (isChangingStatus && BLOCKED_STATUSES.includes(updates.status!)) {
+        const openBlockers = await fetchOpenBlockers(taskId);
+        if (openBlockers.length > 0) {
+          const names = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+          toast.error(`Task is blocked by ${names}`);
+          return null;
+        }
+      }
+
       // Check if the task is being marked as completed
       const isCompletingTask = updates.status === 'completed';
       
@@ -177,21 +313,21 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         taskData = taskDetails;
       }
       
-      // Update the task
-      const { data, error } = await supabase
-        .from('tasks')
-        .update(updates)
-        .eq('id', taskId)
-        .select();
+      // Show the change straight away; it is rolled back if the save doesn't go through
+      if (currentTask) {
+        setTasks(prev => prev.map(t => t.id === taskId ? withJoinedFields({ ...t, ...updates, updated_at: t.updated_at }) : t));
+      }
 
-      if (error) {
-        console.error('Error updating task:', error);
-        toast.error('Failed to update task');
-        return;
+      const version = expectedUpdatedAt || currentTask?.updated_at;
+      if (!version) {
+        throw new Error('Task is not loaded');
       }
 
+      const updatedTask = await updateIfUnchanged<Task>('tasks', taskId, updates, version);
+
       // After updating in the database, we need to refresh the tasks to get the updated assignee info
       await fetchTasks();
+      fetchDependencies();
 
       // Emit a custom event to notify that a task has been updated
       const taskUpdateEvent = new CustomEvent('task-updated', {
@@ -233,30 +369,60 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
       }
 
       toast.success('Task updated successfully');
-      return data[0];
+      return updatedTask;
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        // Show the saved version in place of the optimistic one
+        const current = error.current as Task | null;
+        setTasks(prev => current
+          ? prev.map(t => t.id === taskId ? withJoinedFields({ ...t, ...current }) : t)
+          : prev.filter(t => t.id !== taskId));
+        if (expectedUpdatedAt) throw error;
+        if (currentTask) setConflict(conflictFromError(error, currentTask, updates));
+        return null;
+      }
+
       console.error('Error updating task:', error);
       toast.error('Failed to update task');
+      if (currentTask) {
+        setTasks(prev => prev.map(t => t.id === taskId ? currentTask : t));
+      }
       return null;
     }
   };
 
+  const handleResolveConflict = async (updates: Partial<Task>) => {
+    if (!conflict?.current) return;
+    const current = conflict.current;
+    try {
+      setResolvingConflict(true);
+      const saved = await handleUpdateTask(current.id, updates, current.updated_at);
+      if (saved) setConflict(null);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        // Someone saved again in the meantime; resolve against their latest
+        setConflict(conflictFromError(error, current, updates));
+      }
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
   const handleDeleteTask = async (taskId: string) => {
     try {
       // Optimistically remove the task from the UI
-      setTasks(prevTasks => prevTasks.filter(task => task.id !== taskId));
-
-      // Then perform the actual deletion
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
+      setTasks(prevTasks => prevTasks.filter(task => task.id !== taskId && task.parent_task_id !== taskId));
 
-      if (error) {
+      // Then move it to the trash; its subtasks go with it
+      try {
+        await trashTask(taskId);
+      } catch (error) {
         // If deletion fails, revert the optimistic update
         fetchTasks();
         throw error;
       }
+
+      toast.success('Task moved to trash');
     } catch (error: any) {
       console.error('Error deleting task:', error);
       toast.error('Error deleting task: ' + error.message);
@@ -268,9 +434,29 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
     setSelectedTask(task);
   };
 
-  const getAISuggestions = async () => {
+  useEffect(() => {
+    if (!openTaskId || loading) return;
+    const task = tasks.find(t => t.id === openTaskId);
+    if (task) {
+      setSelectedTask(task);
+    } else {
+      toast.error("That task couldn't be found");
+    }
+    onTaskOpened?.();
+  }, [openTaskId, loading]);
+
+  const fetchSuggestionVersions = async () => {
+    try {
+      setSuggestionVersions(await fetchAnalysisVersions<SuggestionResult<TaskSuggestion>>('task_suggestions', { projectId }));
+    } catch (error) {
+      console.error('Error fetching suggestion history:', error);
+    }
+  };
+
+  const getAISuggestions = async (forceRefresh = false) => {
     try {
       setSuggestedTasks([]);
+      setRejectedSuggestions([]);
       setIsSuggestionsDialogOpen(true);
       setLoadingSuggestions(true);
       
@@ -380,14 +566,42 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         interviews: interviewData || []
       };
       
-      // Call the AI to suggest tasks
-      const suggestions = await suggestTasks(
-        projectData,
-        knowledgeBase,
-        currentTasks || []
-      );
-      
-      setSuggestedTasks(suggestions.map(suggestion => ({ ...suggestion, added: false })));
+      // Reuse the last generation if it was made from the same data
+      const inputHash = await hashAnalysisInput({ project: projectData, knowledgeBase, tasks: currentTasks || [] });
+      setSuggestionInputHash(inputHash);
+
+      let cached: AIAnalysisVersion<SuggestionResult<TaskSuggestion>> | null = null;
+      if (!forceRefresh) {
+        try {
+          cached = await findCachedAnalysis<SuggestionResult<TaskSuggestion>>('task_suggestions', { projectId }, inputHash);
+        } catch (cacheError) {
+          console.error('Error reading cached suggestions:', cacheError);
+        }
+      }
+
+      let result: SuggestionResult<TaskSuggestion>;
+      if (cached) {
+        result = cached.analysis_data;
+        setSuggestionVersion(cached);
+      } else {
+        // Call the AI to suggest tasks; invalid suggestions come back in result.rejected
+        result = await suggestTasks(
+          projectData,
+          knowledgeBase,
+          currentTasks || []
+        );
+
+        try {
+          setSuggestionVersion(await saveAnalysisVersion('task_suggestions', { projectId }, inputHash, result, currentUser.id));
+        } catch (cacheError) {
+          console.error('Error caching suggestions:', cacheError);
+          setSuggestionVersion(null);
+        }
+      }
+
+      setSuggestedTasks(result.suggestions.map(suggestion => ({ ...suggestion, added: false })));
+      setRejectedSuggestions(result.rejected);
+      fetchSuggestionVersions();
     } catch (error: any) {
       toast.error('Error getting AI suggestions: ' + error.message);
       console.error('Error getting AI suggestions:', error);
@@ -399,11 +613,6 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
 
   const handleAddSuggestedTask = async (task: TaskSuggestion) => {
     try {
-      // Find the user ID for the suggested assignee by matching their full name
-      const assigneeUser = projectMembers.find(
-        member => member.full_name.toLowerCase() === task.suggested_assignee?.toLowerCase()
-      );
-
       // Parse the suggested due date or use null if not provided
       let dueDate = null;
       if (task.suggested_due_date) {
@@ -448,7 +657,7 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
                 status: task.status || 'todo',
                 priority: task.priority,
                 phase_id: phaseId,
-                assigned_to: task.suggested_assignee,
+                assigned_to: task.assigned_to || null,
                 created_by: currentUser.id,
                 due_date: task.suggested_due_date || null,
                 estimated_hours: task.estimated_hours || null,
@@ -534,7 +743,7 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
             status: task.status || 'todo',
             priority: task.priority,
             phase_id: phaseId,
-            assigned_to: task.suggested_assignee,
+            assigned_to: task.assigned_to || null,
             created_by: currentUser.id,
             due_date: task.suggested_due_date || null,
             estimated_hours: task.estimated_hours || null,
@@ -630,6 +839,14 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
     }
   };
   
+  // Creates the subtasks an enhancement proposes, under the updated parent task
+  const createSuggestedSubtasks = async (enhancement: TaskSuggestion, updates: Partial<Task>) => {
+    const parent = tasks.find(t => t.id === enhancement.id);
+    if (!parent || !enhancement.subtasks?.length) return;
+
+    await createSubtasks({ ...parent, ...updates }, enhancement.subtasks, currentUser.id);
+  };
+
   // Function to apply a single enhancement to an existing task
   const handleApplyEnhancement = async (enhancement: TaskSuggestion & { applied?: boolean }) => {
     try {
@@ -656,13 +873,17 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
       }
       
       // If there are no updates to apply, display a message and return
-      if (Object.keys(updates).length === 0) {
+      if (Object.keys(updates).length === 0 && !enhancement.subtasks?.length) {
         toast.error(`No valid updates for task "${enhancement.title}"`);
         return;
       }
       
       // Update the task with these enhancements
-      const updatedTask = await handleUpdateTask(enhancement.id as string, updates);
+      if (Object.keys(updates).length > 0 && !(await handleUpdateTask(enhancement.id as string, updates))) {
+        return;
+      }
+
+      await createSuggestedSubtasks(enhancement, updates);
       
       // Mark this enhancement as applied in the UI
       setEnhancedTasks(prev => 
@@ -675,10 +896,8 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
       
       toast.success(`Task "${enhancement.title}" updated with AI enhancements`);
       
-      // Ensure the tasks are refreshed to show the new assignee
-      if (!updatedTask) {
-        await fetchTasks();
-      }
+      // Refresh so the new assignee and any subtasks show up
+      await fetchTasks();
     } catch (error: any) {
       console.error('Error applying enhancement:', error);
       toast.error(`Error applying enhancement: ${error.message || 'Unknown error'}`);
@@ -721,16 +940,17 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
             }
             
             // If there are no updates to apply for this enhancement, skip it
-            if (Object.keys(updates).length === 0) {
+            if (Object.keys(updates).length === 0 && !enhancement.subtasks?.length) {
               console.warn('No valid updates for enhancement', enhancement);
               skippedCount++;
               continue;
             }
             
             // Use handleUpdateTask which will properly handle the update
-            const result = await handleUpdateTask(enhancement.id as string, updates);
+            const result = Object.keys(updates).length === 0 || await handleUpdateTask(enhancement.id as string, updates);
             
             if (result) {
+              await createSuggestedSubtasks(enhancement, updates);
               successCount++;
               
               // Mark as applied in UI
@@ -776,12 +996,10 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
     }
   };
 
-  // Filter tasks based on selected phase
-  const filteredTasks = phaseFilter 
-    ? tasks.filter(task => task.phase_id === phaseFilter)
-    : tasks;
+  // The same filters drive the table and the board
+  const filteredTasks = applyTaskFilters(tasks, viewConfig.filters);
 
-  if (loading) {
+  if (loading && tasks.length === 0) {
     return (
       <Box display="flex" justifyContent="center" p={4}>
         <CircularProgress />
@@ -796,20 +1014,6 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
           <Typography variant="h6">
             Tasks ({filteredTasks.length})
           </Typography>
-          <FormControl size="small" sx={{ minWidth: 200 }}>
-            <Select
-              value={phaseFilter || ''}
-              onChange={(e) => setPhaseFilter(e.target.value === '' ? null : e.target.value)}
-              displayEmpty
-              size="small"
-              startAdornment={<Filter size={16} style={{ marginRight: 8 }} />}
-            >
-              <MenuItem value="">All Phases</MenuItem>
-              {phases.map((phase) => (
-                <MenuItem key={phase.id} value={phase.id}>{phase.name}</MenuItem>
-              ))}
-            </Select>
-          </FormControl>
           <Box ml={2} display="flex" border={1} borderColor="divider" borderRadius={1}>
             <Button 
               size="small"
@@ -836,6 +1040,7 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
               <GridIcon size={16} />
             </Button>
           </Box>
+          <ProjectViewers viewers={viewers} />
         </Box>
         {canManageTasks && (
           <Box display="flex" gap={2}>
@@ -852,11 +1057,28 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
               variant="outlined"
               color="primary"
               startIcon={<Sparkles />}
-              onClick={getAISuggestions}
+              onClick={() => getAISuggestions()}
               disabled={loadingSuggestions}
             >
               {loadingSuggestions ? 'Getting Suggestions...' : 'Get AI Suggestions'}
             </Button>
+            <Button
+              variant="outlined"
+              color="primary"
+              startIcon={<Scale />}
+              onClick={() => setShowRebalanceDialog(true)}
+              disabled={tasks.length === 0 || projectMembers.length < 2}
+            >
+              Rebalance Workload
+            </Button>
+            <Button
+              variant="outlined"
+              color="primary"
+              startIcon={<Repeat />}
+              onClick={() => setShowTemplatesManager(true)}
+            >
+              Templates
+            </Button>
             <Button
               variant="contained"
               color="primary"
@@ -869,6 +1091,23 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         )}
       </Box>
 
+      <Box display="flex" flexWrap="wrap" justifyContent="space-between" alignItems="center" gap={2} mb={2}>
+        <TaskFilterBar
+          filters={viewConfig.filters}
+          onChange={(filters) => setViewConfig({ ...viewConfig, filters })}
+          assignees={projectMembers.map(member => ({ id: member.id, name: member.full_name }))}
+          phases={phases.map(phase => ({ id: phase.id, name: phase.name }))}
+        />
+        <TaskViewControls
+          config={viewConfig}
+          onChange={setViewConfig}
+          projectId={projectId}
+          currentUser={currentUser}
+          showLayoutOptions={view === 'table'}
+          availableColumns={['status', 'priority', 'phase', 'assignee', 'due_date', 'estimated_hours']}
+        />
+      </Box>
+
       <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
         {view === 'table' ? (
           <TaskTable 
@@ -879,6 +1118,10 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
             currentUser={currentUser} 
             canManageTasks={canManageTasks}
             projectMembers={projectMembers}
+            columns={viewConfig.columns}
+            groupBy={viewConfig.group_by}
+            sort={viewConfig.sort}
+            onSortChange={(sort) => setViewConfig({ ...viewConfig, sort })}
           />
         ) : (
           <BoardView 
@@ -888,6 +1131,7 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
             onDeleteTask={handleDeleteTask}
             currentUser={currentUser}
             canManageTasks={canManageTasks}
+            dependencies={dependencies}
           />
         )}
       </Box>
@@ -902,6 +1146,17 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         />
       )}
 
+      {showTemplatesManager && (
+        <TaskTemplatesManager
+          projectId={projectId}
+          currentUser={currentUser}
+          phases={phases}
+          projectMembers={projectMembers}
+          onClose={() => setShowTemplatesManager(false)}
+          onTasksGenerated={fetchTasks}
+        />
+      )}
+
       <Dialog
         open={isSuggestionsDialogOpen}
         onClose={() => setIsSuggestionsDialogOpen(false)}
@@ -928,7 +1183,7 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
           </Typography>
         </DialogTitle>
         <DialogContent sx={{ pt: 3 }}>
-          {suggestedTasks.length === 0 ? (
+          {loadingSuggestions ? (
             <Box display="flex" flexDirection="column" alignItems="center" py={4}>
               <CircularProgress size={40} sx={{ mb: 2 }} />
               <Typography color="text.secondary">
@@ -936,141 +1191,157 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
               </Typography>
             </Box>
           ) : (
-            <List sx={{ py: 0 }}>
-              {suggestedTasks.map((suggestion, index) => (
-                <ListItem
-                  key={index}
-                  sx={{
-                    border: '1px solid',
-                    borderColor: 'divider',
-                    borderRadius: 2,
-                    mb: 2,
-                    p: 2.5,
-                    flexDirection: 'column',
-                    alignItems: 'flex-start',
-                    bgcolor: suggestion.added ? 'action.selected' : 'background.paper',
-                    '&:hover': {
-                      bgcolor: suggestion.added ? 'action.selected' : 'action.hover',
-                    },
-                    transition: 'background-color 0.2s',
-                  }}
-                >
-                  <Box width="100%" display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
-                    <Box flex={1} pr={2}>
-                      <Typography 
-                        variant="subtitle1" 
-                        sx={{ 
-                          fontWeight: 600,
-                          mb: 0.5
-                        }}
-                      >
-                        {suggestion.title}
-                      </Typography>
-                      <Typography 
-                        variant="body2" 
-                        color="text.secondary"
-                        sx={{ 
-                          whiteSpace: 'pre-wrap',
-                          mb: 2
-                        }}
-                      >
-                        {suggestion.description}
-                      </Typography>
-                      
-                      {/* Display rationale if available */}
-                      {suggestion.rationale && (
+            <>
+              <AIAnalysisStatus
+                version={suggestionVersion}
+                staleReason={suggestionVersion && getStaleReason(suggestionVersion, suggestionInputHash)}
+                versionCount={suggestionVersions.length}
+                onRegenerate={() => getAISuggestions(true)}
+                onCompare={() => setShowSuggestionVersions(true)}
+                regenerating={loadingSuggestions}
+              />
+              <RejectedSuggestions rejected={rejectedSuggestions} />
+              {suggestedTasks.length === 0 && (
+                <Typography color="text.secondary" align="center" py={2}>
+                  No suggestions passed validation. Try regenerating.
+                </Typography>
+              )}
+              <List sx={{ py: 0 }}>
+                {suggestedTasks.map((suggestion, index) => (
+                  <ListItem
+                    key={index}
+                    sx={{
+                      border: '1px solid',
+                      borderColor: 'divider',
+                      borderRadius: 2,
+                      mb: 2,
+                      p: 2.5,
+                      flexDirection: 'column',
+                      alignItems: 'flex-start',
+                      bgcolor: suggestion.added ? 'action.selected' : 'background.paper',
+                      '&:hover': {
+                        bgcolor: suggestion.added ? 'action.selected' : 'action.hover',
+                      },
+                      transition: 'background-color 0.2s',
+                    }}
+                  >
+                    <Box width="100%" display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+                      <Box flex={1} pr={2}>
+                        <Typography 
+                          variant="subtitle1" 
+                          sx={{ 
+                            fontWeight: 600,
+                            mb: 0.5
+                          }}
+                        >
+                          {suggestion.title}
+                        </Typography>
                         <Typography 
-                          variant="body2"
+                          variant="body2" 
                           color="text.secondary"
-                          sx={{
-                            mt: 1,
-                            mb: 2,
-                            p: 1.5,
-                            bgcolor: 'background.paper',
-                            border: '1px dashed',
-                            borderColor: 'divider',
-                            borderRadius: 1,
-                            fontSize: '0.85rem'
+                          sx={{ 
+                            whiteSpace: 'pre-wrap',
+                            mb: 2
                           }}
                         >
-                          <strong>AI Rationale:</strong> {suggestion.rationale}
+                          {suggestion.description}
                         </Typography>
-                      )}
+                        
+                        {/* Display rationale if available */}
+                        {suggestion.rationale && (
+                          <Typography 
+                            variant="body2"
+                            color="text.secondary"
+                            sx={{
+                              mt: 1,
+                              mb: 2,
+                              p: 1.5,
+                              bgcolor: 'background.paper',
+                              border: '1px dashed',
+                              borderColor: 'divider',
+                              borderRadius: 1,
+                              fontSize: '0.85rem'
+                            }}
+                          >
+                            <strong>AI Rationale:</strong> {suggestion.rationale}
+                          </Typography>
+                        )}
+                      </Box>
+                      <Button
+                        variant="contained"
+                        size="small"
+                        onClick={() => handleAddSuggestedTask(suggestion)}
+                        startIcon={suggestion.added ? <Check size={16} /> : <Plus size={16} />}
+                        disabled={suggestion.added}
+                        sx={{ 
+                          minWidth: 100,
+                          boxShadow: 'none',
+                          bgcolor: suggestion.added ? 'success.main' : 'primary.main',
+                          '&:hover': {
+                            bgcolor: suggestion.added ? 'success.dark' : 'primary.dark',
+                            boxShadow: 'none'
+                          }
+                        }}
+                      >
+                        {suggestion.added ? 'Added' : 'Add Task'}
+                      </Button>
                     </Box>
-                    <Button
-                      variant="contained"
-                      size="small"
-                      onClick={() => handleAddSuggestedTask(suggestion)}
-                      startIcon={suggestion.added ? <Check size={16} /> : <Plus size={16} />}
-                      disabled={suggestion.added}
-                      sx={{ 
-                        minWidth: 100,
-                        boxShadow: 'none',
-                        bgcolor: suggestion.added ? 'success.main' : 'primary.main',
-                        '&:hover': {
-                          bgcolor: suggestion.added ? 'success.dark' : 'primary.dark',
-                          boxShadow: 'none'
-                        }
-                      }}
-                    >
-                      {suggestion.added ? 'Added' : 'Add Task'}
-                    </Button>
-                  </Box>
-                  <Box 
-                    display="flex" 
-                    gap={1.5}
-                    flexWrap="wrap"
-                    sx={{
-                      '& .MuiChip-root': {
-                        borderRadius: 1.5,
-                        height: 28
-                      }
-                    }}
-                  >
-                    <Chip
-                      label={`${suggestion.priority.charAt(0).toUpperCase() + suggestion.priority.slice(1)} Priority`}
-                      color={getPriorityColor(suggestion.priority)}
-                      size="small"
+                    <Box 
+                      display="flex" 
+                      gap={1.5}
+                      flexWrap="wrap"
                       sx={{
-                        fontWeight: 'medium',
-                        '& .MuiChip-label': {
-                          px: 1
+                        '& .MuiChip-root': {
+                          borderRadius: 1.5,
+                          height: 28
                         }
                       }}
-                    />
-                    <Chip
-                      label={`${suggestion.estimated_hours} ${suggestion.estimated_hours === 1 ? 'hour' : 'hours'}`}
-                      size="small"
-                      variant="outlined"
-                    />
-                    {suggestion.suggested_assignee && (
-                      <Chip
-                        label={`Assignee: ${suggestion.suggested_assignee}`}
-                        size="small"
-                        variant="outlined"
-                        color="primary"
-                      />
-                    )}
-                    {suggestion.suggested_phase && (
+                    >
                       <Chip
-                        label={`Phase: ${suggestion.suggested_phase}`}
+                        label={`${suggestion.priority.charAt(0).toUpperCase() + suggestion.priority.slice(1)} Priority`}
+                        color={getPriorityColor(suggestion.priority)}
                         size="small"
-                        variant="outlined"
-                        color="secondary"
+                        sx={{
+                          fontWeight: 'medium',
+                          '& .MuiChip-label': {
+                            px: 1
+                          }
+                        }}
                       />
-                    )}
-                    {suggestion.suggested_due_date && (
                       <Chip
-                        label={`Due: ${new Date(suggestion.suggested_due_date).toLocaleDateString()}`}
+                        label={`${suggestion.estimated_hours} ${suggestion.estimated_hours === 1 ? 'hour' : 'hours'}`}
                         size="small"
                         variant="outlined"
-                        color="info"
                       />
-                    )}
-                  </Box>
-                </ListItem>
-              ))}
-            </List>
+                      {suggestion.suggested_assignee && (
+                        <Chip
+                          label={`Assignee: ${suggestion.suggested_assignee}`}
+                          size="small"
+                          variant="outlined"
+                          color="primary"
+                        />
+                      )}
+                      {suggestion.suggested_phase && (
+                        <Chip
+                          label={`Phase: ${suggestion.suggested_phase}`}
+                          size="small"
+                          variant="outlined"
+                          color="secondary"
+                        />
+                      )}
+                      {suggestion.suggested_due_date && (
+                        <Chip
+                          label={`Due: ${new Date(suggestion.suggested_due_date).toLocaleDateString()}`}
+                          size="small"
+                          variant="outlined"
+                          color="info"
+                        />
+                      )}
+                    </Box>
+                  </ListItem>
+                ))}
+              </List>
+            </>
           )}
         </DialogContent>
         <DialogActions sx={{ 
@@ -1092,6 +1363,38 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         </DialogActions>
       </Dialog>
 
+      <AIAnalysisCompareDialog
+        open={showSuggestionVersions}
+        onClose={() => setShowSuggestionVersions(false)}
+        title="Compare Task Suggestions"
+        versions={suggestionVersions}
+        currentInputHash={suggestionInputHash}
+        renderVersion={(result) => (
+          <>
+            <List dense disablePadding>
+              {result.suggestions.map((suggestion, index) => (
+                <ListItem key={index} disableGutters>
+                  <ListItemText
+                    primary={suggestion.title}
+                    secondary={[
+                      suggestion.priority,
+                      `${suggestion.estimated_hours}h`,
+                      suggestion.suggested_assignee,
+                      suggestion.suggested_phase,
+                    ].filter(Boolean).join(' · ')}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {result.rejected.length > 0 && (
+              <Typography variant="caption" color="text.secondary">
+                {result.rejected.length} dropped by validation
+              </Typography>
+            )}
+          </>
+        )}
+      />
+
       {/* AI Task Enhancement Dialog */}
       <Dialog
         open={isEnhanceDialogOpen}
@@ -1207,6 +1510,27 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
                         <strong>Rationale: </strong>
                         {enhancement.rationale || 'No rationale provided'}
                       </Typography>
+
+                      {enhancement.subtasks && enhancement.subtasks.length > 0 && (
+                        <Box mt={1}>
+                          <Box display="flex" alignItems="center" gap={1} mb={0.5}>
+                            <ListTree size={16} />
+                            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                              Suggested breakdown ({enhancement.subtasks.length} subtasks)
+                            </Typography>
+                          </Box>
+                          <List dense disablePadding>
+                            {enhancement.subtasks.map((subtask, subtaskIndex) => (
+                              <ListItem key={subtaskIndex} disableGutters sx={{ py: 0 }}>
+                                <ListItemText
+                                  primary={`${subtask.title} (${subtask.estimated_hours}h)`}
+                                  secondary={subtask.description}
+                                />
+                              </ListItem>
+                            ))}
+                          </List>
+                        </Box>
+                      )}
                     </Box>
                     <Button
                       variant="contained"
@@ -1247,6 +1571,24 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
         </DialogActions>
       </Dialog>
 
+      <WorkloadRebalanceDialog
+        open={showRebalanceDialog}
+        onClose={() => setShowRebalanceDialog(false)}
+        projectId={projectId}
+        tasks={tasks}
+        members={projectMembers}
+        onApply={handleUpdateTask}
+      />
+
+      <ConflictResolutionDialog
+        conflict={conflict}
+        entityName="task"
+        fields={taskConflictFields(projectMembers, phases)}
+        saving={resolvingConflict}
+        onSave={handleResolveConflict}
+        onDiscard={() => setConflict(null)}
+      />
+
       {selectedTask && (
         <EditTaskModal
           task={selectedTask}
@@ -1255,6 +1597,10 @@ export function TaskBoard({ projectId, currentUser, canManageTasks }: TaskBoardP
           onClose={() => setSelectedTask(null)}
           onSave={handleUpdateTask}
           currentUser={currentUser}
+          projectTasks={tasks}
+          dependencies={dependencies}
+          onDependenciesChange={fetchDependencies}
+          onProgressChange={fetchTasks}
         />
       )}
     </Box>
@@ -1,9 +1,10 @@
 import React from 'react';
-import { Clock, User, AlertTriangle } from 'lucide-react';
-import type { Task } from '../../../types/task';
-import type { User as UserType } from '../../../types/auth';
+import { Clock, User, AlertTriangle, Paperclip, MessageSquare } from 'lucide-react';
+import type { Task } from '../../types/task';
+import type { User as UserType } from '../../types/auth';
 import { formatDistanceToNow } from 'date-fns';
-import { Box, Typography, Chip } from '@mui/material';
+import { Box, Typography, Chip, LinearProgress } from '@mui/material';
+import { getTaskProgress } from '../../lib/services/subtasks';
 
 interface TaskCardProps {
   task: Task;
@@ -22,6 +23,8 @@ export const TaskCard = React.memo(function TaskCard({ task, onUpdate, currentUs
     return colors[priority];
   };
 
+  const progress = getTaskProgress(task);
+
   return (
     <Box sx={{ p: 2, border: '1px solid', borderColor: 'divider', borderRadius: 1, '&:hover': { bgcolor: 'action.hover' } }}>
       <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
@@ -39,6 +42,20 @@ export const TaskCard = React.memo(function TaskCard({ task, onUpdate, currentUs
         {task.description}
       </Typography>
 
+      {progress && (
+        <Box display="flex" alignItems="center" gap={1} mb={2}>
+          <LinearProgress
+            variant="determinate"
+            value={progress.percent}
+            color={progress.completed === progress.total ? 'success' : 'primary'}
+            sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {progress.completed}/{progress.total}
+          </Typography>
+        </Box>
+      )}
+
       <Box display="flex" justifyContent="space-between" alignItems="center">
         <Box display="flex" alignItems="center" gap={1}>
           <User className="h-4 w-4" />
@@ -46,6 +63,14 @@ export const TaskCard = React.memo(function TaskCard({ task, onUpdate, currentUs
             {task.assignee?.full_name || 'Unassigned'}
           </Typography>
         </Box>
+        <Box display="flex" alignItems="center" gap={1}>
+          {(task.comments?.[0]?.count ?? 0) > 0 && (
+            <Chip icon={<MessageSquare size={12} />} label={task.comments![0].count} size="small" variant="outlined" />
+          )}
+          {(task.attachments?.[0]?.count ?? 0) > 0 && (
+            <Chip icon={<Paperclip size={12} />} label={task.attachments![0].count} size="small" variant="outlined" />
+          )}
+        </Box>
         {task.due_date && (
           <Box display="flex" alignItems="center" gap={1}>
             <Clock className="h-4 w-4" />
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  TextField,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  LinearProgress,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import { ListChecks, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Task, TaskChecklistItem } from '../../types/task';
+import type { User } from '../../types/auth';
+import {
+  fetchChecklistItems,
+  addChecklistItems,
+  setChecklistItemCompleted,
+  deleteChecklistItem,
+} from '../../lib/services/subtasks';
+
+interface TaskChecklistProps {
+  task: Pick<Task, 'id'>;
+  currentUser: User;
+  canEdit: boolean; // add and remove items
+  canCheck: boolean; // tick items off
+  onChange?: () => void;
+}
+
+export function TaskChecklist({ task, currentUser, canEdit, canCheck, onChange }: TaskChecklistProps) {
+  const [items, setItems] = useState<TaskChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newItem, setNewItem] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+  }, [task.id]);
+
+  const loadItems = async () => {
+    try {
+      setLoading(true);
+      setItems(await fetchChecklistItems(task.id));
+    } catch (error) {
+      console.error('Error fetching checklist:', error);
+      toast.error('Failed to load checklist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newItem.trim()) return;
+
+    setBusy(true);
+    try {
+      const nextPosition = items.reduce((max, item) => Math.max(max, item.position + 1), 0);
+      const added = await addChecklistItems(task.id, [newItem], currentUser.id, nextPosition);
+      setItems(prev => [...prev, ...added]);
+      setNewItem('');
+      onChange?.();
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+      toast.error('Failed to add checklist item');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (item: TaskChecklistItem) => {
+    try {
+      const updated = await setChecklistItemCompleted(item.id, !item.is_completed, currentUser.id);
+      setItems(prev => prev.map(i => (i.id === item.id ? updated : i)));
+      onChange?.();
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+      toast.error('Failed to update checklist item');
+    }
+  };
+
+  const handleDelete = async (itemId: string) => {
+    try {
+      await deleteChecklistItem(itemId);
+      setItems(prev => prev.filter(i => i.id !== itemId));
+      onChange?.();
+    } catch (error) {
+      console.error('Error deleting checklist item:', error);
+      toast.error('Failed to delete checklist item');
+    }
+  };
+
+  const completed = items.filter(i => i.is_completed).length;
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1} mb={1}>
+        <ListChecks size={18} />
+        <Typography variant="subtitle1">Checklist</Typography>
+        {items.length > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {completed}/{items.length}
+          </Typography>
+        )}
+      </Box>
+
+      {items.length > 0 && (
+        <LinearProgress
+          variant="determinate"
+          value={(completed / items.length) * 100}
+          color={completed === items.length ? 'success' : 'primary'}
+          sx={{ height: 6, borderRadius: 3, mb: 1 }}
+        />
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : (
+        <List dense disablePadding>
+          {items.map(item => (
+            <ListItem
+              key={item.id}
+              disableGutters
+              secondaryAction={canEdit && (
+                <Tooltip title="Remove">
+                  <IconButton size="small" onClick={() => handleDelete(item.id)} sx={{ color: 'error.main' }}>
+                    <Trash2 size={14} />
+                  </IconButton>
+                </Tooltip>
+              )}
+            >
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                <Checkbox
+                  edge="start"
+                  size="small"
+                  checked={item.is_completed}
+                  disabled={!canCheck}
+                  onChange={() => handleToggle(item)}
+                />
+              </ListItemIcon>
+              <ListItemText
+                primary={item.content}
+                primaryTypographyProps={{
+                  sx: item.is_completed ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined,
+                }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {canEdit && (
+        <Box display="flex" gap={1} mt={1}>
+          <TextField
+            size="small"
+            placeholder="Add an item"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            fullWidth
+          />
+          <Button size="small" onClick={handleAdd} disabled={busy || !newItem.trim()}>
+            Add
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
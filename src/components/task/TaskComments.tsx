@@ -0,0 +1,327 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Paper,
+  CircularProgress,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { MessageSquare, Reply, Edit, Trash, AtSign } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import type { Task, TaskComment } from '../../types/task';
+import type { User } from '../../types/auth';
+import {
+  fetchTaskComments,
+  addTaskComment,
+  updateTaskComment,
+  deleteTaskComment,
+} from '../../lib/services/taskComments';
+import { isGuest } from '../../lib/permissions';
+
+interface TaskCommentsProps {
+  task: Pick<Task, 'id' | 'title' | 'project_id'>;
+  currentUser: User;
+  projectMembers: Array<{ id: string; full_name: string }>;
+}
+
+// Matches a mention being typed at the end of the draft, e.g. "thanks @jo"
+const PENDING_MENTION = /@([^@\n]*)$/;
+
+interface CommentComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel?: () => void;
+  submitLabel: string;
+  placeholder: string;
+  submitting: boolean;
+  projectMembers: Array<{ id: string; full_name: string }>;
+}
+
+function CommentComposer({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  submitLabel,
+  placeholder,
+  submitting,
+  projectMembers,
+}: CommentComposerProps) {
+  const pending = value.match(PENDING_MENTION);
+  const query = pending ? pending[1].toLowerCase() : null;
+  const suggestions = query !== null
+    ? projectMembers.filter(member => member.full_name.toLowerCase().startsWith(query)).slice(0, 5)
+    : [];
+
+  const insertMention = (fullName: string) => {
+    onChange(value.replace(PENDING_MENTION, `@${fullName} `));
+  };
+
+  return (
+    <Box>
+      <TextField
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        multiline
+        minRows={2}
+        fullWidth
+        size="small"
+        helperText="Markdown is supported. Type @ to mention a project member."
+      />
+      {suggestions.length > 0 && (
+        <Box display="flex" gap={1} flexWrap="wrap" mt={1}>
+          {suggestions.map(member => (
+            <Chip
+              key={member.id}
+              icon={<AtSign size={14} />}
+              label={member.full_name}
+              size="small"
+              onClick={() => insertMention(member.full_name)}
+            />
+          ))}
+        </Box>
+      )}
+      <Box display="flex" justifyContent="flex-end" gap={1} mt={1}>
+        {onCancel && (
+          <Button size="small" color="inherit" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="small"
+          variant="contained"
+          onClick={onSubmit}
+          disabled={submitting || !value.trim()}
+        >
+          {submitting ? 'Saving...' : submitLabel}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export function TaskComments({ task, currentUser, projectMembers }: TaskCommentsProps) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  useEffect(() => {
+    loadComments();
+  }, [task.id]);
+
+  const loadComments = async () => {
+    try {
+      setLoading(true);
+      const data = await fetchTaskComments(task.id);
+      setComments(data);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      toast.error('Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (content: string, parentCommentId: string | null) => {
+    if (!content.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const comment = await addTaskComment({
+        task,
+        author: currentUser,
+        content: content.trim(),
+        parentCommentId,
+        members: projectMembers,
+      });
+      setComments(prev => [...prev, comment]);
+
+      if (parentCommentId) {
+        setReplyTo(null);
+        setReplyDraft('');
+      } else {
+        setDraft('');
+      }
+    } catch (error: any) {
+      console.error('Error adding comment:', error);
+      toast.error('Failed to add comment: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUpdate = async (commentId: string) => {
+    if (!editDraft.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const updated = await updateTaskComment(commentId, editDraft.trim());
+      setComments(prev => prev.map(c => c.id === commentId ? updated : c));
+      setEditingId(null);
+      setEditDraft('');
+    } catch (error) {
+      console.error('Error updating comment:', error);
+      toast.error('Failed to update comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Delete this comment? Replies to it will be deleted too.')) return;
+
+    try {
+      await deleteTaskComment(commentId);
+      // Replies are removed by the database cascade, so drop the whole subtree locally
+      const removed = new Set([commentId]);
+      let grew = true;
+      while (grew) {
+        grew = false;
+        comments.forEach(c => {
+          if (c.parent_comment_id && removed.has(c.parent_comment_id) && !removed.has(c.id)) {
+            removed.add(c.id);
+            grew = true;
+          }
+        });
+      }
+      setComments(prev => prev.filter(c => !removed.has(c.id)));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  // Guests can't read other users, so fall back to the names passed in
+  const authorName = (comment: TaskComment) =>
+    comment.user?.full_name || projectMembers.find(member => member.id === comment.user_id)?.full_name;
+
+  const renderComment = (comment: TaskComment, depth: number) => {
+    const replies = comments.filter(c => c.parent_comment_id === comment.id);
+    // Guests may comment but not change what has been said
+    const isOwn = comment.user_id === currentUser.id && !isGuest(currentUser);
+    const isEdited = comment.updated_at && comment.updated_at !== comment.created_at;
+
+    return (
+      <Box key={comment.id} sx={{ ml: depth > 0 ? 3 : 0, mt: 1.5 }}>
+        <Paper variant="outlined" sx={{ p: 1.5 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            <Typography variant="subtitle2">
+              {authorName(comment) || 'Unknown User'}
+              <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                {isEdited && ' (edited)'}
+              </Typography>
+            </Typography>
+            <Box display="flex">
+              <Tooltip title="Reply">
+                <IconButton size="small" onClick={() => { setReplyTo(comment.id); setReplyDraft(''); }}>
+                  <Reply size={14} />
+                </IconButton>
+              </Tooltip>
+              {isOwn && (
+                <>
+                  <Tooltip title="Edit">
+                    <IconButton size="small" onClick={() => { setEditingId(comment.id); setEditDraft(comment.content); }}>
+                      <Edit size={14} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => handleDelete(comment.id)} sx={{ color: 'error.main' }}>
+                      <Trash size={14} />
+                    </IconButton>
+                  </Tooltip>
+                </>
+              )}
+            </Box>
+          </Box>
+
+          {editingId === comment.id ? (
+            <Box mt={1}>
+              <CommentComposer
+                value={editDraft}
+                onChange={setEditDraft}
+                onSubmit={() => handleUpdate(comment.id)}
+                onCancel={() => setEditingId(null)}
+                submitLabel="Save"
+                placeholder="Edit your comment"
+                submitting={submitting}
+                projectMembers={projectMembers}
+              />
+            </Box>
+          ) : (
+            <Box sx={{ '& p': { my: 0.5 }, fontSize: '0.875rem' }}>
+              <ReactMarkdown>{comment.content}</ReactMarkdown>
+            </Box>
+          )}
+        </Paper>
+
+        {replyTo === comment.id && (
+          <Box sx={{ ml: 3, mt: 1 }}>
+            <CommentComposer
+              value={replyDraft}
+              onChange={setReplyDraft}
+              onSubmit={() => handleAdd(replyDraft, comment.id)}
+              onCancel={() => setReplyTo(null)}
+              submitLabel="Reply"
+              placeholder={`Reply to ${authorName(comment) || 'comment'}`}
+              submitting={submitting}
+              projectMembers={projectMembers}
+            />
+          </Box>
+        )}
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </Box>
+    );
+  };
+
+  const rootComments = comments.filter(c => !c.parent_comment_id);
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1} mb={1}>
+        <MessageSquare size={18} />
+        <Typography variant="subtitle1">
+          Comments ({comments.length})
+        </Typography>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : rootComments.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No comments yet. Start the discussion below.
+        </Typography>
+      ) : (
+        rootComments.map(comment => renderComment(comment, 0))
+      )}
+
+      <Box mt={2}>
+        <CommentComposer
+          value={draft}
+          onChange={setDraft}
+          onSubmit={() => handleAdd(draft, null)}
+          submitLabel="Comment"
+          placeholder="Write a comment"
+          submitting={submitting}
+          projectMembers={projectMembers}
+        />
+      </Box>
+    </Box>
+  );
+}
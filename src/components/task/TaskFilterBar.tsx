@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  InputAdornment,
+  Popover,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  Badge,
+  Typography,
+} from '@mui/material';
+import { Filter, Search, X } from 'lucide-react';
+import type { TaskFilters, TaskPriority, TaskStatus } from '../../types/task';
+import { EMPTY_TASK_FILTERS, PRIORITY_LABELS, STATUS_LABELS, countActiveFilters } from '../../lib/taskFilters';
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  assignees: FilterOption[];
+  phases: FilterOption[];
+  projects?: FilterOption[]; // shown only when tasks span several projects
+}
+
+interface MultiSelectProps {
+  label: string;
+  value: string[];
+  options: FilterOption[];
+  onChange: (value: string[]) => void;
+}
+
+function MultiSelect({ label, value, options, onChange }: MultiSelectProps) {
+  return (
+    <FormControl fullWidth size="small">
+      <InputLabel>{label}</InputLabel>
+      <Select
+        multiple
+        value={value}
+        onChange={(e) => onChange(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+        label={label}
+        renderValue={(selected) => options
+          .filter(option => selected.includes(option.id))
+          .map(option => option.name)
+          .join(', ')}
+      >
+        {options.map(option => (
+          <MenuItem key={option.id} value={option.id}>
+            <Checkbox size="small" checked={value.includes(option.id)} />
+            <ListItemText primary={option.name} />
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+}
+
+const STATUS_OPTIONS = Object.entries(STATUS_LABELS).map(([id, name]) => ({ id, name }));
+const PRIORITY_OPTIONS = Object.entries(PRIORITY_LABELS).map(([id, name]) => ({ id, name }));
+
+export function TaskFilterBar({ filters, onChange, assignees, phases, projects }: TaskFilterBarProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<TaskFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <Box display="flex" alignItems="center" gap={1}>
+      <TextField
+        size="small"
+        placeholder="Search tasks"
+        value={filters.search}
+        onChange={(e) => update({ search: e.target.value })}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Search size={16} />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ minWidth: 220 }}
+      />
+      <Badge badgeContent={activeCount} color="primary">
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Filter size={16} />}
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+        >
+          Filters
+        </Button>
+      </Badge>
+      {activeCount > 0 && (
+        <Button size="small" startIcon={<X size={14} />} onClick={() => onChange(EMPTY_TASK_FILTERS)}>
+          Clear
+        </Button>
+      )}
+
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Box p={2} width={480}>
+          <Typography variant="subtitle2" gutterBottom>
+            Filter tasks
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid item xs={6}>
+              <MultiSelect
+                label="Status"
+                value={filters.statuses}
+                options={STATUS_OPTIONS}
+                onChange={(statuses) => update({ statuses: statuses as TaskStatus[] })}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <MultiSelect
+                label="Priority"
+                value={filters.priorities}
+                options={PRIORITY_OPTIONS}
+                onChange={(priorities) => update({ priorities: priorities as TaskPriority[] })}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <MultiSelect
+                label="Assignee"
+                value={filters.assigneeIds}
+                options={assignees}
+                onChange={(assigneeIds) => update({ assigneeIds })}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <MultiSelect
+                label="Phase"
+                value={filters.phaseIds}
+                options={phases}
+                onChange={(phaseIds) => update({ phaseIds })}
+              />
+            </Grid>
+            {projects && (
+              <Grid item xs={12}>
+                <MultiSelect
+                  label="Project"
+                  value={filters.projectIds}
+                  options={projects}
+                  onChange={(projectIds) => update({ projectIds })}
+                />
+              </Grid>
+            )}
+            <Grid item xs={6}>
+              <TextField
+                type="date"
+                size="small"
+                label="Due from"
+                value={filters.dueFrom || ''}
+                onChange={(e) => update({ dueFrom: e.target.value || null })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <TextField
+                type="date"
+                size="small"
+                label="Due to"
+                value={filters.dueTo || ''}
+                onChange={(e) => update({ dueTo: e.target.value || null })}
+                InputLabelProps={{ shrink: true }}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={filters.overdue}
+                    onChange={(e) => update({ overdue: e.target.checked })}
+                  />
+                }
+                label="Overdue only"
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={filters.unassigned}
+                    onChange={(e) => update({ unassigned: e.target.checked })}
+                  />
+                }
+                label="Unassigned"
+              />
+            </Grid>
+          </Grid>
+        </Box>
+      </Popover>
+    </Box>
+  );
+}
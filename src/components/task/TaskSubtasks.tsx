@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Checkbox,
+  LinearProgress,
+  CircularProgress,
+  Chip,
+} from '@mui/material';
+import { ListTree, Plus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { Task } from '../../types/task';
+import type { User } from '../../types/auth';
+import { canUpdateTaskStatus } from '../../lib/permissions';
+import { fetchSubtasks, createSubtasks, updateSubtaskStatus } from '../../lib/services/subtasks';
+
+interface TaskSubtasksProps {
+  task: Pick<Task, 'id' | 'project_id' | 'phase_id' | 'priority' | 'assigned_to' | 'due_date'>;
+  currentUser: User;
+  canManage: boolean;
+  onChange?: () => void;
+}
+
+export function TaskSubtasks({ task, currentUser, canManage, onChange }: TaskSubtasksProps) {
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [newSubtask, setNewSubtask] = useState({ title: '', hours: '' });
+
+  useEffect(() => {
+    loadSubtasks();
+  }, [task.id]);
+
+  const loadSubtasks = async () => {
+    try {
+      setLoading(true);
+      setSubtasks(await fetchSubtasks(task.id));
+    } catch (error) {
+      console.error('Error fetching subtasks:', error);
+      toast.error('Failed to load subtasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newSubtask.title.trim()) return;
+
+    setBusy(true);
+    try {
+      const created = await createSubtasks(task, [{
+        title: newSubtask.title,
+        estimated_hours: newSubtask.hours ? Number(newSubtask.hours) : 0,
+      }], currentUser.id);
+      setSubtasks(prev => [...prev, ...created]);
+      setNewSubtask({ title: '', hours: '' });
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error creating subtask:', error);
+      toast.error('Failed to create subtask: ' + (error.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (subtask: Task) => {
+    const status = subtask.status === 'completed' ? 'todo' : 'completed';
+    try {
+      await updateSubtaskStatus(subtask, status);
+      setSubtasks(prev => prev.map(s => (s.id === subtask.id ? { ...s, status } : s)));
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error updating subtask:', error);
+      toast.error(error.message || 'Failed to update subtask');
+    }
+  };
+
+  const completed = subtasks.filter(s => s.status === 'completed').length;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <ListTree size={18} />
+          <Typography variant="subtitle1">Subtasks</Typography>
+          {subtasks.length > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              {completed}/{subtasks.length}
+            </Typography>
+          )}
+        </Box>
+        {canManage && (
+          <Button size="small" startIcon={<Plus size={14} />} onClick={() => setShowForm(!showForm)}>
+            Add Subtask
+          </Button>
+        )}
+      </Box>
+
+      {subtasks.length > 0 && (
+        <LinearProgress
+          variant="determinate"
+          value={(completed / subtasks.length) * 100}
+          color={completed === subtasks.length ? 'success' : 'primary'}
+          sx={{ height: 6, borderRadius: 3, mb: 1 }}
+        />
+      )}
+
+      {showForm && (
+        <Box display="flex" gap={1} alignItems="flex-start" mb={1}>
+          <TextField
+            size="small"
+            label="Title"
+            value={newSubtask.title}
+            onChange={(e) => setNewSubtask({ ...newSubtask, title: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            sx={{ flexGrow: 1 }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            label="Hours"
+            value={newSubtask.hours}
+            onChange={(e) => setNewSubtask({ ...newSubtask, hours: e.target.value })}
+            inputProps={{ min: 0, step: 0.5 }}
+            sx={{ width: 100 }}
+          />
+          <Button
+            variant="contained"
+            size="small"
+            onClick={handleAdd}
+            disabled={busy || !newSubtask.title.trim()}
+            sx={{ mt: 0.5 }}
+          >
+            Add
+          </Button>
+        </Box>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : subtasks.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No subtasks. Break large tasks down so their progress can be tracked step by step.
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {subtasks.map(subtask => (
+            <ListItem key={subtask.id} disableGutters>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                <Checkbox
+                  edge="start"
+                  size="small"
+                  checked={subtask.status === 'completed'}
+                  disabled={!canUpdateTaskStatus(currentUser, subtask)}
+                  onChange={() => handleToggle(subtask)}
+                />
+              </ListItemIcon>
+              <ListItemText
+                primary={subtask.title}
+                secondary={[
+                  subtask.assignee?.full_name || 'Unassigned',
+                  subtask.estimated_hours ? `${subtask.estimated_hours}h` : null,
+                ].filter(Boolean).join(' · ')}
+                primaryTypographyProps={{
+                  sx: subtask.status === 'completed' ? { textDecoration: 'line-through', color: 'text.secondary' } : undefined,
+                }}
+              />
+              {subtask.status !== 'todo' && subtask.status !== 'completed' && (
+                <Chip label={subtask.status.replace('_', ' ')} size="small" variant="outlined" />
+              )}
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { MoreVertical, Edit, Trash, Check, RefreshCw } from 'lucide-react';
-import type { Task, TaskStatus, TaskPriority, TaskSuggestion } from '../../types/task';
+import { MoreVertical, Edit, Trash, Check, RefreshCw, CornerDownRight } from 'lucide-react';
+import type { Task, TaskStatus, TaskPriority, TaskSuggestion, TaskColumn, TaskGroupBy, TaskSort, TaskSortField } from '../../types/task';
 import type { User } from '../../types/auth';
 import type { Phase } from '../../types/phase';
 import { format } from 'date-fns';
@@ -28,27 +28,58 @@ import {
   Select,
   Box,
   Tooltip,
-  Stack
+  Stack,
+  LinearProgress,
+  TableSortLabel
 } from '@mui/material';
 import { EditTaskModal } from './EditTaskModal';
 import { canUpdateTaskStatus, canEditTask } from '../../lib/permissions';
+import { getTaskProgress } from '../../lib/services/subtasks';
+import { DEFAULT_TASK_SORT, DEFAULT_TASK_VIEW, TASK_COLUMNS, groupTasks, sortTasks } from '../../lib/taskFilters';
 
 interface TaskTableProps {
   tasks: Task[];
-  onUpdateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  onUpdateTask: (taskId: string, updates: Partial<Task>, expectedUpdatedAt?: string) => Promise<unknown>;
   onDeleteTask?: (taskId: string) => Promise<void>;
   onEditTask?: (task: Task) => void;
   currentUser: User;
   canManageTasks: boolean;
   projectMembers?: User[];
+  columns?: TaskColumn[];
+  groupBy?: TaskGroupBy;
+  sort?: TaskSort; // controlled sort, e.g. restored from a saved view
+  onSortChange?: (sort: TaskSort) => void;
 }
 
-export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, projectMembers = [], onDeleteTask, onEditTask }: TaskTableProps) {
+// Columns whose header can be clicked to sort by them
+const SORTABLE_COLUMNS: Partial<Record<TaskColumn, TaskSortField>> = {
+  status: 'status',
+  priority: 'priority',
+  due_date: 'due_date',
+  estimated_hours: 'estimated_hours'
+};
+
+type TableRowItem =
+  | { type: 'group'; key: string; label: string; count: number }
+  | { type: 'task'; task: Task; depth: number };
+
+export function TaskTable({
+  tasks,
+  onUpdateTask,
+  currentUser,
+  canManageTasks,
+  projectMembers = [],
+  onDeleteTask,
+  onEditTask,
+  columns = DEFAULT_TASK_VIEW.columns,
+  groupBy = 'none',
+  sort: controlledSort,
+  onSortChange
+}: TaskTableProps) {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [sortBy, setSortBy] = useState<keyof Task>('created_at');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [localSort, setLocalSort] = useState<TaskSort>(DEFAULT_TASK_SORT);
   const [phases, setPhases] = useState<Phase[]>([]);
   const [loadingPhases, setLoadingPhases] = useState(false);
 
@@ -227,12 +258,44 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
     }
   };
 
-  // Sort tasks - always sort by created_at in ascending order by default
-  const sortedTasks = [...tasks].sort((a, b) => {
-    const dateA = new Date(a.created_at).getTime();
-    const dateB = new Date(b.created_at).getTime();
-    return dateA - dateB; // Always ascending order by created_at
-  });
+  const sort = controlledSort ?? localSort;
+  const handleSort = (field: TaskSortField) => {
+    const next: TaskSort = {
+      field,
+      direction: sort.field === field && sort.direction === 'asc' ? 'desc' : 'asc'
+    };
+    if (onSortChange) {
+      onSortChange(next);
+    } else {
+      setLocalSort(next);
+    }
+  };
+
+  const sortedTasks = sortTasks(tasks, sort);
+  const showColumn = (column: TaskColumn) => columns.includes(column);
+  const columnCount = 1 + columns.length + (canManageTasks ? 1 : 0);
+
+  // Place subtasks directly under their parent; a subtask whose parent isn't
+  // in the same group (e.g. filtered out) stays at the top level
+  const rowItems: TableRowItem[] = [];
+  for (const group of groupTasks(sortedTasks, groupBy)) {
+    if (groupBy !== 'none') {
+      rowItems.push({ type: 'group', key: group.key, label: group.label, count: group.tasks.length });
+    }
+
+    const groupIds = new Set(group.tasks.map(task => task.id));
+    const addRows = (parentId: string | null, depth: number) => {
+      group.tasks
+        .filter(task => parentId
+          ? task.parent_task_id === parentId
+          : !task.parent_task_id || !groupIds.has(task.parent_task_id))
+        .forEach(task => {
+          rowItems.push({ type: 'task', task, depth });
+          addRows(task.id, depth + 1);
+        });
+    };
+    addRows(null, 0);
+  }
 
   const handleAddSuggestedTask = async (task: TaskSuggestion) => {
     try {
@@ -255,20 +318,77 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
       <Table>
         <TableHead>
           <TableRow>
-              <TableCell>Title</TableCell>
-              <TableCell>Status</TableCell>
-              <TableCell>Priority</TableCell>
-              <TableCell>Phase</TableCell>
-            <TableCell>Assignee</TableCell>
-              <TableCell>Due Date</TableCell>
-              <TableCell>Estimated Hours</TableCell>
+              <TableCell>
+                <TableSortLabel
+                  active={sort.field === 'title'}
+                  direction={sort.field === 'title' ? sort.direction : 'asc'}
+                  onClick={() => handleSort('title')}
+                >
+                  Title
+                </TableSortLabel>
+              </TableCell>
+              {TASK_COLUMNS.filter(column => showColumn(column.id)).map(column => {
+                const sortField = SORTABLE_COLUMNS[column.id];
+                return (
+                  <TableCell key={column.id}>
+                    {sortField ? (
+                      <TableSortLabel
+                        active={sort.field === sortField}
+                        direction={sort.field === sortField ? sort.direction : 'asc'}
+                        onClick={() => handleSort(sortField)}
+                      >
+                        {column.label}
+                      </TableSortLabel>
+                    ) : column.label}
+                  </TableCell>
+                );
+              })}
               {canManageTasks && <TableCell align="right">Actions</TableCell>}
           </TableRow>
         </TableHead>
         <TableBody>
-            {sortedTasks.map((task) => (
+            {rowItems.map(item => {
+              if (item.type === 'group') {
+                return (
+                  <TableRow key={`group-${item.key}`} sx={{ bgcolor: 'action.hover' }}>
+                    <TableCell colSpan={columnCount}>
+                      <Typography variant="subtitle2">
+                        {item.label} ({item.count})
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                );
+              }
+
+              const { task, depth } = item;
+              const progress = getTaskProgress(task);
+
+              return (
               <TableRow key={task.id}>
-                <TableCell>{task.title}</TableCell>
+                <TableCell>
+                  <Box display="flex" alignItems="center" gap={0.5} sx={{ pl: depth * 2 }}>
+                    {depth > 0 && <CornerDownRight size={14} style={{ flexShrink: 0, opacity: 0.6 }} />}
+                    <Box flexGrow={1}>
+                      {task.title}
+                      {progress && (
+                        <Tooltip title={`${progress.completed} of ${progress.total} subtasks and checklist items done`}>
+                          <Box display="flex" alignItems="center" gap={1} mt={0.5}>
+                            <LinearProgress
+                              variant="determinate"
+                              value={progress.percent}
+                              color={progress.completed === progress.total ? 'success' : 'primary'}
+                              sx={{ flexGrow: 1, height: 4, borderRadius: 2, minWidth: 60 }}
+                            />
+                            <Typography variant="caption" color="text.secondary">
+                              {progress.completed}/{progress.total}
+                            </Typography>
+                          </Box>
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </Box>
+                </TableCell>
+              {showColumn('status') && (
               <TableCell>
                   {canUpdateTaskStatus(currentUser, task) ? (
                     <FormControl size="small" fullWidth>
@@ -298,6 +418,8 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
                   />
                 )}
               </TableCell>
+              )}
+              {showColumn('priority') && (
               <TableCell>
                   <Chip 
                     label={task.priority} 
@@ -305,6 +427,8 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
                     size="small"
                   />
                 </TableCell>
+              )}
+              {showColumn('phase') && (
                 <TableCell>
                   {canManageTasks ? (
                     <Box display="flex" alignItems="center">
@@ -361,15 +485,27 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
                     )
                   )}
                 </TableCell>
+              )}
+              {showColumn('assignee') && (
                 <TableCell>
                   {task.assignee ? task.assignee.full_name : 'Unassigned'}
                 </TableCell>
+              )}
+              {showColumn('project') && (
+                <TableCell>
+                  {task.project?.name || '-'}
+                </TableCell>
+              )}
+              {showColumn('due_date') && (
                 <TableCell>
                   {task.due_date ? format(new Date(task.due_date), 'MMM d, yyyy') : '-'}
                 </TableCell>
+              )}
+              {showColumn('estimated_hours') && (
                 <TableCell>
                   {task.estimated_hours ? `${task.estimated_hours} ${task.estimated_hours === 1 ? 'hour' : 'hours'}` : '-'}
                 </TableCell>
+              )}
                 {canManageTasks && (
                   <TableCell align="right">
                     <Stack direction="row" spacing={1} justifyContent="flex-end">
@@ -394,10 +530,11 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
                   </TableCell>
                 )}
               </TableRow>
-            ))}
+              );
+            })}
             {tasks.length === 0 && (
               <TableRow>
-                <TableCell colSpan={canManageTasks ? 8 : 7} align="center">
+                <TableCell colSpan={columnCount} align="center">
                   <Typography color="text.secondary" py={2}>
                     No tasks found. Create your first task to get started.
                   </Typography>
@@ -413,8 +550,8 @@ export function TaskTable({ tasks, onUpdateTask, currentUser, canManageTasks, pr
         <EditTaskModal
           task={selectedTask}
           onClose={() => setIsEditModalOpen(false)}
-          onSave={(taskId, updates) => {
-            onUpdateTask(taskId, updates);
+          onSave={async (taskId, updates, expectedUpdatedAt) => {
+            await onUpdateTask(taskId, updates, expectedUpdatedAt);
             setIsEditModalOpen(false);
           }}
           projectMembers={projectMembers}
@@ -0,0 +1,753 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, Repeat, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  IconButton,
+  Box,
+  Grid,
+  Chip,
+  Tabs,
+  Tab,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Switch,
+  FormControlLabel,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import type { TaskPriority, TaskRecurrence, TaskTemplate } from '../../types/task';
+import type { Phase } from '../../types/phase';
+import type { User } from '../../types/auth';
+import type { RecurrenceFrequency } from '../../lib/recurrence';
+import { describeRecurrence, validateCronExpression } from '../../lib/recurrence';
+import {
+  fetchTaskTemplates,
+  saveTaskTemplate,
+  deleteTaskTemplate,
+  fetchTaskRecurrences,
+  saveTaskRecurrence,
+  deleteTaskRecurrence,
+  generateDueRecurringTasks,
+} from '../../lib/services/taskTemplates';
+
+interface TaskTemplatesManagerProps {
+  projectId: string;
+  currentUser: User;
+  phases: Phase[];
+  projectMembers: User[];
+  onClose: () => void;
+  onTasksGenerated: () => void;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyTemplateForm = {
+  name: '',
+  title: '',
+  description: '',
+  priority: 'medium' as TaskPriority,
+  estimated_hours: '',
+  phase_id: '',
+  checklist: [] as string[],
+  shared: false,
+};
+
+const emptyRecurrenceForm = () => ({
+  template_id: '',
+  assigned_to: '',
+  frequency: 'weekly' as RecurrenceFrequency,
+  interval_count: 1,
+  weekdays: [new Date().getDay()],
+  day_of_month: new Date().getDate(),
+  cron_expression: '0 9 * * 1-5',
+  starts_at: format(new Date(), "yyyy-MM-dd'T'09:00"),
+  ends_at: '',
+  due_offset_days: 0,
+  active: true,
+});
+
+export function TaskTemplatesManager({
+  projectId,
+  currentUser,
+  phases,
+  projectMembers,
+  onClose,
+  onTasksGenerated,
+}: TaskTemplatesManagerProps) {
+  const [tab, setTab] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [recurrences, setRecurrences] = useState<TaskRecurrence[]>([]);
+
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [templateForm, setTemplateForm] = useState<typeof emptyTemplateForm | null>(null);
+  const [checklistItem, setChecklistItem] = useState('');
+
+  const [editingRecurrenceId, setEditingRecurrenceId] = useState<string | null>(null);
+  const [recurrenceForm, setRecurrenceForm] = useState<ReturnType<typeof emptyRecurrenceForm> | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [projectId]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [templateData, recurrenceData] = await Promise.all([
+        fetchTaskTemplates(projectId),
+        fetchTaskRecurrences(projectId),
+      ]);
+      setTemplates(templateData);
+      setRecurrences(recurrenceData);
+    } catch (error) {
+      console.error('Error loading task templates:', error);
+      toast.error('Failed to load task templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTemplateForm = (template?: TaskTemplate) => {
+    setEditingTemplateId(template?.id || null);
+    setChecklistItem('');
+    setTemplateForm(template ? {
+      name: template.name,
+      title: template.title,
+      description: template.description || '',
+      priority: template.priority,
+      estimated_hours: template.estimated_hours?.toString() || '',
+      phase_id: template.phase_id || '',
+      checklist: template.checklist || [],
+      shared: template.project_id === null,
+    } : emptyTemplateForm);
+  };
+
+  const addChecklistItem = () => {
+    if (!templateForm || !checklistItem.trim()) return;
+    setTemplateForm({ ...templateForm, checklist: [...templateForm.checklist, checklistItem.trim()] });
+    setChecklistItem('');
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateForm) return;
+    if (!templateForm.name.trim() || !templateForm.title.trim()) {
+      toast.error('Template name and task title are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTaskTemplate({
+        project_id: templateForm.shared ? null : projectId,
+        name: templateForm.name.trim(),
+        title: templateForm.title.trim(),
+        description: templateForm.description.trim() || null,
+        priority: templateForm.priority,
+        estimated_hours: templateForm.estimated_hours ? Number(templateForm.estimated_hours) : null,
+        // Phases belong to this project, so shared templates can't keep one
+        phase_id: templateForm.shared ? null : templateForm.phase_id || null,
+        checklist: templateForm.checklist,
+      }, currentUser.id, editingTemplateId || undefined);
+
+      toast.success(editingTemplateId ? 'Template updated' : 'Template created');
+      setTemplateForm(null);
+      setEditingTemplateId(null);
+      await loadData();
+    } catch (error: any) {
+      console.error('Error saving template:', error);
+      toast.error('Failed to save template: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: TaskTemplate) => {
+    const ruleCount = recurrences.filter(r => r.template_id === template.id).length;
+    const warning = ruleCount > 0
+      ? ` This also removes ${ruleCount} recurring schedule${ruleCount === 1 ? '' : 's'} using it.`
+      : '';
+    if (!window.confirm(`Delete template "${template.name}"?${warning}`)) return;
+
+    try {
+      await deleteTaskTemplate(template.id);
+      toast.success('Template deleted');
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const openRecurrenceForm = (recurrence?: TaskRecurrence) => {
+    setEditingRecurrenceId(recurrence?.id || null);
+    setRecurrenceForm(recurrence ? {
+      template_id: recurrence.template_id,
+      assigned_to: recurrence.assigned_to || '',
+      frequency: recurrence.frequency,
+      interval_count: recurrence.interval_count,
+      weekdays: recurrence.weekdays || [],
+      day_of_month: recurrence.day_of_month || 1,
+      cron_expression: recurrence.cron_expression || '',
+      starts_at: format(new Date(recurrence.starts_at), "yyyy-MM-dd'T'HH:mm"),
+      ends_at: recurrence.ends_at ? format(new Date(recurrence.ends_at), "yyyy-MM-dd'T'HH:mm") : '',
+      due_offset_days: recurrence.due_offset_days,
+      active: recurrence.active,
+    } : { ...emptyRecurrenceForm(), template_id: templates[0]?.id || '' });
+  };
+
+  const cronError = recurrenceForm?.frequency === 'custom'
+    ? validateCronExpression(recurrenceForm.cron_expression)
+    : null;
+
+  const handleSaveRecurrence = async () => {
+    if (!recurrenceForm) return;
+    if (!recurrenceForm.template_id) {
+      toast.error('Choose a template to repeat');
+      return;
+    }
+    if (cronError) {
+      toast.error(cronError);
+      return;
+    }
+    if (recurrenceForm.frequency === 'weekly' && recurrenceForm.weekdays.length === 0) {
+      toast.error('Pick at least one day of the week');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveTaskRecurrence({
+        template_id: recurrenceForm.template_id,
+        project_id: projectId,
+        assigned_to: recurrenceForm.assigned_to || null,
+        frequency: recurrenceForm.frequency,
+        interval_count: Math.max(1, Number(recurrenceForm.interval_count) || 1),
+        weekdays: recurrenceForm.frequency === 'weekly' ? recurrenceForm.weekdays : null,
+        day_of_month: recurrenceForm.frequency === 'monthly' ? recurrenceForm.day_of_month : null,
+        cron_expression: recurrenceForm.frequency === 'custom' ? recurrenceForm.cron_expression.trim() : null,
+        starts_at: new Date(recurrenceForm.starts_at).toISOString(),
+        ends_at: recurrenceForm.ends_at ? new Date(recurrenceForm.ends_at).toISOString() : null,
+        due_offset_days: Math.max(0, Number(recurrenceForm.due_offset_days) || 0),
+        active: recurrenceForm.active,
+      }, currentUser.id, editingRecurrenceId || undefined);
+
+      if (recurrenceForm.active && !saved.active) {
+        toast('This schedule has no upcoming occurrences, so it was saved as paused');
+      } else {
+        toast.success(editingRecurrenceId ? 'Schedule updated' : 'Schedule created');
+      }
+      setRecurrenceForm(null);
+      setEditingRecurrenceId(null);
+      await loadData();
+    } catch (error: any) {
+      console.error('Error saving recurrence:', error);
+      toast.error('Failed to save schedule: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleRecurrence = async (recurrence: TaskRecurrence) => {
+    try {
+      await saveTaskRecurrence({
+        template_id: recurrence.template_id,
+        project_id: recurrence.project_id,
+        assigned_to: recurrence.assigned_to,
+        frequency: recurrence.frequency,
+        interval_count: recurrence.interval_count,
+        weekdays: recurrence.weekdays,
+        day_of_month: recurrence.day_of_month,
+        cron_expression: recurrence.cron_expression,
+        starts_at: recurrence.starts_at,
+        ends_at: recurrence.ends_at,
+        due_offset_days: recurrence.due_offset_days,
+        active: !recurrence.active,
+      }, currentUser.id, recurrence.id);
+      await loadData();
+    } catch (error) {
+      console.error('Error updating recurrence:', error);
+      toast.error('Failed to update schedule');
+    }
+  };
+
+  const handleDeleteRecurrence = async (recurrence: TaskRecurrence) => {
+    if (!window.confirm('Delete this recurring schedule? Tasks it already created are kept.')) return;
+
+    try {
+      await deleteTaskRecurrence(recurrence.id);
+      toast.success('Schedule deleted');
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting recurrence:', error);
+      toast.error('Failed to delete schedule');
+    }
+  };
+
+  const handleGenerateNow = async () => {
+    setGenerating(true);
+    try {
+      const created = await generateDueRecurringTasks(projectId);
+      toast.success(created > 0 ? `Created ${created} recurring task${created === 1 ? '' : 's'}` : 'No recurring tasks are due');
+      if (created > 0) onTasksGenerated();
+      await loadData();
+    } catch (error) {
+      console.error('Error generating recurring tasks:', error);
+      toast.error('Failed to generate recurring tasks');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const renderTemplateForm = () => templateForm && (
+    <Box sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1, mb: 2 }}>
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Template Name"
+            required
+            value={templateForm.name}
+            onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Task Title"
+            required
+            value={templateForm.title}
+            onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12}>
+          <TextField
+            label="Description"
+            value={templateForm.description}
+            onChange={(e) => setTemplateForm({ ...templateForm, description: e.target.value })}
+            multiline
+            rows={3}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Priority</InputLabel>
+            <Select
+              value={templateForm.priority}
+              onChange={(e) => setTemplateForm({ ...templateForm, priority: e.target.value as TaskPriority })}
+              label="Priority"
+            >
+              <MenuItem value="low">Low</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="high">High</MenuItem>
+              <MenuItem value="urgent">Urgent</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            label="Estimated Hours"
+            type="number"
+            value={templateForm.estimated_hours}
+            onChange={(e) => setTemplateForm({ ...templateForm, estimated_hours: e.target.value })}
+            inputProps={{ min: 0, step: 0.5 }}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <FormControl fullWidth size="small" disabled={templateForm.shared}>
+            <InputLabel>Default Phase</InputLabel>
+            <Select
+              value={templateForm.shared ? '' : templateForm.phase_id}
+              onChange={(e) => setTemplateForm({ ...templateForm, phase_id: e.target.value })}
+              label="Default Phase"
+            >
+              <MenuItem value="">No phase</MenuItem>
+              {phases.map((phase) => (
+                <MenuItem key={phase.id} value={phase.id}>{phase.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12}>
+          <Typography variant="subtitle2" gutterBottom>Checklist</Typography>
+          <Box display="flex" gap={1} flexWrap="wrap" mb={1}>
+            {templateForm.checklist.map((item, index) => (
+              <Chip
+                key={`${item}-${index}`}
+                label={item}
+                size="small"
+                onDelete={() => setTemplateForm({
+                  ...templateForm,
+                  checklist: templateForm.checklist.filter((_, i) => i !== index),
+                })}
+              />
+            ))}
+          </Box>
+          <Box display="flex" gap={1}>
+            <TextField
+              placeholder="Add checklist item"
+              value={checklistItem}
+              onChange={(e) => setChecklistItem(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addChecklistItem();
+                }
+              }}
+              fullWidth
+              size="small"
+            />
+            <Button onClick={addChecklistItem} disabled={!checklistItem.trim()}>Add</Button>
+          </Box>
+        </Grid>
+        <Grid item xs={12}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={templateForm.shared}
+                onChange={(e) => setTemplateForm({ ...templateForm, shared: e.target.checked })}
+              />
+            }
+            label="Share with all projects"
+          />
+        </Grid>
+      </Grid>
+      <Box display="flex" justifyContent="flex-end" gap={1} mt={2}>
+        <Button color="inherit" onClick={() => setTemplateForm(null)}>Cancel</Button>
+        <Button variant="contained" onClick={handleSaveTemplate} disabled={saving}>
+          {saving ? 'Saving...' : editingTemplateId ? 'Update Template' : 'Save Template'}
+        </Button>
+      </Box>
+    </Box>
+  );
+
+  const renderRecurrenceForm = () => recurrenceForm && (
+    <Box sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1, mb: 2 }}>
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Template</InputLabel>
+            <Select
+              value={recurrenceForm.template_id}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, template_id: e.target.value })}
+              label="Template"
+            >
+              {templates.map((template) => (
+                <MenuItem key={template.id} value={template.id}>{template.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Assignee</InputLabel>
+            <Select
+              value={recurrenceForm.assigned_to}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, assigned_to: e.target.value })}
+              label="Assignee"
+            >
+              <MenuItem value="">Unassigned</MenuItem>
+              {projectMembers.map((member) => (
+                <MenuItem key={member.id} value={member.id}>{member.full_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Repeats</InputLabel>
+            <Select
+              value={recurrenceForm.frequency}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, frequency: e.target.value as RecurrenceFrequency })}
+              label="Repeats"
+            >
+              <MenuItem value="daily">Daily</MenuItem>
+              <MenuItem value="weekly">Weekly</MenuItem>
+              <MenuItem value="monthly">Monthly</MenuItem>
+              <MenuItem value="custom">Custom (cron)</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        {recurrenceForm.frequency !== 'custom' ? (
+          <Grid item xs={12} sm={6}>
+            <TextField
+              label={`Every N ${recurrenceForm.frequency === 'daily' ? 'days' : recurrenceForm.frequency === 'weekly' ? 'weeks' : 'months'}`}
+              type="number"
+              value={recurrenceForm.interval_count}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, interval_count: Number(e.target.value) })}
+              inputProps={{ min: 1 }}
+              fullWidth
+              size="small"
+            />
+          </Grid>
+        ) : (
+          <Grid item xs={12} sm={6}>
+            <TextField
+              label="Cron Expression (UTC)"
+              value={recurrenceForm.cron_expression}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, cron_expression: e.target.value })}
+              error={!!cronError}
+              helperText={cronError || 'minute hour day-of-month month day-of-week'}
+              fullWidth
+              size="small"
+            />
+          </Grid>
+        )}
+        {recurrenceForm.frequency === 'weekly' && (
+          <Grid item xs={12}>
+            <Box display="flex" gap={1} flexWrap="wrap">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = recurrenceForm.weekdays.includes(day);
+                return (
+                  <Chip
+                    key={label}
+                    label={label}
+                    color={selected ? 'primary' : 'default'}
+                    variant={selected ? 'filled' : 'outlined'}
+                    onClick={() => setRecurrenceForm({
+                      ...recurrenceForm,
+                      weekdays: selected
+                        ? recurrenceForm.weekdays.filter(d => d !== day)
+                        : [...recurrenceForm.weekdays, day].sort((a, b) => a - b),
+                    })}
+                  />
+                );
+              })}
+            </Box>
+          </Grid>
+        )}
+        {recurrenceForm.frequency === 'monthly' && (
+          <Grid item xs={12} sm={6}>
+            <TextField
+              label="Day of Month"
+              type="number"
+              value={recurrenceForm.day_of_month}
+              onChange={(e) => setRecurrenceForm({ ...recurrenceForm, day_of_month: Number(e.target.value) })}
+              inputProps={{ min: 1, max: 31 }}
+              helperText="Shorter months use their last day"
+              fullWidth
+              size="small"
+            />
+          </Grid>
+        )}
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Starts"
+            type="datetime-local"
+            value={recurrenceForm.starts_at}
+            onChange={(e) => setRecurrenceForm({ ...recurrenceForm, starts_at: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Ends (optional)"
+            type="datetime-local"
+            value={recurrenceForm.ends_at}
+            onChange={(e) => setRecurrenceForm({ ...recurrenceForm, ends_at: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Due Days After Creation"
+            type="number"
+            value={recurrenceForm.due_offset_days}
+            onChange={(e) => setRecurrenceForm({ ...recurrenceForm, due_offset_days: Number(e.target.value) })}
+            inputProps={{ min: 0 }}
+            fullWidth
+            size="small"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={recurrenceForm.active}
+                onChange={(e) => setRecurrenceForm({ ...recurrenceForm, active: e.target.checked })}
+              />
+            }
+            label="Active"
+          />
+        </Grid>
+      </Grid>
+      <Box display="flex" justifyContent="flex-end" gap={1} mt={2}>
+        <Button color="inherit" onClick={() => setRecurrenceForm(null)}>Cancel</Button>
+        <Button variant="contained" onClick={handleSaveRecurrence} disabled={saving || !!cronError}>
+          {saving ? 'Saving...' : editingRecurrenceId ? 'Update Schedule' : 'Save Schedule'}
+        </Button>
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          Task Templates
+          <IconButton onClick={onClose} size="small">
+            <X />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+          <Tab icon={<FileText size={16} />} iconPosition="start" label={`Templates (${templates.length})`} />
+          <Tab icon={<Repeat size={16} />} iconPosition="start" label={`Recurring (${recurrences.length})`} />
+        </Tabs>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        ) : tab === 0 ? (
+          <>
+            {templateForm ? renderTemplateForm() : (
+              <Box display="flex" justifyContent="flex-end" mb={2}>
+                <Button startIcon={<Plus size={16} />} onClick={() => openTemplateForm()}>
+                  New Template
+                </Button>
+              </Box>
+            )}
+            {templates.length === 0 ? (
+              <Typography color="text.secondary" align="center" sx={{ py: 3 }}>
+                No templates yet. Save common tasks as templates to create them in one click.
+              </Typography>
+            ) : (
+              <List dense>
+                {templates.map((template) => (
+                  <ListItem
+                    key={template.id}
+                    divider
+                    secondaryAction={
+                      <Box>
+                        <IconButton size="small" onClick={() => openTemplateForm(template)}>
+                          <Pencil size={16} />
+                        </IconButton>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteTemplate(template)}>
+                          <Trash2 size={16} />
+                        </IconButton>
+                      </Box>
+                    }
+                  >
+                    <ListItemText
+                      primary={
+                        <Box display="flex" alignItems="center" gap={1}>
+                          {template.name}
+                          {template.project_id === null && <Chip label="Shared" size="small" variant="outlined" />}
+                          <Chip label={template.priority} size="small" />
+                        </Box>
+                      }
+                      secondary={[
+                        template.title,
+                        template.estimated_hours ? `${template.estimated_hours}h` : null,
+                        template.checklist?.length ? `${template.checklist.length} checklist items` : null,
+                        phases.find(p => p.id === template.phase_id)?.name,
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        ) : (
+          <>
+            {recurrenceForm ? renderRecurrenceForm() : (
+              <Box display="flex" justifyContent="space-between" mb={2}>
+                <Button onClick={handleGenerateNow} disabled={generating || recurrences.length === 0}>
+                  {generating ? 'Generating...' : 'Generate Due Tasks'}
+                </Button>
+                <Tooltip title={templates.length === 0 ? 'Create a template first' : ''}>
+                  <span>
+                    <Button
+                      startIcon={<Plus size={16} />}
+                      onClick={() => openRecurrenceForm()}
+                      disabled={templates.length === 0}
+                    >
+                      New Schedule
+                    </Button>
+                  </span>
+                </Tooltip>
+              </Box>
+            )}
+            {recurrences.length === 0 ? (
+              <Typography color="text.secondary" align="center" sx={{ py: 3 }}>
+                No recurring schedules. Schedules create tasks from a template automatically.
+              </Typography>
+            ) : (
+              <List dense>
+                {recurrences.map((recurrence) => (
+                  <ListItem
+                    key={recurrence.id}
+                    divider
+                    secondaryAction={
+                      <Box display="flex" alignItems="center">
+                        <Tooltip title={recurrence.active ? 'Pause' : 'Resume'}>
+                          <Switch
+                            size="small"
+                            checked={recurrence.active}
+                            onChange={() => handleToggleRecurrence(recurrence)}
+                          />
+                        </Tooltip>
+                        <IconButton size="small" onClick={() => openRecurrenceForm(recurrence)}>
+                          <Pencil size={16} />
+                        </IconButton>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteRecurrence(recurrence)}>
+                          <Trash2 size={16} />
+                        </IconButton>
+                      </Box>
+                    }
+                  >
+                    <ListItemText
+                      primary={`${recurrence.template?.name || 'Unknown template'} — ${describeRecurrence(recurrence)}`}
+                      secondary={[
+                        recurrence.assignee ? `Assigned to ${recurrence.assignee.full_name}` : 'Unassigned',
+                        recurrence.active && recurrence.next_run_at
+                          ? `Next: ${format(new Date(recurrence.next_run_at), 'MMM d, yyyy HH:mm')}`
+                          : 'Paused',
+                        recurrence.last_run_at
+                          ? `Last: ${format(new Date(recurrence.last_run_at), 'MMM d, yyyy HH:mm')}`
+                          : null,
+                      ].filter(Boolean).join(' · ')}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  TextField,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress,
+  CircularProgress,
+  Tooltip,
+  Chip,
+} from '@mui/material';
+import { Timer, Play, Square, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import type { Task, TimeEntry } from '../../types/task';
+import type { User } from '../../types/auth';
+import {
+  fetchTaskTimeEntries,
+  startTimer,
+  stopTimer,
+  addManualTimeEntry,
+  deleteTimeEntry,
+  getEntryMinutes,
+  formatMinutes,
+} from '../../lib/services/timeTracking';
+
+interface TaskTimeTrackerProps {
+  task: Pick<Task, 'id' | 'estimated_hours'>;
+  currentUser: User;
+  canLogTime: boolean;
+}
+
+export function TaskTimeTracker({ task, currentUser, canLogTime }: TaskTimeTrackerProps) {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showManualForm, setShowManualForm] = useState(false);
+  const [manualEntry, setManualEntry] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    hours: '',
+    note: '',
+  });
+  // Re-render periodically so a running timer's elapsed time stays current
+  const [now, setNow] = useState(new Date());
+
+  const runningEntry = entries.find(e => e.ended_at === null && e.user_id === currentUser.id);
+
+  useEffect(() => {
+    loadEntries();
+  }, [task.id]);
+
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, [runningEntry?.id]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      setEntries(await fetchTaskTimeEntries(task.id));
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+      toast.error('Failed to load time entries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setBusy(true);
+    try {
+      await startTimer(task.id, currentUser.id);
+      // Reload since starting may have stopped a timer on this task
+      await loadEntries();
+      setNow(new Date());
+      toast.success('Timer started');
+    } catch (error: any) {
+      console.error('Error starting timer:', error);
+      toast.error('Failed to start timer: ' + (error.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!runningEntry) return;
+
+    setBusy(true);
+    try {
+      const stopped = await stopTimer(runningEntry);
+      setEntries(prev => prev.map(e => e.id === stopped.id ? stopped : e));
+      toast.success(`Logged ${formatMinutes(stopped.duration_minutes || 0)}`);
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast.error('Failed to stop timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddManual = async () => {
+    const hours = parseFloat(manualEntry.hours);
+    if (!hours || hours <= 0) {
+      toast.error('Enter the number of hours spent');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const entry = await addManualTimeEntry({
+        taskId: task.id,
+        userId: currentUser.id,
+        date: new Date(`${manualEntry.date}T09:00:00`),
+        minutes: Math.round(hours * 60),
+        note: manualEntry.note.trim(),
+      });
+      setEntries(prev => [entry, ...prev]);
+      setManualEntry({ date: format(new Date(), 'yyyy-MM-dd'), hours: '', note: '' });
+      setShowManualForm(false);
+    } catch (error: any) {
+      console.error('Error adding time entry:', error);
+      toast.error('Failed to add time entry: ' + (error.message || 'Unknown error'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!window.confirm('Delete this time entry?')) return;
+
+    try {
+      await deleteTimeEntry(entryId);
+      setEntries(prev => prev.filter(e => e.id !== entryId));
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      toast.error('Failed to delete time entry');
+    }
+  };
+
+  const loggedMinutes = entries.reduce((sum, entry) => sum + getEntryMinutes(entry, now), 0);
+  const estimatedMinutes = (task.estimated_hours || 0) * 60;
+  const overEstimate = estimatedMinutes > 0 && loggedMinutes > estimatedMinutes;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Box display="flex" alignItems="center" gap={1}>
+          <Timer size={18} />
+          <Typography variant="subtitle1">Time Tracking</Typography>
+        </Box>
+        {canLogTime && (
+          <Box display="flex" gap={1}>
+            <Button
+              size="small"
+              startIcon={<Plus size={14} />}
+              onClick={() => setShowManualForm(!showManualForm)}
+            >
+              Log Time
+            </Button>
+            {runningEntry ? (
+              <Button
+                size="small"
+                variant="contained"
+                color="error"
+                startIcon={<Square size={14} />}
+                onClick={handleStop}
+                disabled={busy}
+              >
+                Stop ({formatMinutes(getEntryMinutes(runningEntry, now))})
+              </Button>
+            ) : (
+              <Button
+                size="small"
+                variant="contained"
+                startIcon={<Play size={14} />}
+                onClick={handleStart}
+                disabled={busy}
+              >
+                Start Timer
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      <Box mb={1}>
+        <Box display="flex" justifyContent="space-between" mb={0.5}>
+          <Typography variant="body2" color="text.secondary">
+            {formatMinutes(loggedMinutes)} logged
+            {estimatedMinutes > 0 && ` of ${task.estimated_hours}h estimated`}
+          </Typography>
+          {overEstimate && (
+            <Chip label="Over estimate" color="warning" size="small" variant="outlined" />
+          )}
+        </Box>
+        {estimatedMinutes > 0 && (
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, (loggedMinutes / estimatedMinutes) * 100)}
+            color={overEstimate ? 'warning' : 'primary'}
+            sx={{ height: 6, borderRadius: 3 }}
+          />
+        )}
+      </Box>
+
+      {showManualForm && (
+        <Box display="flex" gap={1} alignItems="flex-start" mb={1}>
+          <TextField
+            type="date"
+            size="small"
+            label="Date"
+            value={manualEntry.date}
+            onChange={(e) => setManualEntry({ ...manualEntry, date: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="number"
+            size="small"
+            label="Hours"
+            value={manualEntry.hours}
+            onChange={(e) => setManualEntry({ ...manualEntry, hours: e.target.value })}
+            inputProps={{ min: 0, step: 0.25 }}
+            sx={{ width: 100 }}
+          />
+          <TextField
+            size="small"
+            label="Note"
+            value={manualEntry.note}
+            onChange={(e) => setManualEntry({ ...manualEntry, note: e.target.value })}
+            sx={{ flexGrow: 1 }}
+          />
+          <Button variant="contained" size="small" onClick={handleAddManual} disabled={busy} sx={{ mt: 0.5 }}>
+            Add
+          </Button>
+        </Box>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : entries.length > 0 && (
+        <List dense disablePadding>
+          {entries.map(entry => (
+            <ListItem
+              key={entry.id}
+              secondaryAction={entry.user_id === currentUser.id && entry.ended_at !== null && (
+                <Tooltip title="Delete">
+                  <IconButton size="small" onClick={() => handleDelete(entry.id)} sx={{ color: 'error.main' }}>
+                    <Trash2 size={14} />
+                  </IconButton>
+                </Tooltip>
+              )}
+            >
+              <ListItemText
+                primary={`${formatMinutes(getEntryMinutes(entry, now))}${entry.ended_at === null ? ' (running)' : ''} · ${entry.user?.full_name || 'Unknown User'}`}
+                secondary={[
+                  format(new Date(entry.started_at), 'MMM d, yyyy'),
+                  entry.is_manual ? 'manual' : null,
+                  entry.note,
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+}
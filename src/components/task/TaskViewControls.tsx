@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ListSubheader,
+  Menu,
+  Checkbox,
+  ListItemText,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Switch,
+} from '@mui/material';
+import { Columns3, Save, Trash2, Users } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { SavedTaskView, TaskColumn, TaskGroupBy, TaskViewConfig } from '../../types/task';
+import type { User } from '../../types/auth';
+import { fetchTaskViews, saveTaskView, deleteTaskView } from '../../lib/services/taskViews';
+import { DEFAULT_TASK_VIEW, DEFAULT_TASK_SORT, TASK_COLUMNS, normalizeTaskFilters } from '../../lib/taskFilters';
+
+interface TaskViewControlsProps {
+  config: TaskViewConfig;
+  onChange: (config: TaskViewConfig) => void;
+  projectId: string | null; // null on the cross-project Tasks page
+  currentUser: User;
+  showLayoutOptions?: boolean; // columns and grouping only apply to the table
+  availableColumns?: TaskColumn[];
+  defaultConfig?: TaskViewConfig; // what "Default view" restores
+}
+
+export function TaskViewControls({
+  config,
+  onChange,
+  projectId,
+  currentUser,
+  showLayoutOptions = true,
+  availableColumns = TASK_COLUMNS.map(column => column.id),
+  defaultConfig = DEFAULT_TASK_VIEW,
+}: TaskViewControlsProps) {
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [selectedViewId, setSelectedViewId] = useState('');
+  const [columnsAnchor, setColumnsAnchor] = useState<HTMLElement | null>(null);
+  const [saveDialog, setSaveDialog] = useState<{ name: string; is_shared: boolean; viewId?: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadViews();
+  }, [projectId, currentUser.id]);
+
+  const loadViews = async () => {
+    try {
+      setViews(await fetchTaskViews(currentUser.id, projectId));
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    }
+  };
+
+  const selectedView = views.find(view => view.id === selectedViewId);
+  const ownViews = views.filter(view => view.user_id === currentUser.id);
+  const sharedViews = views.filter(view => view.user_id !== currentUser.id);
+
+  const handleSelectView = (viewId: string) => {
+    setSelectedViewId(viewId);
+    const view = views.find(v => v.id === viewId);
+    if (!view) {
+      onChange(defaultConfig);
+      return;
+    }
+
+    onChange({
+      filters: normalizeTaskFilters(view.filters),
+      columns: view.columns.length > 0 ? view.columns : defaultConfig.columns,
+      group_by: view.group_by,
+      sort: view.sort || DEFAULT_TASK_SORT,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!saveDialog?.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveTaskView(
+        { ...config, name: saveDialog.name, is_shared: saveDialog.is_shared },
+        currentUser.id,
+        projectId,
+        saveDialog.viewId
+      );
+      setViews(prev => [...prev.filter(view => view.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedViewId(saved.id);
+      setSaveDialog(null);
+      toast.success(saveDialog.viewId ? 'View updated' : 'View saved');
+    } catch (error: any) {
+      console.error('Error saving view:', error);
+      toast.error('Failed to save view: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedView || !window.confirm(`Delete the view "${selectedView.name}"?`)) return;
+
+    try {
+      await deleteTaskView(selectedView.id);
+      setViews(prev => prev.filter(view => view.id !== selectedView.id));
+      setSelectedViewId('');
+      toast.success('View deleted');
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      toast.error('Failed to delete view');
+    }
+  };
+
+  const toggleColumn = (column: TaskColumn) => {
+    const columns = config.columns.includes(column)
+      ? config.columns.filter(c => c !== column)
+      : TASK_COLUMNS.map(c => c.id).filter(c => c === column || config.columns.includes(c));
+    onChange({ ...config, columns });
+  };
+
+  const isOwnView = selectedView?.user_id === currentUser.id;
+
+  return (
+    <Box display="flex" alignItems="center" gap={1}>
+      <FormControl size="small" sx={{ minWidth: 180 }}>
+        <InputLabel>View</InputLabel>
+        <Select
+          value={selectedViewId}
+          onChange={(e) => handleSelectView(e.target.value)}
+          label="View"
+        >
+          <MenuItem value="">Default view</MenuItem>
+          {ownViews.length > 0 && <ListSubheader>My views</ListSubheader>}
+          {ownViews.map(view => (
+            <MenuItem key={view.id} value={view.id}>
+              {view.name}
+              {view.is_shared && <Users size={14} style={{ marginLeft: 8, opacity: 0.6 }} />}
+            </MenuItem>
+          ))}
+          {sharedViews.length > 0 && <ListSubheader>Shared with the project</ListSubheader>}
+          {sharedViews.map(view => (
+            <MenuItem key={view.id} value={view.id}>
+              {view.name}
+              {view.owner && ` (${view.owner.full_name})`}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Tooltip title={isOwnView ? 'Update or save view' : 'Save view'}>
+        <IconButton
+          size="small"
+          onClick={() => setSaveDialog(isOwnView && selectedView
+            ? { name: selectedView.name, is_shared: selectedView.is_shared, viewId: selectedView.id }
+            : { name: '', is_shared: false })}
+        >
+          <Save size={16} />
+        </IconButton>
+      </Tooltip>
+
+      {isOwnView && (
+        <Tooltip title="Delete view">
+          <IconButton size="small" onClick={handleDelete} sx={{ color: 'error.main' }}>
+            <Trash2 size={16} />
+          </IconButton>
+        </Tooltip>
+      )}
+
+      {showLayoutOptions && (
+        <>
+          <FormControl size="small" sx={{ minWidth: 150 }}>
+            <InputLabel>Group by</InputLabel>
+            <Select
+              value={config.group_by}
+              onChange={(e) => onChange({ ...config, group_by: e.target.value as TaskGroupBy })}
+              label="Group by"
+            >
+              <MenuItem value="none">No grouping</MenuItem>
+              <MenuItem value="phase">Phase</MenuItem>
+              <MenuItem value="assignee">Assignee</MenuItem>
+              <MenuItem value="priority">Priority</MenuItem>
+            </Select>
+          </FormControl>
+
+          <Tooltip title="Columns">
+            <IconButton size="small" onClick={(e) => setColumnsAnchor(e.currentTarget)}>
+              <Columns3 size={16} />
+            </IconButton>
+          </Tooltip>
+          <Menu anchorEl={columnsAnchor} open={Boolean(columnsAnchor)} onClose={() => setColumnsAnchor(null)}>
+            {TASK_COLUMNS.filter(column => availableColumns.includes(column.id)).map(column => (
+              <MenuItem key={column.id} dense onClick={() => toggleColumn(column.id)}>
+                <Checkbox size="small" checked={config.columns.includes(column.id)} />
+                <ListItemText primary={column.label} />
+              </MenuItem>
+            ))}
+          </Menu>
+        </>
+      )}
+
+      <Dialog open={saveDialog !== null} onClose={() => setSaveDialog(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{saveDialog?.viewId ? 'Update View' : 'Save View'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Name"
+            value={saveDialog?.name || ''}
+            onChange={(e) => saveDialog && setSaveDialog({ ...saveDialog, name: e.target.value })}
+            fullWidth
+          />
+          {projectId && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={saveDialog?.is_shared || false}
+                  onChange={(e) => saveDialog && setSaveDialog({ ...saveDialog, is_shared: e.target.checked })}
+                />
+              }
+              label="Share with everyone on this project"
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          {saveDialog?.viewId && (
+            <Button onClick={() => setSaveDialog({ ...saveDialog, viewId: undefined, name: '' })}>
+              Save as New
+            </Button>
+          )}
+          <Button onClick={() => setSaveDialog(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !saveDialog?.name.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { Scale, ArrowRight, Check, X } from 'lucide-react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { toast } from 'react-hot-toast';
+import type { ReassignmentProposal, Task } from '../../types/task';
+import type { User } from '../../types/auth';
+import type { RejectedSuggestion } from '../../types/aiAnalysis';
+import { calculateMemberWorkload, fetchOtherProjectTasks } from '../../lib/services/workload';
+import type { MemberWorkload } from '../../lib/services/workload';
+import { suggestReassignments } from '../../lib/ai/rebalance-workload';
+import { RejectedSuggestions } from '../ai/RejectedSuggestions';
+
+type ProposalDecision = 'pending' | 'accepted' | 'rejected';
+
+interface WorkloadRebalanceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  tasks: Task[];
+  members: User[];
+  onApply: (taskId: string, updates: Partial<Task>) => Promise<Task | null | undefined>;
+}
+
+export function WorkloadRebalanceDialog({
+  open,
+  onClose,
+  projectId,
+  tasks,
+  members,
+  onApply,
+}: WorkloadRebalanceDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [workloads, setWorkloads] = useState<MemberWorkload[]>([]);
+  const [proposals, setProposals] = useState<(ReassignmentProposal & { decision: ProposalDecision })[]>([]);
+  const [rejectedProposals, setRejectedProposals] = useState<RejectedSuggestion[]>([]);
+  const [applyingTaskId, setApplyingTaskId] = useState<string | null>(null);
+
+  // Proposals are generated once per opening so accepting one doesn't reshuffle the rest
+  useEffect(() => {
+    if (open) {
+      generateProposals();
+    }
+  }, [open]);
+
+  const generateProposals = async () => {
+    try {
+      setLoading(true);
+      setProposals([]);
+      setRejectedProposals([]);
+
+      const otherTasks = await fetchOtherProjectTasks(projectId, members.map(member => member.id));
+      const currentWorkloads = calculateMemberWorkload(tasks, members, otherTasks);
+      setWorkloads(currentWorkloads);
+
+      const result = await suggestReassignments(tasks, members, currentWorkloads);
+      setProposals(result.suggestions.map(proposal => ({ ...proposal, decision: 'pending' })));
+      setRejectedProposals(result.rejected);
+    } catch (error) {
+      console.error('Error generating reassignment proposals:', error);
+      toast.error('Failed to generate reassignment proposals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setDecision = (taskId: string, decision: ProposalDecision) => {
+    setProposals(prev => prev.map(p => (p.task_id === taskId ? { ...p, decision } : p)));
+  };
+
+  const handleAccept = async (proposal: ReassignmentProposal) => {
+    // Someone may have reassigned the task by hand since the proposal was made
+    const task = tasks.find(t => t.id === proposal.task_id);
+    if (!task || task.assigned_to !== proposal.from_user_id) {
+      toast.error(`"${proposal.task_title}" was reassigned since this proposal was made`);
+      setDecision(proposal.task_id, 'rejected');
+      return;
+    }
+
+    setApplyingTaskId(proposal.task_id);
+    const updated = await onApply(proposal.task_id, { assigned_to: proposal.to_user_id });
+    setApplyingTaskId(null);
+    if (updated) {
+      setDecision(proposal.task_id, 'accepted');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: 2,
+          maxHeight: '80vh'
+        }
+      }}
+    >
+      <DialogTitle sx={{
+        pb: 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        borderBottom: '1px solid',
+        borderColor: 'divider'
+      }}>
+        <Scale size={20} />
+        <Typography variant="h6" component="span">
+          Rebalance Workload
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{ pt: 3 }}>
+        {loading ? (
+          <Box display="flex" flexDirection="column" alignItems="center" py={4}>
+            <CircularProgress size={40} sx={{ mb: 2 }} />
+            <Typography color="text.secondary">
+              Analysing team workload...
+            </Typography>
+          </Box>
+        ) : (
+          <>
+            <Table size="small" sx={{ mb: 3 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Member</TableCell>
+                  <TableCell align="right">Open tasks</TableCell>
+                  <TableCell align="right">Open hours</TableCell>
+                  <TableCell align="right">Due in 2 weeks</TableCell>
+                  <TableCell align="right">Overdue</TableCell>
+                  <TableCell align="right">Other projects</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {workloads.map(workload => (
+                  <TableRow key={workload.userId}>
+                    <TableCell>{workload.name}</TableCell>
+                    <TableCell align="right">{workload.openTasks}</TableCell>
+                    <TableCell align="right">{workload.openHours}h</TableCell>
+                    <TableCell align="right">{workload.dueSoonHours}h</TableCell>
+                    <TableCell align="right">{workload.overdueTasks}</TableCell>
+                    <TableCell align="right">
+                      {workload.otherProjectTasks} ({workload.otherProjectHours}h)
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <RejectedSuggestions rejected={rejectedProposals} />
+            {proposals.length === 0 && (
+              <Typography color="text.secondary" align="center" py={2}>
+                No reassignments proposed. The workload looks balanced.
+              </Typography>
+            )}
+            <List sx={{ py: 0 }}>
+              {proposals.map(proposal => (
+                <ListItem
+                  key={proposal.task_id}
+                  sx={{
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    borderRadius: 2,
+                    mb: 2,
+                    p: 2.5,
+                    flexDirection: 'column',
+                    alignItems: 'flex-start',
+                    bgcolor: proposal.decision === 'pending' ? 'background.paper' : 'action.selected',
+                  }}
+                >
+                  <Box width="100%" display="flex" justifyContent="space-between" alignItems="flex-start" gap={2}>
+                    <Box flex={1}>
+                      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 0.5 }}>
+                        {proposal.task_title}
+                      </Typography>
+                      <Box display="flex" alignItems="center" gap={1} mb={1}>
+                        <Chip label={proposal.from_name || 'Unassigned'} size="small" variant="outlined" />
+                        <ArrowRight size={16} />
+                        <Chip label={proposal.to_name} size="small" color="primary" variant="outlined" />
+                      </Box>
+                      <Typography variant="body2" color="text.secondary">
+                        {proposal.reason}
+                      </Typography>
+                    </Box>
+                    {proposal.decision === 'pending' ? (
+                      <Box display="flex" gap={1}>
+                        <Button
+                          size="small"
+                          color="inherit"
+                          startIcon={<X size={16} />}
+                          onClick={() => setDecision(proposal.task_id, 'rejected')}
+                          disabled={applyingTaskId !== null}
+                        >
+                          Reject
+                        </Button>
+                        <Button
+                          variant="contained"
+                          size="small"
+                          startIcon={<Check size={16} />}
+                          onClick={() => handleAccept(proposal)}
+                          disabled={applyingTaskId !== null}
+                        >
+                          {applyingTaskId === proposal.task_id ? 'Applying...' : 'Accept'}
+                        </Button>
+                      </Box>
+                    ) : (
+                      <Chip
+                        label={proposal.decision === 'accepted' ? 'Accepted' : 'Rejected'}
+                        color={proposal.decision === 'accepted' ? 'success' : 'default'}
+                        size="small"
+                      />
+                    )}
+                  </Box>
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2, borderTop: '1px solid', borderColor: 'divider' }}>
+        <Button onClick={generateProposals} disabled={loading || applyingTaskId !== null}>
+          Regenerate
+        </Button>
+        <Button onClick={onClose}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -17,7 +17,6 @@ import {
 import { Upload, Link as LinkIcon, Trash2, FileText, Download, Brain } from 'lucide-react';
 import { supabase } from '../../../lib/supabase';
 import toast from 'react-hot-toast';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
 
@@ -46,9 +45,6 @@ export function CVSection({ userId, canEdit, onUpdate }: CVSectionProps) {
   const [parsedData, setParsedData] = useState<ParsedCVData | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Initialize Gemini API
-  const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-
   useEffect(() => {
     fetchCurrentCV();
     fetchParsedCVData();
@@ -358,11 +354,14 @@ export function CVSection({ userId, canEdit, onUpdate }: CVSectionProps) {
             }
           });
           
+          // The server forwards the session to the AI function, which rejects anonymous calls
+          const { data: { session } } = await supabase.auth.getSession();
           const response = await fetch(`${apiUrl}/api/parse-cv`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              'Accept': 'application/json'
+              'Accept': 'application/json',
+              ...(session && { 'Authorization': `Bearer ${session.access_token}` })
             },
             body: JSON.stringify(requestBody)
           });
@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { supabaseAdmin } from '../../../lib/supabase';
 import { X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import type { User } from '../../types/auth';
 import { useAuth } from '../../contexts/auth/AuthContext';
+import { useStepUp } from '../../contexts/StepUpContext';
+import { deleteUser } from '../../lib/services/userAdmin';
 
 interface DeleteUserModalProps {
   user: User;
@@ -14,8 +15,11 @@ interface DeleteUserModalProps {
 export function DeleteUserModal({ user, onClose, onDeleted }: DeleteUserModalProps) {
   const [loading, setLoading] = useState(false);
   const { user: currentUser, session } = useAuth();
+  const { requireStepUp } = useStepUp();
 
   const handleDelete = async () => {
+    if (!(await requireStepUp('delete this user'))) return;
+
     setLoading(true);
 
     try {
@@ -27,37 +31,8 @@ export function DeleteUserModal({ user, onClose, onDeleted }: DeleteUserModalPro
         throw new Error('No authenticated user found');
       }
 
-      if (!supabaseAdmin) {
-        throw new Error('Admin client not available');
-      }
-
-      // Delete user profile using RPC
-      const { error: rpcError } = await supabaseAdmin.rpc('delete_user_profile', {
-        p_user_id: user.id,
-        p_current_user_id: currentUser.id
-      });
-
-      if (rpcError) {
-        // If RPC fails, try direct deletion as fallback
-        const { error: deleteError } = await supabaseAdmin
-          .from('users')
-          .delete()
-          .eq('id', user.id);
-
-        if (deleteError) {
-          console.error('Fallback delete error:', deleteError);
-          throw deleteError;
-        }
-      }
-
-      // Delete user from auth
-      if (currentUser.role === 'admin') {
-        const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(user.id);
-        if (authError) {
-          console.error('Error deleting auth user:', authError);
-          // Don't throw here as the profile deletion was successful
-        }
-      }
+      // Step-up is checked again on the server before the account is removed
+      await deleteUser(user.id);
 
       toast.success('User deleted successfully');
       onDeleted();
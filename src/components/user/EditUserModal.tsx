@@ -1,9 +1,14 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { supabaseAdmin } from '../../../lib/supabase';
 import { X } from 'lucide-react';
 import toast from 'react-hot-toast';
-import type { User, UserRole, UserStatus } from '../../types/auth';
+import type { Role, User, UserRole, UserStatus } from '../../types/auth';
 import { useAuth } from '../../contexts/auth/AuthContext';
+import { useStepUp } from '../../contexts/StepUpContext';
+import { fetchRoles } from '../../lib/services/roles';
+import { fetchHourlyRate, setHourlyRate } from '../../lib/services/userRates';
+import { updateUserAccess } from '../../lib/services/userAdmin';
+import { canManageRoles } from '../../lib/permissions';
 import {
   Dialog,
   DialogTitle,
@@ -29,19 +34,57 @@ interface EditUserModalProps {
 export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps) {
   const [loading, setLoading] = useState(false);
   const { user: currentUser, session } = useAuth();
+  const { requireStepUp } = useStepUp();
+  const [roles, setRoles] = useState<Role[]>([]);
   const [formData, setFormData] = useState({
     email: user.email,
     full_name: user.full_name,
     role: user.role as UserRole,
+    role_id: user.role_id || '',
     status: user.status as UserStatus,
     department: user.department || '',
     position: user.position || '',
     avatar_url: user.avatar_url || '',
+    hourly_rate: '',
     mfa_enabled: user.mfa_enabled
   });
 
+  useEffect(() => {
+    if (currentUser && canManageRoles(currentUser)) {
+      fetchRoles()
+        .then(setRoles)
+        .catch(error => console.error('Error fetching roles:', error));
+    }
+  }, [currentUser]);
+
+  // Rates live apart from the profile so only budget viewers can read them
+  useEffect(() => {
+    if (currentUser?.role === 'admin') {
+      fetchHourlyRate(user.id)
+        .then(rate => setFormData(data => ({ ...data, hourly_rate: rate != null ? String(rate) : '' })))
+        .catch(error => console.error('Error fetching hourly rate:', error));
+    }
+  }, [currentUser, user.id]);
+
+  // Until roles load, or for users without one yet, show their tier's built-in role
+  const selectedRoleId = formData.role_id || roles.find(role => role.is_system && role.key === formData.role)?.id || '';
+
+  const handleRoleChange = (roleId: string) => {
+    const role = roles.find(r => r.id === roleId);
+    if (role) {
+      setFormData({ ...formData, role_id: role.id, role: role.base_role });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const roleChanged = formData.role !== user.role || (!!formData.role_id && formData.role_id !== (user.role_id || ''));
+    const emailChanged = formData.email !== user.email;
+    if (roleChanged || emailChanged) {
+      if (!(await requireStepUp(roleChanged ? "change this user's role" : "change this user's email"))) return;
+    }
+
     setLoading(true);
 
     try {
@@ -63,15 +106,21 @@ export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps)
         targetUser: user.id
       });
 
-      // First update the auth user metadata
+      // Email and role changes are checked for step-up and permission on the server
+      if (roleChanged || emailChanged) {
+        await updateUserAccess(user.id, {
+          ...(emailChanged ? { email: formData.email } : {}),
+          ...(roleChanged ? { role: formData.role, ...(formData.role_id ? { roleId: formData.role_id } : {}) } : {}),
+        });
+      }
+
+      // Then update the auth user metadata
       if (currentUser.role === 'admin') {
         const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(
           user.id,
           {
-            email: formData.email,
             user_metadata: {
               full_name: formData.full_name,
-              role: formData.role,
               status: formData.status,
               department: formData.department,
               position: formData.position,
@@ -91,9 +140,7 @@ export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps)
       const { data: updatedUser, error: updateError } = await supabaseAdmin
         .from('users')
         .update({
-          email: formData.email,
           full_name: formData.full_name,
-          role: formData.role,
           status: formData.status,
           department: formData.department || null,
           position: formData.position || null,
@@ -110,6 +157,10 @@ export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps)
         throw updateError;
       }
 
+      if (currentUser.role === 'admin') {
+        await setHourlyRate(user.id, formData.hourly_rate ? parseFloat(formData.hourly_rate) : null, currentUser.id);
+      }
+
       toast.success('User updated successfully');
       onUpdated(updatedUser as User);
       onClose();
@@ -160,15 +211,31 @@ export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps)
                 <Grid item xs={12} sm={6}>
                   <FormControl fullWidth>
                     <InputLabel>Role</InputLabel>
-                    <Select
-                      value={formData.role}
-                      onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
-                      label="Role"
-                    >
-                      <MenuItem value="employee">Employee</MenuItem>
-                      <MenuItem value="project_manager">Project Manager</MenuItem>
-                      <MenuItem value="admin">Admin</MenuItem>
-                    </Select>
+                    {roles.length > 0 ? (
+                      <Select
+                        value={selectedRoleId}
+                        onChange={(e) => handleRoleChange(e.target.value)}
+                        label="Role"
+                        // Guests only exist through project invitations
+                        disabled={formData.role === 'guest'}
+                      >
+                        {roles.filter(role => role.base_role !== 'guest' || role.id === selectedRoleId).map(role => (
+                          <MenuItem key={role.id} value={role.id}>{role.name}</MenuItem>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Select
+                        value={formData.role}
+                        onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole, role_id: '' })}
+                        label="Role"
+                        disabled={formData.role === 'guest'}
+                      >
+                        <MenuItem value="employee">Employee</MenuItem>
+                        <MenuItem value="project_manager">Project Manager</MenuItem>
+                        <MenuItem value="admin">Admin</MenuItem>
+                        {formData.role === 'guest' && <MenuItem value="guest">Guest</MenuItem>}
+                      </Select>
+                    )}
                   </FormControl>
                 </Grid>
                 <Grid item xs={12} sm={6}>
@@ -203,6 +270,19 @@ export function EditUserModal({ user, onClose, onUpdated }: EditUserModalProps)
                 onChange={(e) => setFormData({ ...formData, position: e.target.value })}
               />
             </Grid>
+            {currentUser?.role === 'admin' && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Hourly Rate"
+                  type="number"
+                  value={formData.hourly_rate}
+                  onChange={(e) => setFormData({ ...formData, hourly_rate: e.target.value })}
+                  inputProps={{ min: 0, step: 0.01 }}
+                  helperText="Used to cost logged hours in project budgets"
+                />
+              </Grid>
+            )}
             <Grid item xs={12}>
               <TextField
                 fullWidth
@@ -109,6 +109,7 @@ export function ProjectsSection({ userId, canEdit, onUpdate }: ProjectsSectionPr
       const { data, error } = await supabase
         .from('projects')
         .select('*')
+        .eq('is_template', false)
         .order('name');
 
       if (error) throw error;
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Button,
+} from '@mui/material';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays, addWeeks, format, isSameDay, startOfWeek } from 'date-fns';
+import toast from 'react-hot-toast';
+import type { TimeEntry } from '../../types/task';
+import { fetchUserTimeEntries, getEntryMinutes, formatMinutes } from '../../lib/services/timeTracking';
+
+interface TimesheetSectionProps {
+  userId: string;
+}
+
+interface TimesheetRow {
+  taskId: string;
+  title: string;
+  projectName: string;
+  estimatedHours: number | null;
+  minutesByDay: number[];
+  total: number;
+}
+
+export function TimesheetSection({ userId }: TimesheetSectionProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [userId, weekStart]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      setEntries(await fetchUserTimeEntries(userId, weekStart, addWeeks(weekStart, 1)));
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      toast.error('Error loading timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  const rows = Object.values(
+    entries.reduce<Record<string, TimesheetRow>>((acc, entry) => {
+      if (!acc[entry.task_id]) {
+        acc[entry.task_id] = {
+          taskId: entry.task_id,
+          title: entry.task?.title || 'Unknown task',
+          projectName: entry.task?.project?.name || '',
+          estimatedHours: entry.task?.estimated_hours ?? null,
+          minutesByDay: Array(7).fill(0),
+          total: 0,
+        };
+      }
+      const row = acc[entry.task_id];
+      const dayIndex = days.findIndex(day => isSameDay(day, new Date(entry.started_at)));
+      const minutes = getEntryMinutes(entry);
+      if (dayIndex >= 0) row.minutesByDay[dayIndex] += minutes;
+      row.total += minutes;
+      return acc;
+    }, {})
+  ).sort((a, b) => b.total - a.total);
+
+  const dayTotals = days.map((_, i) => rows.reduce((sum, row) => sum + row.minutesByDay[i], 0));
+  const weekTotal = dayTotals.reduce((sum, minutes) => sum + minutes, 0);
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h6">Timesheet</Typography>
+        <Box display="flex" alignItems="center" gap={1}>
+          <IconButton size="small" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+            <ChevronLeft size={18} />
+          </IconButton>
+          <Typography variant="body2">
+            {format(weekStart, 'MMM d')} - {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+          </Typography>
+          <IconButton size="small" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+            <ChevronRight size={18} />
+          </IconButton>
+          <Button size="small" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+            This Week
+          </Button>
+        </Box>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : rows.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={4}>
+          No time logged this week
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Task</TableCell>
+                {days.map(day => (
+                  <TableCell key={day.toISOString()} align="center">
+                    {format(day, 'EEE d')}
+                  </TableCell>
+                ))}
+                <TableCell align="right">Total</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.taskId}>
+                  <TableCell>
+                    <Typography variant="body2">{row.title}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {row.projectName}
+                      {row.estimatedHours !== null && ` · ${row.estimatedHours}h estimated`}
+                    </Typography>
+                  </TableCell>
+                  {row.minutesByDay.map((minutes, i) => (
+                    <TableCell key={i} align="center">
+                      {minutes > 0 ? formatMinutes(minutes) : '-'}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">
+                    <strong>{formatMinutes(row.total)}</strong>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell><strong>Total</strong></TableCell>
+                {dayTotals.map((minutes, i) => (
+                  <TableCell key={i} align="center">
+                    <strong>{minutes > 0 ? formatMinutes(minutes) : '-'}</strong>
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  <strong>{formatMinutes(weekTotal)}</strong>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
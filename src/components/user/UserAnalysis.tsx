@@ -3,6 +3,13 @@ import { supabase } from '../../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button, Typography, Box, CircularProgress, Paper, Divider, Grid, List, ListItem, ListItemText } from '@mui/material';
 import toast from 'react-hot-toast';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { fetchUserEstimateComparison } from '../../lib/services/timeTracking';
+import type { EstimateComparison } from '../../lib/services/timeTracking';
+import { hashAnalysisInput, findCachedAnalysis, saveAnalysisVersion, fetchAnalysisVersions, getStaleReason } from '../../lib/services/aiAnalysisCache';
+import type { AIAnalysisVersion } from '../../types/aiAnalysis';
+import { AIAnalysisStatus } from '../ai/AIAnalysisStatus';
+import { AIAnalysisCompareDialog } from '../ai/AIAnalysisCompareDialog';
 
 interface Education {
   institution: string;
@@ -91,6 +98,13 @@ interface UserData {
   projects: Project[];
 }
 
+interface UserAnalysisData {
+  analysis_text: string;
+  strengths: string[];
+  weaknesses: string[];
+  recommendations: string[];
+}
+
 interface UserAnalysisProps {
   userId: string;
 }
@@ -102,9 +116,15 @@ const UserAnalysis: React.FC<UserAnalysisProps> = ({ userId }) => {
   const [loading, setLoading] = useState<boolean>(false);
   const [fetchingData, setFetchingData] = useState<boolean>(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
+  const [estimateComparison, setEstimateComparison] = useState<EstimateComparison[]>([]);
+  const [analysisVersion, setAnalysisVersion] = useState<AIAnalysisVersion<UserAnalysisData> | null>(null);
+  const [analysisVersions, setAnalysisVersions] = useState<AIAnalysisVersion<UserAnalysisData>[]>([]);
+  const [analysisInputHash, setAnalysisInputHash] = useState<string>();
+  const [showAnalysisVersions, setShowAnalysisVersions] = useState(false);
 
   useEffect(() => {
     fetchUserData();
+    fetchEstimateComparison();
     // Get the current authenticated user directly from Supabase
     const getCurrentUser = async () => {
       const { data: { session } } = await supabase.auth.getSession();
@@ -429,9 +449,14 @@ const UserAnalysis: React.FC<UserAnalysisProps> = ({ userId }) => {
       } as unknown as UserData;
 
       setUserData(combinedUserData);
-      
-      // If there's an existing analysis, use it
-      if (existingAnalysis && existingAnalysis.length > 0) {
+      setAnalysisInputHash(await hashAnalysisInput(combinedUserData));
+
+      // Show the latest version, falling back to analyses saved before versioning
+      const [latestVersion] = await fetchAnalysisHistory();
+      if (latestVersion) {
+        setAnalysisVersion(latestVersion);
+        setAnalysis(latestVersion.analysis_data.analysis_text);
+      } else if (existingAnalysis && existingAnalysis.length > 0) {
         setAnalysis(existingAnalysis[0].analysis_text);
       }
       
@@ -443,7 +468,26 @@ const UserAnalysis: React.FC<UserAnalysisProps> = ({ userId }) => {
     }
   };
 
-  const generateAnalysis = async () => {
+  const fetchEstimateComparison = async () => {
+    try {
+      setEstimateComparison(await fetchUserEstimateComparison(userId));
+    } catch (error) {
+      console.error('Error fetching estimate comparison:', error);
+    }
+  };
+
+  const fetchAnalysisHistory = async () => {
+    try {
+      const versions = await fetchAnalysisVersions<UserAnalysisData>('user_analysis', { subjectUserId: userId });
+      setAnalysisVersions(versions);
+      return versions;
+    } catch (error) {
+      console.error('Error fetching analysis history:', error);
+      return [];
+    }
+  };
+
+  const generateAnalysis = async (forceRefresh = false) => {
     setLoading(true);
     try {
       if (!userData) {
@@ -469,20 +513,22 @@ const UserAnalysis: React.FC<UserAnalysisProps> = ({ userId }) => {
         return;
       }
 
-      // Query the Supabase user_analysis table to see if there's an existing analysis
-      const { data: existingAnalysis, error: analysisError } = await supabase
-        .from('user_analysis')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(1);
+      // Reuse the latest version if the user's data hasn't changed since
+      const inputHash = await hashAnalysisInput(userData);
+      setAnalysisInputHash(inputHash);
 
-      if (analysisError) throw analysisError;
+      let cached: AIAnalysisVersion<UserAnalysisData> | null = null;
+      if (!forceRefresh) {
+        try {
+          cached = await findCachedAnalysis<UserAnalysisData>('user_analysis', { subjectUserId: userId }, inputHash);
+        } catch (cacheError) {
+          console.error('Error reading cached analysis:', cacheError);
+        }
+      }
 
       let analysisText = '';
 
-      // If no existing analysis, create a new one
-      if (!existingAnalysis || existingAnalysis.length === 0) {
+      if (!cached) {
         // Build a reasonable analysis based on the available data
         const strengths = [];
         const weaknesses = [];
@@ -580,9 +626,28 @@ Based on the available skills and experience, potential career paths include:
           setAnalysis(analysisText);
           toast.success('Analysis generated successfully (not saved to database)');
         }
+
+        try {
+          setAnalysisVersion(await saveAnalysisVersion<UserAnalysisData>(
+            'user_analysis',
+            { subjectUserId: userId },
+            inputHash,
+            {
+              analysis_text: analysisText,
+              strengths: uniqueStrengths,
+              weaknesses: uniqueWeaknesses,
+              recommendations: uniqueRecommendations
+            },
+            authenticatedUser.id
+          ));
+          fetchAnalysisHistory();
+        } catch (cacheError) {
+          console.error('Error saving analysis version:', cacheError);
+        }
       } else {
         // Use the existing analysis
-        setAnalysis(existingAnalysis[0].analysis_text);
+        setAnalysis(cached.analysis_data.analysis_text);
+        setAnalysisVersion(cached);
         toast.success('Retrieved existing analysis');
       }
     } catch (error: any) {
@@ -608,7 +673,7 @@ Based on the available skills and experience, potential career paths include:
             <Button 
               variant="contained" 
               color="primary" 
-              onClick={generateAnalysis}
+              onClick={() => generateAnalysis()}
               disabled={loading}
             >
               {loading ? <CircularProgress size={24} /> : 'Generate Analysis'}
@@ -697,10 +762,50 @@ Based on the available skills and experience, potential career paths include:
               </Grid>
             </Grid>
 
+          <Divider sx={{ my: 2 }} />
+
+          <Typography variant="h6" gutterBottom>Estimated vs Actual Hours</Typography>
+          {estimateComparison.length === 0 ? (
+            <Typography color="text.secondary">
+              No logged time against estimated tasks yet.
+            </Typography>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Across {estimateComparison.length} tasks, actual effort was{' '}
+                {Math.round(
+                  (estimateComparison.reduce((sum, row) => sum + row.actual, 0) /
+                    estimateComparison.reduce((sum, row) => sum + row.estimated, 0)) * 100
+                )}% of the estimate.
+              </Typography>
+              <Box height={280}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={estimateComparison.slice(0, 15)}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="title" tick={false} />
+                    <YAxis unit="h" />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="estimated" name="Estimated" fill="#8884d8" />
+                    <Bar dataKey="actual" name="Actual" fill="#FF8042" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Box>
+            </>
+          )}
+
       {analysis && (
         <Box mt={4}>
           <Typography variant="h6" gutterBottom>Analysis Result</Typography>
           <Divider sx={{ my: 2 }} />
+          <AIAnalysisStatus
+            version={analysisVersion}
+            staleReason={analysisVersion && getStaleReason(analysisVersion, analysisInputHash)}
+            versionCount={analysisVersions.length}
+            onRegenerate={() => generateAnalysis(true)}
+            onCompare={() => setShowAnalysisVersions(true)}
+            regenerating={loading}
+          />
           <Box sx={{
             whiteSpace: 'pre-line',
             '& .section-header': {
@@ -715,6 +820,18 @@ Based on the available skills and experience, potential career paths include:
           }}>
             {analysis}
           </Box>
+          <AIAnalysisCompareDialog
+            open={showAnalysisVersions}
+            onClose={() => setShowAnalysisVersions(false)}
+            title="Compare Analyses"
+            versions={analysisVersions}
+            currentInputHash={analysisInputHash}
+            renderVersion={(data) => (
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                {data.analysis_text}
+              </Typography>
+            )}
+          />
         </Box>
           )}
         </>
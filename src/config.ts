@@ -3,8 +3,9 @@ export const config = {
     url: import.meta.env.VITE_SUPABASE_URL,
     anonKey: import.meta.env.VITE_SUPABASE_ANON_KEY,
   },
-  gemini: {
-    apiKey: import.meta.env.VITE_GEMINI_API_KEY,
+  ai: {
+    // Only 'mock' is read in the browser; real providers are configured on the ai-generate function
+    provider: import.meta.env.VITE_AI_PROVIDER,
   },
   app: {
     url: import.meta.env.VITE_APP_URL,
@@ -28,15 +28,16 @@ export function NotificationsProvider({ children, user }: { children: React.Reac
   useEffect(() => {
     if (user) {
       fetchNotifications();
-      subscribeToNotifications();
+      return subscribeToNotifications();
     }
-  }, [user]);
+  }, [user?.id]);
 
   const fetchNotifications = async () => {
     try {
       const { data, error } = await supabase
         .from('notifications')
         .select('*')
+        .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -49,7 +50,7 @@ export function NotificationsProvider({ children, user }: { children: React.Reac
 
   const subscribeToNotifications = () => {
     const subscription = supabase
-      .channel('notifications')
+      .channel(`notifications:${user.id}`)
       .on('postgres_changes', {
         event: 'INSERT',
         schema: 'public',
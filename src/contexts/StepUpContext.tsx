@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { User } from '../types/auth';
+import { StepUpDialog } from '../components/StepUpDialog';
+import { fetchStepUpRequired, hasRecentTotpCheck, STEP_UP_WINDOW_SECONDS } from '../lib/services/stepUp';
+
+interface StepUpContextType {
+  // Resolves true once the user may go ahead, false if they cancelled
+  requireStepUp: (action: string) => Promise<boolean>;
+}
+
+interface PendingStepUp {
+  action: string;
+  resolve: (verified: boolean) => void;
+}
+
+const StepUpContext = createContext<StepUpContextType | null>(null);
+
+export function StepUpProvider({ children, user }: { children: React.ReactNode; user: User }) {
+  const [pending, setPending] = useState<PendingStepUp | null>(null);
+  // Backup code checks live in the database rather than the session's claims
+  const backupCodeVerifiedAt = useRef(0);
+
+  const requireStepUp = async (action: string) => {
+    try {
+      if (!(await fetchStepUpRequired(user.id))) return true;
+
+      const backupCodeFresh = Date.now() - backupCodeVerifiedAt.current < STEP_UP_WINDOW_SECONDS * 1000;
+      if (backupCodeFresh || await hasRecentTotpCheck()) return true;
+    } catch (error) {
+      console.error('Error checking two-factor requirement:', error);
+      toast.error('Error checking two-factor authentication');
+      return false;
+    }
+
+    return new Promise<boolean>(resolve => setPending({ action, resolve }));
+  };
+
+  const handleVerified = (verifiedAt?: string) => {
+    if (verifiedAt) {
+      backupCodeVerifiedAt.current = new Date(verifiedAt).getTime();
+    }
+    pending?.resolve(true);
+    setPending(null);
+  };
+
+  const handleCancel = () => {
+    pending?.resolve(false);
+    setPending(null);
+  };
+
+  return (
+    <StepUpContext.Provider value={{ requireStepUp }}>
+      {children}
+      <StepUpDialog
+        open={!!pending}
+        action={pending?.action || ''}
+        onVerified={handleVerified}
+        onCancel={handleCancel}
+      />
+    </StepUpContext.Provider>
+  );
+}
+
+export const useStepUp = () => {
+  const context = useContext(StepUpContext);
+  if (!context) {
+    throw new Error('useStepUp must be used within a StepUpProvider');
+  }
+  return context;
+};
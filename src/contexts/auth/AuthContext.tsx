@@ -1,6 +1,9 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../../lib/supabase';
 import type { User, AuthState } from '../../types/auth';
+import { fetchMyPermissions } from '../../lib/services/roles';
+import { rememberPermissionGrants } from '../../lib/permissions';
+import { fetchLoginCodeVerified } from '../../lib/services/sessions';
 
 interface AuthContextType {
   user: User | null;
@@ -14,6 +17,41 @@ const AuthContext = createContext<AuthContextType>({
   loading: true,
 });
 
+// Attaches the stored role permissions; without them checks fall back to the
+// defaults of the user's built-in role
+async function withPermissions(user: User): Promise<User> {
+  try {
+    const grants = await fetchMyPermissions();
+    rememberPermissionGrants(user.id, grants);
+    return {
+      ...user,
+      role_id: grants.role_id,
+      permissions: grants.permissions,
+      project_permissions: grants.projects,
+    };
+  } catch (error) {
+    console.error('Error loading permissions:', error);
+    return user;
+  }
+}
+
+// A password sign-in isn't finished until its login code has been entered, so
+// until then there is no user and the sign-in form stays up to ask for it
+async function signedInState(user: User, session: AuthState['session']): Promise<AuthState> {
+  let verified = false;
+  try {
+    verified = await fetchLoginCodeVerified();
+  } catch (error) {
+    console.error('Error checking login code:', error);
+  }
+
+  if (!verified) {
+    rememberPermissionGrants('', null);
+    return { user: null, session, loading: false };
+  }
+  return { user: await withPermissions(user), session, loading: false };
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
@@ -47,9 +85,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           mfa_enabled: session.user.user_metadata?.mfa_enabled || false,
         };
         console.log('User Profile Created:', user);
-        setAuthState({ user, session, loading: false });
+        signedInState(user, session).then(setAuthState);
       } else {
         console.log('No Active Session Found');
+        rememberPermissionGrants('', null);
         setAuthState({ user: null, session: null, loading: false });
       }
     });
@@ -79,9 +118,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           mfa_enabled: session.user.user_metadata?.mfa_enabled || false,
         };
         console.log('Updated User Profile:', user);
-        setAuthState({ user, session, loading: false });
+        // Not awaited: supabase calls awaited inside this callback can deadlock
+        signedInState(user, session).then(setAuthState);
       } else {
         console.log('Session Ended');
+        rememberPermissionGrants('', null);
         setAuthState({ user: null, session: null, loading: false });
       }
     });
@@ -5,7 +5,7 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_FLOWISE_CHATFLOW_ID: string
   readonly VITE_FLOWISE_API_HOST: string
-  readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_AI_PROVIDER?: string
   readonly VITE_APP_URL: string
 }
 
@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Task } from '../types/task';
+import type { User } from '../types/auth';
+
+export interface ProjectViewer {
+  user_id: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+export interface TaskRealtimeHandlers {
+  onInsert: (row: Task) => void;
+  onUpdate: (row: Task) => void;
+  onDelete: (taskId: string) => void;
+}
+
+/**
+ * Streams inserts, updates and deletes of a project's tasks and tracks who
+ * else has the project open. Rows arrive without joined fields; tasks moved to
+ * the trash are reported as deletes.
+ */
+export function useTaskRealtime(
+  projectId: string,
+  currentUser: User,
+  handlers: TaskRealtimeHandlers
+): ProjectViewer[] {
+  const [viewers, setViewers] = useState<ProjectViewer[]>([]);
+  // Handlers change every render; keep the subscription stable and call the latest
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const channel = supabase.channel(`project-tasks:${projectId}`, {
+      config: { presence: { key: currentUser.id } },
+    });
+
+    channel
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'tasks',
+        filter: `project_id=eq.${projectId}`,
+      }, (payload) => handlersRef.current.onInsert(payload.new as Task))
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'tasks',
+        filter: `project_id=eq.${projectId}`,
+      }, (payload) => handlersRef.current.onUpdate(payload.new as Task))
+      // Deleted rows only carry their id, so they can't be filtered by project
+      .on('postgres_changes', {
+        event: 'DELETE',
+        schema: 'public',
+        table: 'tasks',
+      }, (payload) => {
+        if (payload.old.id) handlersRef.current.onDelete(payload.old.id);
+      })
+      // Trashed tasks are hidden by RLS, so their last update may never arrive;
+      // the database broadcasts their ids to the project's channel instead
+      .on('broadcast', { event: 'tasks_trashed' }, ({ payload }) => {
+        ((payload?.task_ids || []) as string[]).forEach(taskId => handlersRef.current.onDelete(taskId));
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ProjectViewer>();
+        // One entry per person, however many tabs they have open
+        setViewers(
+          Object.values(state)
+            .map(presences => presences[0])
+            .filter(viewer => viewer && viewer.user_id !== currentUser.id)
+        );
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({
+            user_id: currentUser.id,
+            full_name: currentUser.full_name,
+            avatar_url: currentUser.avatar_url || null,
+          });
+        }
+      });
+
+    return () => {
+      setViewers([]);
+      channel.unsubscribe();
+    };
+  }, [projectId, currentUser.id]);
+
+  return viewers;
+}
@@ -0,0 +1,27 @@
+import { supabase } from '../supabase';
+import { createMockProvider, generateWithRetries } from './providers';
+import type { AIRequest, AIResponse } from './providers';
+import { MOCK_AI_FIXTURES } from './mockFixtures';
+
+/**
+ * Sends a request to the configured AI provider. API keys stay on the server:
+ * requests go through the ai-generate edge function, which also records token
+ * usage. With VITE_AI_PROVIDER=mock the canned fixtures answer locally.
+ */
+export async function generateAIText(request: AIRequest): Promise<AIResponse> {
+  if (import.meta.env.VITE_AI_PROVIDER === 'mock') {
+    return generateWithRetries(createMockProvider(MOCK_AI_FIXTURES), request, { maxRetries: 0 });
+  }
+
+  const { data, error } = await supabase.functions.invoke<AIResponse>('ai-generate', { body: request });
+
+  if (error) {
+    // The function's JSON error is more useful than the generic non-2xx message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  if (!data?.text) {
+    throw new Error('AI provider returned an empty response');
+  }
+  return data;
+}
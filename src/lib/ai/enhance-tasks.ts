@@ -1,10 +1,12 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Task, TaskSuggestion } from '../../types/task';
 import { supabase } from '../../lib/supabase';
+import { fetchEstimateAccuracy } from '../services/timeTracking';
+import type { EstimateAccuracy } from '../services/timeTracking';
+import { generateAIText } from './client';
+import { stripCodeFences } from './providers';
 
-// Initialize Gemini API
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+// Tasks estimated above this many hours are candidates for a subtask breakdown
+const OVERSIZED_TASK_HOURS = 16;
 
 /**
  * Enhances existing tasks with AI-powered suggestions for missing properties
@@ -116,6 +118,14 @@ export async function enhanceTasks(
 
     if (phaseError) console.error('Error fetching project phases:', phaseError);
 
+    // Fetch how logged time compared to estimates on the team's completed tasks
+    let estimateAccuracy: EstimateAccuracy[] = [];
+    try {
+      estimateAccuracy = await fetchEstimateAccuracy(validUsers || []);
+    } catch (accuracyError) {
+      console.error('Error fetching estimate accuracy:', accuracyError);
+    }
+
     // Prepare the prompt
     const prompt = `You are an AI project management assistant. Analyze the following tasks and enhance them with appropriate missing properties.
 Return ONLY a JSON array without any markdown formatting or additional text.
@@ -141,6 +151,9 @@ ${JSON.stringify(experienceData, null, 2)}
 Team Member Interviews:
 ${JSON.stringify(interviewData, null, 2)}
 
+Historical Estimate Accuracy (ratio = actual hours logged / estimated hours on completed tasks; "Team" covers everyone):
+${JSON.stringify(estimateAccuracy, null, 2)}
+
 Valid User IDs (users that exist in the database):
 ${JSON.stringify(Array.from(validUserIds.entries()), null, 2)}
 
@@ -156,7 +169,14 @@ For each task in the list, provide enhanced properties in the following JSON for
     "suggested_assignee": "full_name_of_best_fit_team_member",
     "priority": "low" | "medium" | "high" | "urgent",
     "estimated_hours": number,
-    "rationale": "Brief explanation of why this team member is the best fit for this task, highlighting their skills, department, position, experience, etc. that make them suitable. Also explain the priority and hour estimation logic."
+    "rationale": "Brief explanation of why this team member is the best fit for this task, highlighting their skills, department, position, experience, etc. that make them suitable. Also explain the priority and hour estimation logic.",
+    "subtasks": [
+      {
+        "title": "Subtask title",
+        "description": "What this step covers",
+        "estimated_hours": number
+      }
+    ]
   }
 ]
 
@@ -165,29 +185,22 @@ Important:
 - Make smart assignments based on team member department, position, skills, experience, and interview results
 - Assign appropriate priorities based on task importance, dependencies, and project timeline
 - Estimate hours realistically based on task complexity and similar past tasks
+- Calibrate estimated_hours with the historical estimate accuracy: if the assignee (or the team, when the assignee has no history) has a ratio above 1, past estimates ran short, so scale up accordingly; below 1, scale down
 - Provide a concise rationale for your choices to help project managers understand your reasoning
 - For assigned_to, use the user ID from the team members data
-- For suggested_assignee, use the team member's full name for display purposes`;
+- For suggested_assignee, use the team member's full name for display purposes
+- Only include "subtasks" for oversized tasks: estimated above ${OVERSIZED_TASK_HOURS} hours, or too broad to be done as a single piece of work. Omit it otherwise, and for tasks whose "subtasks" list in the input is already non-empty
+- A breakdown should have 2 to 8 concrete subtasks, each small enough for one person to finish in a day or two, whose estimated_hours add up to roughly the task's estimate`;
 
-    // Generate content using Gemini
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text();
-
-    // Remove any markdown formatting if present
-    if (text.includes('```')) {
-      text = text.replace(/```json\n/g, '').replace(/```\n/g, '').replace(/```/g, '');
-    }
-
-    // Clean up any leading/trailing whitespace
-    text = text.trim();
+    const response = await generateAIText({ feature: 'enhance-tasks', prompt, json: true });
+    const text = stripCodeFences(response.text);
 
     // Parse and validate the response
     let enhancedTasks: TaskSuggestion[];
     try {
       enhancedTasks = JSON.parse(text);
     } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
+      console.error('Failed to parse AI response:', error);
       console.error('Raw response:', text);
       throw new Error('Failed to generate valid task enhancements');
     }
@@ -246,6 +259,19 @@ Important:
           enhancement.suggested_assignee = 'Unassigned (user not found)';
         }
       }
+
+      // Keep only well-formed subtask suggestions, and none for tasks already broken down
+      if (Array.isArray(enhancement.subtasks) && !originalTask.subtasks?.length) {
+        enhancement.subtasks = enhancement.subtasks
+          .filter(subtask => typeof subtask?.title === 'string' && subtask.title.trim())
+          .map(subtask => ({
+            title: subtask.title.trim(),
+            description: typeof subtask.description === 'string' ? subtask.description : undefined,
+            estimated_hours: Number(subtask.estimated_hours) > 0 ? Number(subtask.estimated_hours) : 0
+          }));
+      } else {
+        delete enhancement.subtasks;
+      }
       
       return enhancement;
     });
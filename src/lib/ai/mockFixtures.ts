@@ -0,0 +1,144 @@
+// Canned answers for the mock AI provider, keyed by feature. Only types are
+// imported, so the ai-generate edge function can load this file too.
+import type { AIRequest } from './providers.ts';
+
+const MOCK_TASKS = [
+  {
+    title: 'Define acceptance criteria',
+    description: 'Write acceptance criteria for the open requirements and review them with the stakeholders.',
+    priority: 'high',
+    estimated_hours: 6,
+    suggested_assignee: '',
+    rationale: 'Clear acceptance criteria keep the later phases from being reworked.'
+  },
+  {
+    title: 'Set up continuous integration',
+    description: 'Run the build, linter and tests on every push.',
+    priority: 'medium',
+    estimated_hours: 4,
+    suggested_assignee: '',
+    rationale: 'Catches regressions early and keeps the main branch releasable.'
+  },
+  {
+    title: 'Write end-to-end test plan',
+    description: 'List the critical user journeys and how each will be tested before release.',
+    priority: 'medium',
+    estimated_hours: 5,
+    suggested_assignee: '',
+    rationale: 'Testing effort should be planned before development finishes.'
+  }
+];
+
+const MOCK_PHASES = [
+  {
+    name: 'Discovery',
+    description: 'Gather requirements and agree on the scope.',
+    suggested_status: 'pending',
+    suggested_sequence_order: 1,
+    estimated_start_date: null,
+    estimated_end_date: null,
+    suggested_tasks: ['Interview stakeholders', 'Document requirements', 'Agree on scope']
+  },
+  {
+    name: 'Implementation',
+    description: 'Build the agreed scope in short iterations.',
+    suggested_status: 'pending',
+    suggested_sequence_order: 2,
+    estimated_start_date: null,
+    estimated_end_date: null,
+    suggested_tasks: ['Set up the project', 'Build core features', 'Review progress with stakeholders']
+  },
+  {
+    name: 'Release',
+    description: 'Test, document and ship the work.',
+    suggested_status: 'pending',
+    suggested_sequence_order: 3,
+    estimated_start_date: null,
+    estimated_end_date: null,
+    suggested_tasks: ['Run acceptance tests', 'Write release notes', 'Deploy to production']
+  }
+];
+
+const MOCK_CV = {
+  education: [{ institution: 'Example University', degree: 'BSc', field: 'Computer Science', graduation_year: '2018' }],
+  experience: [{ company: 'Example Ltd', position: 'Software Engineer', duration: '2018 - present', responsibilities: ['Built web applications'] }],
+  skills: [{ name: 'TypeScript', level: 'Advanced' }],
+  languages: [{ language: 'English', proficiency: 'Fluent' }],
+  certifications: []
+};
+
+interface PromptTask {
+  id: string;
+  title: string;
+  priority?: string;
+  estimated_hours?: number;
+}
+
+interface PromptWorkload {
+  name: string;
+  open_hours_this_project: number;
+  open_hours_other_projects: number;
+}
+
+interface PromptOpenTask {
+  id: string;
+  title: string;
+  status: string;
+  estimated_hours: number | null;
+  assignee: string | null;
+}
+
+// Pulls the JSON block that follows a heading in the prompt
+function extractJsonSection<T>(prompt: string, heading: string): T[] {
+  const start = prompt.indexOf(heading);
+  if (start === -1) return [];
+  const rest = prompt.slice(start + heading.length);
+  const end = rest.indexOf('\n\n');
+  try {
+    return JSON.parse(end === -1 ? rest : rest.slice(0, end));
+  } catch {
+    return [];
+  }
+}
+
+export const MOCK_AI_FIXTURES: Record<string, (request: AIRequest) => string> = {
+  'suggest-tasks': () => JSON.stringify(MOCK_TASKS),
+  'suggest-phases': () => JSON.stringify(MOCK_PHASES),
+  // Echo the tasks back unassigned, keeping their own values where set
+  'enhance-tasks': (request) => JSON.stringify(
+    extractJsonSection<PromptTask>(request.prompt, 'Tasks to Enhance:\n').map((task) => ({
+      id: task.id,
+      title: task.title,
+      assigned_to: null,
+      suggested_assignee: '',
+      priority: task.priority || 'medium',
+      estimated_hours: task.estimated_hours || 4,
+      rationale: 'Mock enhancement: priority and estimate kept from the task.'
+    }))
+  ),
+  'user-analysis': () => [
+    '1. PROFILE SUMMARY:',
+    'Mock analysis generated without an AI provider.',
+    '',
+    '2. RECOMMENDATIONS:',
+    '- Configure AI_PROVIDER to get a real analysis'
+  ].join('\n'),
+  'parse-cv': () => JSON.stringify(MOCK_CV),
+  // Move the busiest member's first unstarted task to the least busy member
+  'rebalance-workload': (request) => {
+    const load = (member: PromptWorkload) => member.open_hours_this_project + member.open_hours_other_projects;
+    const team = extractJsonSection<PromptWorkload>(request.prompt, 'Team Workload:\n').sort((a, b) => load(b) - load(a));
+    const tasks = extractJsonSection<PromptOpenTask>(request.prompt, 'Open Tasks:\n');
+    const busiest = team[0];
+    const idlest = team[team.length - 1];
+    const task = busiest && tasks.find(t => t.assignee === busiest.name && t.status === 'todo');
+    if (!task || busiest === idlest || load(busiest) - load(idlest) <= (task.estimated_hours || 4)) {
+      return '[]';
+    }
+    return JSON.stringify([{
+      task_id: task.id,
+      to_member: idlest.name,
+      reason: `Mock proposal: ${busiest.name} has ${load(busiest)} open hours against ${load(idlest)} for ${idlest.name}.`
+    }]);
+  }
+};
@@ -0,0 +1,279 @@
+// Provider-agnostic text generation. This file has no imports so the
+// ai-generate edge function can share it with the browser (for the mock).
+
+export type AIProviderName = 'gemini' | 'openai' | 'openai-compatible' | 'mock';
+
+export interface AIRequest {
+  feature: string; // which AI feature is calling, used for usage accounting
+  prompt: string;
+  system?: string;
+  json?: boolean; // ask the backend for JSON output where it supports it
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimated: boolean; // true when the backend didn't report token counts
+}
+
+export interface AIResponse {
+  text: string;
+  provider: AIProviderName;
+  model: string;
+  usage: AIUsage;
+  attempts: number;
+  durationMs: number;
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  model: string;
+  generate(request: AIRequest, signal: AbortSignal): Promise<{ text: string; usage: AIUsage }>;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // required for openai-compatible backends such as Ollama
+}
+
+export interface AIRetryOptions {
+  timeoutMs?: number; // per attempt
+  maxRetries?: number;
+  retryDelayMs?: number; // doubled after every failed attempt
+}
+
+export class AIProviderError extends Error {
+  status: number | null;
+  retryable: boolean;
+
+  constructor(message: string, status: number | null = null, retryable = false) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+export const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  'openai-compatible': 'llama3.1',
+  mock: 'mock-1'
+};
+
+const DEFAULT_RETRY_OPTIONS: Required<AIRetryOptions> = {
+  timeoutMs: 60000,
+  maxRetries: 2,
+  retryDelayMs: 1000
+};
+
+/**
+ * Rough token count for backends that don't report usage (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimatedUsage(request: AIRequest, text: string): AIUsage {
+  const inputTokens = estimateTokens((request.system || '') + request.prompt);
+  const outputTokens = estimateTokens(text);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimated: true };
+}
+
+/**
+ * Removes markdown code fences models like to wrap JSON in
+ */
+export function stripCodeFences(text: string): string {
+  return text.replace(/```(?:json)?\s*\n?/g, '').trim();
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, signal: AbortSignal) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (signal.aborted) throw new AIProviderError('AI request timed out', null, true);
+    throw new AIProviderError(`AI request failed: ${error instanceof Error ? error.message : String(error)}`, null, true);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = data?.error?.message || data?.error || response.statusText;
+    // Rate limits and server errors are worth another try; bad requests are not
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new AIProviderError(`AI provider returned ${response.status}: ${message}`, response.status, retryable);
+  }
+  return data;
+}
+
+function createGeminiProvider(model: string, apiKey: string): AIProvider {
+  return {
+    name: 'gemini',
+    model,
+    async generate(request, signal) {
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+      const data = await postJson(url, {
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          ...(request.json && { responseMimeType: 'application/json' })
+        }
+      }, {}, signal);
+
+      const text = (data?.candidates?.[0]?.content?.parts || [])
+        .map((part: { text?: string }) => part.text || '')
+        .join('');
+      if (!text) {
+        const reason = data?.candidates?.[0]?.finishReason || data?.promptFeedback?.blockReason || 'empty response';
+        throw new AIProviderError(`Gemini returned no text (${reason})`);
+      }
+
+      const usage = data.usageMetadata;
+      return {
+        text,
+        usage: usage
+          ? {
+              inputTokens: usage.promptTokenCount || 0,
+              outputTokens: usage.candidatesTokenCount || 0,
+              totalTokens: usage.totalTokenCount || 0,
+              estimated: false
+            }
+          : estimatedUsage(request, text)
+      };
+    }
+  };
+}
+
+/**
+ * OpenAI chat completions. Also serves OpenAI-compatible servers (Ollama,
+ * LM Studio, vLLM) through a different base URL.
+ */
+function createOpenAIProvider(name: AIProviderName, model: string, baseUrl: string, apiKey?: string): AIProvider {
+  return {
+    name,
+    model,
+    async generate(request, signal) {
+      const messages = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        { role: 'user', content: request.prompt }
+      ];
+
+      const data = await postJson(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        model,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens
+      }, apiKey ? { Authorization: `Bearer ${apiKey}` } : {}, signal);
+
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new AIProviderError(`${name} returned no text (${data?.choices?.[0]?.finish_reason || 'empty response'})`);
+      }
+
+      const usage = data.usage;
+      return {
+        text,
+        usage: usage
+          ? {
+              inputTokens: usage.prompt_tokens || 0,
+              outputTokens: usage.completion_tokens || 0,
+              totalTokens: usage.total_tokens || 0,
+              estimated: false
+            }
+          : estimatedUsage(request, text)
+      };
+    }
+  };
+}
+
+/**
+ * Offline provider that answers from fixtures keyed by feature. The same
+ * request always gets the same answer, so AI features can be tested without a
+ * network or API key.
+ */
+export function createMockProvider(
+  fixtures: Record<string, (request: AIRequest) => string> = {}
+): AIProvider {
+  return {
+    name: 'mock',
+    model: DEFAULT_MODELS.mock,
+    async generate(request) {
+      const fixture = fixtures[request.feature];
+      const text = fixture ? fixture(request) : `Mock response for ${request.feature}`;
+      return { text, usage: estimatedUsage(request, text) };
+    }
+  };
+}
+
+export function createProvider(
+  config: AIProviderConfig,
+  mockFixtures?: Record<string, (request: AIRequest) => string>
+): AIProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) throw new AIProviderError('Gemini API key is not configured');
+      return createGeminiProvider(model, config.apiKey);
+    case 'openai':
+      if (!config.apiKey) throw new AIProviderError('OpenAI API key is not configured');
+      return createOpenAIProvider('openai', model, config.baseUrl || 'https://api.openai.com/v1', config.apiKey);
+    case 'openai-compatible':
+      if (!config.baseUrl) throw new AIProviderError('Base URL for the OpenAI-compatible endpoint is not configured');
+      return createOpenAIProvider('openai-compatible', model, config.baseUrl, config.apiKey);
+    case 'mock':
+      return createMockProvider(mockFixtures);
+    default:
+      throw new AIProviderError(`Unknown AI provider "${config.provider}"`);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a request with a timeout per attempt, retrying timeouts, network
+ * failures, rate limits and server errors with exponential backoff
+ */
+export async function generateWithRetries(
+  provider: AIProvider,
+  request: AIRequest,
+  options: AIRetryOptions = {}
+): Promise<AIResponse> {
+  const { timeoutMs, maxRetries, retryDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const started = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const { text, usage } = await provider.generate(request, controller.signal);
+      return {
+        text,
+        provider: provider.name,
+        model: provider.model,
+        usage,
+        attempts: attempt,
+        durationMs: Date.now() - started
+      };
+    } catch (error) {
+      const retryable = error instanceof AIProviderError ? error.retryable : false;
+      if (!retryable || attempt > maxRetries) throw error;
+      await sleep(retryDelayMs * 2 ** (attempt - 1));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import type { ReassignmentProposal, Task } from '../../types/task';
+import type { User } from '../../types/auth';
+import type { SuggestionResult } from '../../types/aiAnalysis';
+import type { MemberWorkload } from '../services/workload';
+import { supabase } from '../../lib/supabase';
+import { getLeafTasks } from '../services/subtasks';
+import { generateValidatedArray } from './structured';
+import { validateReassignment } from './validation';
+import type { ReassignmentValidationContext } from './validation';
+
+/**
+ * Proposes moving open tasks between project members to even out their load,
+ * weighing estimates, due dates, CV skills and work held in other projects.
+ */
+export async function suggestReassignments(
+  tasks: Task[],
+  members: User[],
+  workloads: MemberWorkload[]
+): Promise<SuggestionResult<ReassignmentProposal>> {
+  try {
+    const openTasks = getLeafTasks(tasks).filter(task => task.status !== 'completed');
+    if (openTasks.length === 0 || members.length < 2) {
+      return { suggestions: [], rejected: [] };
+    }
+
+    const { data: cvData, error: cvError } = await supabase
+      .from('cv_parsed_data')
+      .select('user_id, skills')
+      .in('user_id', members.map(member => member.id));
+
+    if (cvError) {
+      console.error('Error fetching CV skills:', cvError);
+    }
+
+    const memberName = (userId: string | null) =>
+      members.find(member => member.id === userId)?.full_name || null;
+
+    const teamWorkload = workloads.map(workload => ({
+      name: workload.name,
+      open_tasks: workload.openTasks,
+      open_hours_this_project: workload.openHours,
+      hours_due_in_two_weeks: workload.dueSoonHours,
+      overdue_tasks: workload.overdueTasks,
+      open_tasks_other_projects: workload.otherProjectTasks,
+      open_hours_other_projects: workload.otherProjectHours,
+      skills: cvData?.find(cv => cv.user_id === workload.userId)?.skills || []
+    }));
+
+    const taskList = openTasks.map(task => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      estimated_hours: task.estimated_hours,
+      due_date: task.due_date,
+      assignee: memberName(task.assigned_to)
+    }));
+
+    const prompt = `You are an AI project management assistant. Balance the workload of this project's team by proposing task reassignments.
+Return ONLY a JSON array without any markdown formatting or additional text.
+
+Team Workload:
+${JSON.stringify(teamWorkload)}
+
+Open Tasks:
+${JSON.stringify(taskList)}
+
+Format each proposal exactly like this, with no additional fields or text:
+[
+  {
+    "task_id": "id of the task to move",
+    "to_member": "full_name_of_team_member",
+    "reason": "Why this move helps, citing the hours, due dates and skills involved."
+  }
+]
+
+Important:
+- Propose at most 5 reassignments, and none if the load is already even.
+- Count hours in other projects as load too; a member who is busy elsewhere should not receive more work.
+- Only move a task to someone whose skills fit it, and prefer moving tasks that are not started yet.
+- Relieve members with overdue tasks or many hours due soon first.
+- Unassigned tasks may be given to the member with the most spare capacity.
+- For to_member, only use names from the team workload, and never the task's current assignee.
+- Move each task at most once.`;
+
+    const validationContext: ReassignmentValidationContext = {
+      members: members.map(member => ({ user_id: member.id, full_name: member.full_name })),
+      tasks: openTasks,
+      proposedTaskIds: new Set()
+    };
+
+    const result = await generateValidatedArray<ReassignmentProposal>({
+      feature: 'rebalance-workload',
+      prompt,
+      validate: (item) => validateReassignment(item, validationContext),
+      label: (item, index) => {
+        const taskId = (item as { task_id?: string })?.task_id;
+        return openTasks.find(task => task.id === taskId)?.title || `Proposal ${index + 1}`;
+      }
+    });
+
+    if (result.rejected.length > 0) {
+      console.warn('Dropped invalid reassignment proposals:', result.rejected);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error generating reassignment proposals:', error);
+    throw error;
+  }
+}
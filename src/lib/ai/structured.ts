@@ -0,0 +1,67 @@
+import { generateAIText } from './client';
+import { parseJsonArray } from './validation';
+import type { ItemValidation } from './validation';
+import type { RejectedSuggestion, SuggestionResult } from '../../types/aiAnalysis';
+
+interface ValidatedArrayRequest<T> {
+  feature: string;
+  prompt: string;
+  validate: (item: unknown, index: number) => ItemValidation<T>;
+  label: (item: unknown, index: number) => string;
+  maxAttempts?: number;
+}
+
+/**
+ * Asks for a JSON array and validates every item. When the reply can't be
+ * parsed, or every item in it is malformed, the model is asked again with the
+ * problems spelled out. Items that break project rules are dropped and
+ * reported rather than re-asked.
+ */
+export async function generateValidatedArray<T>({
+  feature,
+  prompt,
+  validate,
+  label,
+  maxAttempts = 2,
+}: ValidatedArrayRequest<T>): Promise<SuggestionResult<T>> {
+  let feedback = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const request = feedback
+      ? `${prompt}\n\nYour previous reply could not be used: ${feedback}\nReply again with ONLY the JSON array in the exact format described above.`
+      : prompt;
+    const response = await generateAIText({ feature, prompt: request, json: true });
+
+    const items = parseJsonArray(response.text);
+    if (!items) {
+      console.error(`Unparseable ${feature} response (attempt ${attempt}):`, response.text);
+      feedback = 'it was not a valid JSON array.';
+      continue;
+    }
+
+    const suggestions: T[] = [];
+    const rejected: RejectedSuggestion[] = [];
+    let malformedCount = 0;
+
+    items.forEach((item, index) => {
+      const result = validate(item, index);
+      if (result.ok) {
+        suggestions.push(result.value);
+        return;
+      }
+      if (result.malformed) malformedCount++;
+      rejected.push({ index, label: label(item, index), issues: result.issues });
+    });
+
+    if (items.length > 0 && malformedCount === items.length && attempt < maxAttempts) {
+      feedback = rejected
+        .map(r => `item ${r.index + 1}: ${r.issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`)
+        .join('. ');
+      continue;
+    }
+
+    return { suggestions, rejected };
+  }
+
+  throw new Error(`The AI returned malformed output for ${feature} after ${maxAttempts} attempts`);
+}
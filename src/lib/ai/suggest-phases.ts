@@ -1,11 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { PhaseSuggestion } from '../../types/phase';
+import type { SuggestionResult } from '../../types/aiAnalysis';
+import { generateValidatedArray } from './structured';
+import { validatePhaseSuggestion } from './validation';
 
-// Initialize Gemini API
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-export async function suggestPhases(projectData: any, teamData: any, existingPhases: any, existingTasks: any = []): Promise<PhaseSuggestion[]> {
+export async function suggestPhases(projectData: any, teamData: any, existingPhases: any, existingTasks: any = []): Promise<SuggestionResult<PhaseSuggestion>> {
   try {
     // Extract documentation from teamData
     const documentation = teamData.documentation || { documents: [], faqs: [], resources: [] };
@@ -44,9 +42,6 @@ export async function suggestPhases(projectData: any, teamData: any, existingPha
       });
     }
     
-    // Extract existing phase names for easier comparison
-    const existingPhaseNames = existingPhases.map((phase: any) => phase.name.toLowerCase());
-    
     // Prepare the prompt
     const prompt = `You are a project management AI assistant. Based on the following project information, suggest 5 logical project phases.
 Return ONLY a JSON array without any markdown formatting or additional text.
@@ -90,59 +85,28 @@ Important:
 - Use the project documentation, FAQs, and resources to inform your phase suggestions
 - Ensure phases align with technical requirements and project goals mentioned in the documentation`;
 
-    // Generate content using Gemini
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text();
-
-    // Remove any markdown formatting if present
-    if (text.includes('```')) {
-      text = text.replace(/```json\n/g, '').replace(/```\n/g, '').replace(/```/g, '');
-    }
-
-    // Clean up any leading/trailing whitespace
-    text = text.trim();
+    const result = await generateValidatedArray<PhaseSuggestion>({
+      feature: 'suggest-phases',
+      prompt,
+      validate: (item, index) => validatePhaseSuggestion(item, index, {
+        existingPhaseNames: existingPhases.map((phase: any) => phase.name),
+        projectStart: projectData?.start_date,
+        projectEnd: projectData?.end_date
+      }),
+      label: (item, index) => (item as { name?: string })?.name || `Suggestion ${index + 1}`
+    });
 
-    // Parse and validate the response
-    let suggestions: PhaseSuggestion[];
-    try {
-      suggestions = JSON.parse(text);
-    } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
-      console.error('Raw response:', text);
-      throw new Error('Failed to generate valid phase suggestions');
+    if (result.suggestions.length === 0 && result.rejected.length === 0) {
+      throw new Error('The AI returned no phase suggestions');
     }
 
-    // Validate suggestions
-    if (!Array.isArray(suggestions) || suggestions.length === 0) {
-      throw new Error('Invalid phase suggestions format');
+    if (result.rejected.length > 0) {
+      console.warn('Dropped invalid phase suggestions:', result.rejected);
     }
 
-    // Filter out suggestions that are too similar to existing phases
-    suggestions = suggestions.filter((suggestion) => {
-      const suggestionName = suggestion.name.toLowerCase();
-      
-      // Check for exact match or high similarity with existing phase names
-      const isTooSimilar = existingPhaseNames.some((existingName: string) => {
-        // Check for exact match
-        if (suggestionName === existingName) {
-          return true;
-        }
-        
-        // Check if one is a substring of the other (indicating high similarity)
-        if (suggestionName.includes(existingName) || existingName.includes(suggestionName)) {
-          return true;
-        }
-        
-        return false;
-      });
-      
-      return !isTooSimilar;
-    });
-    
-    // If all suggestions were filtered out, create a message
-    if (suggestions.length === 0) {
-      return [{
+    // If every suggestion was dropped, explain why nothing new is proposed
+    if (result.suggestions.length === 0 && result.rejected.every(r => r.issues.every(issue => issue.field === 'name'))) {
+      result.suggestions.push({
         name: "No New Phases Suggested",
         description: "All appropriate phases for this project already exist. Consider refining existing phases or adding specific tasks to them.",
         suggested_status: "pending",
@@ -150,39 +114,10 @@ Important:
         estimated_start_date: null,
         estimated_end_date: null,
         suggested_tasks: ["Review existing phases", "Add specific tasks to existing phases", "Consider project milestones within phases"]
-      }];
+      });
     }
 
-    // Validate each suggestion
-    suggestions.forEach((phase) => {
-      if (!phase.name || !phase.description || !phase.suggested_sequence_order) {
-        throw new Error('Invalid phase suggestion format: missing required fields');
-      }
-
-      if (!['pending', 'in_progress', 'completed', 'cancelled'].includes(phase.suggested_status)) {
-        phase.suggested_status = 'pending';
-      }
-
-      if (typeof phase.suggested_sequence_order !== 'number' || phase.suggested_sequence_order <= 0) {
-        phase.suggested_sequence_order = 1;
-      }
-
-      // Ensure dates are valid or null
-      try {
-        if (phase.estimated_start_date) new Date(phase.estimated_start_date);
-        if (phase.estimated_end_date) new Date(phase.estimated_end_date);
-      } catch (error) {
-        phase.estimated_start_date = null;
-        phase.estimated_end_date = null;
-      }
-
-      // Ensure suggested_tasks is an array
-      if (!Array.isArray(phase.suggested_tasks)) {
-        phase.suggested_tasks = [];
-      }
-    });
-
-    return suggestions;
+    return result;
   } catch (error) {
     console.error('Error generating phase suggestions:', error);
     throw error;
@@ -1,12 +1,11 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { TaskSuggestion } from '../../types/task';
+import type { SuggestionResult } from '../../types/aiAnalysis';
 import { supabase } from '../../lib/supabase';
+import { generateValidatedArray } from './structured';
+import { validateTaskSuggestion } from './validation';
+import type { TaskValidationContext } from './validation';
 
-// Initialize Gemini API
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-export async function suggestTasks(projectData: any, knowledgeBase: any, existingTasks: any): Promise<TaskSuggestion[]> {
+export async function suggestTasks(projectData: any, knowledgeBase: any, existingTasks: any): Promise<SuggestionResult<TaskSuggestion>> {
   try {
     // If knowledgeBase is empty or missing key components, fetch the data again
     if (!knowledgeBase?.teamMembers || knowledgeBase.teamMembers.length === 0) {
@@ -99,6 +98,20 @@ export async function suggestTasks(projectData: any, knowledgeBase: any, existin
       }
     }
 
+    // What the suggestions are checked against once they come back
+    const validationContext: TaskValidationContext = {
+      members: (knowledgeBase?.teamMembers || [])
+        .filter((member: any) => member.user?.full_name)
+        .map((member: any) => ({ user_id: member.user_id, full_name: member.user.full_name })),
+      phaseNames: (knowledgeBase?.projectPhases || []).map((phase: any) => phase.name),
+      projectStart: projectData?.start_date,
+      projectEnd: projectData?.end_date
+    };
+
+    const phaseInstruction = validationContext.phaseNames.length > 0
+      ? `- For suggested_phase, use the exact name of one of the existing project phases: ${validationContext.phaseNames.map(name => `"${name}"`).join(', ')}.`
+      : `- For suggested_phase, suggest a logical project phase name that this task belongs to (e.g. "Planning", "Development", "Testing", etc.)`;
+
     // Prepare the prompt
     const prompt = `You are an AI project management assistant. Based on the following project information, suggest 5 new tasks.
 Return ONLY a JSON array without any markdown formatting or additional text.
@@ -131,73 +144,27 @@ Important:
 - Make intelligent assignments based on team member department, position, skills, and past interview performance.
 - For estimated_hours, provide a realistic estimation based on task complexity.
 - For priority, assess task importance using "low", "medium", "high", or "urgent".
-- For suggested_phase, suggest a logical project phase name that this task belongs to (e.g. "Planning", "Development", "Testing", etc.)
-- The phase can be an existing one from project_phases or a new one you think would be appropriate.
+${phaseInstruction}
+- For suggested_assignee, only use names of the project's team members; leave it empty if nobody fits.
 - For suggested_due_date, provide a realistic date (YYYY-MM-DD format) that falls between the project start and end dates. If the task belongs to a specific phase, the due date should be before the phase end date (if available).
 - Include a concise rationale explaining task importance and assignee fit.`;
 
-    // Generate content using Gemini
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text();
-
-    // Remove any markdown formatting if present
-    if (text.includes('```')) {
-      text = text.replace(/```json\n/g, '').replace(/```\n/g, '').replace(/```/g, '');
-    }
+    const result = await generateValidatedArray<TaskSuggestion>({
+      feature: 'suggest-tasks',
+      prompt,
+      validate: (item) => validateTaskSuggestion(item, validationContext),
+      label: (item, index) => (item as { title?: string })?.title || `Suggestion ${index + 1}`
+    });
 
-    // Clean up any leading/trailing whitespace
-    text = text.trim();
-
-    // Parse and validate the response
-    let suggestions: TaskSuggestion[];
-    try {
-      suggestions = JSON.parse(text);
-    } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
-      console.error('Raw response:', text);
-      throw new Error('Failed to generate valid task suggestions');
+    if (result.suggestions.length === 0 && result.rejected.length === 0) {
+      throw new Error('The AI returned no task suggestions');
     }
 
-    // Validate the suggestions and ensure required fields
-    if (!Array.isArray(suggestions) || suggestions.length === 0) {
-      throw new Error('Invalid task suggestions format');
+    if (result.rejected.length > 0) {
+      console.warn('Dropped invalid task suggestions:', result.rejected);
     }
 
-    // Process each suggestion to ensure it meets our requirements
-    suggestions.forEach((task) => {
-      // Validate title and description
-      if (!task.title || !task.description) {
-        throw new Error('Invalid task suggestion format: missing title or description');
-      }
-
-      // Validate and default priority if needed
-      if (!task.priority || !['low', 'medium', 'high', 'urgent'].includes(task.priority)) {
-        task.priority = 'medium';
-      }
-
-      // Validate and default estimated hours if needed
-      if (typeof task.estimated_hours !== 'number' || task.estimated_hours <= 0) {
-        task.estimated_hours = 4;
-      }
-
-      // Validate suggested_due_date format and fallback if needed
-      if (task.suggested_due_date) {
-        // Check if it's a valid date in YYYY-MM-DD format
-        const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-        if (!dateRegex.test(task.suggested_due_date)) {
-          // If invalid format, set to undefined so it will be calculated later
-          task.suggested_due_date = undefined;
-        }
-      }
-      
-      // For enhancement feature, ensure we have a rationale
-      if (!task.rationale) {
-        task.rationale = "Task created by AI suggestion system based on project requirements.";
-      }
-    });
-
-    return suggestions;
+    return result;
   } catch (error) {
     console.error('Error generating task suggestions:', error);
     throw error;
@@ -0,0 +1,317 @@
+import type { ReassignmentProposal, TaskPriority, TaskStatus, TaskSuggestion } from '../../types/task';
+import type { PhaseStatus, PhaseSuggestion } from '../../types/phase';
+import type { SuggestionIssue } from '../../types/aiAnalysis';
+import { stripCodeFences } from './providers';
+
+const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+const PHASE_STATUSES: PhaseStatus[] = ['pending', 'in_progress', 'completed', 'cancelled'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Outcome for one item of the model's reply. A malformed item doesn't match
+// the expected shape at all; otherwise the issues break project rules.
+export type ItemValidation<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SuggestionIssue[]; malformed: boolean };
+
+export interface TaskValidationContext {
+  members: { user_id: string; full_name: string }[];
+  phaseNames: string[]; // empty when the project has no phases yet
+  projectStart?: string | null;
+  projectEnd?: string | null;
+}
+
+export interface PhaseValidationContext {
+  existingPhaseNames: string[];
+  projectStart?: string | null;
+  projectEnd?: string | null;
+}
+
+export interface ReassignmentValidationContext {
+  members: { user_id: string; full_name: string }[];
+  tasks: { id: string; title: string; status: TaskStatus; assigned_to: string | null }[];
+  proposedTaskIds: Set<string>; // tasks already moved by an earlier item of the same reply
+}
+
+type RawItem = Record<string, unknown>;
+
+/**
+ * Parses a JSON array from model output, repairing the usual defects: code
+ * fences, prose around the JSON, trailing commas, and arrays wrapped in an
+ * object. Returns null when nothing usable is found.
+ */
+export function parseJsonArray(text: string): unknown[] | null {
+  const cleaned = stripCodeFences(text);
+  const candidates = [cleaned];
+
+  const start = cleaned.indexOf('[');
+  const end = cleaned.lastIndexOf(']');
+  if (start !== -1 && end > start) {
+    candidates.push(cleaned.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    for (const source of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(source);
+      } catch {
+        continue;
+      }
+      if (Array.isArray(parsed)) return parsed;
+      if (parsed && typeof parsed === 'object') {
+        const nested = Object.values(parsed).find(Array.isArray);
+        if (nested) return nested;
+      }
+    }
+  }
+  return null;
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+}
+
+const toDay = (date?: string | null) => (date ? date.slice(0, 10) : null);
+
+// Checks an optional date field against the format and the project window
+function checkDate(
+  value: unknown,
+  field: string,
+  start: string | null,
+  end: string | null,
+  malformed: SuggestionIssue[],
+  rules: SuggestionIssue[]
+): string | null {
+  if (value === undefined || value === null || value === '') return null;
+
+  if (typeof value !== 'string' || !isValidDate(value)) {
+    malformed.push({ field, message: `"${String(value)}" is not a YYYY-MM-DD date` });
+    return null;
+  }
+  if (start && value < start) {
+    rules.push({ field, message: `${value} is before the project starts (${start})` });
+  } else if (end && value > end) {
+    rules.push({ field, message: `${value} is after the project ends (${end})` });
+  }
+  return value;
+}
+
+function positiveNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && isFinite(number) && number > 0 ? number : null;
+}
+
+/**
+ * Validates one task suggestion against TaskSuggestion and the project: the
+ * assignee must be a project member, the phase an existing phase, and the due
+ * date inside the project window. Missing priority and estimate get defaults.
+ */
+export function validateTaskSuggestion(item: unknown, context: TaskValidationContext): ItemValidation<TaskSuggestion> {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { ok: false, issues: [{ field: 'suggestion', message: 'is not an object' }], malformed: true };
+  }
+
+  const raw = item as RawItem;
+  const malformed: SuggestionIssue[] = [];
+  const rules: SuggestionIssue[] = [];
+
+  if (!isNonEmptyString(raw.title)) {
+    malformed.push({ field: 'title', message: 'is missing' });
+  }
+  if (typeof raw.description !== 'string') {
+    malformed.push({ field: 'description', message: 'is missing' });
+  }
+
+  const priority = TASK_PRIORITIES.includes(raw.priority as TaskPriority) ? raw.priority as TaskPriority : 'medium';
+  const estimatedHours = positiveNumber(raw.estimated_hours) ?? 4;
+
+  let suggestedAssignee: string | null = null;
+  let assignedTo: string | null = null;
+  if (isNonEmptyString(raw.suggested_assignee)) {
+    const name = raw.suggested_assignee.trim().toLowerCase();
+    const member = context.members.find(m => m.full_name.trim().toLowerCase() === name);
+    if (member) {
+      suggestedAssignee = member.full_name;
+      assignedTo = member.user_id;
+    } else {
+      rules.push({ field: 'suggested_assignee', message: `"${raw.suggested_assignee}" is not a member of this project` });
+    }
+  } else if (raw.suggested_assignee !== undefined && raw.suggested_assignee !== null && raw.suggested_assignee !== '') {
+    malformed.push({ field: 'suggested_assignee', message: 'is not a name' });
+  }
+
+  let suggestedPhase: string | undefined;
+  if (isNonEmptyString(raw.suggested_phase)) {
+    const name = raw.suggested_phase.trim().toLowerCase();
+    const phase = context.phaseNames.find(p => p.trim().toLowerCase() === name);
+    if (phase) {
+      suggestedPhase = phase;
+    } else if (context.phaseNames.length > 0) {
+      rules.push({ field: 'suggested_phase', message: `"${raw.suggested_phase}" is not a phase of this project` });
+    } else {
+      // Without any phases yet, adding the task creates the phase it names
+      suggestedPhase = raw.suggested_phase.trim();
+    }
+  }
+
+  const dueDate = checkDate(
+    raw.suggested_due_date,
+    'suggested_due_date',
+    toDay(context.projectStart),
+    toDay(context.projectEnd),
+    malformed,
+    rules
+  );
+
+  if (malformed.length > 0 || rules.length > 0) {
+    return { ok: false, issues: [...malformed, ...rules], malformed: malformed.length > 0 };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title: (raw.title as string).trim(),
+      description: raw.description as string,
+      priority,
+      estimated_hours: estimatedHours,
+      suggested_assignee: suggestedAssignee,
+      assigned_to: assignedTo,
+      suggested_phase: suggestedPhase,
+      suggested_due_date: dueDate || undefined,
+      rationale: isNonEmptyString(raw.rationale)
+        ? raw.rationale
+        : 'Task created by AI suggestion system based on project requirements.'
+    }
+  };
+}
+
+/**
+ * Validates one phase suggestion against PhaseSuggestion and the project:
+ * dates must fall inside the project window and the name must not repeat an
+ * existing phase
+ */
+export function validatePhaseSuggestion(
+  item: unknown,
+  index: number,
+  context: PhaseValidationContext
+): ItemValidation<PhaseSuggestion> {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { ok: false, issues: [{ field: 'suggestion', message: 'is not an object' }], malformed: true };
+  }
+
+  const raw = item as RawItem;
+  const malformed: SuggestionIssue[] = [];
+  const rules: SuggestionIssue[] = [];
+
+  if (!isNonEmptyString(raw.name)) {
+    malformed.push({ field: 'name', message: 'is missing' });
+  } else {
+    const name = raw.name.trim().toLowerCase();
+    const existing = context.existingPhaseNames.find(p => {
+      const existingName = p.toLowerCase();
+      return name === existingName || name.includes(existingName) || existingName.includes(name);
+    });
+    if (existing) {
+      rules.push({ field: 'name', message: `duplicates the existing phase "${existing}"` });
+    }
+  }
+  if (!isNonEmptyString(raw.description)) {
+    malformed.push({ field: 'description', message: 'is missing' });
+  }
+
+  const start = toDay(context.projectStart);
+  const end = toDay(context.projectEnd);
+  const startDate = checkDate(raw.estimated_start_date, 'estimated_start_date', start, end, malformed, rules);
+  const endDate = checkDate(raw.estimated_end_date, 'estimated_end_date', start, end, malformed, rules);
+  if (startDate && endDate && endDate < startDate) {
+    rules.push({ field: 'estimated_end_date', message: `${endDate} is before the phase starts (${startDate})` });
+  }
+
+  if (malformed.length > 0 || rules.length > 0) {
+    return { ok: false, issues: [...malformed, ...rules], malformed: malformed.length > 0 };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: (raw.name as string).trim(),
+      description: raw.description as string,
+      suggested_status: PHASE_STATUSES.includes(raw.suggested_status as PhaseStatus)
+        ? raw.suggested_status as PhaseStatus
+        : 'pending',
+      suggested_sequence_order: positiveNumber(raw.suggested_sequence_order) ?? index + 1,
+      estimated_start_date: startDate,
+      estimated_end_date: endDate,
+      suggested_tasks: Array.isArray(raw.suggested_tasks)
+        ? raw.suggested_tasks.filter(isNonEmptyString)
+        : []
+    }
+  };
+}
+
+/**
+ * Validates one reassignment proposal: the task must be open and in this
+ * project, the new assignee a project member other than the current one, and
+ * each task may only be moved once per reply.
+ */
+export function validateReassignment(
+  item: unknown,
+  context: ReassignmentValidationContext
+): ItemValidation<ReassignmentProposal> {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { ok: false, issues: [{ field: 'proposal', message: 'is not an object' }], malformed: true };
+  }
+
+  const raw = item as RawItem;
+  const malformed: SuggestionIssue[] = [];
+  const rules: SuggestionIssue[] = [];
+
+  const task = isNonEmptyString(raw.task_id) ? context.tasks.find(t => t.id === raw.task_id) : undefined;
+  if (!isNonEmptyString(raw.task_id)) {
+    malformed.push({ field: 'task_id', message: 'is missing' });
+  } else if (!task) {
+    rules.push({ field: 'task_id', message: `"${raw.task_id}" is not an open task of this project` });
+  } else if (task.status === 'completed') {
+    rules.push({ field: 'task_id', message: 'is already completed' });
+  } else if (context.proposedTaskIds.has(task.id)) {
+    rules.push({ field: 'task_id', message: 'is already moved by another proposal' });
+  }
+
+  const target = isNonEmptyString(raw.to_member)
+    ? context.members.find(m => m.full_name.trim().toLowerCase() === (raw.to_member as string).trim().toLowerCase())
+    : undefined;
+  if (!isNonEmptyString(raw.to_member)) {
+    malformed.push({ field: 'to_member', message: 'is missing' });
+  } else if (!target) {
+    rules.push({ field: 'to_member', message: `"${raw.to_member}" is not a member of this project` });
+  } else if (task && task.assigned_to === target.user_id) {
+    rules.push({ field: 'to_member', message: `${target.full_name} is already assigned to this task` });
+  }
+
+  if (!isNonEmptyString(raw.reason)) {
+    malformed.push({ field: 'reason', message: 'is missing' });
+  }
+
+  if (malformed.length > 0 || rules.length > 0 || !task || !target) {
+    return { ok: false, issues: [...malformed, ...rules], malformed: malformed.length > 0 };
+  }
+
+  context.proposedTaskIds.add(task.id);
+  const currentAssignee = context.members.find(m => m.user_id === task.assigned_to);
+
+  return {
+    ok: true,
+    value: {
+      task_id: task.id,
+      task_title: task.title,
+      from_user_id: task.assigned_to,
+      from_name: currentAssignee?.full_name || null,
+      to_user_id: target.user_id,
+      to_name: target.full_name,
+      reason: (raw.reason as string).trim()
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { format } from 'date-fns';
+import type { CsvValue } from './csv';
+import type { AuditAction, AuditLogEntry, AuditTable } from '../types/audit';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  projects: 'Project',
+  project_phases: 'Phase',
+  tasks: 'Task',
+  project_members: 'Member',
+  users: 'User',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  assigned_to: 'Assignee',
+  owner_id: 'Owner',
+  manager_id: 'Project manager',
+  phase_id: 'Phase',
+  parent_task_id: 'Parent task',
+  project_id: 'Project',
+  user_id: 'User',
+  created_by: 'Created by',
+};
+
+// Fields holding ids that are shown by name, and where to look the name up
+export const AUDIT_REFERENCE_FIELDS: Record<string, { table: string; column: string }> = {
+  assigned_to: { table: 'users', column: 'full_name' },
+  owner_id: { table: 'users', column: 'full_name' },
+  manager_id: { table: 'users', column: 'full_name' },
+  user_id: { table: 'users', column: 'full_name' },
+  created_by: { table: 'users', column: 'full_name' },
+  phase_id: { table: 'project_phases', column: 'name' },
+  parent_task_id: { table: 'tasks', column: 'title' },
+  project_id: { table: 'projects', column: 'name' },
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+export function auditFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Renders a stored value for people: names for ids we could resolve, dates
+ * in the app's format and '—' for empty values
+ */
+export function formatAuditValue(field: string, value: unknown, names: Record<string, string> = {}): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(item => formatAuditValue(field, item, names)).join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+
+  const text = String(value);
+  if (AUDIT_REFERENCE_FIELDS[field]) return names[text] || `Unknown (${text.slice(0, 8)})`;
+  if (DATE_ONLY.test(text)) return format(new Date(`${text}T00:00:00`), 'MMM d, yyyy');
+  if (TIMESTAMP.test(text)) {
+    const date = new Date(text);
+    if (!isNaN(date.getTime())) return format(date, 'MMM d, yyyy h:mm a');
+  }
+  return text;
+}
+
+export function describeAuditEntry(entry: AuditLogEntry): string {
+  const actor = entry.actor?.full_name || 'System';
+  const entity = AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name;
+  const label = entry.record_label ? ` "${entry.record_label}"` : '';
+  return `${actor} ${AUDIT_ACTION_LABELS[entry.action]} ${entity.toLowerCase()}${label}`;
+}
+
+/**
+ * One row per changed field, so a spreadsheet can be filtered by field
+ */
+export function auditLogsToRows(entries: AuditLogEntry[], names: Record<string, string>): CsvValue[][] {
+  return [
+    ['When', 'Actor', 'Action', 'Entity', 'Record', 'Record ID', 'Field', 'Old value', 'New value'],
+    ...entries.flatMap(entry => {
+      const base = [
+        format(new Date(entry.created_at), 'yyyy-MM-dd HH:mm:ss'),
+        entry.actor?.full_name || 'System',
+        entry.action,
+        AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name,
+        entry.record_label,
+        entry.record_id,
+      ];
+      const fields = Object.entries(entry.changes || {});
+      if (fields.length === 0) return [[...base, '', '', '']];
+      return fields.map(([field, change]) => [
+        ...base,
+        auditFieldLabel(field),
+        formatAuditValue(field, change.old, names),
+        formatAuditValue(field, change.new, names),
+      ]);
+    }),
+  ];
+}
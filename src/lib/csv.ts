@@ -0,0 +1,31 @@
+export type CsvValue = string | number | null | undefined;
+
+// Spreadsheets run text starting with these as a formula, so it gets
+// an apostrophe in front. Numbers are left alone so negatives stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/**
+ * Saves rows as a CSV file through the browser's download prompt
+ */
+export function downloadCsv(fileName: string, rows: CsvValue[][]): void {
+  // The byte order mark makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
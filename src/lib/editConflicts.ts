@@ -0,0 +1,142 @@
+import { format } from 'date-fns';
+import type { Task } from '../types/task';
+import type { Phase } from '../types/phase';
+import type { Project } from '../types/project';
+import type { VersionConflictError } from './services/concurrency';
+
+export interface ConflictField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (value: unknown) => string;
+}
+
+export interface EditConflict<T> {
+  base: T; // the row as it was when editing started
+  updates: Partial<T>;
+  current: T | null; // null when the row has been deleted
+  changedBy: string | null;
+}
+
+// Who changed a field since editing started: 'both' needs the user to choose
+export type FieldChange = 'mine' | 'theirs' | 'both';
+export type FieldChoice = 'mine' | 'theirs';
+
+export interface FieldDiff<T> {
+  key: keyof T & string;
+  label: string;
+  original: string;
+  theirs: string;
+  mine: string;
+  change: FieldChange;
+}
+
+const EMPTY = '—';
+
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return EMPTY;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : EMPTY;
+  return String(value);
+}
+
+const formatDay = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return EMPTY;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? String(value) : format(date, 'MMM d, yyyy');
+};
+
+const formatLabel = (value: unknown) => formatFieldValue(value).replace(/_/g, ' ');
+
+const nameFrom = (people: { id: string; full_name: string }[], fallback: string) => (value: unknown) =>
+  value ? people.find(person => person.id === value)?.full_name || fallback : EMPTY;
+
+export function conflictFromError<T>(error: VersionConflictError, base: T, updates: Partial<T>): EditConflict<T> {
+  return { base, updates, current: error.current as T | null, changedBy: error.changedBy };
+}
+
+/**
+ * Fields that differ from the original in either the user's edit or the saved
+ * row. Values are compared as displayed, so equivalent dates don't count.
+ */
+export function diffEdit<T>(fields: ConflictField<T>[], conflict: EditConflict<T>): FieldDiff<T>[] {
+  const { base, updates, current } = conflict;
+  if (!current) return [];
+
+  return fields.flatMap(field => {
+    const show = field.format || formatFieldValue;
+    const original = show(base[field.key]);
+    const theirs = show(current[field.key]);
+    const mine = field.key in updates ? show(updates[field.key]) : original;
+
+    const mineChanged = mine !== original;
+    const theirsChanged = theirs !== original;
+    if (!mineChanged && !theirsChanged) return [];
+    if (mineChanged && theirsChanged && mine === theirs) return [];
+
+    const change: FieldChange = mineChanged && theirsChanged ? 'both' : mineChanged ? 'mine' : 'theirs';
+    return [{ key: field.key, label: field.label, original, theirs, mine, change }];
+  });
+}
+
+/**
+ * The update to save on top of the current row: the user's changes, minus
+ * fields only the other person touched and clashes resolved in their favour
+ */
+export function mergeEdit<T>(
+  diffs: FieldDiff<T>[],
+  updates: Partial<T>,
+  choices: Partial<Record<keyof T & string, FieldChoice>>
+): Partial<T> {
+  const merged: Partial<T> = {};
+  diffs.forEach(diff => {
+    const keepMine = diff.change === 'mine' || (diff.change === 'both' && choices[diff.key] !== 'theirs');
+    if (keepMine && diff.key in updates) {
+      merged[diff.key] = updates[diff.key];
+    }
+  });
+  return merged;
+}
+
+export function taskConflictFields(
+  members: { id: string; full_name: string }[],
+  phases: Pick<Phase, 'id' | 'name'>[]
+): ConflictField<Task>[] {
+  return [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'status', label: 'Status', format: formatLabel },
+    { key: 'priority', label: 'Priority' },
+    { key: 'assigned_to', label: 'Assignee', format: nameFrom(members, 'Unknown user') },
+    { key: 'due_date', label: 'Due date', format: formatDay },
+    { key: 'estimated_hours', label: 'Estimated hours' },
+    {
+      key: 'phase_id',
+      label: 'Phase',
+      format: (value) => value ? phases.find(phase => phase.id === value)?.name || 'Unknown phase' : EMPTY,
+    },
+    { key: 'required_skills', label: 'Required skills' },
+  ];
+}
+
+export const PHASE_CONFLICT_FIELDS: ConflictField<Phase>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'status', label: 'Status', format: formatLabel },
+  { key: 'sequence_order', label: 'Sequence order' },
+  { key: 'start_date', label: 'Start date', format: formatDay },
+  { key: 'end_date', label: 'End date', format: formatDay },
+  { key: 'required_skills', label: 'Required skills' },
+];
+
+export function projectConflictFields(people: { id: string; full_name: string }[]): ConflictField<Project>[] {
+  return [
+    { key: 'name', label: 'Name' },
+    { key: 'description', label: 'Description' },
+    { key: 'status', label: 'Status', format: formatLabel },
+    { key: 'start_date', label: 'Start date', format: formatDay },
+    { key: 'end_date', label: 'End date', format: formatDay },
+    { key: 'owner_id', label: 'Owner', format: nameFrom(people, 'Unknown user') },
+    { key: 'manager_id', label: 'Project manager', format: nameFrom(people, 'Unknown user') },
+    { key: 'budget', label: 'Budget' },
+    { key: 'progress', label: 'Progress' },
+  ];
+}
@@ -1,4 +1,9 @@
 import { supabaseAdmin } from './supabase';
+import {
+  TASK_ATTACHMENTS_BUCKET,
+  MAX_ATTACHMENT_SIZE,
+  ALLOWED_ATTACHMENT_TYPES
+} from './services/taskAttachments';
 
 /**
  * Initialize storage buckets for the application
@@ -38,9 +43,26 @@ export async function initializeStorage() {
       console.log('user-avatars bucket already exists');
     }
 
+    // Create task-attachments bucket if it doesn't exist
+    if (!buckets.find(bucket => bucket.name === TASK_ATTACHMENTS_BUCKET)) {
+      const { error: createBucketError } = await supabaseAdmin.storage.createBucket(TASK_ATTACHMENTS_BUCKET, {
+        public: false, // Attachments are served through signed URLs
+        fileSizeLimit: MAX_ATTACHMENT_SIZE,
+        allowedMimeTypes: ALLOWED_ATTACHMENT_TYPES
+      });
+
+      if (createBucketError) {
+        throw createBucketError;
+      }
+
+      console.log(`Created ${TASK_ATTACHMENTS_BUCKET} bucket`);
+    } else {
+      console.log(`${TASK_ATTACHMENTS_BUCKET} bucket already exists`);
+    }
+
     return { 
       success: true,
-      message: 'Storage bucket created. Please set up policies manually using the SQL script in supabase/policies/rls_policies.sql'
+      message: 'Storage buckets created. Please set up policies manually using the SQL script in supabase/policies/rls_policies.sql'
     };
   } catch (error) {
     console.error('Error initializing storage:', error);
@@ -1,57 +1,140 @@
-import type { User } from '../types/auth';
+import type { Permission, PermissionGrants, User, UserRole } from '../types/auth';
 import type { Task } from '../types/task';
 
+export const PERMISSIONS: { key: Permission; label: string; description: string }[] = [
+  { key: 'manage_users', label: 'Manage users', description: 'Create, edit and remove users' },
+  { key: 'manage_admins', label: 'Manage admins', description: 'Create and edit admin accounts' },
+  { key: 'manage_roles', label: 'Manage roles', description: 'Define roles and assign project role overrides' },
+  { key: 'create_projects', label: 'Create projects', description: 'Start new projects and templates' },
+  { key: 'manage_projects', label: 'Manage projects', description: 'Edit project details, phases and settings' },
+  { key: 'delete_projects', label: 'Delete projects', description: 'Move projects to the trash' },
+  { key: 'manage_members', label: 'Manage members', description: 'Add and remove project team members' },
+  { key: 'manage_all_tasks', label: 'Manage all tasks', description: 'Edit any task, not just assigned ones' },
+  { key: 'edit_assigned_tasks', label: 'Edit assigned tasks', description: 'Update tasks assigned to them' },
+  { key: 'view_analytics', label: 'View analytics', description: 'See analytics, workload and the skills matrix' },
+  { key: 'edit_knowledge_base', label: 'Edit knowledge base', description: 'Add and change project documents, FAQs and resources' },
+  { key: 'use_ai_features', label: 'Run AI features', description: 'Request AI suggestions and analyses' },
+  { key: 'view_budget', label: 'See salaries and budget', description: 'View hourly rates, costs and project budgets' },
+  { key: 'manage_budget', label: 'Manage budget', description: 'Record expenses, set hourly rates and budget alerts' },
+  { key: 'access_settings', label: 'Access settings', description: 'Open the settings pages' },
+  { key: 'manage_trash', label: 'Manage trash', description: 'View and restore deleted items' },
+  { key: 'view_audit_log', label: 'View audit log', description: 'Search and export the audit trail' },
+];
+
+// What the built-in roles grant until the stored ones have loaded; mirrors
+// the seed in the roles migration
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: PERMISSIONS.map(permission => permission.key),
+  project_manager: [
+    'manage_users', 'create_projects', 'manage_projects', 'manage_members', 'manage_all_tasks',
+    'edit_assigned_tasks', 'view_analytics', 'edit_knowledge_base', 'use_ai_features',
+    'view_budget', 'manage_budget', 'access_settings', 'manage_trash',
+  ],
+  employee: ['edit_assigned_tasks'],
+  guest: [],
+};
+
+// Many components are handed a users row rather than the auth user, so the
+// signed-in user's grants are also kept here and matched by id
+let signedInGrants: { userId: string; grants: PermissionGrants } | null = null;
+
+export function rememberPermissionGrants(userId: string, grants: PermissionGrants | null) {
+  signedInGrants = grants ? { userId, grants } : null;
+}
+
+/**
+ * The single permission check. Pass a project id to honour the user's role
+ * override in that project.
+ */
+export function hasPermission(user: User, permission: Permission, projectId?: string | null): boolean {
+  const grants: Pick<PermissionGrants, 'permissions' | 'projects'> | null = user.permissions
+    ? { permissions: user.permissions, projects: user.project_permissions || {} }
+    : signedInGrants?.userId === user.id ? signedInGrants.grants : null;
+
+  const granted = (projectId && grants?.projects[projectId])
+    || grants?.permissions
+    || DEFAULT_ROLE_PERMISSIONS[user.role]
+    || [];
+  return granted.includes(permission);
+}
+
 export const isAdmin = (user: User) => user.role === 'admin';
 export const isProjectManager = (user: User) => user.role === 'project_manager';
 export const isEmployee = (user: User) => user.role === 'employee';
+export const isGuest = (user: User) => user.role === 'guest';
 
 export const canManageUsers = (user: User) => {
-  return isAdmin(user) || isProjectManager(user);
+  return hasPermission(user, 'manage_users');
 };
 
 export const canManageAdmins = (user: User) => {
-  return isAdmin(user);
+  return hasPermission(user, 'manage_admins');
+};
+
+export const canManageRoles = (user: User) => {
+  return hasPermission(user, 'manage_roles');
 };
 
-export const canDeleteProjects = (user: User) => {
-  return isAdmin(user);
+// Owners can always delete their own project, as can_delete_project() allows
+export const canDeleteProjects = (user: User, projectId?: string, ownerId?: string | null) => {
+  return ownerId === user.id || hasPermission(user, 'delete_projects', projectId);
 };
 
-export const canManageProjects = (user: User) => {
-  return isAdmin(user) || isProjectManager(user);
+export const canManageTrash = (user: User) => {
+  return hasPermission(user, 'manage_trash');
+};
+
+export const canManageProjects = (user: User, projectId?: string) => {
+  return hasPermission(user, 'manage_projects', projectId);
 };
 
 export const canCreateProjects = (user: User) => {
-  return isAdmin(user) || isProjectManager(user);
+  return hasPermission(user, 'create_projects');
+};
+
+export const canManageMembers = (user: User, projectId?: string) => {
+  return hasPermission(user, 'manage_members', projectId);
 };
 
-export const canManageTasks = (user: User, taskAssignedTo?: string | null) => {
-  if (isAdmin(user) || isProjectManager(user)) return true;
-  if (isEmployee(user) && taskAssignedTo === user.id) return true;
-  return false;
+export const canManageTasks = (user: User, taskAssignedTo?: string | null, projectId?: string) => {
+  if (hasPermission(user, 'manage_all_tasks', projectId)) return true;
+  return taskAssignedTo === user.id && hasPermission(user, 'edit_assigned_tasks', projectId);
 };
 
-// New function to check if user can update task status specifically
+// Status changes follow the same rule as task edits
 export const canUpdateTaskStatus = (user: User, task: Task) => {
-  // Admins and project managers can update any task status
-  if (isAdmin(user) || isProjectManager(user)) return true;
-  
-  // Employees can only update status of tasks assigned to them
-  if (isEmployee(user) && task.assigned_to === user.id) return true;
-  
-  return false;
+  return canManageTasks(user, task.assigned_to, task.project_id);
 };
 
-// New function to check if user can edit all task fields
+// Editing every field (assignee, dates, phase...) needs manage_all_tasks
 export const canEditTask = (user: User, task: Task) => {
-  // Only admins and project managers can edit all task fields
-  return isAdmin(user) || isProjectManager(user);
+  return hasPermission(user, 'manage_all_tasks', task.project_id);
 };
 
 export const canViewAnalytics = (user: User) => {
-  return isAdmin(user) || isProjectManager(user);
+  return hasPermission(user, 'view_analytics');
+};
+
+export const canEditKnowledgeBase = (user: User, projectId?: string) => {
+  return hasPermission(user, 'edit_knowledge_base', projectId);
+};
+
+export const canUseAIFeatures = (user: User, projectId?: string) => {
+  return hasPermission(user, 'use_ai_features', projectId);
+};
+
+export const canViewBudget = (user: User, projectId?: string) => {
+  return hasPermission(user, 'view_budget', projectId);
+};
+
+export const canManageBudget = (user: User, projectId?: string) => {
+  return hasPermission(user, 'manage_budget', projectId);
+};
+
+export const canViewAuditLog = (user: User) => {
+  return hasPermission(user, 'view_audit_log');
 };
 
 export const canAccessSettings = (user: User) => {
-  return isAdmin(user) || isProjectManager(user);
-}; 
\ No newline at end of file
+  return hasPermission(user, 'access_settings');
+};
@@ -0,0 +1,224 @@
+// Recurrence rule math shared by the app and the generate-recurring-tasks edge
+// function. Keep this file free of imports so Deno can load it as-is.
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  weekdays: number[] | null; // 0 = Sunday; weekly rules only
+  day_of_month: number | null; // monthly rules only; clamped to the month's last day
+  cron_expression: string | null; // custom rules only, standard 5-field cron in UTC
+  starts_at: string;
+  ends_at: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on how far ahead a cron expression is searched
+const CRON_SEARCH_DAYS = 366 * 4;
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week, 0 and 7 are both Sunday
+];
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronField(field: string, { min, max }: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*') {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to === undefined ? (stepPart === undefined ? from : max) : to;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Value "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELDS[i])
+  );
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Returns a message describing what's wrong with the expression, or null if it's valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function nextCronOccurrence(expression: string, after: Date): Date | null {
+  const cron = parseCronExpression(expression);
+  const sortedHours = [...cron.hours].sort((a, b) => a - b);
+  const sortedMinutes = [...cron.minutes].sort((a, b) => a - b);
+  // Start from the next whole minute
+  const from = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+  const firstDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+
+  for (let d = 0; d < CRON_SEARCH_DAYS; d++) {
+    const day = new Date(firstDay + d * DAY_MS);
+    if (!cron.months.has(day.getUTCMonth() + 1)) continue;
+
+    // Standard cron: when both day fields are restricted, either may match
+    const domMatch = cron.daysOfMonth.has(day.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(day.getUTCDay());
+    const dayMatches = cron.domRestricted && cron.dowRestricted
+      ? domMatch || dowMatch
+      : domMatch && dowMatch;
+    if (!dayMatches) continue;
+
+    for (const hour of sortedHours) {
+      for (const minute of sortedMinutes) {
+        const candidate = new Date(day.getTime() + hour * 3600000 + minute * 60000);
+        if (candidate >= from) return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+function addMonthsClamped(date: Date, months: number, dayOfMonth: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(
+    year,
+    month,
+    Math.min(dayOfMonth, lastDay),
+    date.getUTCHours(),
+    date.getUTCMinutes()
+  ));
+}
+
+/**
+ * The first occurrence of the rule strictly after `after`, or null once the rule
+ * has ended. Nothing is scheduled before `starts_at`, which also anchors the
+ * interval for daily, weekly and monthly rules.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  const start = new Date(rule.starts_at);
+  const end = rule.ends_at ? new Date(rule.ends_at) : null;
+  const interval = Math.max(1, rule.interval_count || 1);
+  // Searching from just before the start lets the start itself count when it matches
+  if (after < start) after = new Date(start.getTime() - 1);
+
+  let next: Date | null = null;
+
+  if (rule.frequency === 'custom') {
+    if (!rule.cron_expression) return null;
+    next = nextCronOccurrence(rule.cron_expression, after);
+  } else if (rule.frequency === 'daily') {
+    const periods = Math.floor((after.getTime() - start.getTime()) / (interval * DAY_MS)) + 1;
+    next = new Date(start.getTime() + periods * interval * DAY_MS);
+  } else if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays?.length ? rule.weekdays : [start.getUTCDay()];
+    // Walk forward day by day from the start's week; only weeks that are a
+    // multiple of the interval away from the first week count
+    const weekStart = start.getTime() - start.getUTCDay() * DAY_MS;
+    const firstDay = Math.max(0, Math.floor((after.getTime() - weekStart) / DAY_MS));
+    for (let d = firstDay; d < firstDay + interval * 7 + 7; d++) {
+      const candidate = new Date(weekStart + d * DAY_MS);
+      const weekIndex = Math.floor(d / 7);
+      if (weekIndex % interval === 0 && weekdays.includes(candidate.getUTCDay()) && candidate > after && candidate >= start) {
+        next = candidate;
+        break;
+      }
+    }
+  } else if (rule.frequency === 'monthly') {
+    const dayOfMonth = rule.day_of_month || start.getUTCDate();
+    const firstMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1, start.getUTCHours(), start.getUTCMinutes()));
+    const monthsSinceStart = (after.getUTCFullYear() - start.getUTCFullYear()) * 12 + after.getUTCMonth() - start.getUTCMonth();
+    // Jump to the period containing `after`; the occurrence is either in it or one of the next two
+    let months = Math.max(0, Math.floor(monthsSinceStart / interval) * interval);
+    for (let i = 0; i < 3 && !next; i++, months += interval) {
+      const candidate = addMonthsClamped(firstMonth, months, dayOfMonth);
+      if (candidate > after && candidate >= start) next = candidate;
+    }
+  }
+
+  if (!next || (end && next > end)) return null;
+  return next;
+}
+
+/**
+ * Human readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: Pick<RecurrenceRule, 'frequency' | 'interval_count' | 'weekdays' | 'day_of_month' | 'cron_expression'>): string {
+  const interval = Math.max(1, rule.interval_count || 1);
+  const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  switch (rule.frequency) {
+    case 'daily':
+      return interval === 1 ? 'Every day' : `Every ${interval} days`;
+    case 'weekly': {
+      const days = rule.weekdays?.length ? ` on ${[...rule.weekdays].sort().map(d => names[d]).join(', ')}` : '';
+      return (interval === 1 ? 'Every week' : `Every ${interval} weeks`) + days;
+    }
+    case 'monthly': {
+      const day = rule.day_of_month ? ` on day ${rule.day_of_month}` : '';
+      return (interval === 1 ? 'Every month' : `Every ${interval} months`) + day;
+    }
+    case 'custom':
+      return `Cron: ${rule.cron_expression || ''}`;
+    default:
+      return 'Unknown schedule';
+  }
+}
@@ -74,6 +74,9 @@ export async function logActivity({
       case 'note':
         docTitle = 'Project Notes Log';
         break;
+      case 'comment':
+        docTitle = 'Task Comments Log';
+        break;
       default:
         docTitle = 'Project Activity Log';
     }
@@ -176,6 +179,11 @@ function formatActivityEntry(
             : 'Not specified'
         }\n`;
     
+    case 'comment':
+      return `### ${title} (${date})\n` +
+        `**Commented by:** ${userName}\n\n` +
+        description;
+    
     case 'decision':
     case 'note':
     default:
@@ -206,6 +214,10 @@ function getDocumentHeader(activityType: ActivityType): string {
       return '# Project Notes Log\n\n' +
         'This document tracks notes for the project.';
     
+    case 'comment':
+      return '# Task Comments Log\n\n' +
+        'This document automatically tracks comments on project tasks.';
+    
     default:
       return '# Project Activity Log\n\n' +
         'This document tracks activities for the project.';
@@ -225,6 +237,8 @@ function getCategoryFromActivityType(activityType: ActivityType): string {
       return 'Decisions';
     case 'note':
       return 'Notes';
+    case 'comment':
+      return 'Comments';
     default:
       return 'Project Progress';
   }
@@ -0,0 +1,119 @@
+import { supabase } from '../supabase';
+import type { AIAnalysisScope, AIAnalysisStaleReason, AIAnalysisType, AIAnalysisVersion } from '../../types/aiAnalysis';
+
+// Even with unchanged inputs a result is regenerated after this long
+const CACHE_TTL_DAYS = 7;
+
+const VERSION_SELECT = `
+  *,
+  creator:created_by(id, full_name)
+`;
+
+// Serializes with sorted object keys so the same data always hashes the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, v]) => `${JSON.stringify(key)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 of the data an analysis was generated from
+ */
+export async function hashAnalysisInput(input: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(input));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Why a version shouldn't be reused, or null if it's still current. Without a
+ * hash only the database-side invalidation and expiry are considered.
+ */
+export function getStaleReason(version: AIAnalysisVersion, inputHash?: string): AIAnalysisStaleReason | null {
+  if (version.invalidated_at || (inputHash && version.input_hash !== inputHash)) {
+    return 'inputs_changed';
+  }
+  if (new Date(version.valid_until) < new Date()) {
+    return 'expired';
+  }
+  return null;
+}
+
+function scopedQuery(type: AIAnalysisType, scope: AIAnalysisScope) {
+  let query = supabase
+    .from('ai_analysis_cache')
+    .select(VERSION_SELECT)
+    .eq('analysis_type', type);
+
+  query = scope.projectId ? query.eq('project_id', scope.projectId) : query.is('project_id', null);
+  query = scope.subjectUserId ? query.eq('subject_user_id', scope.subjectUserId) : query.is('subject_user_id', null);
+  return query;
+}
+
+/**
+ * Every generation for a scope, newest first
+ */
+export async function fetchAnalysisVersions<T>(type: AIAnalysisType, scope: AIAnalysisScope): Promise<AIAnalysisVersion<T>[]> {
+  const { data, error } = await scopedQuery(type, scope).order('version', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The latest version if it was generated from the same inputs and hasn't been
+ * invalidated or expired since
+ */
+export async function findCachedAnalysis<T>(
+  type: AIAnalysisType,
+  scope: AIAnalysisScope,
+  inputHash: string
+): Promise<AIAnalysisVersion<T> | null> {
+  const { data, error } = await scopedQuery(type, scope)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data && getStaleReason(data, inputHash) === null ? data : null;
+}
+
+/**
+ * Stores a new generation; the database numbers it after the latest version
+ */
+export async function saveAnalysisVersion<T>(
+  type: AIAnalysisType,
+  scope: AIAnalysisScope,
+  inputHash: string,
+  analysisData: T,
+  userId: string
+): Promise<AIAnalysisVersion<T>> {
+  const validUntil = new Date(Date.now() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('ai_analysis_cache')
+    .insert([{
+      analysis_type: type,
+      project_id: scope.projectId || null,
+      subject_user_id: scope.subjectUserId || null,
+      input_hash: inputHash,
+      analysis_data: analysisData,
+      created_by: userId,
+      valid_until: validUntil.toISOString()
+    }])
+    .select(VERSION_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
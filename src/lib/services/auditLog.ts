@@ -0,0 +1,124 @@
+import { supabase } from '../supabase';
+import { AUDIT_REFERENCE_FIELDS } from '../audit';
+import type { AuditLogEntry, AuditSearchFilters, AuditTable } from '../../types/audit';
+
+const AUDIT_SELECT = '*, actor:user_id(id, full_name)';
+const HISTORY_LIMIT = 200;
+
+/**
+ * Change history of one record. Users pass both 'users' and
+ * 'project_members' to include their project memberships.
+ */
+export async function fetchRecordHistory(tables: AuditTable[], recordId: string): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select(AUDIT_SELECT)
+    .in('table_name', tables)
+    .eq('record_id', recordId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Changes to a project and everything in it: phases, tasks and members
+ */
+export async function fetchProjectHistory(projectId: string): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select(AUDIT_SELECT)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Audit entries matching the filters, newest first
+ */
+export async function searchAuditLogs(filters: AuditSearchFilters, limit = 1000): Promise<AuditLogEntry[]> {
+  let query = supabase
+    .from('audit_logs')
+    .select(AUDIT_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (filters.tableName) query = query.eq('table_name', filters.tableName);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId) query = query.eq('user_id', filters.actorId);
+  if (filters.search?.trim()) query = query.ilike('record_label', `%${filters.search.trim()}%`);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+  // Containment on an empty object matches any entry that touched the field
+  if (filters.field?.trim()) query = query.contains('changes', { [filters.field.trim()]: {} });
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The same search for download. The database refuses it without a recent
+ * step-up check when the user needs one.
+ */
+export async function exportAuditLogs(filters: AuditSearchFilters, limit = 1000): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .rpc('export_audit_logs', {
+      p_table_name: filters.tableName || null,
+      p_action: filters.action || null,
+      p_actor_id: filters.actorId || null,
+      p_field: filters.field?.trim() || null,
+      p_search: filters.search?.trim() || null,
+      p_from: filters.from || null,
+      p_to: filters.to || null,
+      p_limit: limit,
+    })
+    .select(AUDIT_SELECT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Names for the ids that appear in reference fields (assignee, phase, ...),
+ * so history can read "Ana → Ben" instead of two uuids
+ */
+export async function resolveAuditReferences(entries: AuditLogEntry[]): Promise<Record<string, string>> {
+  const idsByTable = new Map<string, { column: string; ids: Set<string> }>();
+
+  entries.forEach(entry => {
+    Object.entries(entry.changes || {}).forEach(([field, change]) => {
+      const reference = AUDIT_REFERENCE_FIELDS[field];
+      if (!reference) return;
+      const group = idsByTable.get(reference.table) || { column: reference.column, ids: new Set<string>() };
+      [change.old, change.new].flat().forEach(value => {
+        if (typeof value === 'string' && value) group.ids.add(value);
+      });
+      idsByTable.set(reference.table, group);
+    });
+  });
+
+  const names: Record<string, string> = {};
+  await Promise.all([...idsByTable.entries()].map(async ([table, { column, ids }]) => {
+    if (ids.size === 0) return;
+    const { data, error } = await supabase
+      .from(table)
+      .select(`id, ${column}`)
+      .in('id', [...ids]);
+
+    // A missing name only costs readability, so don't fail the history over it
+    if (error) {
+      console.error(`Error resolving ${table} names:`, error);
+      return;
+    }
+    ((data || []) as unknown as Record<string, string>[]).forEach(row => {
+      names[row.id] = row[column];
+    });
+  }));
+
+  return names;
+}
@@ -0,0 +1,64 @@
+import { supabase } from '../supabase';
+
+/**
+ * Thrown when a row was saved by someone else after it was loaded. `current`
+ * is null when the row has since been deleted.
+ */
+export class VersionConflictError<T = Record<string, unknown>> extends Error {
+  current: T | null;
+  changedBy: string | null;
+
+  constructor(current: T | null, changedBy: string | null) {
+    super(current ? `Changed by ${changedBy || 'another user'} since it was loaded` : 'Deleted since it was loaded');
+    this.name = 'VersionConflictError';
+    this.current = current;
+    this.changedBy = changedBy;
+  }
+}
+
+/**
+ * Updates a row only if nobody has saved it since `expectedUpdatedAt`.
+ * On a mismatch nothing is written and a VersionConflictError carries the
+ * current row and the name of whoever last changed it.
+ */
+export async function updateIfUnchanged<T extends { updated_at?: string }>(
+  table: string,
+  id: string,
+  updates: Partial<T>,
+  expectedUpdatedAt: string
+): Promise<T> {
+  // updated_at is the version stamp and is set by the database trigger
+  const changes = { ...updates };
+  delete changes.updated_at;
+
+  const { data, error } = await supabase
+    .from(table)
+    .update(changes)
+    .eq('id', id)
+    .eq('updated_at', expectedUpdatedAt)
+    .select();
+
+  if (error) throw error;
+  if (data && data.length > 0) {
+    return data[0] as T;
+  }
+
+  const { data: current, error: currentError } = await supabase
+    .from(table)
+    .select('*, updater:updated_by(full_name)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (currentError) throw currentError;
+  if (!current) {
+    throw new VersionConflictError<T>(null, null);
+  }
+
+  // An unchanged version means the update was refused rather than overtaken
+  if (new Date(current.updated_at).getTime() === new Date(expectedUpdatedAt).getTime()) {
+    throw new Error('You do not have permission to update this record');
+  }
+
+  const { updater, ...row } = current;
+  throw new VersionConflictError<T>(row as T, updater?.full_name || null);
+}
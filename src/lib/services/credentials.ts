@@ -0,0 +1,46 @@
+import { supabase } from '../supabase';
+
+/**
+ * Thrown when the auth server wants the emailed reauthentication code before
+ * changing the password of a session that signed in over a day ago
+ */
+export class ReauthenticationRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReauthenticationRequiredError';
+  }
+}
+
+// Goes through update-credentials so the server can check step-up first
+async function updateCredentials(body: { email?: string; password?: string; nonce?: string }) {
+  const { error } = await supabase.functions.invoke('update-credentials', { body });
+
+  if (error) {
+    // The function's JSON error is more useful than the generic non-2xx message
+    const details = await error.context?.json?.().catch(() => null);
+    if (details?.code === 'reauthentication_needed') {
+      throw new ReauthenticationRequiredError(details.error);
+    }
+    throw new Error(details?.error || error.message);
+  }
+}
+
+/**
+ * Starts an email change; it takes effect once both addresses confirm it
+ */
+export async function changeEmail(email: string) {
+  await updateCredentials({ email });
+}
+
+export async function changePassword(password: string, nonce?: string) {
+  await updateCredentials({ password, nonce });
+}
+
+/**
+ * Emails the user a code to pass to changePassword
+ */
+export async function requestReauthentication() {
+  const { error } = await supabase.auth.reauthenticate();
+
+  if (error) throw error;
+}
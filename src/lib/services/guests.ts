@@ -0,0 +1,220 @@
+import { supabase, supabaseAdmin } from '../supabase';
+import type { User } from '../../types/auth';
+import type { GuestVisibility, Project, ProjectGuest } from '../../types/project';
+import type { Phase } from '../../types/phase';
+import type { Task } from '../../types/task';
+
+export type ProjectPerson = Pick<User, 'id' | 'full_name' | 'avatar_url'>;
+
+export type GuestProject = Pick<Project, 'id' | 'name' | 'description' | 'status' | 'start_date' | 'end_date' | 'progress'>
+  & GuestVisibility;
+
+export async function fetchProjectGuests(projectId: string): Promise<ProjectGuest[]> {
+  const { data, error } = await supabase
+    .from('project_guests')
+    .select('*, user:user_id(id, full_name, email, avatar_url)')
+    .eq('project_id', projectId)
+    .order('invited_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Gives a guest access to a project. Someone without an account gets a guest
+ * account and an invitation email; staff accounts are refused, since staff
+ * belong on the team instead.
+ */
+export async function inviteProjectGuest({
+  project,
+  email,
+  fullName,
+  invitedBy,
+}: {
+  project: Pick<Project, 'id' | 'name'>;
+  email: string;
+  fullName: string;
+  invitedBy: string;
+}): Promise<ProjectGuest> {
+  const normalizedEmail = email.trim().toLowerCase();
+  // Stored emails aren't always lower-case; escape so _ and % match literally
+  const emailPattern = normalizedEmail.replace(/[\\%_]/g, '\\$&');
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('users')
+    .select('id, role')
+    .ilike('email', emailPattern)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  if (existing && existing.role !== 'guest') {
+    throw new Error(`${normalizedEmail} already has a staff account. Add them to the team instead.`);
+  }
+
+  let userId = existing?.id as string | undefined;
+
+  if (!userId) {
+    if (!supabaseAdmin) {
+      throw new Error('Admin client not available');
+    }
+
+    const { data: inviteData, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(normalizedEmail, {
+      data: { full_name: fullName, role: 'guest', status: 'active' },
+      redirectTo: window.location.origin,
+    });
+
+    if (inviteError) throw inviteError;
+    userId = inviteData.user.id;
+
+    // The auth trigger may already have created the profile
+    const { error: profileError } = await supabaseAdmin
+      .from('users')
+      .upsert({
+        id: userId,
+        email: normalizedEmail,
+        full_name: fullName,
+        role: 'guest',
+        status: 'active',
+      }, { onConflict: 'id' });
+
+    if (profileError) throw profileError;
+  }
+
+  const { data, error } = await supabase
+    .from('project_guests')
+    .insert({ project_id: project.id, user_id: userId, invited_by: invitedBy })
+    .select('*, user:user_id(id, full_name, email, avatar_url)')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`${normalizedEmail} is already a guest of this project`);
+    }
+    throw error;
+  }
+
+  const { error: notifyError } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: userId,
+      type: 'guest_invite',
+      title: 'Project shared with you',
+      message: `You can now follow "${project.name}"`,
+      link: `/guest/projects/${project.id}`,
+    });
+
+  if (notifyError) {
+    console.error('Error notifying invited guest:', notifyError);
+  }
+
+  return data;
+}
+
+export async function removeProjectGuest(guestId: string) {
+  const { error } = await supabase
+    .from('project_guests')
+    .delete()
+    .eq('id', guestId);
+
+  if (error) throw error;
+}
+
+/**
+ * Sets which project sections guests can see besides progress and shared tasks
+ */
+export async function updateGuestVisibility(projectId: string, visibility: GuestVisibility) {
+  const { error } = await supabase
+    .from('projects')
+    .update(visibility)
+    .eq('id', projectId);
+
+  if (error) throw error;
+}
+
+export async function setTasksVisibleToGuests(taskIds: string[], visible: boolean) {
+  if (taskIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ visible_to_guests: visible })
+    .in('id', taskIds);
+
+  if (error) throw error;
+}
+
+/**
+ * Projects shared with the signed-in guest
+ */
+export async function fetchGuestProjects(): Promise<GuestProject[]> {
+  const { data, error } = await supabase.rpc('get_guest_projects');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * A shared project with what its managers expose. Row-level security leaves
+ * out hidden phases and unshared tasks.
+ */
+export async function fetchGuestProject(projectId: string): Promise<{
+  project: GuestProject;
+  phases: Phase[];
+  tasks: Task[];
+}> {
+  const { data: project, error: projectError } = await supabase
+    .rpc('get_guest_projects', { p_project_id: projectId })
+    .single<GuestProject>();
+
+  if (projectError) throw projectError;
+
+  const [phasesResult, tasksResult] = await Promise.all([
+    project.guest_phases_visible
+      ? supabase
+        .from('project_phases')
+        .select('id, project_id, name, description, status, sequence_order, start_date, end_date')
+        .eq('project_id', projectId)
+        .order('sequence_order')
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('tasks')
+      .select('id, project_id, phase_id, title, description, status, priority, due_date, created_at, updated_at')
+      .eq('project_id', projectId)
+      .order('due_date', { ascending: true, nullsFirst: false }),
+  ]);
+
+  if (phasesResult.error) throw phasesResult.error;
+  if (tasksResult.error) throw tasksResult.error;
+
+  return {
+    project,
+    phases: (phasesResult.data || []) as Phase[],
+    tasks: (tasksResult.data || []) as Task[],
+  };
+}
+
+/**
+ * Names of the staff and guests on a project, readable by its guests too
+ */
+export async function fetchProjectPeople(projectId: string): Promise<ProjectPerson[]> {
+  const { data, error } = await supabase.rpc('get_project_people', { p_project_id: projectId });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Top-level tasks of a project with whether guests can see them, for picking
+ * what to share
+ */
+export async function fetchShareableTasks(projectId: string): Promise<Pick<Task, 'id' | 'title' | 'status' | 'visible_to_guests'>[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, status, visible_to_guests')
+    .eq('project_id', projectId)
+    .is('parent_task_id', null)
+    .order('title');
+
+  if (error) throw error;
+  return data || [];
+}
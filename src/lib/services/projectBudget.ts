@@ -0,0 +1,203 @@
+import { supabase } from '../supabase';
+import { addDays, differenceInCalendarDays, format, isAfter, startOfDay } from 'date-fns';
+import { fetchHourlyRates } from './userRates';
+import type { ProjectExpense } from '../../types/project';
+
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 75, 90, 100];
+
+export interface CostEntry {
+  id: string;
+  date: string;
+  type: 'labour' | 'expense';
+  description: string;
+  amount: number;
+  hours?: number;
+  userName?: string;
+  category?: string | null;
+  rated?: boolean; // false when the user has no hourly rate, so the hours are uncosted
+}
+
+export interface BurnDownPoint {
+  date: string;
+  ideal: number;
+  remaining: number | null; // null for days that haven't happened yet
+}
+
+interface LabourRow {
+  id: string;
+  started_at: string;
+  duration_minutes: number;
+  task: { id: string; title: string; project_id: string } | null;
+  user: { id: string; full_name: string } | null;
+}
+
+export async function fetchProjectExpenses(projectId: string): Promise<ProjectExpense[]> {
+  const { data, error } = await supabase
+    .from('project_expenses')
+    .select(`
+      *,
+      creator:created_by(id, full_name)
+    `)
+    .eq('project_id', projectId)
+    .order('incurred_on', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addProjectExpense(
+  expense: Pick<ProjectExpense, 'project_id' | 'description' | 'category' | 'amount' | 'incurred_on'>,
+  userId: string
+): Promise<ProjectExpense> {
+  const { data, error } = await supabase
+    .from('project_expenses')
+    .insert([{ ...expense, created_by: userId }])
+    .select(`
+      *,
+      creator:created_by(id, full_name)
+    `)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteProjectExpense(expenseId: string) {
+  const { error } = await supabase
+    .from('project_expenses')
+    .delete()
+    .eq('id', expenseId);
+
+  if (error) throw error;
+}
+
+/**
+ * Labour cost entries for a project: every finished time entry priced at the
+ * logging user's hourly rate
+ */
+export async function fetchLabourCosts(projectId: string): Promise<CostEntry[]> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(`
+      id,
+      started_at,
+      duration_minutes,
+      task:task_id!inner(id, title, project_id),
+      user:user_id(id, full_name)
+    `)
+    .eq('task.project_id', projectId)
+    .not('duration_minutes', 'is', null);
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as LabourRow[];
+  const userIds = [...new Set(rows.map(row => row.user?.id).filter((id): id is string => !!id))];
+  const rates = await fetchHourlyRates(userIds);
+
+  return rows.map(row => {
+    const hours = row.duration_minutes / 60;
+    const rate = (row.user && rates[row.user.id]) ?? null;
+    return {
+      id: row.id,
+      date: row.started_at,
+      type: 'labour',
+      description: row.task?.title || 'Unknown task',
+      amount: rate !== null ? Math.round(hours * rate * 100) / 100 : 0,
+      hours: Math.round(hours * 100) / 100,
+      userName: row.user?.full_name,
+      rated: rate !== null,
+    };
+  });
+}
+
+/**
+ * Labour and expenses combined into a single ledger, newest first
+ */
+export async function fetchBudgetLedger(projectId: string): Promise<CostEntry[]> {
+  const [labour, expenses] = await Promise.all([
+    fetchLabourCosts(projectId),
+    fetchProjectExpenses(projectId),
+  ]);
+
+  const expenseEntries: CostEntry[] = expenses.map(expense => ({
+    id: expense.id,
+    date: expense.incurred_on,
+    type: 'expense',
+    description: expense.description,
+    amount: Number(expense.amount),
+    userName: expense.creator?.full_name,
+    category: expense.category,
+  }));
+
+  return [...labour, ...expenseEntries].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
+
+/**
+ * Remaining budget per day between the project's start and end dates, next to
+ * the ideal straight-line burn. Long projects are sampled so the chart stays readable.
+ */
+export function buildBurnDown(
+  budget: number,
+  startDate: string,
+  endDate: string | undefined,
+  ledger: CostEntry[],
+  maxPoints = 60
+): BurnDownPoint[] {
+  const start = startOfDay(new Date(startDate));
+  const today = startOfDay(new Date());
+  const lastLedgerDate = ledger.reduce(
+    (latest, entry) => (isAfter(new Date(entry.date), latest) ? startOfDay(new Date(entry.date)) : latest),
+    start
+  );
+  const end = endDate ? startOfDay(new Date(endDate)) : (isAfter(lastLedgerDate, today) ? lastLedgerDate : today);
+  const totalDays = Math.max(1, differenceInCalendarDays(end, start));
+  const step = Math.max(1, Math.ceil(totalDays / maxPoints));
+
+  const pointFor = (offset: number): BurnDownPoint => {
+    const day = addDays(start, offset);
+    const spent = ledger
+      .filter(entry => !isAfter(startOfDay(new Date(entry.date)), day))
+      .reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+      date: format(day, 'MMM d'),
+      ideal: Math.round(budget * (1 - offset / totalDays)),
+      remaining: isAfter(day, today) ? null : Math.round(budget - spent),
+    };
+  };
+
+  const points: BurnDownPoint[] = [];
+  for (let offset = 0; offset <= totalDays; offset += step) {
+    points.push(pointFor(offset));
+  }
+  if (totalDays % step !== 0) {
+    points.push(pointFor(totalDays));
+  }
+  return points;
+}
+
+/**
+ * The highest alert threshold the project has crossed. The database works it
+ * out whenever costs, the budget or the thresholds change, and sends the alert.
+ */
+export async function fetchBudgetAlertLevel(projectId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('budget_alerted_threshold')
+    .eq('id', projectId)
+    .single();
+
+  if (error) throw error;
+  return data.budget_alerted_threshold || 0;
+}
+
+export async function updateBudgetThresholds(projectId: string, thresholds: number[]) {
+  const { error } = await supabase
+    .from('projects')
+    .update({ budget_alert_thresholds: [...new Set(thresholds)].sort((a, b) => a - b) })
+    .eq('id', projectId);
+
+  if (error) throw error;
+}
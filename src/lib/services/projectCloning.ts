@@ -0,0 +1,268 @@
+import { supabase } from '../supabase';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+// Knowledge base categories written automatically from task and phase activity;
+// they describe the source project's history so they're not copied by default
+export const GENERATED_DOCUMENT_CATEGORIES = ['Task Logs', 'Phase Logs', 'Direct Task Logs', 'Direct Phase Logs'];
+
+export interface CloneableDocument {
+  id: string;
+  title: string;
+  category: string | null;
+}
+
+export interface CloneProjectOptions {
+  sourceProjectId: string;
+  targetProjectId: string;
+  startDate: string; // start date of the new project; all copied dates move with it
+  userId: string;
+  documentIds: string[];
+}
+
+export interface CloneSummary {
+  phases: number;
+  tasks: number;
+  faqs: number;
+  resources: number;
+  documents: number;
+}
+
+export async function fetchCloneableDocuments(projectId: string): Promise<CloneableDocument[]> {
+  const { data, error } = await supabase
+    .from('project_documents')
+    .select('id, title, category')
+    .eq('project_id', projectId)
+    .order('title', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+const shiftDate = (date: string | null | undefined, days: number) =>
+  date ? format(addDays(parseISO(date), days), 'yyyy-MM-dd') : null;
+
+const shiftTimestamp = (date: string | null | undefined, days: number) =>
+  date ? addDays(new Date(date), days).toISOString() : null;
+
+/**
+ * Mirrors a project phase into the phases table, which is what tasks.phase_id
+ * references. Returns false when the phase couldn't be created.
+ */
+async function syncPhase(phase: {
+  id: string;
+  project_id: string;
+  name: string;
+  description: string | null;
+  sequence_order: number;
+  start_date: string | null;
+  end_date: string | null;
+}): Promise<boolean> {
+  const { error } = await supabase.rpc('create_phase_with_admin_rights', {
+    phase_id: phase.id,
+    project_id: phase.project_id,
+    phase_name: phase.name,
+    phase_description: phase.description || '',
+    phase_order: phase.sequence_order,
+    phase_status: 'not_started',
+    phase_start_date: phase.start_date,
+    phase_end_date: phase.end_date
+  });
+
+  if (error) {
+    console.error('Error syncing cloned phase:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Copies the plan of one project into another: phases in sequence order, tasks
+ * with their subtasks, checklists and dependencies, FAQs, resources and the
+ * chosen documents. Dates move by the difference between the two start dates.
+ * Members, activity and progress are left behind, so every phase and task
+ * starts over as not started.
+ */
+export async function cloneProjectContent({
+  sourceProjectId,
+  targetProjectId,
+  startDate,
+  userId,
+  documentIds
+}: CloneProjectOptions): Promise<CloneSummary> {
+  const now = new Date().toISOString();
+
+  const { data: source, error: sourceError } = await supabase
+    .from('projects')
+    .select('start_date')
+    .eq('id', sourceProjectId)
+    .single();
+
+  if (sourceError) throw sourceError;
+  const offset = source.start_date ? differenceInCalendarDays(parseISO(startDate), parseISO(source.start_date)) : 0;
+
+  // Phases, one at a time so the old -> new id mapping stays reliable
+  const { data: phases, error: phasesError } = await supabase
+    .from('project_phases')
+    .select('*')
+    .eq('project_id', sourceProjectId)
+    .order('sequence_order', { ascending: true });
+
+  if (phasesError) throw phasesError;
+
+  const phaseIds = new Map<string, string | null>();
+  for (const phase of phases || []) {
+    const { data: newPhase, error } = await supabase
+      .from('project_phases')
+      .insert({
+        project_id: targetProjectId,
+        name: phase.name,
+        description: phase.description,
+        status: 'pending',
+        sequence_order: phase.sequence_order,
+        start_date: shiftDate(phase.start_date, offset),
+        end_date: shiftDate(phase.end_date, offset),
+        created_by: userId,
+        created_at: now,
+        updated_at: now
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    const synced = await syncPhase(newPhase);
+    phaseIds.set(phase.id, synced ? newPhase.id : null);
+  }
+
+  // Tasks, with their hierarchy, checklists and blockers re-pointed at the copies
+  const { data: tasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select('id, title, description, priority, estimated_hours, due_date, phase_id, template_id, parent_task_id')
+    .eq('project_id', sourceProjectId)
+    .order('created_at', { ascending: true });
+
+  if (tasksError) throw tasksError;
+
+  const taskIds = new Map<string, string>();
+  for (const task of tasks || []) {
+    const { data: newTask, error } = await supabase
+      .from('tasks')
+      .insert({
+        project_id: targetProjectId,
+        title: task.title,
+        description: task.description,
+        status: 'todo',
+        priority: task.priority,
+        estimated_hours: task.estimated_hours,
+        due_date: shiftTimestamp(task.due_date, offset),
+        phase_id: task.phase_id ? phaseIds.get(task.phase_id) ?? null : null,
+        template_id: task.template_id,
+        created_by: userId,
+        created_at: now,
+        updated_at: now
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    taskIds.set(task.id, newTask.id);
+  }
+
+  // Link subtasks once every copy exists, as a parent may have been created after its children
+  for (const task of tasks || []) {
+    const parentId = task.parent_task_id ? taskIds.get(task.parent_task_id) : undefined;
+    if (!parentId) continue;
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ parent_task_id: parentId })
+      .eq('id', taskIds.get(task.id));
+
+    if (error) throw error;
+  }
+
+  if (taskIds.size > 0) {
+    const { data: checklistItems, error: checklistError } = await supabase
+      .from('task_checklist_items')
+      .select('task_id, content, position')
+      .in('task_id', [...taskIds.keys()]);
+
+    if (checklistError) throw checklistError;
+
+    if (checklistItems && checklistItems.length > 0) {
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .insert(checklistItems.map(item => ({
+          task_id: taskIds.get(item.task_id),
+          content: item.content,
+          position: item.position,
+          created_by: userId
+        })));
+      if (error) throw error;
+    }
+
+    const { data: dependencies, error: dependenciesError } = await supabase
+      .from('task_dependencies')
+      .select('dependent_task_id, dependency_task_id')
+      .in('dependent_task_id', [...taskIds.keys()]);
+
+    if (dependenciesError) throw dependenciesError;
+
+    const copies = (dependencies || [])
+      .filter(dep => taskIds.has(dep.dependency_task_id))
+      .map(dep => ({
+        dependent_task_id: taskIds.get(dep.dependent_task_id),
+        dependency_task_id: taskIds.get(dep.dependency_task_id)
+      }));
+
+    if (copies.length > 0) {
+      const { error } = await supabase.from('task_dependencies').insert(copies);
+      if (error) throw error;
+    }
+  }
+
+  // Knowledge base
+  const [faqsResult, resourcesResult, documentsResult] = await Promise.all([
+    supabase.from('project_faqs').select('question, answer').eq('project_id', sourceProjectId),
+    supabase.from('project_resources').select('title, url, description, type').eq('project_id', sourceProjectId),
+    documentIds.length > 0
+      ? supabase.from('project_documents').select('title, content, category').in('id', documentIds)
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  if (faqsResult.error) throw faqsResult.error;
+  if (resourcesResult.error) throw resourcesResult.error;
+  if (documentsResult.error) throw documentsResult.error;
+
+  const faqs = faqsResult.data || [];
+  const resources = resourcesResult.data || [];
+  const documents = documentsResult.data || [];
+
+  if (faqs.length > 0) {
+    const { error } = await supabase
+      .from('project_faqs')
+      .insert(faqs.map(faq => ({ ...faq, project_id: targetProjectId })));
+    if (error) throw error;
+  }
+
+  if (resources.length > 0) {
+    const { error } = await supabase
+      .from('project_resources')
+      .insert(resources.map(resource => ({ ...resource, project_id: targetProjectId })));
+    if (error) throw error;
+  }
+
+  if (documents.length > 0) {
+    const { error } = await supabase
+      .from('project_documents')
+      .insert(documents.map(doc => ({ ...doc, project_id: targetProjectId, created_by: userId })));
+    if (error) throw error;
+  }
+
+  return {
+    phases: phaseIds.size,
+    tasks: taskIds.size,
+    faqs: faqs.length,
+    resources: resources.length,
+    documents: documents.length
+  };
+}
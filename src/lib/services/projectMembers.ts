@@ -0,0 +1,63 @@
+import { supabase } from '../supabase';
+import type { ProjectMember } from '../../types/project';
+
+/**
+ * Adds a user to a project and opens their team member record, copying their
+ * parsed CV when there is one
+ */
+export async function addProjectMember(
+  projectId: string,
+  userId: string,
+  role: ProjectMember['role'] = 'member'
+): Promise<void> {
+  const joinedAt = new Date().toISOString();
+
+  const { error: memberError } = await supabase
+    .from('project_members')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      role,
+      joined_at: joinedAt,
+    });
+
+  if (memberError) throw memberError;
+
+  // The CV is optional; a member without one still gets a record
+  const { data: cvData, error: cvError } = await supabase
+    .from('cv_parsed_data')
+    .select('education, work_experience, skills, languages, certifications')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (cvError) {
+    console.warn('Warning: Could not fetch CV data:', cvError);
+  }
+
+  const { error: recordError } = await supabase
+    .from('team_member_records')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      cv_data: cvData || null,
+      joined_at: joinedAt,
+    });
+
+  if (recordError) {
+    console.warn('Warning: Could not create team member record:', recordError);
+  }
+}
+
+/**
+ * Sets or clears (null) the role that replaces a member's own permissions
+ * inside this project
+ */
+export async function setMemberRoleOverride(projectId: string, userId: string, roleId: string | null) {
+  const { error } = await supabase
+    .from('project_members')
+    .update({ role_id: roleId })
+    .eq('project_id', projectId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
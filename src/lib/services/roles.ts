@@ -0,0 +1,84 @@
+import { supabase } from '../supabase';
+import type { PermissionGrants, Role } from '../../types/auth';
+
+export type RoleInput = Pick<Role, 'name' | 'description' | 'base_role' | 'permissions'>;
+
+export async function fetchRoles(): Promise<Role[]> {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('*')
+    .order('is_system', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The signed-in user's permissions, plus the ones that replace them in
+ * projects where they have a role override
+ */
+export async function fetchMyPermissions(): Promise<PermissionGrants> {
+  const { data, error } = await supabase.rpc('get_my_permissions');
+
+  if (error) throw error;
+  return {
+    role_id: data?.role_id ?? null,
+    permissions: data?.permissions ?? [],
+    projects: data?.projects ?? {},
+  };
+}
+
+export async function createRole(input: RoleInput): Promise<Role> {
+  // Keys only need to be unique; built-in roles use their tier name
+  const key = `${input.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}_${Date.now().toString(36)}`;
+
+  const { data, error } = await supabase
+    .from('roles')
+    .insert({ ...input, key })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateRole(roleId: string, updates: Partial<RoleInput>): Promise<Role> {
+  const { data, error } = await supabase
+    .from('roles')
+    .update(updates)
+    .eq('id', roleId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Deletes a custom role. Its users fall back to the built-in role of their
+ * tier and project overrides using it are cleared.
+ */
+export async function deleteRole(roleId: string) {
+  const { error } = await supabase
+    .from('roles')
+    .delete()
+    .eq('id', roleId);
+
+  if (error) throw error;
+}
+
+/**
+ * Counts users per role, for showing what a change or delete would affect
+ */
+export async function fetchRoleUserCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('role_id');
+
+  if (error) throw error;
+  return (data || []).reduce<Record<string, number>>((counts, row) => {
+    if (row.role_id) counts[row.role_id] = (counts[row.role_id] || 0) + 1;
+    return counts;
+  }, {});
+}
@@ -0,0 +1,47 @@
+import { supabase } from '../supabase';
+import type { UserSession } from '../../types/auth';
+
+/**
+ * A user's signed-in devices, most recently active first. Other users'
+ * sessions need manage_users, and manage_admins when they belong to an admin.
+ */
+export async function fetchUserSessions(userId: string): Promise<UserSession[]> {
+  const { data, error } = await supabase.rpc('get_user_sessions', { p_user_id: userId });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Signs one device out. It loses access once its current access token
+ * expires, at most an hour later.
+ */
+export async function revokeSession(sessionId: string) {
+  const { error } = await supabase.rpc('revoke_user_session', { p_session_id: sessionId });
+
+  if (error) throw error;
+}
+
+/**
+ * Whether this session may use the app yet. A password sign-in has to enter
+ * the emailed login code first; the database holds it back until then.
+ */
+export async function fetchLoginCodeVerified(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('login_code_verified');
+
+  if (error) throw error;
+  return !!data;
+}
+
+// Ends this device's session on the server as well as locally
+export async function revokeCurrentSession() {
+  const { error } = await supabase.auth.signOut({ scope: 'local' });
+
+  if (error) throw error;
+}
+
+export async function revokeOtherSessions() {
+  const { error } = await supabase.auth.signOut({ scope: 'others' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,199 @@
+import { supabase } from '../supabase';
+import { normalizeSkill, parseCVSkills, skillLevelWeight, mentionsSkill } from '../skills';
+import { DEFAULT_TASK_HOURS } from './workload';
+import type { User } from '../../types/auth';
+
+// Open hours of demand per holder above which a skill counts as stretched
+const THIN_HOURS_PER_HOLDER = 40;
+const CLOSED_PROJECT_STATUSES = ['completed', 'cancelled', 'archived'];
+
+export type MatrixUser = Pick<User, 'id' | 'full_name' | 'department' | 'position'>;
+
+export interface SkillsMatrix {
+  users: MatrixUser[];
+  skills: { key: string; name: string; holders: number }[]; // most widely held first
+  levels: Record<string, Record<string, string>>; // user id -> skill key -> level ('' when unknown)
+}
+
+export interface SkillDemand {
+  key: string;
+  name: string;
+  tasks: number;
+  inferredTasks: number; // matched from task text rather than tagged
+  hours: number;
+  phases: number;
+  projects: string[];
+}
+
+export type SkillGapStatus = 'missing' | 'thin' | 'covered';
+
+export interface SkillGap extends SkillDemand {
+  holders: number;
+  advancedHolders: number;
+  hoursPerHolder: number | null;
+  status: SkillGapStatus;
+}
+
+/**
+ * Every active staff member's skills, from the skills table and their parsed CV
+ */
+export async function fetchSkillsMatrix(): Promise<SkillsMatrix> {
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, full_name, department, position')
+    .eq('status', 'active')
+    .neq('role', 'guest')
+    .order('full_name');
+
+  if (usersError) throw usersError;
+  const ids = (users || []).map(user => user.id);
+  if (ids.length === 0) return { users: [], skills: [], levels: {} };
+
+  const [skillsResult, cvResult] = await Promise.all([
+    supabase.from('skills').select('user_id, name, level').in('user_id', ids),
+    supabase.from('cv_parsed_data').select('user_id, skills').in('user_id', ids),
+  ]);
+
+  if (skillsResult.error) throw skillsResult.error;
+  if (cvResult.error) {
+    console.error('Error fetching CV data:', cvResult.error);
+  }
+
+  const entries = [
+    ...(skillsResult.data || []).map(row => ({ userId: row.user_id, name: row.name, level: row.level })),
+    ...(cvResult.data || []).flatMap(row =>
+      parseCVSkills(row.skills).map(skill => ({ userId: row.user_id, ...skill }))
+    ),
+  ];
+
+  const names = new Map<string, string>();
+  const levels: Record<string, Record<string, string>> = {};
+  entries.forEach(entry => {
+    const key = normalizeSkill(entry.name);
+    if (!key) return;
+    if (!names.has(key)) names.set(key, entry.name.trim());
+
+    // Keep the strongest level when a skill is recorded more than once
+    const userLevels = levels[entry.userId] || (levels[entry.userId] = {});
+    const current = userLevels[key];
+    if (current === undefined || skillLevelWeight(entry.level) > skillLevelWeight(current || null)) {
+      userLevels[key] = entry.level || '';
+    }
+  });
+
+  const skills = [...names.entries()]
+    .map(([key, name]) => ({
+      key,
+      name,
+      holders: ids.filter(id => levels[id]?.[key] !== undefined).length,
+    }))
+    .sort((a, b) => b.holders - a.holders || a.name.localeCompare(b.name));
+
+  return { users: users || [], skills, levels };
+}
+
+/**
+ * Skills needed by open tasks and phases of active projects. Tasks and phases
+ * without tags count towards any known skill their text mentions.
+ */
+export async function fetchSkillDemand(knownSkills: string[]): Promise<SkillDemand[]> {
+  const { data: projects, error: projectsError } = await supabase
+    .from('projects')
+    .select('id, name, status')
+    .eq('is_template', false);
+
+  if (projectsError) throw projectsError;
+  const activeProjects = (projects || []).filter(project => !CLOSED_PROJECT_STATUSES.includes(project.status));
+  if (activeProjects.length === 0) return [];
+  const projectIds = activeProjects.map(project => project.id);
+  const projectName = (id: string) => activeProjects.find(project => project.id === id)?.name || 'Unknown project';
+
+  const [tasksResult, phasesResult] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id, project_id, title, description, estimated_hours, required_skills')
+      .in('project_id', projectIds)
+      .neq('status', 'completed'),
+    supabase
+      .from('project_phases')
+      .select('id, project_id, name, description, required_skills')
+      .in('project_id', projectIds)
+      .in('status', ['pending', 'in_progress']),
+  ]);
+
+  if (tasksResult.error) throw tasksResult.error;
+  if (phasesResult.error) throw phasesResult.error;
+
+  const demand = new Map<string, SkillDemand>();
+  const entryFor = (name: string) => {
+    const key = normalizeSkill(name);
+    let entry = demand.get(key);
+    if (!entry) {
+      entry = { key, name: name.trim(), tasks: 0, inferredTasks: 0, hours: 0, phases: 0, projects: [] };
+      demand.set(key, entry);
+    }
+    return entry;
+  };
+  const addProject = (entry: SkillDemand, projectId: string) => {
+    const name = projectName(projectId);
+    if (!entry.projects.includes(name)) entry.projects.push(name);
+  };
+  const skillsFor = (tagged: string[] | null, text: string) => {
+    const tags = (tagged || []).filter(skill => normalizeSkill(skill));
+    return tags.length > 0
+      ? { skills: tags, inferred: false }
+      : { skills: knownSkills.filter(skill => mentionsSkill(text, skill)), inferred: true };
+  };
+
+  (tasksResult.data || []).forEach(task => {
+    const { skills, inferred } = skillsFor(task.required_skills, `${task.title} ${task.description || ''}`);
+    skills.forEach(skill => {
+      const entry = entryFor(skill);
+      entry.tasks++;
+      if (inferred) entry.inferredTasks++;
+      entry.hours += task.estimated_hours || DEFAULT_TASK_HOURS;
+      addProject(entry, task.project_id);
+    });
+  });
+
+  (phasesResult.data || []).forEach(phase => {
+    const { skills } = skillsFor(phase.required_skills, `${phase.name} ${phase.description || ''}`);
+    skills.forEach(skill => {
+      const entry = entryFor(skill);
+      entry.phases++;
+      addProject(entry, phase.project_id);
+    });
+  });
+
+  return [...demand.values()];
+}
+
+/**
+ * Compares demand against the people who hold each skill, worst gaps first
+ */
+export function calculateSkillGaps(matrix: SkillsMatrix, demand: SkillDemand[]): SkillGap[] {
+  const order: Record<SkillGapStatus, number> = { missing: 0, thin: 1, covered: 2 };
+
+  return demand
+    .map(item => {
+      const holders = matrix.users.filter(user => matrix.levels[user.id]?.[item.key] !== undefined);
+      const advancedHolders = holders.filter(user => skillLevelWeight(matrix.levels[user.id][item.key] || null) === 1).length;
+      const hoursPerHolder = holders.length > 0 ? Math.round(item.hours / holders.length) : null;
+      const status: SkillGapStatus = holders.length === 0
+        ? 'missing'
+        : (hoursPerHolder ?? 0) > THIN_HOURS_PER_HOLDER || (holders.length === 1 && item.tasks > 1)
+          ? 'thin'
+          : 'covered';
+
+      return { ...item, holders: holders.length, advancedHolders, hoursPerHolder, status };
+    })
+    .sort((a, b) => order[a.status] - order[b.status] || b.hours - a.hours);
+}
+
+/**
+ * Distinct skill names on record, for suggesting tags on tasks and phases
+ */
+export async function fetchKnownSkillNames(): Promise<string[]> {
+  const matrix = await fetchSkillsMatrix();
+  return matrix.skills.map(skill => skill.name);
+}
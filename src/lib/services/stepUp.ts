@@ -0,0 +1,112 @@
+import { supabase } from '../supabase';
+import type { SecurityPolicy, User } from '../../types/auth';
+
+// How long a 2FA check covers sensitive actions; has_recent_step_up() uses the same
+export const STEP_UP_WINDOW_SECONDS = 5 * 60;
+
+export async function fetchSecurityPolicy(): Promise<SecurityPolicy> {
+  const { data, error } = await supabase
+    .from('security_policies')
+    .select('require_mfa_for_privileged_roles, updated_by, updated_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateSecurityPolicy(changes: Pick<SecurityPolicy, 'require_mfa_for_privileged_roles'>, userId: string) {
+  const { error } = await supabase
+    .from('security_policies')
+    .update({ ...changes, updated_by: userId, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) throw error;
+}
+
+/**
+ * Whether the organization policy makes 2FA mandatory for this user
+ */
+export function isMfaMandatory(user: User, policy: SecurityPolicy): boolean {
+  return policy.require_mfa_for_privileged_roles && (user.role === 'admin' || user.role === 'project_manager');
+}
+
+/**
+ * Whether sensitive actions need a fresh 2FA check, from the user's own
+ * setting or the organization policy
+ */
+export async function fetchStepUpRequired(userId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('step_up_required', { p_user_id: userId });
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * The user's verified authenticator app, if they have enrolled one
+ */
+export async function fetchTotpFactorId(): Promise<string | null> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+
+  if (error) throw error;
+  return data.totp.find(factor => factor.status === 'verified')?.id ?? null;
+}
+
+/**
+ * Whether this session has passed the user's authenticator, or a backup code,
+ * since signing in. Users without one always pass; the rest get no data until
+ * they do.
+ */
+export async function fetchLoginMfaVerified(): Promise<boolean> {
+  const { data, error } = await supabase.rpc('login_mfa_verified');
+
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Whether the current session passed an authenticator check recently enough
+ */
+export async function hasRecentTotpCheck(): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (error) throw error;
+  const cutoff = Date.now() / 1000 - STEP_UP_WINDOW_SECONDS;
+  return data.currentAuthenticationMethods.some(entry => entry.method === 'totp' && entry.timestamp > cutoff);
+}
+
+/**
+ * Checks an authenticator code. On success the session is refreshed with the
+ * check recorded in its claims, which the database reads.
+ */
+export async function verifyStepUpTotp(factorId: string, code: string) {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+  if (error) throw error;
+}
+
+/**
+ * Uses up a backup code as the check for this session. Returns when the check
+ * was recorded, or null if the code was wrong.
+ */
+export async function verifyStepUpBackupCode(code: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('verify_step_up_backup_code', { p_code: code });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Records a newly enrolled authenticator on the profile so the rest of the app
+ * shows 2FA as on
+ */
+export async function markMfaEnabled(userId: string) {
+  const { error: authError } = await supabase.auth.updateUser({ data: { mfa_enabled: true } });
+  if (authError) throw authError;
+
+  const { error } = await supabase
+    .from('users')
+    .update({ mfa_enabled: true, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,181 @@
+import { supabase } from '../supabase';
+import { fetchOpenBlockers, BLOCKED_STATUSES } from './taskDependencies';
+import type { SubtaskSuggestion, Task, TaskChecklistItem, TaskStatus } from '../../types/task';
+
+// Columns to add to a task select so progress can be derived without extra queries
+export const TASK_PROGRESS_SELECT = `
+  subtasks:tasks!tasks_parent_task_id_fkey(id, status),
+  checklist_items:task_checklist_items(id, is_completed)
+`;
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * Progress of a task derived from its subtasks and checklist items, each
+ * counting as one step. Returns null for tasks with neither.
+ */
+export function getTaskProgress(task: Pick<Task, 'subtasks' | 'checklist_items'>): TaskProgress | null {
+  const subtasks = task.subtasks || [];
+  const items = task.checklist_items || [];
+  const total = subtasks.length + items.length;
+  if (total === 0) return null;
+
+  const completed =
+    subtasks.filter(subtask => subtask.status === 'completed').length +
+    items.filter(item => item.is_completed).length;
+
+  return { completed, total, percent: Math.round((completed / total) * 100) };
+}
+
+/**
+ * Drops tasks that have been broken down into subtasks, so each piece of work
+ * is counted once in statistics
+ */
+export function getLeafTasks<T extends Pick<Task, 'id' | 'parent_task_id'>>(tasks: T[]): T[] {
+  const parentIds = new Set(tasks.map(task => task.parent_task_id).filter(Boolean));
+  return tasks.filter(task => !parentIds.has(task.id));
+}
+
+export async function fetchSubtasks(parentTaskId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(`
+      *,
+      assignee:assigned_to(id, full_name, email)
+    `)
+    .eq('parent_task_id', parentTaskId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates subtasks under a task. They inherit the parent's project, phase and
+ * priority; the assignee defaults to the parent's.
+ */
+export async function createSubtasks(
+  parent: Pick<Task, 'id' | 'project_id' | 'phase_id' | 'priority' | 'assigned_to' | 'due_date'>,
+  subtasks: SubtaskSuggestion[],
+  userId: string
+): Promise<Task[]> {
+  if (subtasks.length === 0) return [];
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert(subtasks.map(subtask => ({
+      project_id: parent.project_id,
+      parent_task_id: parent.id,
+      title: subtask.title.trim(),
+      description: subtask.description?.trim() || null,
+      estimated_hours: subtask.estimated_hours ?? null,
+      status: 'todo',
+      priority: parent.priority,
+      phase_id: parent.phase_id,
+      assigned_to: parent.assigned_to,
+      due_date: parent.due_date,
+      created_by: userId,
+      created_at: now,
+      updated_at: now
+    })))
+    .select(`
+      *,
+      assignee:assigned_to(id, full_name, email)
+    `);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Changes a subtask's status, refusing to start or complete it while any of
+ * its blockers are still open
+ */
+export async function updateSubtaskStatus(subtask: Pick<Task, 'id' | 'status'>, status: TaskStatus) {
+  if (status !== subtask.status && BLOCKED_STATUSES.includes(status)) {
+    const openBlockers = await fetchOpenBlockers(subtask.id);
+    if (openBlockers.length > 0) {
+      const names = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+      throw new Error(`Task is blocked by ${names}`);
+    }
+  }
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', subtask.id);
+
+  if (error) throw error;
+}
+
+export async function fetchChecklistItems(taskId: string): Promise<TaskChecklistItem[]> {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Appends items to the end of a task's checklist
+ */
+export async function addChecklistItems(
+  taskId: string,
+  contents: string[],
+  userId: string,
+  startPosition = 0
+): Promise<TaskChecklistItem[]> {
+  const items = contents.map(content => content.trim()).filter(Boolean);
+  if (items.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .insert(items.map((content, index) => ({
+      task_id: taskId,
+      content,
+      position: startPosition + index,
+      created_by: userId
+    })))
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function setChecklistItemCompleted(
+  itemId: string,
+  isCompleted: boolean,
+  userId: string
+): Promise<TaskChecklistItem> {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .update({
+      is_completed: isCompleted,
+      completed_by: isCompleted ? userId : null,
+      completed_at: isCompleted ? new Date().toISOString() : null
+    })
+    .eq('id', itemId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteChecklistItem(itemId: string) {
+  const { error } = await supabase
+    .from('task_checklist_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) throw error;
+}
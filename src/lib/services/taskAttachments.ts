@@ -0,0 +1,139 @@
+import { supabase } from '../supabase';
+import type { Task, TaskAttachment } from '../../types/task';
+
+export const TASK_ATTACHMENTS_BUCKET = 'task-attachments';
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/zip'
+];
+
+// Signed download links stay valid for an hour
+const SIGNED_URL_TTL = 60 * 60;
+
+/**
+ * Returns an error message if the file can't be attached, or null if it can
+ */
+export function validateAttachment(file: File): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `"${file.name}" has an unsupported file type`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}" exceeds the ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB limit`;
+  }
+  return null;
+}
+
+export async function fetchTaskAttachments(taskId: string): Promise<TaskAttachment[]> {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select(`
+      *,
+      uploader:uploaded_by(id, full_name)
+    `)
+    .eq('task_id', taskId)
+    .order('uploaded_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Uploads a file to the task-attachments bucket and records it against the task.
+ * The object lives under `<project_id>/<task_id>/` so storage policies can check
+ * project membership from the path.
+ */
+export async function uploadTaskAttachment(
+  task: Pick<Task, 'id' | 'project_id'>,
+  file: File,
+  userId: string
+): Promise<TaskAttachment> {
+  const validationError = validateAttachment(file);
+  if (validationError) throw new Error(validationError);
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const filePath = `${task.project_id}/${task.id}/${Date.now()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      contentType: file.type,
+      upsert: false
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert([{
+      task_id: task.id,
+      file_name: file.name,
+      file_url: filePath,
+      file_type: file.type,
+      file_size: file.size,
+      uploaded_by: userId
+    }])
+    .select(`
+      *,
+      uploader:uploaded_by(id, full_name)
+    `)
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned object behind if the row couldn't be written
+    await supabase.storage.from(TASK_ATTACHMENTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Creates a short-lived link to an attachment; `download` forces a save dialog
+ */
+export async function getAttachmentUrl(attachment: TaskAttachment, download = false): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.file_url, SIGNED_URL_TTL, download ? { download: attachment.file_name } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/**
+ * Deletes the attachment row, then its file. A file left behind is only
+ * unreachable storage; a row left behind would point at a missing file.
+ */
+export async function deleteTaskAttachment(attachment: TaskAttachment) {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .delete()
+    .eq('id', attachment.id)
+    .select('id');
+
+  if (error) throw error;
+  if (!data?.length) {
+    throw new Error('You do not have permission to delete this attachment');
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .remove([attachment.file_url]);
+
+  if (removeError) {
+    console.error('Error removing attachment file:', removeError);
+  }
+}
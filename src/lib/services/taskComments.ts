@@ -0,0 +1,163 @@
+import { supabase } from '../supabase';
+import { logActivity } from './activityLogger';
+import type { Task, TaskComment } from '../../types/task';
+import type { User } from '../../types/auth';
+
+type Mentionable = Pick<User, 'id' | 'full_name'>;
+
+/**
+ * Fetches every comment of a task, oldest first, with the author attached
+ */
+export async function fetchTaskComments(taskId: string): Promise<TaskComment[]> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select(`
+      *,
+      user:user_id(id, full_name, email, avatar_url)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns the members mentioned as `@full_name` in a comment. Names are matched
+ * longest first so "@Ann Lee" is not also read as a mention of "Ann", and must
+ * end at a word boundary so "@Annabel" is not a mention of "Ann" either.
+ */
+export function extractMentions(content: string, members: Mentionable[]): Mentionable[] {
+  const text = content.toLowerCase();
+  const mentioned: Mentionable[] = [];
+  let remaining = text;
+
+  [...members]
+    .filter(member => member.full_name)
+    .sort((a, b) => b.full_name.length - a.full_name.length)
+    .forEach(member => {
+      const handle = new RegExp(`@${escapeRegExp(member.full_name.toLowerCase())}(?![\\p{L}\\p{N}_])`, 'gu');
+      if (remaining.search(handle) !== -1) {
+        mentioned.push(member);
+        remaining = remaining.replace(handle, ' ');
+      }
+    });
+
+  return mentioned;
+}
+
+/**
+ * Sends an in-app notification to every mentioned member except the author
+ */
+async function notifyMentions(
+  task: Pick<Task, 'id' | 'title' | 'project_id'>,
+  author: Pick<User, 'id' | 'full_name'>,
+  mentioned: Mentionable[]
+) {
+  const recipients = mentioned.filter(member => member.id !== author.id);
+  if (recipients.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(recipients.map(member => ({
+      user_id: member.id,
+      type: 'mention',
+      title: `${author.full_name} mentioned you`,
+      message: `You were mentioned in a comment on "${task.title}"`,
+      link: `/admin/projects/${task.project_id}?task=${task.id}`
+    })));
+
+  if (error) throw error;
+}
+
+/**
+ * Adds a comment (or a reply when `parentCommentId` is set), notifies mentioned
+ * members and records the comment in the project activity log
+ */
+export async function addTaskComment({
+  task,
+  author,
+  content,
+  parentCommentId = null,
+  members = []
+}: {
+  task: Pick<Task, 'id' | 'title' | 'project_id'>;
+  author: Pick<User, 'id' | 'full_name'>;
+  content: string;
+  parentCommentId?: string | null;
+  members?: Mentionable[];
+}): Promise<TaskComment> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert([{
+      task_id: task.id,
+      user_id: author.id,
+      content,
+      parent_comment_id: parentCommentId
+    }])
+    .select(`
+      *,
+      user:user_id(id, full_name, email, avatar_url)
+    `)
+    .single();
+
+  if (error) throw error;
+
+  const mentioned = extractMentions(content, members);
+
+  try {
+    await notifyMentions(task, author, mentioned);
+  } catch (notifyError) {
+    console.error('Error sending mention notifications:', notifyError);
+  }
+
+  try {
+    await logActivity({
+      projectId: task.project_id,
+      userId: author.id,
+      activityType: 'comment',
+      title: `Comment on: ${task.title}`,
+      description: content,
+      relatedEntityId: task.id,
+      relatedEntityType: 'task',
+      metadata: {
+        task_id: task.id,
+        task_title: task.title,
+        comment_id: data.id,
+        parent_comment_id: parentCommentId,
+        mentioned_user_ids: mentioned.map(member => member.id)
+      }
+    });
+  } catch (logError) {
+    // Don't fail the comment if logging fails
+    console.error('Error logging comment activity:', logError);
+  }
+
+  return data;
+}
+
+export async function updateTaskComment(commentId: string, content: string): Promise<TaskComment> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .update({ content, updated_at: new Date().toISOString() })
+    .eq('id', commentId)
+    .select(`
+      *,
+      user:user_id(id, full_name, email, avatar_url)
+    `)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaskComment(commentId: string) {
+  const { error } = await supabase
+    .from('task_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,173 @@
+import { supabase } from '../supabase';
+import type { Task, TaskDependency, TaskStatus } from '../../types/task';
+import type { Phase } from '../../types/phase';
+
+type DependencyTask = NonNullable<TaskDependency['dependency']>;
+
+// Statuses that may only be entered once every blocker is completed
+export const BLOCKED_STATUSES: TaskStatus[] = ['in_progress', 'completed'];
+
+/**
+ * Fetches all "blocked by" links whose dependent task belongs to the project
+ */
+export async function fetchProjectDependencies(projectId: string): Promise<TaskDependency[]> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select(`
+      dependent_task_id,
+      dependency_task_id,
+      created_at,
+      dependent:dependent_task_id!inner(project_id),
+      dependency:dependency_task_id(id, title, status, phase_id)
+    `)
+    .eq('dependent.project_id', projectId);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as (TaskDependency & { dependent?: unknown })[]).map(row => ({
+    dependent_task_id: row.dependent_task_id,
+    dependency_task_id: row.dependency_task_id,
+    created_at: row.created_at,
+    dependency: row.dependency,
+  }));
+}
+
+/**
+ * Returns the blockers of a task that are not completed yet, read straight from
+ * the database so the check does not depend on what the caller has loaded
+ */
+export async function fetchOpenBlockers(taskId: string): Promise<DependencyTask[]> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('dependency:dependency_task_id(id, title, status, phase_id)')
+    .eq('dependent_task_id', taskId);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as { dependency: DependencyTask | null }[])
+    .map(row => row.dependency)
+    .filter((dependency): dependency is DependencyTask =>
+      !!dependency && dependency.status !== 'completed'
+    );
+}
+
+export async function addDependency(dependentTaskId: string, dependencyTaskId: string) {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .insert([{ dependent_task_id: dependentTaskId, dependency_task_id: dependencyTaskId }]);
+
+  if (error) throw error;
+}
+
+export async function removeDependency(dependentTaskId: string, dependencyTaskId: string) {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('dependent_task_id', dependentTaskId)
+    .eq('dependency_task_id', dependencyTaskId);
+
+  if (error) throw error;
+}
+
+/**
+ * Replaces the blockers of a task with the given list, inserting and deleting
+ * only the links that changed
+ */
+export async function setTaskBlockers(
+  taskId: string,
+  blockerIds: string[],
+  dependencies: TaskDependency[]
+) {
+  const current = dependencies
+    .filter(dep => dep.dependent_task_id === taskId)
+    .map(dep => dep.dependency_task_id);
+
+  const toAdd = blockerIds.filter(id => !current.includes(id));
+  const toRemove = current.filter(id => !blockerIds.includes(id));
+
+  for (const id of toRemove) {
+    await removeDependency(taskId, id);
+  }
+  for (const id of toAdd) {
+    await addDependency(taskId, id);
+  }
+}
+
+/**
+ * Returns the blocker IDs of each task, keyed by dependent task ID
+ */
+export function buildBlockerMap(dependencies: TaskDependency[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  dependencies.forEach(dep => {
+    const blockers = map.get(dep.dependent_task_id) || [];
+    blockers.push(dep.dependency_task_id);
+    map.set(dep.dependent_task_id, blockers);
+  });
+  return map;
+}
+
+/**
+ * Returns the chain of task IDs that would close a cycle if `dependentTaskId`
+ * became blocked by `dependencyTaskId`, or null if the link is safe
+ */
+export function findDependencyCycle(
+  dependencies: TaskDependency[],
+  dependentTaskId: string,
+  dependencyTaskId: string
+): string[] | null {
+  if (dependentTaskId === dependencyTaskId) {
+    return [dependentTaskId, dependentTaskId];
+  }
+
+  const blockerMap = buildBlockerMap(dependencies);
+  const visited = new Set<string>();
+
+  // Walk the blockers of the new dependency; reaching the dependent task means a cycle
+  const walk = (taskId: string, path: string[]): string[] | null => {
+    if (taskId === dependentTaskId) return path;
+    if (visited.has(taskId)) return null;
+    visited.add(taskId);
+
+    for (const blockerId of blockerMap.get(taskId) || []) {
+      const cycle = walk(blockerId, [...path, blockerId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  return walk(dependencyTaskId, [dependentTaskId, dependencyTaskId]);
+}
+
+/**
+ * Returns the blockers of a task that are not completed yet
+ */
+export function getOpenBlockers(taskId: string, dependencies: TaskDependency[]) {
+  return dependencies
+    .filter(dep => dep.dependent_task_id === taskId)
+    .map(dep => dep.dependency)
+    .filter((dependency): dependency is DependencyTask =>
+      !!dependency && dependency.status !== 'completed'
+    );
+}
+
+/**
+ * Describes a link where the blocking task sits in a later phase than the task
+ * it blocks, which means the work cannot follow the phase sequence_order
+ */
+export function getPhaseOrderWarning(
+  dependentTask: Pick<Task, 'phase_id'>,
+  dependencyTask: { title: string; phase_id: string | null },
+  phases: Pick<Phase, 'id' | 'name' | 'sequence_order'>[]
+): string | null {
+  if (!dependentTask.phase_id || !dependencyTask.phase_id) return null;
+  if (dependentTask.phase_id === dependencyTask.phase_id) return null;
+
+  const dependentPhase = phases.find(p => p.id === dependentTask.phase_id);
+  const dependencyPhase = phases.find(p => p.id === dependencyTask.phase_id);
+  if (!dependentPhase || !dependencyPhase) return null;
+
+  if (dependencyPhase.sequence_order > dependentPhase.sequence_order) {
+    return `"${dependencyTask.title}" is in phase "${dependencyPhase.name}", which comes after "${dependentPhase.name}"`;
+  }
+  return null;
+}
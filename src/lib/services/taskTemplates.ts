@@ -0,0 +1,140 @@
+import { supabase } from '../supabase';
+import { getNextOccurrence } from '../recurrence';
+import type { TaskRecurrence, TaskTemplate } from '../../types/task';
+
+export type TaskTemplateInput = Pick<
+  TaskTemplate,
+  'project_id' | 'name' | 'title' | 'description' | 'priority' | 'estimated_hours' | 'checklist' | 'phase_id'
+>;
+
+export type TaskRecurrenceInput = Pick<
+  TaskRecurrence,
+  | 'template_id'
+  | 'project_id'
+  | 'assigned_to'
+  | 'frequency'
+  | 'interval_count'
+  | 'weekdays'
+  | 'day_of_month'
+  | 'cron_expression'
+  | 'starts_at'
+  | 'ends_at'
+  | 'due_offset_days'
+  | 'active'
+>;
+
+const RECURRENCE_SELECT = `
+  *,
+  template:template_id(id, name, title),
+  assignee:assigned_to(id, full_name)
+`;
+
+/**
+ * Templates available to a project: its own library plus the shared one
+ */
+export async function fetchTaskTemplates(projectId: string): Promise<TaskTemplate[]> {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .or(`project_id.eq.${projectId},project_id.is.null`)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveTaskTemplate(
+  template: TaskTemplateInput,
+  userId: string,
+  templateId?: string
+): Promise<TaskTemplate> {
+  const query = templateId
+    ? supabase
+        .from('task_templates')
+        .update({ ...template, updated_at: new Date().toISOString() })
+        .eq('id', templateId)
+    : supabase
+        .from('task_templates')
+        .insert([{ ...template, created_by: userId }]);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaskTemplate(templateId: string) {
+  const { error } = await supabase
+    .from('task_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
+
+export async function fetchTaskRecurrences(projectId: string): Promise<TaskRecurrence[]> {
+  const { data, error } = await supabase
+    .from('task_recurrences')
+    .select(RECURRENCE_SELECT)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates or updates a recurrence rule. The next run is recalculated from the
+ * rule itself so edits to the schedule take effect straight away.
+ */
+export async function saveTaskRecurrence(
+  recurrence: TaskRecurrenceInput,
+  userId: string,
+  recurrenceId?: string
+): Promise<TaskRecurrence> {
+  const now = new Date();
+  // Start from now so saving a rule with a past start date doesn't backfill tasks
+  const nextRun = getNextOccurrence(recurrence, now);
+  const payload = {
+    ...recurrence,
+    next_run_at: nextRun ? nextRun.toISOString() : null,
+    active: recurrence.active && nextRun !== null,
+  };
+
+  const query = recurrenceId
+    ? supabase
+        .from('task_recurrences')
+        .update({ ...payload, updated_at: now.toISOString() })
+        .eq('id', recurrenceId)
+    : supabase
+        .from('task_recurrences')
+        .insert([{ ...payload, created_by: userId }]);
+
+  const { data, error } = await query.select(RECURRENCE_SELECT).single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaskRecurrence(recurrenceId: string) {
+  const { error } = await supabase
+    .from('task_recurrences')
+    .delete()
+    .eq('id', recurrenceId);
+
+  if (error) throw error;
+}
+
+/**
+ * Asks the generator to create any recurring tasks that are due for the project.
+ * The scheduled job does this too; calling it on load covers projects where
+ * the schedule isn't configured. Returns the number of tasks created.
+ */
+export async function generateDueRecurringTasks(projectId: string): Promise<number> {
+  const { data, error } = await supabase.functions.invoke('generate-recurring-tasks', {
+    body: { project_id: projectId },
+  });
+
+  if (error) throw error;
+  return data?.created || 0;
+}
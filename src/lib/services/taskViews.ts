@@ -0,0 +1,71 @@
+import { supabase } from '../supabase';
+import type { SavedTaskView, TaskViewConfig } from '../../types/task';
+
+export type SavedTaskViewInput = TaskViewConfig & {
+  name: string;
+  is_shared: boolean;
+};
+
+const VIEW_SELECT = `
+  *,
+  owner:user_id(id, full_name)
+`;
+
+/**
+ * Views for the Tasks page (no project) or for one project's board: the
+ * user's own views plus, for a project, those shared by other members
+ */
+export async function fetchTaskViews(userId: string, projectId: string | null): Promise<SavedTaskView[]> {
+  let query = supabase
+    .from('saved_task_views')
+    .select(VIEW_SELECT)
+    .order('name', { ascending: true });
+
+  query = projectId
+    ? query.eq('project_id', projectId).or(`user_id.eq.${userId},is_shared.eq.true`)
+    : query.is('project_id', null).eq('user_id', userId);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveTaskView(
+  view: SavedTaskViewInput,
+  userId: string,
+  projectId: string | null,
+  viewId?: string
+): Promise<SavedTaskView> {
+  const values = {
+    name: view.name.trim(),
+    is_shared: projectId ? view.is_shared : false,
+    filters: view.filters,
+    columns: view.columns,
+    group_by: view.group_by,
+    sort: view.sort
+  };
+
+  const query = viewId
+    ? supabase
+        .from('saved_task_views')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', viewId)
+    : supabase
+        .from('saved_task_views')
+        .insert([{ ...values, user_id: userId, project_id: projectId }]);
+
+  const { data, error } = await query.select(VIEW_SELECT).single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTaskView(viewId: string) {
+  const { error } = await supabase
+    .from('saved_task_views')
+    .delete()
+    .eq('id', viewId);
+
+  if (error) throw error;
+}
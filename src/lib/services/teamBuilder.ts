@@ -0,0 +1,205 @@
+import { supabase } from '../supabase';
+import { calculateMemberWorkload, fetchOtherProjectTasks } from './workload';
+import { normalizeSkill, parseCVSkills, skillLevelWeight } from '../skills';
+import type { SkillEntry } from '../skills';
+import type { User } from '../../types/auth';
+
+// Open hours at which a candidate counts as fully booked (two working weeks)
+const CAPACITY_HOURS = 80;
+
+const WEIGHTS = {
+  skills: 0.6,
+  availability: 0.25,
+  interview: 0.15,
+};
+
+export interface CandidateInterview {
+  interview_date: string;
+  result: 'passed' | 'failed' | 'pending' | null;
+  score: number | null;
+}
+
+export interface CandidateProfile {
+  user: Pick<User, 'id' | 'full_name' | 'email' | 'department' | 'position' | 'avatar_url'>;
+  skills: SkillEntry[];
+  experienceText: string; // work history searched for skills that aren't listed explicitly
+  interviews: CandidateInterview[];
+  pastProjects: number;
+  openTasks: number;
+  openHours: number; // across all projects
+}
+
+export interface SkillMatch {
+  skill: string;
+  matchedAs: string | null;
+  source: 'skills' | 'experience' | null;
+  score: number; // 0-1
+}
+
+export interface CandidateRanking {
+  profile: CandidateProfile;
+  score: number; // 0-100
+  skillScore: number;
+  availabilityScore: number;
+  interviewScore: number;
+  matches: SkillMatch[];
+  explanation: string[];
+}
+
+function matchSkill(required: string, profile: CandidateProfile): SkillMatch {
+  const wanted = normalizeSkill(required);
+  let best: SkillMatch = { skill: required, matchedAs: null, source: null, score: 0 };
+
+  for (const skill of profile.skills) {
+    const name = normalizeSkill(skill.name);
+    if (!name) continue;
+    const closeness = name === wanted ? 1 : name.includes(wanted) || wanted.includes(name) ? 0.8 : 0;
+    const score = closeness * skillLevelWeight(skill.level);
+    if (score > best.score) {
+      best = { skill: required, matchedAs: skill.level ? `${skill.name} (${skill.level})` : skill.name, source: 'skills', score };
+    }
+  }
+
+  if (best.score === 0 && wanted && normalizeSkill(profile.experienceText).includes(wanted)) {
+    best = { skill: required, matchedAs: required, source: 'experience', score: 0.4 };
+  }
+
+  return best;
+}
+
+function scoreInterview(interviews: CandidateInterview[]): { score: number; note: string } {
+  const latest = [...interviews]
+    .filter(interview => interview.result && interview.result !== 'pending')
+    .sort((a, b) => b.interview_date.localeCompare(a.interview_date))[0];
+
+  if (!latest) return { score: 0.5, note: 'No completed interviews on record' };
+  if (latest.result === 'failed') return { score: 0.2, note: 'Did not pass their latest interview' };
+
+  const score = latest.score ?? 80;
+  return { score: score / 100, note: `Passed their latest interview${latest.score !== null ? ` (score ${latest.score})` : ''}` };
+}
+
+/**
+ * Ranks candidates by how well they cover the required skills, how much open
+ * work they already carry and how their interviews went, best first
+ */
+export function rankCandidates(profiles: CandidateProfile[], requiredSkills: string[]): CandidateRanking[] {
+  const skills = requiredSkills.map(skill => skill.trim()).filter(Boolean);
+
+  return profiles
+    .map(profile => {
+      const matches = skills.map(skill => matchSkill(skill, profile));
+      const skillScore = matches.length
+        ? matches.reduce((sum, match) => sum + match.score, 0) / matches.length
+        : 0;
+      const availabilityScore = 1 - Math.min(profile.openHours / CAPACITY_HOURS, 1);
+      const interview = scoreInterview(profile.interviews);
+
+      const matched = matches.filter(match => match.source === 'skills');
+      const fromExperience = matches.filter(match => match.source === 'experience');
+      const missing = matches.filter(match => match.source === null);
+
+      const explanation: string[] = [];
+      if (matched.length > 0) {
+        explanation.push(`Has ${matched.map(match => match.matchedAs).join(', ')}`);
+      }
+      if (fromExperience.length > 0) {
+        explanation.push(`Work history mentions ${fromExperience.map(match => match.skill).join(', ')}`);
+      }
+      if (missing.length > 0) {
+        explanation.push(`No record of ${missing.map(match => match.skill).join(', ')}`);
+      }
+      explanation.push(
+        profile.openTasks > 0
+          ? `${profile.openHours}h of open work across ${profile.openTasks} task${profile.openTasks === 1 ? '' : 's'}`
+          : 'No open tasks, fully available'
+      );
+      explanation.push(interview.note);
+      if (profile.pastProjects > 0) {
+        explanation.push(`Worked on ${profile.pastProjects} project${profile.pastProjects === 1 ? '' : 's'} before`);
+      }
+
+      const score = Math.round(
+        (skillScore * WEIGHTS.skills + availabilityScore * WEIGHTS.availability + interview.score * WEIGHTS.interview) * 100
+      );
+
+      return {
+        profile,
+        score,
+        skillScore,
+        availabilityScore,
+        interviewScore: interview.score,
+        matches,
+        explanation,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.skillScore - a.skillScore);
+}
+
+/**
+ * Talent data for every active staff member who isn't on the project yet
+ */
+export async function fetchCandidateProfiles(projectId: string): Promise<CandidateProfile[]> {
+  const { data: members, error: membersError } = await supabase
+    .from('project_members')
+    .select('user_id')
+    .eq('project_id', projectId);
+
+  if (membersError) throw membersError;
+  const memberIds = new Set((members || []).map(member => member.user_id));
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, full_name, email, department, position, avatar_url')
+    .eq('status', 'active')
+    .neq('role', 'guest')
+    .order('full_name');
+
+  if (usersError) throw usersError;
+  const candidates = (users || []).filter(user => !memberIds.has(user.id));
+  if (candidates.length === 0) return [];
+  const ids = candidates.map(user => user.id);
+
+  const [skillsResult, experienceResult, interviewsResult, cvResult, recordsResult, openTasks] = await Promise.all([
+    supabase.from('skills').select('user_id, name, level').in('user_id', ids),
+    supabase.from('work_experience').select('user_id, position, responsibilities, achievements').in('user_id', ids),
+    supabase.from('user_interviews').select('user_id, interview_date, result, score').in('user_id', ids),
+    supabase.from('cv_parsed_data').select('user_id, skills, work_experience').in('user_id', ids),
+    supabase.from('team_member_records').select('user_id, project_id').in('user_id', ids),
+    fetchOtherProjectTasks(projectId, ids),
+  ]);
+
+  if (skillsResult.error) throw skillsResult.error;
+  if (experienceResult.error) throw experienceResult.error;
+  if (interviewsResult.error) throw interviewsResult.error;
+  if (recordsResult.error) throw recordsResult.error;
+  if (cvResult.error) {
+    // CVs are optional input; rank on the remaining data
+    console.error('Error fetching CV data:', cvResult.error);
+  }
+
+  const workloads = calculateMemberWorkload([], candidates, openTasks);
+
+  return candidates.map(user => {
+    const cv = cvResult.data?.find(row => row.user_id === user.id);
+    const listedSkills = (skillsResult.data || [])
+      .filter(skill => skill.user_id === user.id)
+      .map(skill => ({ name: skill.name, level: skill.level }));
+    const experience = (experienceResult.data || [])
+      .filter(row => row.user_id === user.id)
+      .flatMap(row => [row.position, ...(row.responsibilities || []), ...(row.achievements || [])]);
+    const workload = workloads.find(row => row.userId === user.id);
+
+    return {
+      user,
+      skills: [...listedSkills, ...parseCVSkills(cv?.skills)],
+      experienceText: [user.position, ...experience, cv?.work_experience].filter(Boolean).join('\n'),
+      interviews: (interviewsResult.data || []).filter(interview => interview.user_id === user.id),
+      pastProjects: new Set(
+        (recordsResult.data || []).filter(record => record.user_id === user.id).map(record => record.project_id)
+      ).size,
+      openTasks: workload?.otherProjectTasks || 0,
+      openHours: workload?.otherProjectHours || 0,
+    };
+  });
+}
@@ -0,0 +1,232 @@
+import { supabase } from '../supabase';
+import type { TimeEntry } from '../../types/task';
+
+const TIME_ENTRY_SELECT = `
+  *,
+  user:user_id(id, full_name),
+  task:task_id(id, title, project_id, estimated_hours, project:projects(id, name))
+`;
+
+export interface TaskWithLoggedTime {
+  id: string;
+  title: string;
+  assigned_to: string | null;
+  estimated_hours: number | null;
+  time_entries?: { duration_minutes: number | null }[];
+}
+
+export interface EstimateComparison {
+  id: string;
+  title: string;
+  estimated: number;
+  actual: number;
+}
+
+export interface EstimateAccuracy {
+  userId: string | null; // null for the team as a whole
+  name: string;
+  tasks: number;
+  estimatedHours: number;
+  actualHours: number;
+  ratio: number; // actual / estimated, so >1 means work took longer than estimated
+}
+
+/**
+ * Minutes recorded on an entry; a running timer counts up to now
+ */
+export function getEntryMinutes(entry: TimeEntry, now: Date = new Date()): number {
+  if (entry.duration_minutes !== null) return entry.duration_minutes;
+  return Math.max(0, Math.round((now.getTime() - new Date(entry.started_at).getTime()) / 60000));
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+export async function fetchTaskTimeEntries(taskId: string): Promise<TimeEntry[]> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_SELECT)
+    .eq('task_id', taskId)
+    .order('started_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchUserTimeEntries(userId: string, from: Date, to: Date): Promise<TimeEntry[]> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_SELECT)
+    .eq('user_id', userId)
+    .gte('started_at', from.toISOString())
+    .lt('started_at', to.toISOString())
+    .order('started_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchRunningTimer(userId: string): Promise<TimeEntry | null> {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_SELECT)
+    .eq('user_id', userId)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function stopTimer(entry: TimeEntry): Promise<TimeEntry> {
+  const endedAt = new Date();
+  const { data, error } = await supabase
+    .from('time_entries')
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_minutes: getEntryMinutes(entry, endedAt)
+    })
+    .eq('id', entry.id)
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Starts a timer on the task. Users can only run one timer at a time, so any
+ * timer already running (on this or another task) is stopped first.
+ */
+export async function startTimer(taskId: string, userId: string): Promise<TimeEntry> {
+  const running = await fetchRunningTimer(userId);
+  if (running) {
+    await stopTimer(running);
+  }
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert([{
+      task_id: taskId,
+      user_id: userId,
+      started_at: new Date().toISOString()
+    }])
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function addManualTimeEntry({
+  taskId,
+  userId,
+  date,
+  minutes,
+  note
+}: {
+  taskId: string;
+  userId: string;
+  date: Date;
+  minutes: number;
+  note?: string;
+}): Promise<TimeEntry> {
+  const endedAt = new Date(date.getTime() + minutes * 60000);
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert([{
+      task_id: taskId,
+      user_id: userId,
+      started_at: date.toISOString(),
+      ended_at: endedAt.toISOString(),
+      duration_minutes: minutes,
+      note: note || null,
+      is_manual: true
+    }])
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteTimeEntry(entryId: string) {
+  const { error } = await supabase
+    .from('time_entries')
+    .delete()
+    .eq('id', entryId);
+
+  if (error) throw error;
+}
+
+/**
+ * Pairs each estimated task with the hours logged against it. Tasks without an
+ * estimate or without any logged time are left out since they can't be compared.
+ */
+export function compareEstimates(tasks: TaskWithLoggedTime[]): EstimateComparison[] {
+  return tasks
+    .map(task => ({
+      id: task.id,
+      title: task.title,
+      estimated: task.estimated_hours || 0,
+      actual: Math.round(
+        ((task.time_entries || []).reduce((sum, entry) => sum + (entry.duration_minutes || 0), 0) / 60) * 10
+      ) / 10
+    }))
+    .filter(row => row.estimated > 0 && row.actual > 0);
+}
+
+export async function fetchUserEstimateComparison(userId: string): Promise<EstimateComparison[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, assigned_to, estimated_hours, time_entries(duration_minutes)')
+    .eq('assigned_to', userId)
+    .not('estimated_hours', 'is', null)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return compareEstimates(data || []);
+}
+
+/**
+ * Historical estimate accuracy for the given users, based on their completed
+ * tasks. The first entry covers the whole group, followed by one per user.
+ */
+export async function fetchEstimateAccuracy(
+  users: Array<{ id: string; full_name: string }>
+): Promise<EstimateAccuracy[]> {
+  if (users.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, assigned_to, estimated_hours, time_entries(duration_minutes)')
+    .in('assigned_to', users.map(u => u.id))
+    .eq('status', 'completed')
+    .not('estimated_hours', 'is', null);
+
+  if (error) throw error;
+
+  const tasks = (data || []) as TaskWithLoggedTime[];
+  const summarize = (userId: string | null, name: string, subset: TaskWithLoggedTime[]): EstimateAccuracy => {
+    const rows = compareEstimates(subset);
+    const estimatedHours = rows.reduce((sum, row) => sum + row.estimated, 0);
+    const actualHours = rows.reduce((sum, row) => sum + row.actual, 0);
+    return {
+      userId,
+      name,
+      tasks: rows.length,
+      estimatedHours,
+      actualHours: Math.round(actualHours * 10) / 10,
+      ratio: estimatedHours > 0 ? Math.round((actualHours / estimatedHours) * 100) / 100 : 0
+    };
+  };
+
+  return [
+    summarize(null, 'Team', tasks),
+    ...users.map(user => summarize(user.id, user.full_name, tasks.filter(t => t.assigned_to === user.id)))
+  ].filter(accuracy => accuracy.tasks > 0);
+}
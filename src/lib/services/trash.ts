@@ -0,0 +1,58 @@
+import { supabase } from '../supabase';
+import type { TrashItem } from '../../types/trash';
+
+// How long deleted items stay restorable; matches trash_items.expires_at
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Moves a project to the trash along with its phases and tasks
+ */
+export async function trashProject(projectId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('trash_project', { p_project_id: projectId });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Moves a phase to the trash along with its tasks
+ */
+export async function trashPhase(phaseId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('trash_phase', { p_phase_id: phaseId });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Moves a task to the trash along with its subtasks
+ */
+export async function trashTask(taskId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('trash_task', { p_task_id: taskId });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Trash entries the current user can restore, most recently deleted first
+ */
+export async function fetchTrashItems(): Promise<TrashItem[]> {
+  const { data, error } = await supabase
+    .from('trash_items')
+    .select('*, deleter:deleted_by(id, full_name)')
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Brings an entry back with everything that was deleted with it. Fails while
+ * the project, phase or parent task it belongs to is still in the trash.
+ */
+export async function restoreTrashItem(trashItemId: string) {
+  const { error } = await supabase.rpc('restore_trash_item', { p_trash_item_id: trashItemId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,36 @@
+import { supabase } from '../supabase';
+import type { User, UserRole } from '../../types/auth';
+
+export interface UserAccessChanges {
+  email?: string;
+  role?: UserRole;
+  roleId?: string;
+}
+
+// The admin-users function checks step-up and permissions before using the
+// service role
+async function invokeAdminUsers<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('admin-users', { body });
+
+  if (error) {
+    // The function's JSON error is more useful than the generic non-2xx message
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data;
+}
+
+/**
+ * Deletes the user's account along with their profile
+ */
+export async function deleteUser(userId: string) {
+  await invokeAdminUsers({ action: 'delete', userId });
+}
+
+/**
+ * Changes another user's email or role and returns their updated profile
+ */
+export async function updateUserAccess(userId: string, changes: UserAccessChanges): Promise<User> {
+  const { user } = await invokeAdminUsers<{ user: User }>({ action: 'update_access', userId, ...changes });
+  return user;
+}
@@ -0,0 +1,40 @@
+import { supabase } from '../supabase';
+
+/**
+ * Hourly rates by user id. Only users who may see budgets can read them; for
+ * everyone else the result is empty.
+ */
+export async function fetchHourlyRates(userIds: string[]): Promise<Record<string, number>> {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('user_rates')
+    .select('user_id, hourly_rate')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.user_id, Number(row.hourly_rate)]));
+}
+
+export async function fetchHourlyRate(userId: string): Promise<number | null> {
+  const rates = await fetchHourlyRates([userId]);
+  return rates[userId] ?? null;
+}
+
+/**
+ * Sets the rate used to cost a user's logged hours; null removes it
+ */
+export async function setHourlyRate(userId: string, hourlyRate: number | null, updatedBy: string) {
+  const { error } = hourlyRate === null
+    ? await supabase.from('user_rates').delete().eq('user_id', userId)
+    : await supabase
+        .from('user_rates')
+        .upsert({
+          user_id: userId,
+          hourly_rate: hourlyRate,
+          updated_by: updatedBy,
+          updated_at: new Date().toISOString(),
+        });
+
+  if (error) throw error;
+}
@@ -0,0 +1,73 @@
+import { supabase } from '../supabase';
+import { getLeafTasks } from './subtasks';
+import type { Task } from '../../types/task';
+
+// Hours assumed for an open task that has no estimate
+export const DEFAULT_TASK_HOURS = 4;
+const DUE_SOON_DAYS = 14;
+
+type WorkloadTask = Pick<Task, 'id' | 'assigned_to' | 'status' | 'estimated_hours' | 'due_date' | 'parent_task_id'>;
+
+export interface MemberWorkload {
+  userId: string;
+  name: string;
+  openTasks: number;
+  openHours: number;
+  overdueTasks: number;
+  dueSoonHours: number; // open hours due within the next two weeks
+  otherProjectTasks: number;
+  otherProjectHours: number;
+}
+
+const isOpen = (task: WorkloadTask) => task.status !== 'completed';
+const taskHours = (task: WorkloadTask) => task.estimated_hours || DEFAULT_TASK_HOURS;
+
+/**
+ * Open work per member, counting broken-down tasks through their subtasks.
+ * Tasks from other projects only add to the other-project totals.
+ */
+export function calculateMemberWorkload(
+  tasks: WorkloadTask[],
+  members: { id: string; full_name: string }[],
+  otherProjectTasks: WorkloadTask[] = [],
+  now: Date = new Date()
+): MemberWorkload[] {
+  const openTasks = getLeafTasks(tasks).filter(isOpen);
+  const otherOpenTasks = getLeafTasks(otherProjectTasks).filter(isOpen);
+  const dueSoon = new Date(now.getTime() + DUE_SOON_DAYS * 24 * 60 * 60 * 1000);
+
+  return members.map(member => {
+    const memberTasks = openTasks.filter(task => task.assigned_to === member.id);
+    const memberOtherTasks = otherOpenTasks.filter(task => task.assigned_to === member.id);
+
+    return {
+      userId: member.id,
+      name: member.full_name,
+      openTasks: memberTasks.length,
+      openHours: memberTasks.reduce((sum, task) => sum + taskHours(task), 0),
+      overdueTasks: memberTasks.filter(task => task.due_date && new Date(task.due_date) < now).length,
+      dueSoonHours: memberTasks
+        .filter(task => task.due_date && new Date(task.due_date) <= dueSoon)
+        .reduce((sum, task) => sum + taskHours(task), 0),
+      otherProjectTasks: memberOtherTasks.length,
+      otherProjectHours: memberOtherTasks.reduce((sum, task) => sum + taskHours(task), 0),
+    };
+  });
+}
+
+/**
+ * Open tasks the given users hold in projects other than this one
+ */
+export async function fetchOtherProjectTasks(projectId: string, userIds: string[]): Promise<WorkloadTask[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, assigned_to, status, estimated_hours, due_date, parent_task_id')
+    .in('assigned_to', userIds)
+    .neq('project_id', projectId)
+    .neq('status', 'completed');
+
+  if (error) throw error;
+  return data || [];
+}
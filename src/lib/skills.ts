@@ -0,0 +1,57 @@
+export interface SkillEntry {
+  name: string;
+  level: string | null;
+}
+
+// Key used to treat "React", "react " and "REACT" as the same skill
+export const normalizeSkill = (value: string) => value.toLowerCase().replace(/[^a-z0-9+#.]+/g, ' ').trim();
+
+/**
+ * Weight of a free-text proficiency level; unknown levels count as intermediate
+ */
+export function skillLevelWeight(level: string | null): number {
+  const value = (level || '').toLowerCase();
+  if (/expert|advanced|senior|fluent/.test(value)) return 1;
+  if (/beginner|basic|junior|novice/.test(value)) return 0.5;
+  return 0.75;
+}
+
+/**
+ * Reads the skills section of a parsed CV, stored either as JSON or as the
+ * "Name - Level" lines CVSection writes
+ */
+export function parseCVSkills(text: string | null | undefined): SkillEntry[] {
+  if (!text || text === 'No information available') return [];
+
+  if (text.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map(item => (typeof item === 'string' ? { name: item, level: null } : { name: item?.name, level: item?.level || null }))
+          .filter((skill): skill is SkillEntry => typeof skill.name === 'string' && skill.name.trim().length > 0);
+      }
+    } catch {
+      // Fall through to the line format
+    }
+  }
+
+  return text
+    .split(/\n+/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [name, ...rest] = line.split(' - ');
+      return { name: name.trim(), level: rest.join(' - ').trim() || null };
+    });
+}
+
+/**
+ * Whether free text mentions a skill as a whole word, e.g. "Go" in "Go service"
+ * but not in "Google"
+ */
+export function mentionsSkill(text: string, skill: string): boolean {
+  const key = normalizeSkill(skill);
+  if (!key) return false;
+  return ` ${normalizeSkill(text)} `.includes(` ${key} `);
+}
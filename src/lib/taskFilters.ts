@@ -0,0 +1,197 @@
+import { format } from 'date-fns';
+import type {
+  Task,
+  TaskColumn,
+  TaskFilters,
+  TaskGroupBy,
+  TaskPriority,
+  TaskSort,
+  TaskStatus,
+  TaskViewConfig
+} from '../types/task';
+
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  in_review: 'In Review',
+  completed: 'Completed'
+};
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+const STATUS_ORDER: TaskStatus[] = ['todo', 'in_progress', 'in_review', 'completed'];
+const PRIORITY_ORDER: TaskPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+export const TASK_COLUMNS: { id: TaskColumn; label: string }[] = [
+  { id: 'status', label: 'Status' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'phase', label: 'Phase' },
+  { id: 'assignee', label: 'Assignee' },
+  { id: 'project', label: 'Project' },
+  { id: 'due_date', label: 'Due Date' },
+  { id: 'estimated_hours', label: 'Estimated Hours' }
+];
+
+export const EMPTY_TASK_FILTERS: TaskFilters = {
+  search: '',
+  statuses: [],
+  priorities: [],
+  assigneeIds: [],
+  phaseIds: [],
+  projectIds: [],
+  dueFrom: null,
+  dueTo: null,
+  overdue: false,
+  unassigned: false
+};
+
+export const DEFAULT_TASK_SORT: TaskSort = { field: 'created_at', direction: 'asc' };
+
+export const DEFAULT_TASK_VIEW: TaskViewConfig = {
+  filters: EMPTY_TASK_FILTERS,
+  columns: ['status', 'priority', 'phase', 'assignee', 'due_date', 'estimated_hours'],
+  group_by: 'none',
+  sort: DEFAULT_TASK_SORT
+};
+
+/**
+ * Fills in filters missing from a stored view, e.g. one saved before a filter
+ * was added
+ */
+export function normalizeTaskFilters(filters: Partial<TaskFilters> | null | undefined): TaskFilters {
+  return { ...EMPTY_TASK_FILTERS, ...(filters || {}) };
+}
+
+export function countActiveFilters(filters: TaskFilters): number {
+  return [
+    filters.search.trim() !== '',
+    filters.statuses.length > 0,
+    filters.priorities.length > 0,
+    filters.assigneeIds.length > 0,
+    filters.phaseIds.length > 0,
+    filters.projectIds.length > 0,
+    filters.dueFrom !== null || filters.dueTo !== null,
+    filters.overdue,
+    filters.unassigned
+  ].filter(Boolean).length;
+}
+
+export function isTaskOverdue(task: Pick<Task, 'due_date' | 'status'>, now = new Date()): boolean {
+  return !!task.due_date && task.status !== 'completed' && new Date(task.due_date) < now;
+}
+
+function matchesSearch(task: Task, search: string): boolean {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+
+  return [task.title, task.description, task.assignee?.full_name, task.phase?.name, task.project?.name]
+    .some(value => value?.toLowerCase().includes(query));
+}
+
+/**
+ * Returns the tasks matching every active filter. Within the assignee filter,
+ * picked people and "unassigned" are alternatives.
+ */
+export function applyTaskFilters<T extends Task>(tasks: T[], filters: TaskFilters, now = new Date()): T[] {
+  return tasks.filter(task => {
+    if (filters.statuses.length > 0 && !filters.statuses.includes(task.status)) return false;
+    if (filters.priorities.length > 0 && !filters.priorities.includes(task.priority)) return false;
+    if (filters.phaseIds.length > 0 && !(task.phase_id && filters.phaseIds.includes(task.phase_id))) return false;
+    if (filters.projectIds.length > 0 && !filters.projectIds.includes(task.project_id)) return false;
+
+    if (filters.assigneeIds.length > 0 || filters.unassigned) {
+      const matchesAssignee = !!task.assigned_to && filters.assigneeIds.includes(task.assigned_to);
+      const matchesUnassigned = filters.unassigned && !task.assigned_to;
+      if (!matchesAssignee && !matchesUnassigned) return false;
+    }
+
+    if (filters.dueFrom || filters.dueTo) {
+      if (!task.due_date) return false;
+      const due = format(new Date(task.due_date), 'yyyy-MM-dd');
+      if (filters.dueFrom && due < filters.dueFrom) return false;
+      if (filters.dueTo && due > filters.dueTo) return false;
+    }
+
+    if (filters.overdue && !isTaskOverdue(task, now)) return false;
+
+    return matchesSearch(task, filters.search);
+  });
+}
+
+/**
+ * Sorts a copy of the tasks. Tasks without a value for the sort field go last
+ * in either direction.
+ */
+export function sortTasks<T extends Task>(tasks: T[], sort: TaskSort): T[] {
+  const valueOf = (task: Task): string | number | null => {
+    switch (sort.field) {
+      case 'title': return task.title.toLowerCase();
+      case 'status': return STATUS_ORDER.indexOf(task.status);
+      case 'priority': return PRIORITY_ORDER.indexOf(task.priority);
+      case 'due_date': return task.due_date ? new Date(task.due_date).getTime() : null;
+      case 'estimated_hours': return task.estimated_hours;
+      case 'created_at': return new Date(task.created_at).getTime();
+    }
+  };
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...tasks].sort((a, b) => {
+    const valueA = valueOf(a);
+    const valueB = valueOf(b);
+    if (valueA === valueB) return 0;
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    return (valueA < valueB ? -1 : 1) * direction;
+  });
+}
+
+export interface TaskGroup<T extends Task = Task> {
+  key: string;
+  label: string;
+  tasks: T[];
+}
+
+/**
+ * Splits tasks into labelled groups, keeping their order within each group.
+ * Priorities follow their natural order; phases and assignees are alphabetical
+ * with the "none" group last.
+ */
+export function groupTasks<T extends Task>(tasks: T[], groupBy: TaskGroupBy): TaskGroup<T>[] {
+  if (groupBy === 'none') {
+    return [{ key: 'all', label: 'All tasks', tasks }];
+  }
+
+  if (groupBy === 'priority') {
+    return PRIORITY_ORDER
+      .map(priority => ({
+        key: priority,
+        label: PRIORITY_LABELS[priority],
+        tasks: tasks.filter(task => task.priority === priority)
+      }))
+      .filter(group => group.tasks.length > 0);
+  }
+
+  const groups = new Map<string, TaskGroup<T>>();
+  for (const task of tasks) {
+    const key = (groupBy === 'phase' ? task.phase_id : task.assigned_to) || '';
+    const label = groupBy === 'phase'
+      ? task.phase?.name || 'No Phase'
+      : task.assignee?.full_name || 'Unassigned';
+
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, tasks: [] });
+    }
+    groups.get(key)!.tasks.push(task);
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    if (!a.key) return 1;
+    if (!b.key) return -1;
+    return a.label.localeCompare(b.label);
+  });
+}
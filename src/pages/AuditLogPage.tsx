@@ -0,0 +1,273 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Download, Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { useStepUp } from '../contexts/StepUpContext';
+import { canViewAuditLog } from '../lib/permissions';
+import { downloadCsv } from '../lib/csv';
+import { AUDIT_ACTION_LABELS, AUDIT_TABLE_LABELS, auditFieldLabel, auditLogsToRows, formatAuditValue } from '../lib/audit';
+import { exportAuditLogs, searchAuditLogs, resolveAuditReferences } from '../lib/services/auditLog';
+import type { AuditAction, AuditLogEntry, AuditSearchFilters, AuditTable } from '../types/audit';
+
+const RESULT_LIMIT = 1000;
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+};
+
+export function AuditLogPage() {
+  const { user } = useAuth();
+  const { requireStepUp } = useStepUp();
+  const [loading, setLoading] = useState(false);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [people, setPeople] = useState<{ id: string; full_name: string }[]>([]);
+  const [filters, setFilters] = useState<AuditSearchFilters>({});
+  // What the results on screen were searched with, so the export matches them
+  const [searchedFilters, setSearchedFilters] = useState<AuditSearchFilters>({});
+  const [exporting, setExporting] = useState(false);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    if (user && canViewAuditLog(user)) {
+      fetchPeople();
+      handleSearch();
+    }
+  }, [user]);
+
+  const fetchPeople = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, full_name')
+        .order('full_name');
+
+      if (error) throw error;
+      setPeople(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const handleSearch = async () => {
+    try {
+      setLoading(true);
+      const searched = {
+        ...filters,
+        // Date inputs are local days; widen them to cover the whole day
+        from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+      };
+      const data = await searchAuditLogs(searched, RESULT_LIMIT);
+      setSearchedFilters(searched);
+      setEntries(data);
+      setNames(await resolveAuditReferences(data));
+    } catch (error) {
+      console.error('Error searching audit log:', error);
+      toast.error('Error searching audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!(await requireStepUp('export the audit log'))) return;
+
+    try {
+      setExporting(true);
+      const data = await exportAuditLogs(searchedFilters, RESULT_LIMIT);
+      downloadCsv(`audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`, auditLogsToRows(data, await resolveAuditReferences(data)));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Error exporting audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (user && !canViewAuditLog(user)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Audit Log</Typography>
+        <Button
+          variant="outlined"
+          startIcon={<Download size={18} />}
+          onClick={handleExport}
+          disabled={entries.length === 0 || exporting}
+        >
+          Export CSV
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+          <FormControl size="small" sx={{ minWidth: 150 }}>
+            <InputLabel>Entity</InputLabel>
+            <Select
+              value={filters.tableName || ''}
+              onChange={(e) => setFilters({ ...filters, tableName: (e.target.value || undefined) as AuditTable | undefined })}
+              label="Entity"
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map(table => (
+                <MenuItem key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <InputLabel>Action</InputLabel>
+            <Select
+              value={filters.action || ''}
+              onChange={(e) => setFilters({ ...filters, action: (e.target.value || undefined) as AuditAction | undefined })}
+              label="Action"
+            >
+              <MenuItem value="">All</MenuItem>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                <MenuItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Changed by</InputLabel>
+            <Select
+              value={filters.actorId || ''}
+              onChange={(e) => setFilters({ ...filters, actorId: e.target.value || undefined })}
+              label="Changed by"
+            >
+              <MenuItem value="">Anyone</MenuItem>
+              {people.map(person => (
+                <MenuItem key={person.id} value={person.id}>{person.full_name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label="Field"
+            placeholder="e.g. due_date"
+            value={filters.field || ''}
+            onChange={(e) => setFilters({ ...filters, field: e.target.value })}
+          />
+          <TextField
+            size="small"
+            label="Record name"
+            value={filters.search || ''}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="From"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="To"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button variant="contained" startIcon={<Search size={18} />} onClick={handleSearch} disabled={loading}>
+            Search
+          </Button>
+        </Box>
+      </Paper>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Paper>
+          {entries.length >= RESULT_LIMIT && (
+            <Typography variant="body2" color="text.secondary" p={2}>
+              Showing the latest {RESULT_LIMIT} entries. Narrow the filters to see older changes.
+            </Typography>
+          )}
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>When</TableCell>
+                  <TableCell>Changed by</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Entity</TableCell>
+                  <TableCell>Record</TableCell>
+                  <TableCell>Changes</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id} hover>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                    </TableCell>
+                    <TableCell>{entry.actor?.full_name || 'System'}</TableCell>
+                    <TableCell>
+                      <Chip label={AUDIT_ACTION_LABELS[entry.action]} color={ACTION_COLORS[entry.action]} size="small" />
+                    </TableCell>
+                    <TableCell>{AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name}</TableCell>
+                    <TableCell>{entry.record_label || '—'}</TableCell>
+                    <TableCell>
+                      {entry.action === 'update'
+                        ? Object.entries(entry.changes || {}).map(([field, change]) => (
+                            <Typography key={field} variant="body2" sx={{ wordBreak: 'break-word' }}>
+                              {auditFieldLabel(field)}: {formatAuditValue(field, change.old, names)} → {formatAuditValue(field, change.new, names)}
+                            </Typography>
+                          ))
+                        : (
+                          <Typography variant="body2" color="text.secondary">
+                            {Object.keys(entry.changes || {}).length} fields
+                          </Typography>
+                        )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      <Typography color="text.secondary" py={2}>
+                        No changes match these filters.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </Box>
+  );
+}
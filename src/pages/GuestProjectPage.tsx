@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { TaskComments } from '../components/task/TaskComments';
+import { ProjectKnowledgebase } from '../components/project/ProjectKnowledgebase';
+import type { KnowledgebaseSection } from '../components/project/ProjectKnowledgebase';
+import { fetchGuestProject, fetchProjectPeople } from '../lib/services/guests';
+import type { GuestProject, ProjectPerson } from '../lib/services/guests';
+import type { Phase } from '../types/phase';
+import type { Task, TaskStatus } from '../types/task';
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To do',
+  in_progress: 'In progress',
+  in_review: 'In review',
+  completed: 'Completed',
+};
+
+const STATUS_COLORS: Record<TaskStatus, 'default' | 'primary' | 'warning' | 'success'> = {
+  todo: 'default',
+  in_progress: 'primary',
+  in_review: 'warning',
+  completed: 'success',
+};
+
+/**
+ * Read-only view of a project for guests: progress, the phases and tasks its
+ * managers share, and optionally the FAQ and resources
+ */
+export function GuestProjectPage() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [project, setProject] = useState<GuestProject | null>(null);
+  const [phases, setPhases] = useState<Phase[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [people, setPeople] = useState<ProjectPerson[]>([]);
+  const [tab, setTab] = useState<'progress' | 'tasks' | 'knowledgebase'>('progress');
+
+  useEffect(() => {
+    if (projectId) {
+      fetchData(projectId);
+    }
+  }, [projectId]);
+
+  const fetchData = async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [data, peopleData] = await Promise.all([
+        fetchGuestProject(id),
+        fetchProjectPeople(id),
+      ]);
+      setProject(data.project);
+      setPhases(data.phases);
+      setTasks(data.tasks);
+      setPeople(peopleData);
+    } catch (error) {
+      console.error('Error fetching shared project:', error);
+      setError('This project is not shared with you.');
+      toast.error('Error loading project');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Mention notifications link to ?task=<id>
+  const selectedTask = tasks.find(task => task.id === searchParams.get('task')) || null;
+
+  const openTask = (taskId: string | null) => {
+    setSearchParams(taskId ? { task: taskId } : {});
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !project || !user) {
+    return (
+      <Box p={3}>
+        <Alert severity="error" sx={{ mb: 2 }}>{error || 'Project not found'}</Alert>
+        <Button startIcon={<ArrowLeft size={18} />} onClick={() => navigate('/guest/projects')}>
+          Back to projects
+        </Button>
+      </Box>
+    );
+  }
+
+  const completedTasks = tasks.filter(task => task.status === 'completed').length;
+  const knowledgebaseSections: KnowledgebaseSection[] = [
+    ...(project.guest_faqs_visible ? ['faqs' as const] : []),
+    ...(project.guest_resources_visible ? ['resources' as const] : []),
+  ];
+
+  return (
+    <Box p={3}>
+      <Button startIcon={<ArrowLeft size={18} />} onClick={() => navigate('/guest/projects')} sx={{ mb: 2 }}>
+        Shared projects
+      </Button>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="h4">{project.name}</Typography>
+          <Chip label={project.status.replace('_', ' ')} />
+        </Box>
+        {project.description && (
+          <Typography color="text.secondary" mb={2}>{project.description}</Typography>
+        )}
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          {format(new Date(project.start_date), 'MMM d, yyyy')}
+          {project.end_date && ` – ${format(new Date(project.end_date), 'MMM d, yyyy')}`}
+        </Typography>
+        <Box display="flex" alignItems="center" gap={2}>
+          <LinearProgress
+            variant="determinate"
+            value={project.progress || 0}
+            sx={{ flex: 1, height: 10, borderRadius: 5 }}
+          />
+          <Typography variant="h6">{project.progress || 0}%</Typography>
+        </Box>
+      </Paper>
+
+      <Paper>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ borderBottom: 1, borderColor: 'divider', px: 2 }}>
+          <Tab value="progress" label="Progress" />
+          <Tab value="tasks" label={`Tasks (${tasks.length})`} />
+          {knowledgebaseSections.length > 0 && <Tab value="knowledgebase" label="Knowledgebase" />}
+        </Tabs>
+
+        {tab === 'progress' && (
+          <Box p={3}>
+            <Grid container spacing={3} mb={3}>
+              <Grid item xs={12} sm={4}>
+                <Typography variant="overline" color="text.secondary">Shared tasks</Typography>
+                <Typography variant="h5">{tasks.length}</Typography>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <Typography variant="overline" color="text.secondary">Completed</Typography>
+                <Typography variant="h5">{completedTasks}</Typography>
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <Typography variant="overline" color="text.secondary">In progress</Typography>
+                <Typography variant="h5">{tasks.filter(task => task.status === 'in_progress').length}</Typography>
+              </Grid>
+            </Grid>
+
+            {project.guest_phases_visible && (
+              <>
+                <Typography variant="h6" mb={1}>Phases</Typography>
+                {phases.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">No phases yet.</Typography>
+                ) : (
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Phase</TableCell>
+                          <TableCell>Status</TableCell>
+                          <TableCell>Start</TableCell>
+                          <TableCell>End</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {phases.map(phase => (
+                          <TableRow key={phase.id}>
+                            <TableCell>
+                              <Typography variant="subtitle2">{phase.name}</Typography>
+                              {phase.description && (
+                                <Typography variant="caption" color="text.secondary">{phase.description}</Typography>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Chip label={phase.status.replace('_', ' ')} size="small" variant="outlined" />
+                            </TableCell>
+                            <TableCell>{phase.start_date ? format(new Date(phase.start_date), 'MMM d, yyyy') : '—'}</TableCell>
+                            <TableCell>{phase.end_date ? format(new Date(phase.end_date), 'MMM d, yyyy') : '—'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </>
+            )}
+          </Box>
+        )}
+
+        {tab === 'tasks' && (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Task</TableCell>
+                  {project.guest_phases_visible && <TableCell>Phase</TableCell>}
+                  <TableCell>Status</TableCell>
+                  <TableCell>Due</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {tasks.map(task => (
+                  <TableRow key={task.id} hover sx={{ cursor: 'pointer' }} onClick={() => openTask(task.id)}>
+                    <TableCell>{task.title}</TableCell>
+                    {project.guest_phases_visible && (
+                      <TableCell>{phases.find(phase => phase.id === task.phase_id)?.name || '—'}</TableCell>
+                    )}
+                    <TableCell>
+                      <Chip label={STATUS_LABELS[task.status]} color={STATUS_COLORS[task.status]} size="small" />
+                    </TableCell>
+                    <TableCell>{task.due_date ? format(new Date(task.due_date), 'MMM d, yyyy') : '—'}</TableCell>
+                  </TableRow>
+                ))}
+                {tasks.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} align="center">
+                      <Typography color="text.secondary" py={2}>
+                        No tasks have been shared yet.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {tab === 'knowledgebase' && knowledgebaseSections.length > 0 && (
+          <Box p={2}>
+            <ProjectKnowledgebase projectId={project.id} canEdit={false} sections={knowledgebaseSections} />
+          </Box>
+        )}
+      </Paper>
+
+      {selectedTask && (
+        <Dialog open onClose={() => openTask(null)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Box display="flex" alignItems="center" gap={2}>
+                <Typography variant="h6">{selectedTask.title}</Typography>
+                <Chip label={STATUS_LABELS[selectedTask.status]} color={STATUS_COLORS[selectedTask.status]} size="small" />
+              </Box>
+              <IconButton onClick={() => openTask(null)} size="small">
+                <X />
+              </IconButton>
+            </Box>
+          </DialogTitle>
+          <DialogContent>
+            {selectedTask.description && (
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }} mb={3}>
+                {selectedTask.description}
+              </Typography>
+            )}
+            <TaskComments
+              task={selectedTask}
+              currentUser={user}
+              projectMembers={people.filter(person => person.full_name)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+    </Box>
+  );
+}
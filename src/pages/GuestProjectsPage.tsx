@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import {
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Grid,
+  LinearProgress,
+  Typography,
+} from '@mui/material';
+import { fetchGuestProjects } from '../lib/services/guests';
+import type { GuestProject } from '../lib/services/guests';
+
+export function GuestProjectsPage() {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [projects, setProjects] = useState<GuestProject[]>([]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  const fetchProjects = async () => {
+    try {
+      setLoading(true);
+      setProjects(await fetchGuestProjects());
+    } catch (error) {
+      console.error('Error fetching shared projects:', error);
+      toast.error('Error loading projects');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box p={3}>
+      <Typography variant="h4" mb={1}>Shared Projects</Typography>
+      <Typography variant="body2" color="text.secondary" mb={3}>
+        Projects you have been invited to follow.
+      </Typography>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : projects.length === 0 ? (
+        <Typography color="text.secondary">
+          No projects have been shared with you yet.
+        </Typography>
+      ) : (
+        <Grid container spacing={3}>
+          {projects.map(project => (
+            <Grid item xs={12} md={6} lg={4} key={project.id}>
+              <Card variant="outlined">
+                <CardActionArea onClick={() => navigate(`/guest/projects/${project.id}`)}>
+                  <CardContent>
+                    <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                      <Typography variant="h6" noWrap>{project.name}</Typography>
+                      <Chip label={project.status.replace('_', ' ')} size="small" />
+                    </Box>
+                    {project.description && (
+                      <Typography variant="body2" color="text.secondary" mb={2} noWrap>
+                        {project.description}
+                      </Typography>
+                    )}
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <LinearProgress
+                        variant="determinate"
+                        value={project.progress || 0}
+                        sx={{ flex: 1, height: 8, borderRadius: 4 }}
+                      />
+                      <Typography variant="body2">{project.progress || 0}%</Typography>
+                    </Box>
+                    <Typography variant="caption" color="text.secondary">
+                      {format(new Date(project.start_date), 'MMM d, yyyy')}
+                      {project.end_date && ` – ${format(new Date(project.end_date), 'MMM d, yyyy')}`}
+                    </Typography>
+                  </CardContent>
+                </CardActionArea>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Box>
+  );
+}
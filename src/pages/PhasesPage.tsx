@@ -19,6 +19,7 @@ import {
 } from '@mui/material';
 import { PhaseTable } from '../components/phase/PhaseTable';
 import { NewPhaseModal } from '../components/phase/NewPhaseModal';
+import { updateIfUnchanged, VersionConflictError } from '../lib/services/concurrency';
 
 export function PhasesPage() {
   const navigate = useNavigate();
@@ -69,6 +70,7 @@ export function PhasesPage() {
       const { data, error } = await supabase
         .from('projects')
         .select('id, name')
+        .eq('is_template', false)
         .order('name');
 
       if (error) throw error;
@@ -78,17 +80,23 @@ export function PhasesPage() {
     }
   };
 
-  const handleUpdatePhase = async (phaseId: string, updates: Partial<Phase>) => {
+  // Saves against the version the caller edited, or else the one on screen
+  const handleUpdatePhase = async (phaseId: string, updates: Partial<Phase>, expectedUpdatedAt?: string) => {
     try {
-      const { error } = await supabase
-        .from('project_phases')
-        .update(updates)
-        .eq('id', phaseId);
+      const version = expectedUpdatedAt || phases.find(phase => phase.id === phaseId)?.updated_at;
+      if (!version) throw new Error('Phase is not loaded');
 
-      if (error) throw error;
+      await updateIfUnchanged<Phase>('project_phases', phaseId, updates, version);
       await fetchPhases();
       toast.success('Phase updated successfully');
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        await fetchPhases();
+        // The edit modal resolves conflicts on the version it was given
+        if (expectedUpdatedAt) throw error;
+        toast.error(`Not saved: the phase was changed by ${error.changedBy || 'another user'}`);
+        return;
+      }
       console.error('Error updating phase:', error);
       toast.error('Error updating phase');
     }
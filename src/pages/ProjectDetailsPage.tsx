@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Box, 
   Typography, 
@@ -27,20 +27,31 @@ import {
 import { supabase } from '../lib/supabase';
 import { TaskBoard } from '../components/task/TaskBoard';
 import { TeamManagementModal } from '../components/project/TeamManagementModal';
+import { GuestAccessModal } from '../components/project/GuestAccessModal';
 import type { Project, ProjectMember } from '../types/project';
 import type { User, UserRole } from '../types/auth';
 import type { Phase, PhaseStatus } from '../types/phase';
 import type { Task } from '../types/task';
 import { useAuth } from '../contexts/auth/AuthContext';
 import { toast } from 'react-hot-toast';
-import { UserPlus, Sparkles, Plus, Check, Info, CheckCircle } from 'lucide-react';
+import { UserPlus, Sparkles, Plus, Check, Info, CheckCircle, List as ListIcon, GanttChart, Share2 } from 'lucide-react';
 import { ProjectAnalysis } from '../components/project/ProjectAnalysis';
 import { ProjectKnowledgebase } from '../components/project/ProjectKnowledgebase';
 import { ProjectActivityLogs } from '../components/project/ProjectActivityLogs';
+import { ProjectBudget } from '../components/project/ProjectBudget';
+import { AuditHistory } from '../components/AuditHistory';
 import { PhaseTable } from '../components/phase/PhaseTable';
+import { PhaseTimeline } from '../components/phase/PhaseTimeline';
 import { NewPhaseModal } from '../components/phase/NewPhaseModal';
 import { suggestPhases } from '../lib/ai/suggest-phases';
 import type { PhaseSuggestion } from '../types/phase';
+import { hashAnalysisInput, findCachedAnalysis, saveAnalysisVersion, fetchAnalysisVersions, getStaleReason } from '../lib/services/aiAnalysisCache';
+import { updateIfUnchanged, VersionConflictError } from '../lib/services/concurrency';
+import { hasPermission, canManageMembers, canViewBudget, canManageBudget, canEditKnowledgeBase, canUseAIFeatures } from '../lib/permissions';
+import type { AIAnalysisVersion, RejectedSuggestion, SuggestionResult } from '../types/aiAnalysis';
+import { AIAnalysisStatus } from '../components/ai/AIAnalysisStatus';
+import { AIAnalysisCompareDialog } from '../components/ai/AIAnalysisCompareDialog';
+import { RejectedSuggestions } from '../components/ai/RejectedSuggestions';
 import { format } from 'date-fns';
 import { UserAvatar } from '../components/UserAvatar';
 
@@ -89,14 +100,24 @@ export function ProjectDetailsPage() {
   const [loading, setLoading] = useState(true);
   const [project, setProject] = useState<ProjectData | null>(null);
   const [tabValue, setTabValue] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Mention notifications link to ?task=<id>
+  const linkedTaskId = searchParams.get('task');
   const [showTeamModal, setShowTeamModal] = useState(false);
+  const [showGuestModal, setShowGuestModal] = useState(false);
   const [isNewPhaseModalOpen, setIsNewPhaseModalOpen] = useState(false);
   const [phases, setPhases] = useState<Phase[]>([]);
+  const [phaseView, setPhaseView] = useState<'table' | 'timeline'>('table');
   const [loadingPhases, setLoadingPhases] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuggestionsModal, setShowSuggestionsModal] = useState(false);
   const [suggestedPhases, setSuggestedPhases] = useState<(PhaseSuggestion & { added: boolean })[]>([]);
   const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  const [rejectedSuggestions, setRejectedSuggestions] = useState<RejectedSuggestion[]>([]);
+  const [suggestionVersion, setSuggestionVersion] = useState<AIAnalysisVersion<SuggestionResult<PhaseSuggestion>> | null>(null);
+  const [suggestionVersions, setSuggestionVersions] = useState<AIAnalysisVersion<SuggestionResult<PhaseSuggestion>>[]>([]);
+  const [suggestionInputHash, setSuggestionInputHash] = useState<string>();
+  const [showSuggestionVersions, setShowSuggestionVersions] = useState(false);
   const [selectedSuggestedPhase, setSelectedSuggestedPhase] = useState<PhaseSuggestion | null>(null);
   const [showTaskSelectionModal, setShowTaskSelectionModal] = useState(false);
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -296,25 +317,62 @@ export function ProjectDetailsPage() {
     }
   };
 
-  const handleUpdatePhase = async (phaseId: string, updates: Partial<Phase>) => {
+  // Saves against the version the caller edited, or else the one on screen
+  const handleUpdatePhase = async (phaseId: string, updates: Partial<Phase>, expectedUpdatedAt?: string) => {
     try {
-      const { error } = await supabase
-        .from('project_phases')
-        .update(updates)
-        .eq('id', phaseId);
+      const version = expectedUpdatedAt || phases.find(phase => phase.id === phaseId)?.updated_at;
+      if (!version) throw new Error('Phase is not loaded');
 
-      if (error) throw error;
+      await updateIfUnchanged<Phase>('project_phases', phaseId, updates, version);
       await fetchPhases();
       toast.success('Phase updated successfully');
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        await fetchPhases();
+        // The edit modal resolves conflicts on the version it was given
+        if (expectedUpdatedAt) throw error;
+        toast.error(`Not saved: the phase was changed by ${error.changedBy || 'another user'}`);
+        return;
+      }
       console.error('Error updating phase:', error);
       toast.error('Error updating phase');
     }
   };
 
-  const getAISuggestions = async () => {
+  const handleRescheduleTask = async (taskId: string, updates: Partial<Task>) => {
+    try {
+      const version = tasks.find(task => task.id === taskId)?.updated_at;
+      if (!version) throw new Error('Task is not loaded');
+
+      await updateIfUnchanged<Task>('tasks', taskId, updates, version);
+      await fetchTasks();
+      toast.success('Task rescheduled');
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        await fetchTasks();
+        toast.error(`Not rescheduled: the task was changed by ${error.changedBy || 'another user'}`);
+        return;
+      }
+      console.error('Error rescheduling task:', error);
+      toast.error('Error rescheduling task');
+    }
+  };
+
+  const fetchSuggestionVersions = async () => {
+    try {
+      setSuggestionVersions(await fetchAnalysisVersions<SuggestionResult<PhaseSuggestion>>('phase_suggestions', { projectId }));
+    } catch (error) {
+      console.error('Error fetching suggestion history:', error);
+    }
+  };
+
+  const getAISuggestions = async (forceRefresh = false) => {
     try {
       setLoadingSuggestions(true);
+      if (forceRefresh) {
+        setSuggestedPhases([]);
+        setRejectedSuggestions([]);
+      }
 
       // Fetch project details
       const { data: projectData, error: projectError } = await supabase
@@ -402,23 +460,49 @@ export function ProjectDetailsPage() {
         console.error('Error fetching project resources:', resourcesError);
       }
 
-      // Get AI suggestions using Gemini
-      const suggestions = await suggestPhases(
-        projectData,
-        { 
-          team_members: teamMembers,
-          documentation: {
-            documents: projectDocuments || [],
-            faqs: projectFaqs || [],
-            resources: projectResources || []
-          }
-        },
-        phases,
-        existingTasks || []
-      );
+      const teamData = {
+        team_members: teamMembers,
+        documentation: {
+          documents: projectDocuments || [],
+          faqs: projectFaqs || [],
+          resources: projectResources || []
+        }
+      };
+
+      // Reuse the last generation if it was made from the same data
+      const inputHash = await hashAnalysisInput({ project: projectData, teamData, phases, tasks: existingTasks || [] });
+      setSuggestionInputHash(inputHash);
+
+      let cached: AIAnalysisVersion<SuggestionResult<PhaseSuggestion>> | null = null;
+      if (!forceRefresh) {
+        try {
+          cached = await findCachedAnalysis<SuggestionResult<PhaseSuggestion>>('phase_suggestions', { projectId }, inputHash);
+        } catch (cacheError) {
+          console.error('Error reading cached suggestions:', cacheError);
+        }
+      }
+
+      let result: SuggestionResult<PhaseSuggestion>;
+      if (cached) {
+        result = cached.analysis_data;
+        setSuggestionVersion(cached);
+      } else {
+        result = await suggestPhases(projectData, teamData, phases, existingTasks || []);
+
+        try {
+          setSuggestionVersion(currentUser
+            ? await saveAnalysisVersion('phase_suggestions', { projectId }, inputHash, result, currentUser.id)
+            : null);
+        } catch (cacheError) {
+          console.error('Error caching suggestions:', cacheError);
+          setSuggestionVersion(null);
+        }
+      }
 
-      setSuggestedPhases(suggestions.map(suggestion => ({ ...suggestion, added: false })));
+      setSuggestedPhases(result.suggestions.map(suggestion => ({ ...suggestion, added: false })));
+      setRejectedSuggestions(result.rejected);
       setShowSuggestionsModal(true);
+      fetchSuggestionVersions();
     } catch (error) {
       console.error('Error getting AI suggestions:', error);
       toast.error('Failed to get AI suggestions. Please try again.');
@@ -592,6 +676,10 @@ export function ProjectDetailsPage() {
     }
   }, [projectId, currentUser, authLoading, tabValue]);
 
+  useEffect(() => {
+    if (linkedTaskId) setTabValue(2);
+  }, [linkedTaskId]);
+
   // Add a listener for task updates to recalculate progress
   useEffect(() => {
     if (!projectId) return;
@@ -692,18 +780,21 @@ export function ProjectDetailsPage() {
 
   // Safe to use currentUser here as we've checked it's not null
   const isUserProjectManager = currentUser.role === 'project_manager';
-  const canManageTasks = currentUser.role === 'admin' || 
-    project.owner_id === currentUser.id || 
+  const isProjectLead = project.owner_id === currentUser.id || 
     project.manager_id === currentUser.id ||
     project.team_members.some(member => 
       member.user_id === currentUser.id && 
       (member.role as 'member' | 'manager') === 'manager'
     );
+  const canManageTasks = isProjectLead || hasPermission(currentUser, 'manage_all_tasks', project.id);
+  const canManageTeam = isProjectLead || canManageMembers(currentUser, project.id);
 
   const canManagePhases = canManageTasks;
-  const userRole: UserRole = currentUser.role;
-  const isAdmin = userRole === 'admin';
-  const isProjectManager = userRole === 'project_manager';
+  const canSeeBudget = canViewBudget(currentUser, project.id);
+  const canEditBudget = canManageBudget(currentUser, project.id);
+  const canSeeKnowledgebase = canEditKnowledgeBase(currentUser, project.id);
+  // Tabs after Budget shift left when it is hidden
+  const knowledgebaseTabIndex = canSeeBudget ? 8 : 7;
 
   // Add the missing getStatusColor function
   const getStatusColor = (status: PhaseStatus) => {
@@ -864,7 +955,11 @@ export function ProjectDetailsPage() {
               <Tab label="Phases" />
               <Tab label="Activity Logs" />
               <Tab label="Analysis" />
-              {(currentUser.role === 'admin' || currentUser.role === 'project_manager') && (
+              <Tab label="History" />
+              {canSeeBudget && (
+                <Tab label="Budget" />
+              )}
+              {canSeeKnowledgebase && (
                 <Tab label="Project Knowledgebase" />
               )}
             </Tabs>
@@ -1079,15 +1174,25 @@ export function ProjectDetailsPage() {
                 <Typography variant="h6">
                   Team Members ({project.team_members?.length || 0})
                 </Typography>
-                {canManageTasks && (
-                  <Button
-                    variant="contained"
-                    color="primary"
-                    onClick={() => setShowTeamModal(true)}
-                    startIcon={<UserPlus />}
-                  >
-                    Manage Team
-                  </Button>
+                {canManageTeam && (
+                  <Box display="flex" gap={2}>
+                    <Button
+                      variant="outlined"
+                      color="primary"
+                      onClick={() => setShowGuestModal(true)}
+                      startIcon={<Share2 />}
+                    >
+                      Guest Access
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      onClick={() => setShowTeamModal(true)}
+                      startIcon={<UserPlus />}
+                    >
+                      Manage Team
+                    </Button>
+                  </Box>
                 )}
               </Box>
               
@@ -1188,7 +1293,7 @@ export function ProjectDetailsPage() {
                   <Typography color="text.secondary">
                     No team members assigned yet
                   </Typography>
-                  {canManageTasks && (
+                  {canManageTeam && (
                     <Button
                       variant="outlined"
                       color="primary"
@@ -1209,6 +1314,11 @@ export function ProjectDetailsPage() {
               projectId={project.id}
               currentUser={currentUser as User}
               canManageTasks={canManageTasks}
+              openTaskId={linkedTaskId}
+              onTaskOpened={() => setSearchParams(params => {
+                params.delete('task');
+                return params;
+              }, { replace: true })}
             />
           </TabPanel>
 
@@ -1223,27 +1333,51 @@ export function ProjectDetailsPage() {
                     Manage the phases of your project
                   </Typography>
                 </div>
-                {canManagePhases && (
-                  <Box display="flex" gap={2}>
-                    <Button 
-                      variant="outlined"
-                      color="primary"
-                      startIcon={<Sparkles />}
-                      onClick={getAISuggestions}
-                      disabled={loadingSuggestions}
+                <Box display="flex" gap={2} alignItems="center">
+                  <Box sx={{ display: 'flex', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                    <Button
+                      size="small"
+                      variant={phaseView === 'table' ? 'contained' : 'text'}
+                      onClick={() => setPhaseView('table')}
+                      sx={{ minWidth: 40, p: 1 }}
+                      title="Table view"
                     >
-                      {loadingSuggestions ? 'Getting Suggestions...' : 'AI Suggestions'}
+                      <ListIcon size={16} />
                     </Button>
-                    <Button 
-                      variant="contained" 
-                      color="primary"
-                      startIcon={<Plus />}
-                      onClick={() => setIsNewPhaseModalOpen(true)}
+                    <Button
+                      size="small"
+                      variant={phaseView === 'timeline' ? 'contained' : 'text'}
+                      onClick={() => setPhaseView('timeline')}
+                      sx={{ minWidth: 40, p: 1 }}
+                      title="Timeline view"
                     >
-                      New Phase
+                      <GanttChart size={16} />
                     </Button>
                   </Box>
-                )}
+                  {canManagePhases && (
+                    <Box display="flex" gap={2}>
+                      {canUseAIFeatures(currentUser, project.id) && (
+                        <Button 
+                          variant="outlined"
+                          color="primary"
+                          startIcon={<Sparkles />}
+                          onClick={() => getAISuggestions()}
+                          disabled={loadingSuggestions}
+                        >
+                          {loadingSuggestions ? 'Getting Suggestions...' : 'AI Suggestions'}
+                        </Button>
+                      )}
+                      <Button 
+                        variant="contained" 
+                        color="primary"
+                        startIcon={<Plus />}
+                        onClick={() => setIsNewPhaseModalOpen(true)}
+                      >
+                        New Phase
+                      </Button>
+                    </Box>
+                  )}
+                </Box>
               </Box>
 
               {loadingPhases ? (
@@ -1266,6 +1400,15 @@ export function ProjectDetailsPage() {
                     </Button>
                   )}
                 </Paper>
+              ) : phaseView === 'timeline' ? (
+                <PhaseTimeline
+                  projectId={project.id}
+                  phases={phases}
+                  tasks={tasks}
+                  canManage={canManagePhases}
+                  onUpdatePhase={handleUpdatePhase}
+                  onUpdateTask={handleRescheduleTask}
+                />
               ) : (
                 <PhaseTable
                   phases={phases}
@@ -1289,11 +1432,25 @@ export function ProjectDetailsPage() {
             <ProjectAnalysis projectId={project.id} />
           </TabPanel>
 
-          {(currentUser.role === 'admin' || currentUser.role === 'project_manager') && (
-            <TabPanel value={tabValue} index={6}>
+          <TabPanel value={tabValue} index={6}>
+            <AuditHistory projectId={project.id} />
+          </TabPanel>
+
+          {canSeeBudget && (
+            <TabPanel value={tabValue} index={7}>
+              <ProjectBudget
+                project={project}
+                currentUser={currentUser as User}
+                canEdit={canEditBudget}
+              />
+            </TabPanel>
+          )}
+
+          {canSeeKnowledgebase && (
+            <TabPanel value={tabValue} index={knowledgebaseTabIndex}>
               <ProjectKnowledgebase 
                 projectId={project.id} 
-                canEdit={isAdmin || isProjectManager}
+                canEdit={canSeeKnowledgebase}
                 key={`knowledgebase-${refreshKnowledgebase}`} 
               />
             </TabPanel>
@@ -1309,6 +1466,14 @@ export function ProjectDetailsPage() {
         />
       )}
 
+      {showGuestModal && (
+        <GuestAccessModal
+          project={project}
+          onClose={() => setShowGuestModal(false)}
+          onVisibilityChange={(visibility) => setProject(prev => prev && { ...prev, ...visibility })}
+        />
+      )}
+
       {isNewPhaseModalOpen && projectId && (
         <NewPhaseModal 
           projectId={projectId}
@@ -1381,7 +1546,18 @@ export function ProjectDetailsPage() {
           </Typography>
         </DialogTitle>
         <DialogContent sx={{ pt: 3 }}>
-          {suggestedPhases.length === 0 ? (
+          {!loadingSuggestions && (
+            <AIAnalysisStatus
+              version={suggestionVersion}
+              staleReason={suggestionVersion && getStaleReason(suggestionVersion, suggestionInputHash)}
+              versionCount={suggestionVersions.length}
+              onRegenerate={() => getAISuggestions(true)}
+              onCompare={() => setShowSuggestionVersions(true)}
+              regenerating={loadingSuggestions}
+            />
+          )}
+          {!loadingSuggestions && <RejectedSuggestions rejected={rejectedSuggestions} />}
+          {loadingSuggestions ? (
             <Box display="flex" flexDirection="column" alignItems="center" py={4}>
               <CircularProgress size={40} sx={{ mb: 2 }} />
               <Typography color="text.secondary">
@@ -1535,6 +1711,33 @@ export function ProjectDetailsPage() {
           <Button onClick={() => setShowSuggestionsModal(false)}>Close</Button>
         </DialogActions>
       </Dialog>
+
+      <AIAnalysisCompareDialog
+        open={showSuggestionVersions}
+        onClose={() => setShowSuggestionVersions(false)}
+        title="Compare Phase Suggestions"
+        versions={suggestionVersions}
+        currentInputHash={suggestionInputHash}
+        renderVersion={(result) => (
+          <List dense disablePadding>
+            {result.suggestions.map((suggestion, index) => (
+              <ListItem key={index} disableGutters sx={{ alignItems: 'flex-start' }}>
+                <ListItemText
+                  primary={`${suggestion.suggested_sequence_order}. ${suggestion.name}`}
+                  secondary={
+                    <>
+                      {suggestion.description}
+                      {suggestion.suggested_tasks.length > 0 && (
+                        <><br />Tasks: {suggestion.suggested_tasks.join(', ')}</>
+                      )}
+                    </>
+                  }
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      />
     </Container>
   );
 } 
\ No newline at end of file
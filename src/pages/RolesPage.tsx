@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { useStepUp } from '../contexts/StepUpContext';
+import { canManageRoles, PERMISSIONS, DEFAULT_ROLE_PERMISSIONS } from '../lib/permissions';
+import { fetchRoles, fetchRoleUserCounts, createRole, updateRole, deleteRole } from '../lib/services/roles';
+import type { RoleInput } from '../lib/services/roles';
+import type { Permission, Role, UserRole } from '../types/auth';
+
+const TIER_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  project_manager: 'Project Manager',
+  employee: 'Employee',
+  guest: 'Guest',
+};
+
+// Guests are invited from a project, not given a custom role
+const ROLE_TIERS: UserRole[] = ['admin', 'project_manager', 'employee'];
+
+const EMPTY_ROLE: RoleInput = {
+  name: '',
+  description: '',
+  base_role: 'employee',
+  permissions: DEFAULT_ROLE_PERMISSIONS.employee,
+};
+
+export function RolesPage() {
+  const { user } = useAuth();
+  const { requireStepUp } = useStepUp();
+  const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [userCounts, setUserCounts] = useState<Record<string, number>>({});
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [formData, setFormData] = useState<RoleInput | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user && canManageRoles(user)) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [roleData, counts] = await Promise.all([fetchRoles(), fetchRoleUserCounts()]);
+      setRoles(roleData);
+      setUserCounts(counts);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast.error('Error loading roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (role: Role | null) => {
+    setEditingRole(role);
+    setFormData(role
+      ? { name: role.name, description: role.description || '', base_role: role.base_role, permissions: role.permissions }
+      : { ...EMPTY_ROLE });
+  };
+
+  const togglePermission = (permission: Permission) => {
+    if (!formData) return;
+    setFormData({
+      ...formData,
+      permissions: formData.permissions.includes(permission)
+        ? formData.permissions.filter(key => key !== permission)
+        : [...formData.permissions, permission],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData || !formData.name.trim()) return;
+    if (!(await requireStepUp(editingRole ? 'change this role' : 'create a role'))) return;
+
+    try {
+      setSaving(true);
+      const input = { ...formData, name: formData.name.trim(), description: formData.description?.trim() || null };
+      if (editingRole) {
+        // A built-in role's tier is what defines it
+        const saved = await updateRole(editingRole.id, editingRole.is_system ? { ...input, base_role: editingRole.base_role } : input);
+        setRoles(prev => prev.map(role => role.id === saved.id ? saved : role));
+        toast.success('Role updated');
+      } else {
+        const saved = await createRole(input);
+        setRoles(prev => [...prev, saved]);
+        toast.success('Role created');
+      }
+      setFormData(null);
+    } catch (error: any) {
+      console.error('Error saving role:', error);
+      toast.error('Error saving role: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    const count = userCounts[role.id] || 0;
+    const isConfirmed = window.confirm(
+      count > 0
+        ? `${count} users have the role "${role.name}". They will fall back to the built-in ${TIER_LABELS[role.base_role]} role. Delete it?`
+        : `Delete the role "${role.name}"?`
+    );
+    if (!isConfirmed) return;
+    if (!(await requireStepUp('delete this role'))) return;
+
+    try {
+      await deleteRole(role.id);
+      toast.success('Role deleted');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error deleting role:', error);
+      toast.error('Error deleting role: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  if (user && !canManageRoles(user)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h4">Roles</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Roles decide what people can do. A project can override a member's role from its team settings.
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<Plus size={18} />} onClick={() => openEditor(null)}>
+          New Role
+        </Button>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Role</TableCell>
+                <TableCell>Tier</TableCell>
+                <TableCell>Permissions</TableCell>
+                <TableCell align="right">Users</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {roles.map(role => (
+                <TableRow key={role.id} hover>
+                  <TableCell>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="subtitle2">{role.name}</Typography>
+                      {role.is_system && <Chip label="Built-in" size="small" variant="outlined" />}
+                    </Box>
+                    {role.description && (
+                      <Typography variant="body2" color="text.secondary">{role.description}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{TIER_LABELS[role.base_role]}</TableCell>
+                  <TableCell>
+                    <Box display="flex" flexWrap="wrap" gap={0.5}>
+                      {PERMISSIONS.filter(permission => role.permissions.includes(permission.key)).map(permission => (
+                        <Chip key={permission.key} label={permission.label} size="small" />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">{userCounts[role.id] || 0}</TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Edit role">
+                      <IconButton size="small" onClick={() => openEditor(role)}>
+                        <Edit size={18} />
+                      </IconButton>
+                    </Tooltip>
+                    {!role.is_system && (
+                      <Tooltip title="Delete role">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(role)}>
+                          <Trash2 size={18} />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {formData && (
+        <Dialog open onClose={() => setFormData(null)} maxWidth="md" fullWidth>
+          <DialogTitle>{editingRole ? `Edit ${editingRole.name}` : 'New Role'}</DialogTitle>
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <FormControl fullWidth>
+                  <InputLabel>Tier</InputLabel>
+                  <Select
+                    value={formData.base_role}
+                    onChange={(e) => setFormData({ ...formData, base_role: e.target.value as UserRole })}
+                    label="Tier"
+                    disabled={editingRole?.is_system}
+                  >
+                    {ROLE_TIERS.map(tier => (
+                      <MenuItem key={tier} value={tier}>{TIER_LABELS[tier]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12}>
+                <TextField
+                  fullWidth
+                  label="Description"
+                  value={formData.description || ''}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Typography variant="subtitle2" gutterBottom>
+                  Permissions
+                </Typography>
+                <Grid container>
+                  {PERMISSIONS.map(permission => (
+                    <Grid item xs={12} sm={6} key={permission.key}>
+                      <FormControlLabel
+                        control={
+                          <Checkbox
+                            checked={formData.permissions.includes(permission.key)}
+                            onChange={() => togglePermission(permission.key)}
+                            // The admin role can't give up role management
+                            disabled={editingRole?.key === 'admin' && permission.key === 'manage_roles'}
+                          />
+                        }
+                        label={
+                          <Box>
+                            <Typography variant="body2">{permission.label}</Typography>
+                            <Typography variant="caption" color="text.secondary">{permission.description}</Typography>
+                          </Box>
+                        }
+                      />
+                    </Grid>
+                  ))}
+                </Grid>
+              </Grid>
+            </Grid>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setFormData(null)} color="inherit">
+              Cancel
+            </Button>
+            <Button variant="contained" onClick={handleSave} disabled={saving || !formData.name.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      )}
+    </Box>
+  );
+}
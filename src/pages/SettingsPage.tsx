@@ -39,7 +39,6 @@ import {
   History as HistoryIcon,
   Mail as MailIcon,
   AlertTriangle as AlertIcon,
-  LogOut as LogOutIcon,
   Calendar as CalendarIcon,
   LockIcon,
 } from 'lucide-react';
@@ -49,6 +48,12 @@ import { uploadAvatar, deleteAvatar, updateUserAvatar } from '../utils/avatarUti
 import { UserAvatar } from '../components/UserAvatar';
 import { RlsDebugger } from '../components/RlsDebugger';
 import { BackupCodesDialog } from '../components/BackupCodesDialog';
+import { SessionsList } from '../components/SessionsList';
+import toast from 'react-hot-toast';
+import { useStepUp } from '../contexts/StepUpContext';
+import { fetchSecurityPolicy, fetchTotpFactorId, updateSecurityPolicy } from '../lib/services/stepUp';
+import { changeEmail, changePassword, ReauthenticationRequiredError, requestReauthentication } from '../lib/services/credentials';
+import type { SecurityPolicy } from '../types/auth';
 
 interface SettingsPageProps {
   user: User;
@@ -112,8 +117,9 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
     currentPassword: '',
     newPassword: '',
     confirmPassword: '',
+    reauthenticationCode: '',
   });
-  const [sessions, setSessions] = useState<any[]>([]);
+  const [reauthenticationSent, setReauthenticationSent] = useState(false);
   const [loginHistory, setLoginHistory] = useState<any[]>([]);
   const [securitySettings, setSecuritySettings] = useState({
     notifyOnNewLogin: true,
@@ -121,9 +127,11 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
     notifyOnMFAChange: true,
     requireMFAForSensitiveActions: false,
   });
-  const [loadingSessions, setLoadingSessions] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
   const [showBackupCodes, setShowBackupCodes] = useState(false);
+  const [hasTotpFactor, setHasTotpFactor] = useState(false);
+  const [securityPolicy, setSecurityPolicy] = useState<SecurityPolicy | null>(null);
+  const { requireStepUp } = useStepUp();
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
@@ -189,6 +197,8 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
   }, [user]);
 
   const handleProfileUpdate = async () => {
+    if (profileForm.email !== user.email && !(await requireStepUp('change your email address'))) return;
+
     setIsSaving(true);
     setSaveError(null);
     setSaveSuccess(false);
@@ -205,10 +215,7 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
       if (error) throw error;
 
       if (profileForm.email !== user.email) {
-        const { error: emailError } = await supabase.auth.updateUser({
-          email: profileForm.email,
-        });
-        if (emailError) throw emailError;
+        await changeEmail(profileForm.email);
       }
 
       setSaveSuccess(true);
@@ -312,21 +319,6 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
     }
   };
 
-  // Fetch active sessions
-  const fetchSessions = async () => {
-    setLoadingSessions(true);
-    try {
-      const { data, error } = await supabase.auth.getSession();
-      if (error) throw error;
-      // getSession returns the current session, so we put it in an array
-      setSessions(data?.session ? [data.session] : []);
-    } catch (error: any) {
-      console.error('[Settings] Error fetching sessions:', error);
-    } finally {
-      setLoadingSessions(false);
-    }
-  };
-
   // Fetch login history
   const fetchLoginHistory = async () => {
     setLoadingHistory(true);
@@ -361,16 +353,13 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
       setSaveError('New passwords do not match');
       return;
     }
+    if (!(await requireStepUp('change your password'))) return;
 
     setIsSaving(true);
     setSaveError(null);
 
     try {
-      const { error } = await supabase.auth.updateUser({
-        password: passwordForm.newPassword
-      });
-
-      if (error) throw error;
+      await changePassword(passwordForm.newPassword, passwordForm.reauthenticationCode || undefined);
 
       // Log the password change
       await supabase.from('auth_audit_log').insert({
@@ -393,34 +382,38 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
 
       setShowPasswordDialog(false);
       setSaveSuccess(true);
+      setReauthenticationSent(false);
       setPasswordForm({
         currentPassword: '',
         newPassword: '',
         confirmPassword: '',
+        reauthenticationCode: '',
       });
     } catch (error: any) {
+      // Older sessions have to confirm with a code from the auth server
+      if (error instanceof ReauthenticationRequiredError && !reauthenticationSent) {
+        try {
+          await requestReauthentication();
+          setReauthenticationSent(true);
+          toast.success('We emailed you a code to confirm the change');
+        } catch (reauthError) {
+          toast.error((reauthError as Error).message);
+        }
+        return;
+      }
       setSaveError(error.message);
+      toast.error(error.message);
     } finally {
       setIsSaving(false);
     }
   };
 
-  // Handle session termination
-  const handleTerminateSession = async (sessionId: string) => {
-    try {
-      // To terminate a session, we can use signOut method
-      const { error } = await supabase.auth.signOut({
-        scope: 'others' // This will sign out all other sessions except the current one
-      });
-      if (error) throw error;
-      await fetchSessions();
-    } catch (error: any) {
-      console.error('[Settings] Error terminating session:', error);
-    }
-  };
-
   // Handle security settings update
   const handleSecuritySettingsUpdate = async (setting: keyof typeof securitySettings) => {
+    // Switching the requirement off needs the check it would stop asking for
+    if (setting === 'requireMFAForSensitiveActions' && securitySettings[setting]
+      && !(await requireStepUp('turn off this requirement'))) return;
+
     try {
       const newSettings = {
         ...securitySettings,
@@ -441,6 +434,32 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
     }
   };
 
+  // Whether an authenticator is enrolled, plus the organization policy for admins
+  const loadTwoFactorStatus = async () => {
+    try {
+      setHasTotpFactor(!!(await fetchTotpFactorId()));
+      if (user.role === 'admin') {
+        setSecurityPolicy(await fetchSecurityPolicy());
+      }
+    } catch (error: any) {
+      console.error('[Settings] Error loading 2FA status:', error);
+    }
+  };
+
+  const handleSecurityPolicyToggle = async () => {
+    if (!securityPolicy || !(await requireStepUp('change the security policy'))) return;
+
+    try {
+      const changes = { require_mfa_for_privileged_roles: !securityPolicy.require_mfa_for_privileged_roles };
+      await updateSecurityPolicy(changes, user.id);
+      setSecurityPolicy({ ...securityPolicy, ...changes });
+      toast.success('Security policy updated');
+    } catch (error: any) {
+      console.error('[Settings] Error updating security policy:', error);
+      toast.error('Error updating security policy');
+    }
+  };
+
   // Ensure required tables exist
   const ensureTablesExist = async () => {
     try {
@@ -530,11 +549,11 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
     };
 
     if (user?.id) {
-      fetchSessions();
       fetchLoginHistory();
       loadSecuritySettings();
+      loadTwoFactorStatus();
     }
-  }, [user?.id]);
+  }, [user?.id, user?.mfa_enabled]);
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
@@ -888,24 +907,10 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
                     </Box>
                     
                     <Typography variant="body2" color="text.secondary" paragraph sx={{ mb: 4 }}>
-                      Manage your active sessions across different devices. Sign out from other devices if you suspect unauthorized access.
+                      Manage your active sessions across different devices. Sign out any session you don't recognize.
                     </Typography>
                     
-                    {loadingSessions ? (
-                      <CircularProgress size={24} />
-                    ) : sessions.length > 0 ? (
-                      <Button
-                        variant="outlined"
-                        color="error"
-                        startIcon={<LogOutIcon size={16} />}
-                        onClick={() => handleTerminateSession('')}
-                        sx={{ px: 3, py: 1 }}
-                      >
-                        Sign Out Other Devices
-                      </Button>
-                    ) : (
-                      <Typography variant="body2">No other active sessions</Typography>
-                    )}
+                    <SessionsList userId={user.id} isOwnAccount />
                   </Box>
                 </Card>
               </Grow>
@@ -1021,18 +1026,69 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
                             <Switch
                               checked={securitySettings.requireMFAForSensitiveActions}
                               onChange={() => handleSecuritySettingsUpdate('requireMFAForSensitiveActions')}
+                              disabled={!securitySettings.requireMFAForSensitiveActions && !hasTotpFactor}
                               color="primary"
                             />
                           }
                           label="Require 2FA for sensitive actions"
                           sx={{ py: 1 }}
                         />
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {hasTotpFactor
+                            ? 'Asks for a code before deleting, exporting, changing roles or changing your sign-in details'
+                            : 'Enable 2FA first to use this'}
+                        </Typography>
                       </Grid>
                     </Grid>
                   </Box>
                 </Card>
               </Grow>
             </Grid>
+
+            {/* Organization Security Policy */}
+            {securityPolicy && (
+              <Grid item xs={12}>
+                <Grow in={true} timeout={500} style={{ transformOrigin: '0 0 0' }}>
+                  <Card variant="outlined" sx={{
+                    borderRadius: 2,
+                    transition: 'all 0.3s ease-in-out',
+                    '&:hover': {
+                      boxShadow: '0px 4px 12px rgba(0, 0, 0, 0.08)',
+                    },
+                  }}>
+                    <Box p={4}>
+                      <Box display="flex" alignItems="center" mb={3}>
+                        <ShieldIcon size={24} style={{ marginRight: 16 }} />
+                        <Typography variant="h6">Organization Security Policy</Typography>
+                      </Box>
+
+                      <Typography variant="body2" color="text.secondary" paragraph sx={{ mb: 3 }}>
+                        Applies to everyone in the organization. Admins and project managers without 2FA
+                        are asked to set it up before they can continue, and need a fresh code for sensitive actions.
+                      </Typography>
+
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={securityPolicy.require_mfa_for_privileged_roles}
+                            onChange={handleSecurityPolicyToggle}
+                            disabled={!securityPolicy.require_mfa_for_privileged_roles && !hasTotpFactor}
+                            color="primary"
+                          />
+                        }
+                        label="Require 2FA for admins and project managers"
+                        sx={{ py: 1 }}
+                      />
+                      {!hasTotpFactor && !securityPolicy.require_mfa_for_privileged_roles && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Enable 2FA on your own account first
+                        </Typography>
+                      )}
+                    </Box>
+                  </Card>
+                </Grow>
+              </Grid>
+            )}
           </Grid>
         </TabPanel>
 
@@ -1237,6 +1293,21 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
               onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
               variant="outlined"
             />
+            {reauthenticationSent && (
+              <>
+                <Alert severity="info" sx={{ mt: 4, mb: 2 }}>
+                  You signed in a while ago, so we emailed you a code to confirm this change.
+                </Alert>
+                <TextField
+                  fullWidth
+                  label="Confirmation code"
+                  value={passwordForm.reauthenticationCode}
+                  onChange={(e) => setPasswordForm({ ...passwordForm, reauthenticationCode: e.target.value.trim() })}
+                  variant="outlined"
+                  inputProps={{ autoComplete: 'one-time-code' }}
+                />
+              </>
+            )}
           </Box>
         </DialogContent>
         <DialogActions sx={{ px: 4, py: 4 }}>
@@ -1249,7 +1320,8 @@ export function SettingsPage({ user: initialUser, onEnableMFA }: SettingsPagePro
           </Button>
           <Button
             onClick={handlePasswordChange}
-            disabled={isSaving || !passwordForm.currentPassword || !passwordForm.newPassword || !passwordForm.confirmPassword}
+            disabled={isSaving || !passwordForm.currentPassword || !passwordForm.newPassword || !passwordForm.confirmPassword
+              || (reauthenticationSent && !passwordForm.reauthenticationCode)}
             variant="contained"
             sx={{ px: 3, py: 1 }}
           >
@@ -0,0 +1,304 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Download } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { useStepUp } from '../contexts/StepUpContext';
+import { canViewAnalytics } from '../lib/permissions';
+import { skillLevelWeight } from '../lib/skills';
+import { downloadCsv } from '../lib/csv';
+import { fetchSkillsMatrix, fetchSkillDemand, calculateSkillGaps } from '../lib/services/skillsMatrix';
+import type { SkillsMatrix, SkillDemand, SkillGapStatus } from '../lib/services/skillsMatrix';
+
+const GAP_COLORS: Record<SkillGapStatus, 'error' | 'warning' | 'success'> = {
+  missing: 'error',
+  thin: 'warning',
+  covered: 'success',
+};
+
+const GAP_LABELS: Record<SkillGapStatus, string> = {
+  missing: 'No one has it',
+  thin: 'Stretched',
+  covered: 'Covered',
+};
+
+function levelColor(level: string): 'success' | 'primary' | 'default' {
+  const weight = skillLevelWeight(level || null);
+  if (weight === 1) return 'success';
+  if (weight === 0.5) return 'default';
+  return 'primary';
+}
+
+export function SkillsMatrixPage() {
+  const { user } = useAuth();
+  const { requireStepUp } = useStepUp();
+  const [loading, setLoading] = useState(true);
+  const [matrix, setMatrix] = useState<SkillsMatrix>({ users: [], skills: [], levels: {} });
+  const [demand, setDemand] = useState<SkillDemand[]>([]);
+  const [department, setDepartment] = useState('');
+  const [position, setPosition] = useState('');
+  const [skillSearch, setSkillSearch] = useState('');
+
+  useEffect(() => {
+    if (user && canViewAnalytics(user)) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const matrixData = await fetchSkillsMatrix();
+      setMatrix(matrixData);
+      setDemand(await fetchSkillDemand(matrixData.skills.map(skill => skill.name)));
+    } catch (error) {
+      console.error('Error loading skills matrix:', error);
+      toast.error('Error loading skills matrix');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const departments = useMemo(
+    () => [...new Set(matrix.users.map(u => u.department).filter((d): d is string => !!d))].sort(),
+    [matrix.users]
+  );
+  const positions = useMemo(
+    () => [...new Set(matrix.users.map(u => u.position).filter((p): p is string => !!p))].sort(),
+    [matrix.users]
+  );
+
+  const users = useMemo(
+    () => matrix.users.filter(u => (!department || u.department === department) && (!position || u.position === position)),
+    [matrix.users, department, position]
+  );
+  const skills = matrix.skills.filter(skill =>
+    skill.name.toLowerCase().includes(skillSearch.trim().toLowerCase()) &&
+    users.some(u => matrix.levels[u.id]?.[skill.key] !== undefined)
+  );
+  // Supply is limited to the filtered people, so a department can be checked against demand
+  const gaps = useMemo(
+    () => calculateSkillGaps({ ...matrix, users }, demand),
+    [matrix, demand, users]
+  );
+
+  if (user && !canViewAnalytics(user)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const handleExportMatrix = async () => {
+    if (!(await requireStepUp('export the skills matrix'))) return;
+    downloadCsv('skills-matrix.csv', [
+      ['Name', 'Department', 'Position', ...skills.map(skill => skill.name)],
+      ...users.map(u => [
+        u.full_name,
+        u.department,
+        u.position,
+        ...skills.map(skill => {
+          const level = matrix.levels[u.id]?.[skill.key];
+          return level === undefined ? '' : level || 'Yes';
+        }),
+      ]),
+    ]);
+  };
+
+  const handleExportGaps = async () => {
+    if (!(await requireStepUp('export the skill gaps'))) return;
+    downloadCsv('skill-gaps.csv', [
+      ['Skill', 'Status', 'Open tasks', 'Inferred from text', 'Open hours', 'Phases', 'Projects', 'People', 'Advanced', 'Hours per person'],
+      ...gaps.map(gap => [
+        gap.name,
+        GAP_LABELS[gap.status],
+        gap.tasks,
+        gap.inferredTasks,
+        gap.hours,
+        gap.phases,
+        gap.projects.join('; '),
+        gap.holders,
+        gap.advancedHolders,
+        gap.hoursPerHolder,
+      ]),
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4">Skills Matrix</Typography>
+        <Box display="flex" gap={1}>
+          <Button variant="outlined" startIcon={<Download size={18} />} onClick={handleExportMatrix}>
+            Export Matrix
+          </Button>
+          <Button variant="outlined" startIcon={<Download size={18} />} onClick={handleExportGaps}>
+            Export Gaps
+          </Button>
+        </Box>
+      </Box>
+
+      <Box display="flex" gap={2} mb={3} flexWrap="wrap">
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Department</InputLabel>
+          <Select value={department} onChange={(e) => setDepartment(e.target.value)} label="Department">
+            <MenuItem value="">All Departments</MenuItem>
+            {departments.map(d => (
+              <MenuItem key={d} value={d}>{d}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Position</InputLabel>
+          <Select value={position} onChange={(e) => setPosition(e.target.value)} label="Position">
+            <MenuItem value="">All Positions</MenuItem>
+            {positions.map(p => (
+              <MenuItem key={p} value={p}>{p}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Filter skills"
+          value={skillSearch}
+          onChange={(e) => setSkillSearch(e.target.value)}
+        />
+      </Box>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Gap Analysis
+        </Typography>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Skills needed by open tasks and phases of active projects, against the {users.length} people shown.
+          Untagged tasks count towards skills their title or description mentions.
+        </Typography>
+        {gaps.length === 0 ? (
+          <Typography color="text.secondary">
+            No skill demand found. Tag tasks and phases with required skills to see gaps.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Skill</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Open tasks</TableCell>
+                  <TableCell align="right">Open hours</TableCell>
+                  <TableCell align="right">Phases</TableCell>
+                  <TableCell>Projects</TableCell>
+                  <TableCell align="right">People</TableCell>
+                  <TableCell align="right">Hours per person</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {gaps.map(gap => (
+                  <TableRow key={gap.key}>
+                    <TableCell>{gap.name}</TableCell>
+                    <TableCell>
+                      <Chip label={GAP_LABELS[gap.status]} color={GAP_COLORS[gap.status]} size="small" />
+                    </TableCell>
+                    <TableCell align="right">
+                      {gap.tasks}
+                      {gap.inferredTasks > 0 && (
+                        <Typography component="span" variant="caption" color="text.secondary">
+                          {' '}({gap.inferredTasks} inferred)
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{gap.hours}h</TableCell>
+                    <TableCell align="right">{gap.phases}</TableCell>
+                    <TableCell>{gap.projects.join(', ')}</TableCell>
+                    <TableCell align="right">
+                      {gap.holders}
+                      {gap.advancedHolders > 0 && ` (${gap.advancedHolders} advanced)`}
+                    </TableCell>
+                    <TableCell align="right">{gap.hoursPerHolder === null ? '—' : `${gap.hoursPerHolder}h`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          People × Skills
+        </Typography>
+        {users.length === 0 || skills.length === 0 ? (
+          <Typography color="text.secondary">
+            No skills on record for the selected people.
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: 600 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ position: 'sticky', left: 0, zIndex: 3, bgcolor: 'background.paper' }}>
+                    Person
+                  </TableCell>
+                  {skills.map(skill => (
+                    <TableCell key={skill.key} align="center" sx={{ whiteSpace: 'nowrap' }}>
+                      {skill.name}
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {skill.holders} {skill.holders === 1 ? 'person' : 'people'}
+                      </Typography>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {users.map(u => (
+                  <TableRow key={u.id} hover>
+                    <TableCell sx={{ position: 'sticky', left: 0, zIndex: 1, bgcolor: 'background.paper', whiteSpace: 'nowrap' }}>
+                      <Typography variant="body2" fontWeight={500}>{u.full_name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {[u.position, u.department].filter(Boolean).join(' • ') || 'No Department'}
+                      </Typography>
+                    </TableCell>
+                    {skills.map(skill => {
+                      const level = matrix.levels[u.id]?.[skill.key];
+                      return (
+                        <TableCell key={skill.key} align="center">
+                          {level !== undefined && (
+                            <Chip label={level || 'Yes'} size="small" color={levelColor(level)} variant="outlined" />
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </Box>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
-import type { Task } from '../types/task';
+import type { Task, TaskViewConfig } from '../types/task';
 import type { User } from '../types/auth';
 import { useAuth } from '../contexts/AuthContext';
 import { TaskTable } from '../components/task/TaskTable';
+import { TaskFilterBar } from '../components/task/TaskFilterBar';
+import { TaskViewControls } from '../components/task/TaskViewControls';
 import { toast } from 'react-hot-toast';
 import {
   Box,
@@ -12,11 +14,6 @@ import {
   Typography,
   Button,
   CircularProgress,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
-  Grid,
   Dialog,
   DialogTitle,
   DialogContent,
@@ -28,13 +25,22 @@ import {
 } from '@mui/material';
 import { Sparkles, Check } from 'lucide-react';
 import { enhanceTasks } from '../lib/ai/enhance-tasks';
+import { TASK_PROGRESS_SELECT } from '../lib/services/subtasks';
+import { DEFAULT_TASK_VIEW, applyTaskFilters } from '../lib/taskFilters';
+import { updateIfUnchanged, VersionConflictError } from '../lib/services/concurrency';
+
+// Tasks here span projects, so the project column is on by default
+const TASKS_PAGE_VIEW: TaskViewConfig = {
+  ...DEFAULT_TASK_VIEW,
+  columns: ['status', 'priority', 'phase', 'assignee', 'project', 'due_date', 'estimated_hours']
+};
 
 export function TasksPage() {
   const navigate = useNavigate();
   const { user: currentUser } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const [projectFilter, setProjectFilter] = useState<string>('');
+  const [viewConfig, setViewConfig] = useState<TaskViewConfig>(TASKS_PAGE_VIEW);
   const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
 
   // States for AI enhancement
@@ -47,27 +53,35 @@ export function TasksPage() {
       fetchTasks();
       fetchProjects();
     }
-  }, [currentUser, projectFilter]);
+  }, [currentUser]);
+
+  const filteredTasks = applyTaskFilters(tasks, viewConfig.filters);
+  // AI enhancement works on one project at a time
+  const selectedProjectId = viewConfig.filters.projectIds.length === 1 ? viewConfig.filters.projectIds[0] : '';
+
+  // Filter options come from the loaded tasks, since they span projects
+  const assigneeOptions = [...new Map(
+    tasks.filter(task => task.assignee).map(task => [task.assignee!.id, { id: task.assignee!.id, name: task.assignee!.full_name }])
+  ).values()].sort((a, b) => a.name.localeCompare(b.name));
+  const phaseOptions = [...new Map(
+    tasks.filter(task => task.phase).map(task => [task.phase!.id, { id: task.phase!.id, name: task.phase!.name }])
+  ).values()].sort((a, b) => a.name.localeCompare(b.name));
 
   const fetchTasks = async () => {
     try {
       setLoading(true);
-      let query = supabase
+      const { data, error } = await supabase
         .from('tasks')
         .select(`
           *,
           assignee:assigned_to(id, full_name, email),
           creator:created_by(id, full_name, email),
-          project:projects(id, name)
+          project:projects(id, name),
+          phase:phase_id(id, name),
+          ${TASK_PROGRESS_SELECT}
         `)
         .order('created_at', { ascending: false });
 
-      if (projectFilter) {
-        query = query.eq('project_id', projectFilter);
-      }
-
-      const { data, error } = await query;
-
       if (error) throw error;
       setTasks(data || []);
     } catch (error: any) {
@@ -83,6 +97,7 @@ export function TasksPage() {
       const { data, error } = await supabase
         .from('projects')
         .select('id, name')
+        .eq('is_template', false)
         .order('name');
 
       if (error) throw error;
@@ -92,17 +107,23 @@ export function TasksPage() {
     }
   };
 
-  const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
+  // Saves against the version the caller edited, or else the one on screen
+  const handleUpdateTask = async (taskId: string, updates: Partial<Task>, expectedUpdatedAt?: string) => {
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update(updates)
-        .eq('id', taskId);
+      const version = expectedUpdatedAt || tasks.find(task => task.id === taskId)?.updated_at;
+      if (!version) throw new Error('Task is not loaded');
 
-      if (error) throw error;
+      await updateIfUnchanged<Task>('tasks', taskId, updates, version);
       await fetchTasks();
       toast.success('Task updated successfully');
     } catch (error: any) {
+      if (error instanceof VersionConflictError) {
+        await fetchTasks();
+        // The edit modal resolves conflicts on the version it was given
+        if (expectedUpdatedAt) throw error;
+        toast.error(`Not saved: the task was changed by ${error.changedBy || 'another user'}`);
+        return;
+      }
       console.error('Error updating task:', error);
       toast.error('Error updating task');
     }
@@ -111,13 +132,13 @@ export function TasksPage() {
   // New function to get AI enhancements for tasks
   const handleGetEnhancements = async () => {
     // If no project is selected, show an error
-    if (!projectFilter) {
+    if (!selectedProjectId) {
       toast.error('Please select a project to enhance tasks');
       return;
     }
 
     // Only proceed if we have tasks to enhance
-    if (tasks.length === 0) {
+    if (filteredTasks.length === 0) {
       toast.error('No tasks available to enhance');
       return;
     }
@@ -126,7 +147,7 @@ export function TasksPage() {
       setIsEnhancingTasks(true);
       
       // Use enhanceTasks function to enhance existing tasks
-      const enhancements = await enhanceTasks(tasks, projectFilter);
+      const enhancements = await enhanceTasks(filteredTasks, selectedProjectId);
       
       // Check if we have valid enhancements
       if (!enhancements || enhancements.length === 0) {
@@ -243,7 +264,8 @@ export function TasksPage() {
     );
   }
 
-  if (loading) {
+  // Only block the page on the first load so the filter and view controls keep their state
+  if (loading && tasks.length === 0) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight={400}>
         <CircularProgress />
@@ -264,44 +286,48 @@ export function TasksPage() {
         </Typography>
       </Box>
 
-      <Grid container spacing={3} mb={4}>
-        <Grid item xs={12} md={4}>
-          <FormControl fullWidth>
-            <InputLabel>Filter by Project</InputLabel>
-            <Select
-              value={projectFilter}
-              onChange={(e) => setProjectFilter(e.target.value)}
-              label="Filter by Project"
-            >
-              <MenuItem value="">All Projects</MenuItem>
-              {projects.map((project) => (
-                <MenuItem key={project.id} value={project.id}>
-                  {project.name}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Grid>
-        {canManageTasks && projectFilter && (
-          <Grid item xs={12} md={4}>
+      <Box display="flex" flexWrap="wrap" justifyContent="space-between" alignItems="center" gap={2} mb={3}>
+        <TaskFilterBar
+          filters={viewConfig.filters}
+          onChange={(filters) => setViewConfig({ ...viewConfig, filters })}
+          assignees={assigneeOptions}
+          phases={phaseOptions}
+          projects={projects}
+        />
+        <Box display="flex" alignItems="center" gap={2}>
+          <TaskViewControls
+            config={viewConfig}
+            onChange={setViewConfig}
+            projectId={null}
+            currentUser={currentUser}
+            defaultConfig={TASKS_PAGE_VIEW}
+          />
+          {canManageTasks && selectedProjectId && (
             <Button
               variant="outlined"
               startIcon={<Sparkles size={18} />}
               onClick={handleGetEnhancements}
-              disabled={isEnhancingTasks || tasks.length === 0}
-              sx={{ height: '100%' }}
+              disabled={isEnhancingTasks || filteredTasks.length === 0}
             >
               {isEnhancingTasks ? 'Enhancing Tasks...' : 'AI Enhance Tasks'}
             </Button>
-          </Grid>
-        )}
-      </Grid>
+          )}
+        </Box>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" mb={1}>
+        Showing {filteredTasks.length} of {tasks.length} tasks
+      </Typography>
 
       <TaskTable
-        tasks={tasks}
+        tasks={filteredTasks}
         onUpdateTask={handleUpdateTask}
         currentUser={currentUser}
         canManageTasks={canManageTasks}
+        columns={viewConfig.columns}
+        groupBy={viewConfig.group_by}
+        sort={viewConfig.sort}
+        onSortChange={(sort) => setViewConfig({ ...viewConfig, sort })}
       />
 
       {/* AI Task Enhancement Dialog */}
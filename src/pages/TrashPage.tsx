@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { canManageTrash } from '../lib/permissions';
+import { fetchTrashItems, restoreTrashItem, TRASH_RETENTION_DAYS } from '../lib/services/trash';
+import type { TrashItem, TrashItemType } from '../types/trash';
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  project: 'Project',
+  phase: 'Phase',
+  task: 'Task',
+};
+
+function describeContents(item: TrashItem): string {
+  const parts: string[] = [];
+  if (item.item_type === 'project' && item.phase_count > 0) {
+    parts.push(`${item.phase_count} ${item.phase_count === 1 ? 'phase' : 'phases'}`);
+  }
+  // A task's own row is part of task_count; only mention what came with it
+  const tasks = item.item_type === 'task' ? item.task_count - 1 : item.task_count;
+  if (tasks > 0) {
+    const noun = item.item_type === 'task' ? 'subtask' : 'task';
+    parts.push(`${tasks} ${noun}${tasks === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : '—';
+}
+
+export function TrashPage() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [typeFilter, setTypeFilter] = useState<TrashItemType | ''>('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user && canManageTrash(user)) {
+      fetchItems();
+    }
+  }, [user]);
+
+  const fetchItems = async () => {
+    try {
+      setLoading(true);
+      setItems(await fetchTrashItems());
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      toast.error('Error loading trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setRestoringId(item.id);
+      await restoreTrashItem(item.id);
+      toast.success(`${TYPE_LABELS[item.item_type]} "${item.label}" restored`);
+      setItems(prev => prev.filter(entry => entry.id !== item.id));
+    } catch (error: any) {
+      console.error('Error restoring item:', error);
+      toast.error('Error restoring item: ' + (error.message || 'Unknown error'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (user && !canManageTrash(user)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const visibleItems = typeFilter ? items.filter(item => item.item_type === typeFilter) : items;
+
+  return (
+    <Box p={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h4">Trash</Typography>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Type</InputLabel>
+          <Select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as TrashItemType | '')}
+            label="Type"
+          >
+            <MenuItem value="">All</MenuItem>
+            {(Object.keys(TYPE_LABELS) as TrashItemType[]).map(type => (
+              <MenuItem key={type} value={type}>{TYPE_LABELS[type]}s</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+      <Typography variant="body2" color="text.secondary" mb={3}>
+        Deleted projects, phases and tasks stay here for {TRASH_RETENTION_DAYS} days before they are permanently deleted.
+      </Typography>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={4}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Type</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Project</TableCell>
+                <TableCell>Also deleted</TableCell>
+                <TableCell>Deleted by</TableCell>
+                <TableCell>Deleted</TableCell>
+                <TableCell>Permanently deleted on</TableCell>
+                <TableCell align="right" />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleItems.map(item => (
+                <TableRow key={item.id} hover>
+                  <TableCell>
+                    <Chip label={TYPE_LABELS[item.item_type]} size="small" variant="outlined" />
+                  </TableCell>
+                  <TableCell>{item.label || 'Untitled'}</TableCell>
+                  <TableCell>{item.item_type === 'project' ? '—' : item.project_name}</TableCell>
+                  <TableCell>{describeContents(item)}</TableCell>
+                  <TableCell>{item.deleter?.full_name || 'Unknown'}</TableCell>
+                  <TableCell>
+                    <Tooltip title={format(new Date(item.deleted_at), 'MMM d, yyyy h:mm a')}>
+                      <span>{formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>{format(new Date(item.expires_at), 'MMM d, yyyy')}</TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      startIcon={<RotateCcw size={16} />}
+                      onClick={() => handleRestore(item)}
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === item.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {visibleItems.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} align="center">
+                    <Typography color="text.secondary" py={2}>
+                      The trash is empty.
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
@@ -19,6 +19,10 @@ import { NotesSection } from '../components/user/NotesSection';
 import { useAuth } from '../contexts/auth/AuthContext';
 import toast from 'react-hot-toast';
 import UserAnalysis from '../components/user/UserAnalysis';
+import { TimesheetSection } from '../components/user/TimesheetSection';
+import { AuditHistory } from '../components/AuditHistory';
+import { SessionsList } from '../components/SessionsList';
+import { canManageAdmins, canManageUsers } from '../lib/permissions';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -126,6 +130,11 @@ export function UserDetailsPage() {
 
   const canEdit = currentUser?.role === 'admin' || currentUser?.id === userId;
   const canEditNotes = currentUser?.role === 'admin' || currentUser?.role === 'project_manager';
+  // Matches can_manage_user_sessions(): an admin's sessions also need manage_admins
+  const canManageSessions = !!currentUser && (
+    currentUser.id === userId
+    || (canManageUsers(currentUser) && (user?.role !== 'admin' || canManageAdmins(currentUser)))
+  );
 
   // Prevent project managers from viewing admin or other project managers' information
   if (currentUser?.role === 'project_manager' && 
@@ -245,6 +254,9 @@ export function UserDetailsPage() {
             <Tab label="Projects" />
             <Tab label="Notes" />
             <Tab label="User Analysis" />
+            <Tab label="Timesheet" />
+            <Tab label="History" />
+            {canManageSessions && <Tab label="Sessions" />}
           </Tabs>
         </Box>
 
@@ -283,6 +295,22 @@ export function UserDetailsPage() {
         <TabPanel value={tabValue} index={4}>
           <UserAnalysis userId={userId!} />
         </TabPanel>
+
+        <TabPanel value={tabValue} index={5}>
+          <TimesheetSection userId={userId!} />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={6}>
+          <AuditHistory tables={['users', 'project_members']} recordId={userId!} />
+        </TabPanel>
+
+        {canManageSessions && (
+          <TabPanel value={tabValue} index={7}>
+            <Box p={3}>
+              <SessionsList userId={userId!} isOwnAccount={currentUser?.id === userId} />
+            </Box>
+          </TabPanel>
+        )}
       </Card>
     </Box>
   );
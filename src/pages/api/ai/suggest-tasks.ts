@@ -1,9 +1,6 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { TaskSuggestion } from '../../../types/task';
-
-// Initialize Gemini API
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
+import { generateAIText } from '../../../lib/ai/client';
+import { stripCodeFences } from '../../../lib/ai/providers';
 
 export async function suggestTasks(projectData: any, knowledgeBase: any, existingTasks: any): Promise<TaskSuggestion[]> {
   try {
@@ -32,17 +29,15 @@ Please suggest 5 new tasks in the following JSON format:
 
 Consider team members' skills, existing workload, and project progress when making suggestions.`;
 
-    // Generate content using Gemini
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const response = await generateAIText({ feature: 'suggest-tasks', prompt, json: true });
+    const text = stripCodeFences(response.text);
 
     // Parse and validate the response
     let suggestions: TaskSuggestion[];
     try {
       suggestions = JSON.parse(text);
     } catch (error) {
-      console.error('Failed to parse Gemini response:', error);
+      console.error('Failed to parse AI response:', error);
       throw new Error('Failed to generate valid task suggestions');
     }
 
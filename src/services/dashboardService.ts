@@ -99,7 +99,8 @@ export async function fetchProjectStatus(): Promise<Project[]> {
     // Direct query to projects and tasks tables since get_project_progress RPC doesn't exist
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
-      .select('id, name, status, progress');
+      .select('id, name, status, progress')
+      .eq('is_template', false);
 
     if (projectError) throw projectError;
 
@@ -1,6 +1,6 @@
 import type { User } from './auth';
 
-export type ActivityType = 'task_completed' | 'decision' | 'note' | 'phase_completed';
+export type ActivityType = 'task_completed' | 'decision' | 'note' | 'phase_completed' | 'comment';
 
 export interface ActivityLog {
   id: string;
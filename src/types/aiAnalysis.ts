@@ -0,0 +1,46 @@
+export type AIAnalysisType = 'task_suggestions' | 'phase_suggestions' | 'user_analysis';
+
+// A cached analysis belongs to a project, or to the user being analysed
+export interface AIAnalysisScope {
+  projectId?: string | null;
+  subjectUserId?: string | null;
+}
+
+export interface AIAnalysisVersion<T = unknown> {
+  id: string;
+  project_id: string | null;
+  subject_user_id: string | null;
+  analysis_type: AIAnalysisType;
+  version: number;
+  input_hash: string;
+  analysis_data: T;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  valid_until: string;
+  invalidated_at: string | null; // set when the project's tasks, phases or members change
+  creator?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
+
+export type AIAnalysisStaleReason = 'inputs_changed' | 'expired';
+
+// Why one field of an AI suggestion was not accepted
+export interface SuggestionIssue {
+  field: string;
+  message: string;
+}
+
+export interface RejectedSuggestion {
+  index: number; // position in the model's reply
+  label: string; // title or name, for display
+  issues: SuggestionIssue[];
+}
+
+// Suggestions that passed validation plus a report on those that were dropped
+export interface SuggestionResult<T> {
+  suggestions: T[];
+  rejected: RejectedSuggestion[];
+}
@@ -0,0 +1,34 @@
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditTable = 'projects' | 'project_phases' | 'tasks' | 'project_members' | 'users';
+
+export interface AuditFieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  user_id: string | null;
+  action: AuditAction;
+  table_name: AuditTable;
+  record_id: string; // the member's user id for project_members
+  project_id: string | null;
+  record_label: string | null; // name or title when the change was made
+  changes: Record<string, AuditFieldChange>;
+  created_at: string;
+  actor?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
+
+export interface AuditSearchFilters {
+  tableName?: AuditTable;
+  action?: AuditAction;
+  actorId?: string;
+  field?: string;
+  search?: string; // matched against the record label
+  from?: string;
+  to?: string;
+}
@@ -1,12 +1,52 @@
-export type UserRole = 'admin' | 'project_manager' | 'employee';
+export type UserRole = 'admin' | 'project_manager' | 'employee' | 'guest';
 export type UserStatus = 'active' | 'inactive' | 'pending';
 
+export type Permission =
+  | 'manage_users'
+  | 'manage_admins'
+  | 'manage_roles'
+  | 'create_projects'
+  | 'manage_projects'
+  | 'delete_projects'
+  | 'manage_members'
+  | 'manage_all_tasks'
+  | 'edit_assigned_tasks'
+  | 'view_analytics'
+  | 'edit_knowledge_base'
+  | 'use_ai_features'
+  | 'view_budget'
+  | 'manage_budget'
+  | 'access_settings'
+  | 'manage_trash'
+  | 'view_audit_log';
+
+export interface Role {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  base_role: UserRole; // the built-in tier users.role mirrors
+  permissions: Permission[];
+  is_system: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PermissionGrants {
+  role_id: string | null;
+  permissions: Permission[];
+  projects: Record<string, Permission[]>; // project role overrides by project id
+}
+
 export interface User {
   id: string;
   auth_id?: string; // Optional auth_id for linking to Supabase Auth
   email: string;
   full_name: string;
   role: UserRole;
+  role_id?: string | null;
+  permissions?: Permission[]; // loaded for the signed-in user
+  project_permissions?: Record<string, Permission[]>;
   status: UserStatus;
   department?: string;
   position?: string;
@@ -21,4 +61,23 @@ export interface AuthState {
   user: User | null;
   session: any | null;
   loading: boolean;
-}
\ No newline at end of file
+}
+// A signed-in device, as returned by get_user_sessions
+export interface UserSession {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  device: string | null;
+  browser: string | null;
+  location: string | null;
+  first_seen_at: string;
+  last_active_at: string;
+  is_current: boolean;
+}
+
+// Organization-wide security settings, edited by admins
+export interface SecurityPolicy {
+  require_mfa_for_privileged_roles: boolean;
+  updated_by: string | null;
+  updated_at: string;
+}
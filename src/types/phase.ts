@@ -21,6 +21,7 @@ export interface Phase {
     email: string;
   };
   task_count?: number;
+  required_skills?: string[];
 }
 
 export interface PhaseSuggestion {
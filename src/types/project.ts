@@ -16,6 +16,7 @@ export interface ProjectMember {
   user_id: string;
   project_id: string;
   role: 'member' | 'manager';
+  role_id?: string | null; // permission role override inside this project
   user: User;
   created_at: string;
   updated_at: string;
@@ -33,6 +34,13 @@ export interface Project {
   owner_id: string | null;
   manager_id: string | null;
   budget: number | null;
+  budget_alert_thresholds?: number[];
+  budget_alerted_threshold?: number;
+  is_template?: boolean;
+  source_project_id?: string | null; // project or template this one was copied from
+  guest_phases_visible?: boolean;
+  guest_faqs_visible?: boolean;
+  guest_resources_visible?: boolean;
   progress: number;
   created_at: string;
   updated_at: string;
@@ -40,6 +48,33 @@ export interface Project {
   team_members?: ProjectMember[];
 }
 
+// An external guest invited to follow a project
+export interface ProjectGuest {
+  id: string;
+  project_id: string;
+  user_id: string;
+  invited_by: string | null;
+  invited_at: string;
+  user?: Pick<User, 'id' | 'full_name' | 'email' | 'avatar_url'>;
+}
+
+export type GuestVisibility = Pick<Project, 'guest_phases_visible' | 'guest_faqs_visible' | 'guest_resources_visible'>;
+
+export interface ProjectExpense {
+  id: string;
+  project_id: string;
+  description: string;
+  category: string | null;
+  amount: number;
+  incurred_on: string;
+  created_by: string | null;
+  created_at: string;
+  creator?: {
+    id: string;
+    full_name: string;
+  };
+}
+
 export interface ProjectActivity {
   id: string;
   project_id: string;
@@ -1,5 +1,6 @@
 import type { User } from './auth';
 import type { Phase } from './phase';
+import type { RecurrenceFrequency } from '../lib/recurrence';
 
 export type TaskStatus = 'todo' | 'in_progress' | 'in_review' | 'completed';
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
@@ -32,17 +33,60 @@ export interface Task {
   ai_insights?: {
     risk_assessment?: string;
   };
+  project?: {
+    id: string;
+    name: string;
+  };
+  comments?: { count: number }[];
+  attachments?: { count: number }[];
+  template_id?: string | null;
+  recurrence_id?: string | null; // set on tasks generated by a recurrence rule
+  parent_task_id?: string | null;
+  subtasks?: Pick<Task, 'id' | 'status'>[];
+  checklist_items?: Pick<TaskChecklistItem, 'id' | 'is_completed'>[];
+  required_skills?: string[];
+  visible_to_guests?: boolean;
+  deleted_at?: string | null; // set while the task is in the trash
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  task_id: string;
+  content: string;
+  is_completed: boolean;
+  position: number;
+  completed_by: string | null;
+  completed_at: string | null;
+  created_by: string | null;
+  created_at: string;
 }
 
 export interface TaskComment {
   id: string;
   task_id: string;
   user_id: string;
+  parent_comment_id: string | null;
   content: string;
   created_at: string;
+  updated_at: string;
   user?: User;
 }
 
+export interface TaskAttachment {
+  id: string;
+  task_id: string;
+  file_name: string;
+  file_url: string; // Path of the object in the task-attachments bucket
+  file_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+  uploader?: {
+    id: string;
+    full_name: string;
+  };
+}
+
 export interface TaskActivity {
   id: string;
   task_id: string;
@@ -58,6 +102,79 @@ export interface TaskDependency {
   dependent_task_id: string;
   dependency_task_id: string;
   created_at: string;
+  dependency?: {
+    id: string;
+    title: string;
+    status: TaskStatus;
+    phase_id: string | null;
+  };
+}
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null; // null while the timer is running
+  duration_minutes: number | null;
+  note: string | null;
+  is_manual: boolean;
+  created_at: string;
+  user?: {
+    id: string;
+    full_name: string;
+  };
+  task?: {
+    id: string;
+    title: string;
+    project_id: string;
+    estimated_hours: number | null;
+    project?: {
+      id: string;
+      name: string;
+    };
+  };
+}
+
+export interface TaskTemplate {
+  id: string;
+  project_id: string | null; // null for templates shared across projects
+  name: string;
+  title: string;
+  description: string | null;
+  priority: TaskPriority;
+  estimated_hours: number | null;
+  checklist: string[];
+  phase_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskRecurrence {
+  id: string;
+  template_id: string;
+  project_id: string;
+  assigned_to: string | null;
+  frequency: RecurrenceFrequency;
+  interval_count: number;
+  weekdays: number[] | null;
+  day_of_month: number | null;
+  cron_expression: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  due_offset_days: number;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  template?: Pick<TaskTemplate, 'id' | 'name' | 'title'>;
+  assignee?: {
+    id: string;
+    full_name: string;
+  };
 }
 
 export interface TaskSuggestion {
@@ -76,4 +193,72 @@ export interface TaskSuggestion {
   assigned_to?: string | null;
   rationale?: string;
   added?: boolean;
-} 
\ No newline at end of file
+  subtasks?: SubtaskSuggestion[]; // proposed breakdown when the task is too large for one item
+}
+
+export interface SubtaskSuggestion {
+  title: string;
+  description?: string;
+  estimated_hours: number;
+}
+
+// A change of assignee proposed by workload rebalancing
+export interface ReassignmentProposal {
+  task_id: string;
+  task_title: string;
+  from_user_id: string | null;
+  from_name: string | null;
+  to_user_id: string;
+  to_name: string;
+  reason: string;
+}
+
+export interface TaskFilters {
+  search: string;
+  statuses: TaskStatus[];
+  priorities: TaskPriority[];
+  assigneeIds: string[];
+  phaseIds: string[];
+  projectIds: string[];
+  dueFrom: string | null; // yyyy-MM-dd, inclusive
+  dueTo: string | null; // yyyy-MM-dd, inclusive
+  overdue: boolean;
+  unassigned: boolean;
+}
+
+export type TaskGroupBy = 'none' | 'phase' | 'assignee' | 'priority';
+
+export type TaskColumn = 'status' | 'priority' | 'phase' | 'assignee' | 'project' | 'due_date' | 'estimated_hours';
+
+export type TaskSortField = 'title' | 'status' | 'priority' | 'due_date' | 'estimated_hours' | 'created_at';
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Everything a saved view restores on the task table and board
+export interface TaskViewConfig {
+  filters: TaskFilters;
+  columns: TaskColumn[];
+  group_by: TaskGroupBy;
+  sort: TaskSort;
+}
+
+export interface SavedTaskView {
+  id: string;
+  user_id: string;
+  project_id: string | null; // null for personal views on the Tasks page
+  name: string;
+  is_shared: boolean; // visible to every member of the project
+  filters: Partial<TaskFilters>;
+  columns: TaskColumn[];
+  group_by: TaskGroupBy;
+  sort: TaskSort;
+  created_at: string;
+  updated_at: string;
+  owner?: {
+    id: string;
+    full_name: string;
+  };
+}
@@ -0,0 +1,19 @@
+export type TrashItemType = 'project' | 'phase' | 'task';
+
+export interface TrashItem {
+  id: string;
+  item_type: TrashItemType;
+  item_id: string;
+  project_id: string;
+  label: string | null;
+  project_name: string | null;
+  phase_count: number;
+  task_count: number; // includes subtasks that went with a task
+  deleted_by: string | null;
+  deleted_at: string;
+  expires_at: string;
+  deleter?: {
+    id: string;
+    full_name: string;
+  } | null;
+}
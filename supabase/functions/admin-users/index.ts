@@ -0,0 +1,136 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface AdminUsersRequest {
+  action?: 'delete' | 'update_access';
+  userId?: string;
+  email?: string;
+  role?: string;
+  roleId?: string;
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Deleting users and changing their role or email. The writes need the
+// service role, which has no auth.uid() for the database to check step-up
+// against, so it is checked here with the caller's own session first.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+  const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  const { data: { user } } = token
+    ? await supabaseClient.auth.getUser(token)
+    : { data: { user: null } }
+
+  if (!user) {
+    return json({ error: 'Not authenticated' }, 401)
+  }
+
+  const { action, userId, email, role, roleId } = await req.json().catch(() => ({})) as AdminUsersRequest
+  if (!userId || (action !== 'delete' && action !== 'update_access')) {
+    return json({ error: 'action and userId are required' }, 400)
+  }
+
+  if (action === 'delete' && userId === user.id) {
+    return json({ error: 'You cannot delete your own account' }, 400)
+  }
+
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  })
+
+  const { error: stepUpError } = await callerClient.rpc('assert_step_up')
+  if (stepUpError) {
+    return json({ error: stepUpError.message, hint: stepUpError.hint }, 403)
+  }
+
+  const [{ data: permissions, error: permissionsError }, { data: target, error: targetError }] = await Promise.all([
+    supabaseClient.rpc('user_permissions', { p_user_id: user.id }),
+    supabaseClient.from('users').select('id, role').eq('id', userId).maybeSingle(),
+  ])
+
+  if (permissionsError || targetError) {
+    console.error('Error checking user management permissions:', permissionsError || targetError)
+    return json({ error: 'Could not check permissions' }, 500)
+  }
+
+  if (!target) {
+    return json({ error: 'User not found' }, 404)
+  }
+
+  const granted = (permissions as string[] | null) || []
+  const roleChanged = (role !== undefined && role !== target.role) || roleId !== undefined
+  const touchesAdmin = target.role === 'admin' || role === 'admin'
+
+  if (
+    !granted.includes('manage_users')
+    || (touchesAdmin && !granted.includes('manage_admins'))
+    || (roleChanged && !granted.includes('manage_roles'))
+  ) {
+    return json({ error: 'You do not have permission to change this user' }, 403)
+  }
+
+  try {
+    if (action === 'delete') {
+      // The profile row goes with the auth user
+      const { error: deleteError } = await supabaseClient.auth.admin.deleteUser(userId)
+      if (deleteError) {
+        throw deleteError
+      }
+      return json({ deleted: true }, 200)
+    }
+
+    if (email !== undefined || role !== undefined) {
+      const { data: { user: authUser }, error: authUserError } = await supabaseClient.auth.admin.getUserById(userId)
+      if (authUserError) {
+        throw authUserError
+      }
+
+      const { error: authError } = await supabaseClient.auth.admin.updateUserById(userId, {
+        ...(email !== undefined ? { email } : {}),
+        user_metadata: { ...authUser?.user_metadata, ...(role !== undefined ? { role } : {}) },
+      })
+      if (authError) {
+        throw authError
+      }
+    }
+
+    const { data: updatedUser, error: updateError } = await supabaseClient
+      .from('users')
+      .update({
+        ...(email !== undefined ? { email } : {}),
+        ...(role !== undefined ? { role } : {}),
+        // The database keeps role in step with the role's tier
+        ...(roleId !== undefined ? { role_id: roleId } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId)
+      .select()
+      .single()
+
+    if (updateError) {
+      throw updateError
+    }
+
+    return json({ user: updatedUser }, 200)
+  } catch (err) {
+    console.error(`User ${action} for ${userId} failed:`, err)
+    return json({ error: (err as Error).message }, 500)
+  }
+})
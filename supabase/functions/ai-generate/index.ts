@@ -0,0 +1,133 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+// @ts-ignore: Deno resolves the .ts extension
+import { createProvider, generateWithRetries } from '../../../src/lib/ai/providers.ts'
+// @ts-ignore: Deno resolves the .ts extension
+import type { AIProviderName } from '../../../src/lib/ai/providers.ts'
+// @ts-ignore: Deno resolves the .ts extension
+import { MOCK_AI_FIXTURES } from '../../../src/lib/ai/mockFixtures.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface GenerateRequest {
+  feature: string;
+  prompt: string;
+  system?: string;
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// The provider and its keys are configured through function secrets, e.g.
+// `supabase secrets set AI_PROVIDER=openai OPENAI_API_KEY=...`
+function providerConfig() {
+  const provider = (Deno.env.get('AI_PROVIDER') || 'gemini') as AIProviderName
+  const apiKey = ({
+    gemini: Deno.env.get('GEMINI_API_KEY'),
+    openai: Deno.env.get('OPENAI_API_KEY'),
+  } as Record<string, string | undefined>)[provider] ?? Deno.env.get('AI_API_KEY')
+
+  return {
+    provider,
+    model: Deno.env.get('AI_MODEL') || undefined,
+    apiKey: apiKey || undefined,
+    baseUrl: Deno.env.get('AI_BASE_URL') || undefined,
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  // Service role so usage can be recorded regardless of the caller's policies
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  const { data: { user } } = token
+    ? await supabaseClient.auth.getUser(token)
+    : { data: { user: null } }
+
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  // The service role has no auth.uid(), so look the caller's permissions up by id
+  const { data: permissions, error: permissionsError } = await supabaseClient
+    .rpc('user_permissions', { p_user_id: user.id })
+
+  if (permissionsError) {
+    console.error('Error checking AI permission:', permissionsError)
+    return jsonResponse({ error: 'Could not check permissions' }, 500)
+  }
+
+  if (!(permissions as string[] | null)?.includes('use_ai_features')) {
+    return jsonResponse({ error: 'You do not have permission to use AI features' }, 403)
+  }
+
+  const request = await req.json().catch(() => null) as GenerateRequest | null
+  if (!request?.feature || !request?.prompt) {
+    return jsonResponse({ error: 'feature and prompt are required' }, 400)
+  }
+
+  const config = providerConfig()
+  const started = Date.now()
+
+  try {
+    const provider = createProvider(config, MOCK_AI_FIXTURES)
+    const response = await generateWithRetries(provider, request, {
+      timeoutMs: Number(Deno.env.get('AI_TIMEOUT_MS')) || undefined,
+      maxRetries: Deno.env.get('AI_MAX_RETRIES') ? Number(Deno.env.get('AI_MAX_RETRIES')) : undefined,
+    })
+
+    const { error: usageError } = await supabaseClient.from('ai_usage').insert([{
+      user_id: user.id,
+      feature: request.feature,
+      provider: response.provider,
+      model: response.model,
+      input_tokens: response.usage.inputTokens,
+      output_tokens: response.usage.outputTokens,
+      total_tokens: response.usage.totalTokens,
+      estimated: response.usage.estimated,
+      attempts: response.attempts,
+      duration_ms: response.durationMs,
+      succeeded: true,
+    }])
+    if (usageError) {
+      console.error('Error recording AI usage:', usageError)
+    }
+
+    return jsonResponse(response, 200)
+  } catch (err: any) {
+    console.error(`AI request for ${request.feature} failed:`, err)
+
+    const { error: usageError } = await supabaseClient.from('ai_usage').insert([{
+      user_id: user.id,
+      feature: request.feature,
+      provider: config.provider,
+      model: config.model || null,
+      duration_ms: Date.now() - started,
+      succeeded: false,
+      error: err.message,
+    }])
+    if (usageError) {
+      console.error('Error recording AI usage:', usageError)
+    }
+
+    return jsonResponse({ error: err.message }, 502)
+  }
+})
@@ -0,0 +1,94 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+// @ts-ignore: Deno resolves the .ts extension
+import { sendToSlack, sendToTeams } from '../../../lib/integrationWebhooks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BudgetAlertRequest {
+  projectId?: string;
+  level?: number;
+  spent?: number;
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Called by check_budget_thresholds() once a project crosses an alert threshold
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return json({ error: 'Not allowed' }, 403)
+  }
+
+  const { projectId, level, spent } = await req.json().catch(() => ({})) as BudgetAlertRequest
+  if (!projectId || level == null || spent == null) {
+    return json({ error: 'projectId, level and spent are required' }, 400)
+  }
+
+  try {
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from('projects')
+      .select('name, budget')
+      .eq('id', projectId)
+      .single()
+
+    if (projectError) {
+      throw projectError
+    }
+
+    const { data: settings, error: settingsError } = await supabaseClient
+      .from('integration_settings')
+      .select('type, webhook_url')
+      .eq('project_id', projectId)
+      .eq('enabled', true)
+
+    if (settingsError) {
+      throw settingsError
+    }
+
+    const budget = Number(project.budget)
+    const payload = {
+      title: `Budget alert: ${project.name}`,
+      message: `Spending has reached ${Math.round((spent / budget) * 100)}% of the project budget (threshold ${level}%).`,
+      type: level >= 100 ? 'error' as const : 'warning' as const,
+      fields: {
+        Budget: budget.toLocaleString(),
+        Spent: Math.round(spent).toLocaleString(),
+        Remaining: Math.round(budget - spent).toLocaleString(),
+      },
+    }
+
+    // One broken webhook shouldn't stop the others
+    const results = await Promise.allSettled((settings || []).map(async (setting: { type: string; webhook_url: string }) => {
+      if (setting.type === 'slack') {
+        await sendToSlack(setting.webhook_url, payload)
+      } else if (setting.type === 'teams') {
+        await sendToTeams(setting.webhook_url, payload)
+      }
+    }))
+
+    const failed = results.filter(result => result.status === 'rejected')
+    failed.forEach(result => console.error('Error sending budget alert:', (result as PromiseRejectedResult).reason))
+
+    return json({ sent: results.length - failed.length, failed: failed.length }, 200)
+  } catch (err: any) {
+    console.error(`Budget alert for project ${projectId} failed:`, err)
+    return json({ error: err.message }, 500)
+  }
+})
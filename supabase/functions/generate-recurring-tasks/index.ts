@@ -0,0 +1,186 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+// @ts-ignore: Deno resolves the .ts extension
+import { getNextOccurrence } from '../../../src/lib/recurrence.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// When the generator hasn't run for a while only the most recent missed
+// occurrences are created, so a long outage doesn't flood the board
+const MAX_CATCH_UP = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface GenerateRequest {
+  project_id?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+  const { project_id } = await req.json().catch(() => ({})) as GenerateRequest
+
+  // The scheduled job catches up every project with the service role. The
+  // board also asks on load, but a signed-in user only for a project they can see.
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+    })
+    const { data: project } = project_id && token
+      ? await callerClient.from('projects').select('id').eq('id', project_id).maybeSingle()
+      : { data: null }
+
+    if (!project) {
+      return new Response(
+        JSON.stringify({ error: 'Not allowed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 403,
+        }
+      )
+    }
+  }
+
+  try {
+    // Service role so scheduled runs can create tasks without a signed-in user
+    const supabaseClient = createClient(supabaseUrl, serviceRoleKey)
+
+    const now = new Date()
+
+    let query = supabaseClient
+      .from('task_recurrences')
+      .select('*, template:template_id(*), project:project_id(deleted_at)')
+      .eq('active', true)
+      .lte('next_run_at', now.toISOString())
+
+    if (project_id) {
+      query = query.eq('project_id', project_id)
+    }
+
+    const { data: recurrences, error: recurrencesError } = await query
+    if (recurrencesError) {
+      throw recurrencesError
+    }
+
+    let created = 0
+    let failed = 0
+
+    for (const recurrence of recurrences || []) {
+      // One broken recurrence shouldn't stop the rest; it is retried next run
+      try {
+        const template = recurrence.template
+        // The service role sees trashed projects; don't add tasks to them
+        if (!template || recurrence.project?.deleted_at) continue
+
+        // Collect every occurrence that's due, then keep the latest few
+        const due: Date[] = []
+        let occurrence: Date | null = new Date(recurrence.next_run_at)
+        while (occurrence && occurrence <= now) {
+          due.push(occurrence)
+          occurrence = getNextOccurrence(recurrence, occurrence)
+        }
+
+        for (const runAt of due.slice(-MAX_CATCH_UP)) {
+          const task = {
+            project_id: recurrence.project_id,
+            title: template.title,
+            description: template.description,
+            status: 'todo',
+            priority: template.priority,
+            estimated_hours: template.estimated_hours,
+            phase_id: template.phase_id,
+            assigned_to: recurrence.assigned_to,
+            due_date: new Date(runAt.getTime() + recurrence.due_offset_days * DAY_MS).toISOString(),
+            created_by: recurrence.created_by ?? template.created_by,
+            template_id: template.id,
+            recurrence_id: recurrence.id,
+            recurrence_occurrence: runAt.toISOString(),
+          }
+
+          let { data: newTask, error: insertError } = await supabaseClient.from('tasks').insert(task).select('id').single()
+
+          // The template's phase may not be mirrored into the phases table yet;
+          // create the task without a phase rather than skipping it
+          if (insertError?.code === '23503' && task.phase_id) {
+            ({ data: newTask, error: insertError } = await supabaseClient
+              .from('tasks')
+              .insert({ ...task, phase_id: null })
+              .select('id')
+              .single())
+          }
+
+          // 23505 means another run already created this occurrence
+          if (insertError && insertError.code !== '23505') {
+            throw insertError
+          }
+          if (insertError) continue
+
+          const checklist = (template.checklist || []).map((item: string) => item.trim()).filter(Boolean)
+          if (checklist.length > 0) {
+            const { error: checklistError } = await supabaseClient
+              .from('task_checklist_items')
+              .insert(checklist.map((content: string, position: number) => ({
+                task_id: newTask.id,
+                content,
+                position,
+                created_by: task.created_by,
+              })))
+
+            // Take the task back out so the retry creates it with its checklist,
+            // instead of hitting 23505 and leaving it without one
+            if (checklistError) {
+              const { error: rollbackError } = await supabaseClient.from('tasks').delete().eq('id', newTask.id)
+              if (rollbackError) {
+                console.error(`Error removing task ${newTask.id} after its checklist failed:`, rollbackError)
+              }
+              throw checklistError
+            }
+          }
+          created++
+        }
+
+        const { error: updateError } = await supabaseClient
+          .from('task_recurrences')
+          .update({
+            next_run_at: occurrence ? occurrence.toISOString() : null,
+            last_run_at: now.toISOString(),
+            active: occurrence !== null,
+            updated_at: now.toISOString(),
+          })
+          .eq('id', recurrence.id)
+
+        if (updateError) {
+          throw updateError
+        }
+      } catch (err) {
+        failed++
+        console.error(`Error generating tasks for recurrence ${recurrence.id}:`, err)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ processed: recurrences?.length ?? 0, created, failed }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (err: any) {
+    return new Response(
+      JSON.stringify({ error: err.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
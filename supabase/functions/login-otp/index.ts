@@ -0,0 +1,368 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Keep in step with lib/otpService.ts
+const OTP_TTL_SECONDS = 5 * 60
+const MAX_ATTEMPTS = 3 // wrong guesses allowed per code
+const RESEND_COOLDOWN_SECONDS = 60
+const RATE_WINDOW_MINUTES = 15
+const MAX_REQUESTS_PER_USER = 5 // codes per user per window
+const MAX_REQUESTS_PER_IP = 20 // codes per IP per window
+const LOCKOUT_FAILURES = 6 // wrong guesses per user per window before lockout
+const LOCKOUT_MINUTES = 15
+
+interface OtpRequest {
+  action: 'request' | 'verify';
+  code?: string;
+}
+
+interface OtpRow {
+  id: string;
+  code_hash: string;
+  salt: string;
+  expires_at: string;
+  attempts: number;
+  verified: boolean;
+  superseded_at: string | null;
+  last_attempt_at: string | null;
+  created_at: string;
+  session_id: string | null;
+}
+
+const encoder = new TextEncoder()
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Six digits from the CSPRNG; values past the last whole million are redrawn
+// so every code is equally likely
+function generateCode(): string {
+  const limit = Math.floor(0x100000000 / 1000000) * 1000000
+  const buffer = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(buffer)
+  } while (buffer[0] >= limit)
+  return (buffer[0] % 1000000).toString().padStart(6, '0')
+}
+
+function generateSalt(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)))
+}
+
+// HMAC keyed with a server secret, so a leaked table alone can't be brute
+// forced through the million possible codes
+async function hashCode(code: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(Deno.env.get('OTP_HASH_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${salt}:${code}`))
+  return toHex(new Uint8Array(signature))
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  let diff = left.length ^ right.length
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0)
+  }
+  return diff === 0
+}
+
+function otpEmailHtml(code: string): string {
+  return `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">Your Login Verification Code</h2>
+      <p>Please use the following code to complete your login:</p>
+      <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 16px 0; text-align: center;">
+        <h1 style="margin: 0; color: #2563eb; font-size: 36px; letter-spacing: 5px;">${code}</h1>
+      </div>
+      <p>This code will expire in ${OTP_TTL_SECONDS / 60} minutes.</p>
+      <p style="color: #dc2626; font-weight: bold;">Do not share this code with anyone.</p>
+      <p style="color: #4b5563; margin-top: 24px; font-size: 14px;">
+        This is an automated message. Please do not reply to this email.
+      </p>
+    </div>
+  `
+}
+
+// Clients can send their own X-Forwarded-For, so its left-most entry is
+// whatever they like; the platform's proxy appends the address it saw last.
+function clientIp(req: Request): string | null {
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '').split(',').map(part => part.trim()).filter(Boolean)
+  return forwarded[forwarded.length - 1] || req.headers.get('x-real-ip')?.trim() || null
+}
+
+// The token has already been checked by getUser; the claim says which
+// session is signing in
+function sessionIdOf(token: string): string | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')
+    return JSON.parse(atob(payload)).session_id ?? null
+  } catch {
+    return null
+  }
+}
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Service role: user_otps is closed to every other role
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // The password step has already signed the user in; their token says who
+    // the code is for
+    const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+    const sessionId = sessionIdOf(token)
+
+    if (userError || !user?.email || !sessionId) {
+      return json({ error: 'Not authenticated' }, 401)
+    }
+
+    const ipAddress = clientIp(req)
+    const userAgent = req.headers.get('user-agent')
+
+    const audit = async (action: string, metadata: Record<string, unknown> = {}) => {
+      const { error } = await supabaseClient.from('auth_audit_log').insert({
+        user_id: user.id,
+        action,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata,
+      })
+      if (error) {
+        console.error(`Error writing ${action} to auth_audit_log:`, error)
+      }
+    }
+
+    const { action, code } = await req.json() as OtpRequest
+    const now = Date.now()
+    const windowStart = new Date(now - RATE_WINDOW_MINUTES * 60 * 1000).toISOString()
+
+    const { data: recent, error: recentError } = await supabaseClient
+      .from('user_otps')
+      .select('id, code_hash, salt, expires_at, attempts, verified, superseded_at, last_attempt_at, created_at, session_id')
+      .eq('user_id', user.id)
+      .gte('created_at', windowStart)
+      .order('created_at', { ascending: false })
+
+    if (recentError) {
+      throw recentError
+    }
+
+    const otps = (recent || []) as OtpRow[]
+
+    // Wrong guesses count towards the lockout whichever code they were for
+    const failures = otps.reduce((sum, otp) => sum + otp.attempts - (otp.verified ? 1 : 0), 0)
+    const lastFailure = Math.max(0, ...otps.filter(otp => otp.last_attempt_at).map(otp => Date.parse(otp.last_attempt_at!)))
+    const lockedUntil = lastFailure + LOCKOUT_MINUTES * 60 * 1000
+
+    if (failures >= LOCKOUT_FAILURES && lockedUntil > now) {
+      const retryAfter = Math.ceil((lockedUntil - now) / 1000)
+      await audit(action === 'verify' ? 'otp_verify_locked' : 'otp_request_locked', { failures, retry_after: retryAfter })
+      return json({
+        success: false,
+        message: `Too many incorrect codes. Try again in ${Math.ceil(retryAfter / 60)} minutes.`,
+        retry_after: retryAfter,
+      })
+    }
+
+    if (action === 'request') {
+      const latest = otps[0]
+      const cooldownEnds = latest ? Date.parse(latest.created_at) + RESEND_COOLDOWN_SECONDS * 1000 : 0
+
+      if (cooldownEnds > now) {
+        const retryAfter = Math.ceil((cooldownEnds - now) / 1000)
+        await audit('otp_request_throttled', { reason: 'cooldown', retry_after: retryAfter })
+        return json({
+          success: false,
+          message: `Please wait ${retryAfter} seconds before requesting another code.`,
+          retry_after: retryAfter,
+        })
+      }
+
+      if (otps.length >= MAX_REQUESTS_PER_USER) {
+        const retryAfter = Math.ceil((Date.parse(otps[otps.length - 1].created_at) + RATE_WINDOW_MINUTES * 60 * 1000 - now) / 1000)
+        await audit('otp_request_throttled', { reason: 'user_limit', retry_after: retryAfter })
+        return json({
+          success: false,
+          message: 'Too many codes requested. Please try again later.',
+          retry_after: retryAfter,
+        })
+      }
+
+      if (ipAddress) {
+        const { count, error: countError } = await supabaseClient
+          .from('user_otps')
+          .select('id', { count: 'exact', head: true })
+          .eq('ip_address', ipAddress)
+          .gte('created_at', windowStart)
+
+        if (countError) {
+          throw countError
+        }
+
+        if ((count ?? 0) >= MAX_REQUESTS_PER_IP) {
+          await audit('otp_request_throttled', { reason: 'ip_limit' })
+          return json({
+            success: false,
+            message: 'Too many codes requested from this network. Please try again later.',
+            retry_after: RATE_WINDOW_MINUTES * 60,
+          })
+        }
+      }
+
+      // Only the newest code is ever accepted
+      const { error: supersedeError } = await supabaseClient
+        .from('user_otps')
+        .update({ superseded_at: new Date(now).toISOString() })
+        .eq('user_id', user.id)
+        .eq('verified', false)
+        .is('superseded_at', null)
+
+      if (supersedeError) {
+        throw supersedeError
+      }
+
+      const newCode = generateCode()
+      const salt = generateSalt()
+
+      const { data: inserted, error: insertError } = await supabaseClient
+        .from('user_otps')
+        .insert({
+          user_id: user.id,
+          email: user.email,
+          code_hash: await hashCode(newCode, salt),
+          salt,
+          ip_address: ipAddress,
+          session_id: sessionId,
+          expires_at: new Date(now + OTP_TTL_SECONDS * 1000).toISOString(),
+          attempts: 0,
+          verified: false,
+        })
+        .select('id')
+        .single()
+
+      if (insertError) {
+        throw insertError
+      }
+
+      const { error: emailError } = await supabaseClient.functions.invoke('send-email', {
+        body: {
+          to: user.email,
+          subject: 'Your One-Time Password (OTP) for Login',
+          html: otpEmailHtml(newCode),
+        },
+      })
+
+      if (emailError) {
+        // A code nobody received shouldn't hold up the next request
+        await supabaseClient.from('user_otps').delete().eq('id', inserted.id)
+        await audit('otp_request_failed', { reason: 'email' })
+        throw emailError
+      }
+
+      await audit('otp_requested', { otp_id: inserted.id })
+      return json({ success: true, expires_in: OTP_TTL_SECONDS, resend_after: RESEND_COOLDOWN_SECONDS })
+    }
+
+    if (action === 'verify') {
+      // A code only signs in the session it was sent for
+      const current = otps.find(otp => !otp.verified && !otp.superseded_at && otp.session_id === sessionId)
+
+      if (!current || Date.parse(current.expires_at) <= now) {
+        await audit('otp_verify_failed', { reason: current ? 'expired' : 'no_code' })
+        return json({ success: false, message: current ? 'The code has expired. Please request a new one.' : 'Invalid or expired code' })
+      }
+
+      if (current.attempts >= MAX_ATTEMPTS) {
+        await audit('otp_verify_failed', { reason: 'max_attempts', otp_id: current.id })
+        return json({ success: false, message: 'Maximum attempts reached. Please request a new code.' })
+      }
+
+      const matches = constantTimeEqual(await hashCode(String(code ?? ''), current.salt), current.code_hash)
+      const attempts = current.attempts + 1
+
+      const { data: updated, error: updateError } = await supabaseClient
+        .from('user_otps')
+        .update({
+          attempts,
+          verified: matches,
+          last_attempt_at: matches ? current.last_attempt_at : new Date(now).toISOString(),
+        })
+        .eq('id', current.id)
+        // A concurrent attempt on the same code wins; this one has to retry
+        .eq('attempts', current.attempts)
+        .select('id')
+
+      if (updateError) {
+        throw updateError
+      }
+
+      if (!updated || updated.length === 0) {
+        return json({ success: false, message: 'Please try again.' })
+      }
+
+      if (!matches) {
+        const remaining = MAX_ATTEMPTS - attempts
+        await audit('otp_verify_failed', { reason: 'mismatch', otp_id: current.id, attempts_remaining: remaining })
+        return json({
+          success: false,
+          message: remaining > 0
+            ? `Invalid code. ${remaining} attempts remaining`
+            : 'Invalid code. Please request a new code.',
+          attempts_remaining: remaining,
+        })
+      }
+
+      // Lets this session past the "Login code entered for this session" policies
+      const { error: verificationError } = await supabaseClient
+        .from('login_code_verifications')
+        .upsert({ session_id: sessionId, user_id: user.id })
+
+      if (verificationError) {
+        throw verificationError
+      }
+
+      await audit('otp_verified', { otp_id: current.id, session_id: sessionId })
+      return json({ success: true })
+    }
+
+    return json({ error: `Unknown action: ${action}` }, 400)
+  } catch (err: any) {
+    return new Response(
+      JSON.stringify({ error: err.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
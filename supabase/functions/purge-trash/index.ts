@@ -0,0 +1,78 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const TASK_ATTACHMENTS_BUCKET = 'task-attachments'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Service role: purge_trash_item is not executable by signed-in users
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: expired, error: expiredError } = await supabaseClient
+      .from('trash_items')
+      .select('id')
+      .lte('expires_at', new Date().toISOString())
+      .order('expires_at')
+
+    if (expiredError) {
+      throw expiredError
+    }
+
+    let purged = 0
+    let filesRemoved = 0
+
+    for (const item of expired || []) {
+      const { data: paths, error: purgeError } = await supabaseClient
+        .rpc('purge_trash_item', { p_trash_item_id: item.id })
+
+      if (purgeError) {
+        throw purgeError
+      }
+      purged++
+
+      // The rows are gone at this point; a file we fail to remove is only
+      // wasted space, so log it and keep purging
+      if (paths && paths.length > 0) {
+        const { error: removeError } = await supabaseClient.storage
+          .from(TASK_ATTACHMENTS_BUCKET)
+          .remove(paths)
+
+        if (removeError) {
+          console.error(`Error removing attachment files for trash item ${item.id}:`, removeError)
+        } else {
+          filesRemoved += paths.length
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ purged, filesRemoved }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (err: any) {
+    return new Response(
+      JSON.stringify({ error: err.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
@@ -0,0 +1,195 @@
+// @ts-ignore: Deno module import
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+// @ts-ignore: Deno module import
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const GEOLOCATION_TIMEOUT_MS = 3000
+
+function describeDevice(userAgent: string): string {
+  if (/iPad/i.test(userAgent)) return 'iPad'
+  if (/iPhone/i.test(userAgent)) return 'iPhone'
+  if (/Android/i.test(userAgent)) return /Mobile/i.test(userAgent) ? 'Android phone' : 'Android tablet'
+  if (/Windows/i.test(userAgent)) return 'Windows computer'
+  if (/Macintosh|Mac OS X/i.test(userAgent)) return 'Mac'
+  if (/CrOS/i.test(userAgent)) return 'Chromebook'
+  if (/Linux/i.test(userAgent)) return 'Linux computer'
+  return 'Unknown device'
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to
+// be Safari
+function describeBrowser(userAgent: string): string {
+  const browsers: [string, RegExp][] = [
+    ['Edge', /Edg(?:e|A|iOS)?\/(\d+)/],
+    ['Opera', /(?:OPR|Opera)\/(\d+)/],
+    ['Firefox', /(?:Firefox|FxiOS)\/(\d+)/],
+    ['Chrome', /(?:Chrome|CriOS)\/(\d+)/],
+    ['Safari', /Version\/(\d+).*Safari/],
+  ]
+
+  for (const [name, pattern] of browsers) {
+    const match = userAgent.match(pattern)
+    if (match) return `${name} ${match[1]}`
+  }
+  return 'Unknown browser'
+}
+
+// Best effort: a slow or failing lookup leaves the location blank rather than
+// holding up the sign-in
+async function lookupLocation(ipAddress: string | null): Promise<string | null> {
+  if (!ipAddress) return null
+
+  try {
+    const response = await fetch(`https://ipapi.co/${encodeURIComponent(ipAddress)}/json/`, {
+      signal: AbortSignal.timeout(GEOLOCATION_TIMEOUT_MS),
+    })
+    if (!response.ok) return null
+
+    const data = await response.json()
+    if (data.error) return null
+
+    return [data.city, data.region, data.country_name].filter(Boolean).join(', ') || null
+  } catch (error) {
+    console.error('Error looking up location:', error)
+    return null
+  }
+}
+
+interface TrackSessionRequest {
+  sessionId?: string;
+}
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+// Called by record_auth_session() for every new auth session, once GoTrue has
+// stored its user agent and IP. The row already exists; this fills in the
+// device details and sends the new-device alert.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return json({ error: 'Not allowed' }, 403)
+  }
+
+  try {
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const { sessionId } = await req.json().catch(() => ({})) as TrackSessionRequest
+    if (!sessionId) {
+      return json({ error: 'sessionId is required' }, 400)
+    }
+
+    const { data: session, error: sessionError } = await supabaseClient
+      .from('user_sessions')
+      .select('session_id, user_id, ip_address, user_agent, device')
+      .eq('session_id', sessionId)
+      .maybeSingle()
+
+    if (sessionError) {
+      throw sessionError
+    }
+
+    // Already described, or GoTrue hasn't stored the user agent yet
+    if (!session || session.device || !session.user_agent) {
+      return json({ tracked: false, new_device: false })
+    }
+
+    const userAgent: string = session.user_agent
+    const ipAddress: string | null = session.ip_address
+    const device = describeDevice(userAgent)
+    const browser = describeBrowser(userAgent)
+    const browserFamily = browser.split(' ')[0]
+
+    const { data: previous, error: previousError } = await supabaseClient
+      .from('user_sessions')
+      .select('device, browser')
+      .eq('user_id', session.user_id)
+      .neq('session_id', sessionId)
+      .not('device', 'is', null)
+
+    if (previousError) {
+      throw previousError
+    }
+
+    // Browser updates shouldn't count as a new device. A user's very first
+    // tracked sign-in has nothing to compare against, so it isn't flagged.
+    const newDevice = (previous || []).length > 0 && !(previous || []).some(
+      (other: { device: string | null; browser: string | null }) =>
+        other.device === device && other.browser?.split(' ')[0] === browserFamily
+    )
+
+    const location = await lookupLocation(ipAddress)
+
+    // Only the first call to describe the session goes on to alert
+    const { data: described, error: updateError } = await supabaseClient
+      .from('user_sessions')
+      .update({ device, browser, location })
+      .eq('session_id', sessionId)
+      .is('device', null)
+      .select('session_id')
+
+    if (updateError) {
+      throw updateError
+    }
+
+    if (!described?.length) {
+      return json({ tracked: false, new_device: false })
+    }
+
+    if (newDevice) {
+      const { data: { user }, error: userError } = await supabaseClient.auth.admin.getUserById(session.user_id)
+      if (userError) {
+        throw userError
+      }
+
+      await supabaseClient.from('auth_audit_log').insert({
+        user_id: session.user_id,
+        action: 'new_device_login',
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: { session_id: sessionId, device, browser, location },
+      })
+
+      const { error: notifyError } = await supabaseClient.functions.invoke('send-security-notification', {
+        body: {
+          type: 'new_login',
+          userId: session.user_id,
+          email: user?.email,
+          metadata: {
+            userAgent: `${browser} on ${device}`,
+            location,
+            ipAddress,
+          },
+        },
+      })
+
+      if (notifyError) {
+        console.error('Error sending new device notification:', notifyError)
+      }
+    }
+
+    return json({ tracked: true, new_device: newDevice })
+  } catch (err: any) {
+    return new Response(
+      JSON.stringify({ error: err.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
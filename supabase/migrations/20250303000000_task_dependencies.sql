@@ -0,0 +1,85 @@
+-- Make sure the task_dependencies table exists ("dependent" is blocked by "dependency")
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+    dependent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+    dependency_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (dependent_task_id, dependency_task_id),
+    CONSTRAINT no_self_dependency CHECK (dependent_task_id <> dependency_task_id)
+);
+
+-- Create index for looking up what a task blocks
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_dependency ON public.task_dependencies(dependency_task_id);
+
+-- Enable RLS
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Grant permissions
+GRANT ALL ON public.task_dependencies TO authenticated;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view task dependencies" ON public.task_dependencies;
+DROP POLICY IF EXISTS "Managers and admins can manage task dependencies" ON public.task_dependencies;
+
+-- RLS Policies for task_dependencies
+CREATE POLICY "Users can view task dependencies"
+    ON public.task_dependencies FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_dependencies.dependent_task_id
+            AND project_members.user_id = auth.uid()
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Managers and admins can manage task dependencies"
+    ON public.task_dependencies
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_dependencies.dependent_task_id
+            AND project_members.user_id = auth.uid()
+            AND project_members.role = 'manager'
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+-- Function to reject links that would close a dependency cycle
+CREATE OR REPLACE FUNCTION prevent_task_dependency_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Walk the blockers of the new dependency; reaching the dependent task means a cycle
+    IF EXISTS (
+        WITH RECURSIVE blockers AS (
+            SELECT dependency_task_id AS task_id
+            FROM public.task_dependencies
+            WHERE dependent_task_id = NEW.dependency_task_id
+            UNION
+            SELECT td.dependency_task_id
+            FROM public.task_dependencies td
+            JOIN blockers b ON td.dependent_task_id = b.task_id
+        )
+        SELECT 1 FROM blockers WHERE task_id = NEW.dependent_task_id
+    ) THEN
+        RAISE EXCEPTION 'Task dependency would create a cycle';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger
+DROP TRIGGER IF EXISTS prevent_task_dependency_cycle_trigger ON public.task_dependencies;
+CREATE TRIGGER prevent_task_dependency_cycle_trigger
+    BEFORE INSERT OR UPDATE ON public.task_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_task_dependency_cycle();
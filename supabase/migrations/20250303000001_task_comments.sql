@@ -0,0 +1,105 @@
+-- Add threading to task_comments
+ALTER TABLE public.task_comments
+    ADD COLUMN IF NOT EXISTS parent_comment_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON public.task_comments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent ON public.task_comments(parent_comment_id);
+
+-- Keep updated_at current on edits
+DROP TRIGGER IF EXISTS update_task_comments_updated_at ON public.task_comments;
+CREATE TRIGGER update_task_comments_updated_at
+    BEFORE UPDATE ON public.task_comments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Project members can view task comments" ON public.task_comments;
+DROP POLICY IF EXISTS "Project members can add task comments" ON public.task_comments;
+DROP POLICY IF EXISTS "Users can update their own comments" ON public.task_comments;
+DROP POLICY IF EXISTS "Users can delete their own comments" ON public.task_comments;
+
+-- RLS Policies for task_comments
+CREATE POLICY "Project members can view task comments"
+    ON public.task_comments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_comments.task_id
+            AND project_members.user_id = auth.uid()
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Project members can add task comments"
+    ON public.task_comments FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.tasks
+                JOIN public.project_members ON project_members.project_id = tasks.project_id
+                WHERE tasks.id = task_comments.task_id
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
+
+CREATE POLICY "Users can update their own comments"
+    ON public.task_comments FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own comments"
+    ON public.task_comments FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- Align notifications with the columns read by the notifications context
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS message TEXT,
+    ADD COLUMN IF NOT EXISTS link TEXT,
+    ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view their own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Authenticated users can send notifications" ON public.notifications;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can view their own notifications"
+    ON public.notifications FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+    ON public.notifications FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can send notifications"
+    ON public.notifications FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Publish notification inserts to realtime subscribers
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Allow comment entries in project_activity_logs
+ALTER TABLE public.project_activity_logs
+    DROP CONSTRAINT IF EXISTS project_activity_logs_activity_type_check;
+ALTER TABLE public.project_activity_logs
+    ADD CONSTRAINT project_activity_logs_activity_type_check
+    CHECK (activity_type IN ('task_completed', 'decision', 'note', 'phase_completed', 'comment'));
@@ -0,0 +1,139 @@
+-- Provision the private task-attachments bucket (10MB limit, documents and images only)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'task-attachments',
+    'task-attachments',
+    false,
+    10485760,
+    ARRAY[
+        'image/jpeg',
+        'image/png',
+        'image/gif',
+        'image/webp',
+        'application/pdf',
+        'text/plain',
+        'text/csv',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.ms-powerpoint',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'application/zip'
+    ]
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task_id ON public.task_attachments(task_id);
+
+-- Enable RLS
+ALTER TABLE public.task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Project members can view task attachments" ON public.task_attachments;
+DROP POLICY IF EXISTS "Project members can add task attachments" ON public.task_attachments;
+DROP POLICY IF EXISTS "Uploaders and managers can delete task attachments" ON public.task_attachments;
+
+-- RLS Policies for task_attachments
+CREATE POLICY "Project members can view task attachments"
+    ON public.task_attachments FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_attachments.task_id
+            AND project_members.user_id = auth.uid()
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Project members can add task attachments"
+    ON public.task_attachments FOR INSERT
+    WITH CHECK (
+        auth.uid() = uploaded_by
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.tasks
+                JOIN public.project_members ON project_members.project_id = tasks.project_id
+                WHERE tasks.id = task_attachments.task_id
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
+
+CREATE POLICY "Uploaders and managers can delete task attachments"
+    ON public.task_attachments FOR DELETE
+    USING (
+        auth.uid() = uploaded_by
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+-- Storage policies: objects live under <project_id>/<task_id>/, so membership is checked from the first folder
+DROP POLICY IF EXISTS "Project members can read task attachment files" ON storage.objects;
+DROP POLICY IF EXISTS "Project members can upload task attachment files" ON storage.objects;
+DROP POLICY IF EXISTS "Project members can delete task attachment files" ON storage.objects;
+
+CREATE POLICY "Project members can read task attachment files"
+    ON storage.objects FOR SELECT
+    USING (
+        bucket_id = 'task-attachments'
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.project_members
+                WHERE project_members.project_id::text = (storage.foldername(name))[1]
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
+
+CREATE POLICY "Project members can upload task attachment files"
+    ON storage.objects FOR INSERT
+    WITH CHECK (
+        bucket_id = 'task-attachments'
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.project_members
+                WHERE project_members.project_id::text = (storage.foldername(name))[1]
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
+
+CREATE POLICY "Project members can delete task attachment files"
+    ON storage.objects FOR DELETE
+    USING (
+        bucket_id = 'task-attachments'
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.project_members
+                WHERE project_members.project_id::text = (storage.foldername(name))[1]
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
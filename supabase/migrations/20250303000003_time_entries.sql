@@ -0,0 +1,74 @@
+-- Create time_entries table
+-- A running timer has ended_at and duration_minutes set to NULL until it is stopped
+CREATE TABLE IF NOT EXISTS public.time_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ended_at TIMESTAMPTZ,
+    duration_minutes INTEGER CHECK (duration_minutes IS NULL OR duration_minutes >= 0),
+    note TEXT,
+    is_manual BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT time_entries_end_after_start CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON public.time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_started ON public.time_entries(user_id, started_at DESC);
+
+-- Only one running timer per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running_timer
+    ON public.time_entries(user_id)
+    WHERE ended_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Project members can view time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can log their own time" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can update their own time entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Users can delete their own time entries" ON public.time_entries;
+
+-- RLS Policies for time_entries
+CREATE POLICY "Project members can view time entries"
+    ON public.time_entries FOR SELECT
+    USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = time_entries.task_id
+            AND project_members.user_id = auth.uid()
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Users can log their own time"
+    ON public.time_entries FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.tasks
+                JOIN public.project_members ON project_members.project_id = tasks.project_id
+                WHERE tasks.id = time_entries.task_id
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
+
+CREATE POLICY "Users can update their own time entries"
+    ON public.time_entries FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own time entries"
+    ON public.time_entries FOR DELETE
+    USING (auth.uid() = user_id);
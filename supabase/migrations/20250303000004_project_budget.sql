@@ -0,0 +1,57 @@
+-- Per-user cost rate used to price logged hours
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS hourly_rate DECIMAL(10,2) CHECK (hourly_rate IS NULL OR hourly_rate >= 0);
+
+-- Budget alert configuration; thresholds are percentages of the budget
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS budget_alert_thresholds INTEGER[] NOT NULL DEFAULT '{50,75,90,100}',
+    ADD COLUMN IF NOT EXISTS budget_alerted_threshold INTEGER NOT NULL DEFAULT 0;
+
+-- Create project_expenses table for non-labour costs
+CREATE TABLE IF NOT EXISTS public.project_expenses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    description TEXT NOT NULL,
+    category TEXT,
+    amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+    incurred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_expenses_project_id ON public.project_expenses(project_id, incurred_on);
+
+-- Enable RLS
+ALTER TABLE public.project_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Managers can view project expenses" ON public.project_expenses;
+DROP POLICY IF EXISTS "Managers can manage project expenses" ON public.project_expenses;
+
+-- RLS Policies for project_expenses
+CREATE POLICY "Managers can view project expenses"
+    ON public.project_expenses FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Managers can manage project expenses"
+    ON public.project_expenses FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
@@ -0,0 +1,154 @@
+-- Create task_templates table; templates without a project form the shared library
+CREATE TABLE IF NOT EXISTS public.task_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+    estimated_hours DECIMAL(10,2) CHECK (estimated_hours IS NULL OR estimated_hours >= 0),
+    checklist TEXT[] NOT NULL DEFAULT '{}',
+    phase_id UUID REFERENCES public.project_phases(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_project_id ON public.task_templates(project_id);
+
+-- Create task_recurrences table; each rule creates tasks from a template on schedule
+CREATE TABLE IF NOT EXISTS public.task_recurrences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    assigned_to UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'custom')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count >= 1),
+    weekdays INTEGER[],
+    day_of_month INTEGER CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+    cron_expression TEXT,
+    starts_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    ends_at TIMESTAMPTZ,
+    next_run_at TIMESTAMPTZ,
+    last_run_at TIMESTAMPTZ,
+    due_offset_days INTEGER NOT NULL DEFAULT 0 CHECK (due_offset_days >= 0),
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT task_recurrences_cron_check CHECK (frequency <> 'custom' OR cron_expression IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_due ON public.task_recurrences(next_run_at) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_project_id ON public.task_recurrences(project_id);
+
+-- Track where generated tasks came from; the occurrence key stops a run from
+-- creating the same occurrence twice
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.task_templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS recurrence_id UUID REFERENCES public.task_recurrences(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS recurrence_occurrence TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence
+    ON public.tasks(recurrence_id, recurrence_occurrence)
+    WHERE recurrence_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view task templates" ON public.task_templates;
+DROP POLICY IF EXISTS "Managers can manage task templates" ON public.task_templates;
+DROP POLICY IF EXISTS "Users can view task recurrences" ON public.task_recurrences;
+DROP POLICY IF EXISTS "Managers can manage task recurrences" ON public.task_recurrences;
+
+-- RLS Policies for task_templates
+CREATE POLICY "Users can view task templates"
+    ON public.task_templates FOR SELECT
+    USING (
+        project_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = task_templates.project_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Managers can manage task templates"
+    ON public.task_templates FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+-- RLS Policies for task_recurrences
+CREATE POLICY "Users can view task recurrences"
+    ON public.task_recurrences FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = task_recurrences.project_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Managers can manage task recurrences"
+    ON public.task_recurrences FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+-- Run the generator every 15 minutes when pg_cron and pg_net are available.
+-- Expects app.settings.supabase_url and app.settings.service_role_key to be set.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule(
+            'generate-recurring-tasks',
+            '*/15 * * * *',
+            $cron$
+            SELECT net.http_post(
+                url := current_setting('app.settings.supabase_url') || '/functions/v1/generate-recurring-tasks',
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+                ),
+                body := '{}'::jsonb
+            );
+            $cron$
+        );
+    END IF;
+END $$;
@@ -0,0 +1,7 @@
+-- Projects saved as templates are kept out of the regular project lists and
+-- only used as a source for new projects
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS is_template BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS source_project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_is_template ON public.projects(is_template);
@@ -0,0 +1,122 @@
+-- Subtasks: a task can be broken down into child tasks of the same project.
+-- Deleting a parent keeps its subtasks as standalone tasks.
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS parent_task_id UUID;
+
+ALTER TABLE public.tasks
+    DROP CONSTRAINT IF EXISTS tasks_parent_task_id_fkey;
+
+ALTER TABLE public.tasks
+    ADD CONSTRAINT tasks_parent_task_id_fkey
+    FOREIGN KEY (parent_task_id) REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+-- Subtasks must stay in their parent's project and the hierarchy can't loop
+CREATE OR REPLACE FUNCTION public.check_task_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+    ancestor UUID;
+    depth INTEGER := 0;
+BEGIN
+    IF NEW.parent_task_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.tasks
+        WHERE id = NEW.parent_task_id
+        AND project_id = NEW.project_id
+    ) THEN
+        RAISE EXCEPTION 'A subtask must belong to the same project as its parent';
+    END IF;
+
+    ancestor := NEW.parent_task_id;
+    WHILE ancestor IS NOT NULL LOOP
+        IF ancestor = NEW.id THEN
+            RAISE EXCEPTION 'A task cannot be a subtask of itself or of its own subtasks';
+        END IF;
+        depth := depth + 1;
+        IF depth > 50 THEN
+            RAISE EXCEPTION 'Task hierarchy is too deep';
+        END IF;
+        SELECT parent_task_id INTO ancestor FROM public.tasks WHERE id = ancestor;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_task_parent_trigger ON public.tasks;
+CREATE TRIGGER check_task_parent_trigger
+    BEFORE INSERT OR UPDATE OF parent_task_id, project_id ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_task_parent();
+
+-- Create task_checklist_items table
+CREATE TABLE IF NOT EXISTS public.task_checklist_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    content TEXT NOT NULL CHECK (char_length(trim(content)) > 0),
+    is_completed BOOLEAN NOT NULL DEFAULT false,
+    position INTEGER NOT NULL DEFAULT 0,
+    completed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMPTZ,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_id ON public.task_checklist_items(task_id, position);
+
+-- Enable RLS
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view checklist items on accessible tasks" ON public.task_checklist_items;
+DROP POLICY IF EXISTS "Users can manage checklist items on accessible tasks" ON public.task_checklist_items;
+
+-- RLS Policies for task_checklist_items
+CREATE POLICY "Users can view checklist items on accessible tasks"
+    ON public.task_checklist_items FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_checklist_items.task_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can manage checklist items on accessible tasks"
+    ON public.task_checklist_items FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_checklist_items.task_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON project_members.project_id = tasks.project_id
+            WHERE tasks.id = task_checklist_items.task_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,53 @@
+-- Create saved_task_views table; views without a project belong to the Tasks page,
+-- project views can be shared with everyone on the project
+CREATE TABLE IF NOT EXISTS public.saved_task_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(trim(name)) > 0),
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    filters JSONB NOT NULL DEFAULT '{}',
+    columns TEXT[] NOT NULL DEFAULT '{}',
+    group_by TEXT NOT NULL DEFAULT 'none' CHECK (group_by IN ('none', 'phase', 'assignee', 'priority')),
+    sort JSONB NOT NULL DEFAULT '{"field": "created_at", "direction": "asc"}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT saved_task_views_shared_check CHECK (NOT is_shared OR project_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_task_views_user_id ON public.saved_task_views(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_task_views_project_id ON public.saved_task_views(project_id) WHERE is_shared;
+
+-- Enable RLS
+ALTER TABLE public.saved_task_views ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view own and shared task views" ON public.saved_task_views;
+DROP POLICY IF EXISTS "Users can manage own task views" ON public.saved_task_views;
+
+-- RLS Policies for saved_task_views
+CREATE POLICY "Users can view own and shared task views"
+    ON public.saved_task_views FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR (
+            is_shared
+            AND (
+                EXISTS (
+                    SELECT 1 FROM public.project_members
+                    WHERE project_members.project_id = saved_task_views.project_id
+                    AND project_members.user_id = auth.uid()
+                )
+                OR EXISTS (
+                    SELECT 1 FROM public.users
+                    WHERE users.id = auth.uid()
+                    AND users.role IN ('admin', 'project_manager')
+                )
+            )
+        )
+    );
+
+CREATE POLICY "Users can manage own task views"
+    ON public.saved_task_views FOR ALL
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,43 @@
+-- Create ai_usage table; one row per request made through the ai-generate function,
+-- written with the service role so token spend can be tracked per user and feature
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    feature TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated BOOLEAN NOT NULL DEFAULT false,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    duration_ms INTEGER,
+    succeeded BOOLEAN NOT NULL DEFAULT true,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON public.ai_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON public.ai_usage(created_at);
+
+-- Enable RLS
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view own AI usage" ON public.ai_usage;
+DROP POLICY IF EXISTS "Admins can view all AI usage" ON public.ai_usage;
+
+-- RLS Policies for ai_usage (no insert policy: only the edge function writes)
+CREATE POLICY "Users can view own AI usage"
+    ON public.ai_usage FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all AI usage"
+    ON public.ai_usage FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,157 @@
+-- Cached AI results with version history. Each generation is a new row; the latest
+-- version for a scope (project or analysed user) and type is reused while its input
+-- hash still matches and nothing it depends on has changed.
+CREATE TABLE IF NOT EXISTS public.ai_analysis_cache (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    analysis_type TEXT NOT NULL,
+    analysis_data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    valid_until TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE public.ai_analysis_cache
+    ADD COLUMN IF NOT EXISTS subject_user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS input_hash TEXT NOT NULL DEFAULT '',
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS invalidated_at TIMESTAMPTZ;
+
+ALTER TABLE public.ai_analysis_cache
+    DROP CONSTRAINT IF EXISTS ai_analysis_cache_scope_check;
+
+ALTER TABLE public.ai_analysis_cache
+    ADD CONSTRAINT ai_analysis_cache_scope_check
+    CHECK (project_id IS NOT NULL OR subject_user_id IS NOT NULL);
+
+DROP INDEX IF EXISTS public.idx_ai_analysis_project;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_analysis_cache_version ON public.ai_analysis_cache (
+    analysis_type,
+    COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(subject_user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    version
+);
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_cache_project_id ON public.ai_analysis_cache(project_id) WHERE invalidated_at IS NULL;
+
+-- Number each new generation after the latest one in its scope
+CREATE OR REPLACE FUNCTION public.set_ai_analysis_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM public.ai_analysis_cache
+    WHERE analysis_type = NEW.analysis_type
+    AND project_id IS NOT DISTINCT FROM NEW.project_id
+    AND subject_user_id IS NOT DISTINCT FROM NEW.subject_user_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_ai_analysis_version_trigger ON public.ai_analysis_cache;
+CREATE TRIGGER set_ai_analysis_version_trigger
+    BEFORE INSERT ON public.ai_analysis_cache
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_ai_analysis_version();
+
+-- Changing a project's tasks, phases or members marks its cached results stale
+CREATE OR REPLACE FUNCTION public.invalidate_project_ai_analysis()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed_project_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        changed_project_id := OLD.project_id;
+    ELSE
+        changed_project_id := NEW.project_id;
+    END IF;
+
+    UPDATE public.ai_analysis_cache
+    SET invalidated_at = now()
+    WHERE project_id = changed_project_id
+    AND invalidated_at IS NULL;
+
+    IF TG_OP = 'UPDATE' AND OLD.project_id IS DISTINCT FROM NEW.project_id THEN
+        UPDATE public.ai_analysis_cache
+        SET invalidated_at = now()
+        WHERE project_id = OLD.project_id
+        AND invalidated_at IS NULL;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS invalidate_ai_analysis_on_tasks ON public.tasks;
+CREATE TRIGGER invalidate_ai_analysis_on_tasks
+    AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.invalidate_project_ai_analysis();
+
+DROP TRIGGER IF EXISTS invalidate_ai_analysis_on_phases ON public.project_phases;
+CREATE TRIGGER invalidate_ai_analysis_on_phases
+    AFTER INSERT OR UPDATE OR DELETE ON public.project_phases
+    FOR EACH ROW
+    EXECUTE FUNCTION public.invalidate_project_ai_analysis();
+
+DROP TRIGGER IF EXISTS invalidate_ai_analysis_on_members ON public.project_members;
+CREATE TRIGGER invalidate_ai_analysis_on_members
+    AFTER INSERT OR UPDATE OR DELETE ON public.project_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.invalidate_project_ai_analysis();
+
+-- Enable RLS
+ALTER TABLE public.ai_analysis_cache ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view AI analysis of their projects" ON public.ai_analysis_cache;
+DROP POLICY IF EXISTS "Project managers and admins can manage AI analysis" ON public.ai_analysis_cache;
+DROP POLICY IF EXISTS "Users can view AI analysis in their scope" ON public.ai_analysis_cache;
+DROP POLICY IF EXISTS "Users can record AI analysis in their scope" ON public.ai_analysis_cache;
+DROP POLICY IF EXISTS "Admins can delete AI analysis" ON public.ai_analysis_cache;
+
+-- RLS Policies for ai_analysis_cache. Versions are history, so there is no update policy.
+CREATE POLICY "Users can view AI analysis in their scope"
+    ON public.ai_analysis_cache FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = ai_analysis_cache.project_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR subject_user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Users can record AI analysis in their scope"
+    ON public.ai_analysis_cache FOR INSERT
+    WITH CHECK (
+        created_by = auth.uid()
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.project_members
+                WHERE project_members.project_id = ai_analysis_cache.project_id
+                AND project_members.user_id = auth.uid()
+            )
+            OR subject_user_id = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role IN ('admin', 'project_manager')
+            )
+        )
+    );
+
+CREATE POLICY "Admins can delete AI analysis"
+    ON public.ai_analysis_cache FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,45 @@
+-- Let project managers read the talent data the team builder ranks candidates by.
+-- skills had RLS enabled without any policy, and cv_parsed_data was limited to
+-- the owner and admins.
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view own skills" ON public.skills;
+DROP POLICY IF EXISTS "Users can manage own skills" ON public.skills;
+DROP POLICY IF EXISTS "Managers can view CV data" ON public.cv_parsed_data;
+
+-- RLS Policies for skills
+CREATE POLICY "Users can view own skills"
+    ON public.skills FOR SELECT
+    TO authenticated
+    USING (
+        auth.uid() = user_id OR
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+
+CREATE POLICY "Users can manage own skills"
+    ON public.skills FOR ALL
+    TO authenticated
+    USING (
+        auth.uid() = user_id OR
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- RLS Policies for cv_parsed_data
+CREATE POLICY "Managers can view CV data"
+    ON public.cv_parsed_data FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'project_manager'
+        )
+    );
@@ -0,0 +1,7 @@
+-- Skills a task or phase needs, as free-text names matching the skills users
+-- hold. The skills matrix compares this demand against the team's supply.
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS required_skills TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.project_phases
+    ADD COLUMN IF NOT EXISTS required_skills TEXT[] NOT NULL DEFAULT '{}';
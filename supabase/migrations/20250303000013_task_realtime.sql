@@ -0,0 +1,27 @@
+-- Track who last changed a task so live updates and edit conflicts can name them
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Stamp the signed-in user on every write; service role writes keep what they send
+CREATE OR REPLACE FUNCTION public.set_updated_by()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL THEN
+        NEW.updated_by = auth.uid();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_tasks_updated_by ON public.tasks;
+CREATE TRIGGER set_tasks_updated_by
+    BEFORE INSERT OR UPDATE ON public.tasks
+    FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+-- Publish task changes to realtime subscribers
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
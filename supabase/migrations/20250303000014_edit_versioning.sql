@@ -0,0 +1,23 @@
+-- Version checks on project and phase edits compare updated_at, so phases
+-- need the timestamp trigger that projects and tasks already have
+DROP TRIGGER IF EXISTS update_project_phases_updated_at ON public.project_phases;
+CREATE TRIGGER update_project_phases_updated_at
+    BEFORE UPDATE ON public.project_phases
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record who made the last change so conflicts can name them
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.project_phases
+    ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+DROP TRIGGER IF EXISTS set_projects_updated_by ON public.projects;
+CREATE TRIGGER set_projects_updated_by
+    BEFORE INSERT OR UPDATE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
+
+DROP TRIGGER IF EXISTS set_project_phases_updated_by ON public.project_phases;
+CREATE TRIGGER set_project_phases_updated_by
+    BEFORE INSERT OR UPDATE ON public.project_phases
+    FOR EACH ROW EXECUTE FUNCTION public.set_updated_by();
@@ -0,0 +1,133 @@
+-- Field-level audit trail for projects, phases, tasks, members and users.
+-- changes holds {"field": {"old": ..., "new": ...}} for every field that differs
+ALTER TABLE public.audit_logs
+    ADD COLUMN IF NOT EXISTS project_id UUID,
+    ADD COLUMN IF NOT EXISTS record_label TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_record ON public.audit_logs(table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_project ON public.audit_logs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON public.audit_logs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON public.audit_logs(created_at DESC);
+
+-- Trigger arguments: record id column, project id column ('' for none), label column ('' for none)
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+    v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    v_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN v_old ELSE v_new END;
+    v_changes JSONB := '{}'::jsonb;
+    v_key TEXT;
+    v_actor UUID := auth.uid();
+    v_record_id UUID := (v_row ->> TG_ARGV[0])::uuid;
+    v_project_id UUID;
+    v_label TEXT;
+BEGIN
+    FOR v_key IN
+        SELECT key FROM jsonb_object_keys(v_old || v_new) AS key
+        -- Bookkeeping columns change on every write and say nothing about the edit
+        WHERE key NOT IN ('created_at', 'updated_at', 'updated_by', 'last_login')
+    LOOP
+        IF (v_old -> v_key) IS DISTINCT FROM (v_new -> v_key) THEN
+            v_changes := v_changes || jsonb_build_object(
+                v_key, jsonb_build_object('old', v_old -> v_key, 'new', v_new -> v_key)
+            );
+        END IF;
+    END LOOP;
+
+    IF TG_OP = 'UPDATE' AND v_changes = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_ARGV[1] <> '' THEN
+        v_project_id := (v_row ->> TG_ARGV[1])::uuid;
+    END IF;
+
+    IF TG_ARGV[2] <> '' THEN
+        v_label := v_row ->> TG_ARGV[2];
+    ELSIF TG_TABLE_NAME = 'project_members' THEN
+        SELECT full_name INTO v_label FROM public.users WHERE id = v_record_id;
+    END IF;
+
+    -- Service role and signup writes have no profile to point at
+    IF v_actor IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_actor) THEN
+        v_actor := NULL;
+    END IF;
+
+    INSERT INTO public.audit_logs (user_id, action, table_name, record_id, project_id, record_label, changes)
+    VALUES (
+        v_actor,
+        (CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END)::audit_action,
+        TG_TABLE_NAME,
+        v_record_id,
+        v_project_id,
+        v_label,
+        v_changes
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS audit_projects ON public.projects;
+CREATE TRIGGER audit_projects
+    AFTER INSERT OR UPDATE OR DELETE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('id', 'id', 'name');
+
+DROP TRIGGER IF EXISTS audit_project_phases ON public.project_phases;
+CREATE TRIGGER audit_project_phases
+    AFTER INSERT OR UPDATE OR DELETE ON public.project_phases
+    FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('id', 'project_id', 'name');
+
+DROP TRIGGER IF EXISTS audit_tasks ON public.tasks;
+CREATE TRIGGER audit_tasks
+    AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+    FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('id', 'project_id', 'title');
+
+DROP TRIGGER IF EXISTS audit_project_members ON public.project_members;
+CREATE TRIGGER audit_project_members
+    AFTER INSERT OR UPDATE OR DELETE ON public.project_members
+    FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('user_id', 'project_id', '');
+
+DROP TRIGGER IF EXISTS audit_users ON public.users;
+CREATE TRIGGER audit_users
+    AFTER INSERT OR UPDATE OR DELETE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.record_audit_log('id', '', 'full_name');
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Admins can view all audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Project members can view project audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Users can view their own profile audit logs" ON public.audit_logs;
+
+-- RLS Policies for audit_logs; rows are only written by the trigger above
+CREATE POLICY "Admins can view all audit logs"
+    ON public.audit_logs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Project members can view project audit logs"
+    ON public.audit_logs FOR SELECT
+    USING (
+        project_id IS NOT NULL
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.project_members
+                WHERE project_members.project_id = audit_logs.project_id
+                AND project_members.user_id = auth.uid()
+            )
+            OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'project_manager'
+            )
+        )
+    );
+
+CREATE POLICY "Users can view their own profile audit logs"
+    ON public.audit_logs FOR SELECT
+    USING (table_name = 'users' AND record_id = auth.uid());
@@ -0,0 +1,316 @@
+-- Soft delete for projects, phases and tasks. Deleting moves an item and its
+-- children to the trash; they stay in place (with their documents, members and
+-- activity logs) until restored or purged once the retention period runs out.
+CREATE TABLE IF NOT EXISTS public.trash_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    item_type TEXT NOT NULL CHECK (item_type IN ('project', 'phase', 'task')),
+    item_id UUID NOT NULL,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    label TEXT,
+    project_name TEXT, -- the project is hidden while trashed, so keep its name here
+    phase_count INTEGER NOT NULL DEFAULT 0,
+    task_count INTEGER NOT NULL DEFAULT 0,
+    deleted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '30 days'
+);
+
+CREATE INDEX IF NOT EXISTS idx_trash_items_project_id ON public.trash_items(project_id);
+CREATE INDEX IF NOT EXISTS idx_trash_items_expires_at ON public.trash_items(expires_at);
+
+-- trash_id ties every row to the trash entry that took it, so a restore brings
+-- back exactly what went in together
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS trash_id UUID;
+
+ALTER TABLE public.project_phases
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS trash_id UUID;
+
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS trash_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_projects_trash_id ON public.projects(trash_id);
+CREATE INDEX IF NOT EXISTS idx_project_phases_trash_id ON public.project_phases(trash_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_trash_id ON public.tasks(trash_id);
+
+-- Restrictive policies are ANDed with the existing ones, which keeps trashed
+-- rows out of every query without rewriting them
+DROP POLICY IF EXISTS "Hide trashed projects" ON public.projects;
+CREATE POLICY "Hide trashed projects"
+    ON public.projects AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed phases" ON public.project_phases;
+CREATE POLICY "Hide trashed phases"
+    ON public.project_phases AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed tasks" ON public.tasks;
+CREATE POLICY "Hide trashed tasks"
+    ON public.tasks AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL);
+
+-- Admins, project managers and the project's own owner or managers
+CREATE OR REPLACE FUNCTION public.can_manage_project_trash(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role IN ('admin', 'project_manager')
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = p_project_id
+        AND auth.uid() IN (projects.owner_id, projects.manager_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = p_project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.trash_project(p_project_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_name TEXT;
+    v_trash_id UUID;
+BEGIN
+    SELECT name INTO v_name FROM public.projects WHERE id = p_project_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project not found or already in the trash';
+    END IF;
+    IF NOT public.can_manage_project_trash(p_project_id) THEN
+        RAISE EXCEPTION 'You do not have permission to delete this project' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.trash_items (item_type, item_id, project_id, label, project_name, deleted_by)
+    VALUES ('project', p_project_id, p_project_id, v_name, v_name, auth.uid())
+    RETURNING id INTO v_trash_id;
+
+    UPDATE public.tasks SET deleted_at = now(), trash_id = v_trash_id
+    WHERE project_id = p_project_id AND deleted_at IS NULL;
+
+    UPDATE public.project_phases SET deleted_at = now(), trash_id = v_trash_id
+    WHERE project_id = p_project_id AND deleted_at IS NULL;
+
+    UPDATE public.projects SET deleted_at = now(), trash_id = v_trash_id
+    WHERE id = p_project_id;
+
+    UPDATE public.trash_items SET
+        phase_count = (SELECT count(*) FROM public.project_phases WHERE trash_id = v_trash_id),
+        task_count = (SELECT count(*) FROM public.tasks WHERE trash_id = v_trash_id)
+    WHERE id = v_trash_id;
+
+    RETURN v_trash_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.trash_phase(p_phase_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_phase RECORD;
+    v_trash_id UUID;
+BEGIN
+    SELECT project_phases.name, project_phases.project_id, projects.name AS project_name
+    INTO v_phase
+    FROM public.project_phases
+    JOIN public.projects ON projects.id = project_phases.project_id
+    WHERE project_phases.id = p_phase_id AND project_phases.deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Phase not found or already in the trash';
+    END IF;
+    IF NOT public.can_manage_project_trash(v_phase.project_id) THEN
+        RAISE EXCEPTION 'You do not have permission to delete this phase' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.trash_items (item_type, item_id, project_id, label, project_name, phase_count, deleted_by)
+    VALUES ('phase', p_phase_id, v_phase.project_id, v_phase.name, v_phase.project_name, 1, auth.uid())
+    RETURNING id INTO v_trash_id;
+
+    UPDATE public.tasks SET deleted_at = now(), trash_id = v_trash_id
+    WHERE phase_id = p_phase_id AND deleted_at IS NULL;
+
+    UPDATE public.project_phases SET deleted_at = now(), trash_id = v_trash_id
+    WHERE id = p_phase_id;
+
+    UPDATE public.trash_items SET
+        task_count = (SELECT count(*) FROM public.tasks WHERE trash_id = v_trash_id)
+    WHERE id = v_trash_id;
+
+    RETURN v_trash_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.trash_task(p_task_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_task RECORD;
+    v_trash_id UUID;
+BEGIN
+    SELECT tasks.title, tasks.project_id, projects.name AS project_name
+    INTO v_task
+    FROM public.tasks
+    JOIN public.projects ON projects.id = tasks.project_id
+    WHERE tasks.id = p_task_id AND tasks.deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task not found or already in the trash';
+    END IF;
+    IF NOT public.can_manage_project_trash(v_task.project_id) THEN
+        RAISE EXCEPTION 'You do not have permission to delete this task' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.trash_items (item_type, item_id, project_id, label, project_name, deleted_by)
+    VALUES ('task', p_task_id, v_task.project_id, v_task.title, v_task.project_name, auth.uid())
+    RETURNING id INTO v_trash_id;
+
+    -- Subtasks go with their parent, however deep they nest
+    WITH RECURSIVE subtree AS (
+        SELECT id FROM public.tasks WHERE id = p_task_id
+        UNION
+        SELECT tasks.id FROM public.tasks
+        JOIN subtree ON tasks.parent_task_id = subtree.id
+        WHERE tasks.deleted_at IS NULL
+    )
+    UPDATE public.tasks SET deleted_at = now(), trash_id = v_trash_id
+    WHERE id IN (SELECT id FROM subtree);
+
+    UPDATE public.trash_items SET
+        task_count = (SELECT count(*) FROM public.tasks WHERE trash_id = v_trash_id)
+    WHERE id = v_trash_id;
+
+    RETURN v_trash_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.restore_trash_item(p_trash_item_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_item public.trash_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM public.trash_items WHERE id = p_trash_item_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This item is no longer in the trash';
+    END IF;
+    IF NOT public.can_manage_project_trash(v_item.project_id) THEN
+        RAISE EXCEPTION 'You do not have permission to restore this item' USING ERRCODE = '42501';
+    END IF;
+
+    -- A child can't come back into a parent that is still in the trash
+    IF v_item.item_type <> 'project' AND EXISTS (
+        SELECT 1 FROM public.projects WHERE id = v_item.project_id AND deleted_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Restore the project "%" first', v_item.project_name;
+    END IF;
+    IF v_item.item_type = 'task' AND EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_phases ON project_phases.id = tasks.phase_id
+        WHERE tasks.id = v_item.item_id AND project_phases.deleted_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Restore the task''s phase first';
+    END IF;
+    IF v_item.item_type = 'task' AND EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.tasks AS parent ON parent.id = tasks.parent_task_id
+        WHERE tasks.id = v_item.item_id AND parent.deleted_at IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Restore the parent task first';
+    END IF;
+
+    UPDATE public.projects SET deleted_at = NULL, trash_id = NULL WHERE trash_id = p_trash_item_id;
+    UPDATE public.project_phases SET deleted_at = NULL, trash_id = NULL WHERE trash_id = p_trash_item_id;
+    UPDATE public.tasks SET deleted_at = NULL, trash_id = NULL WHERE trash_id = p_trash_item_id;
+
+    DELETE FROM public.trash_items WHERE id = p_trash_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Permanently removes a trash entry and everything it holds. Returns the
+-- storage paths of the task attachments that went with it so the caller can
+-- remove the files. Only the purge job may call this.
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_trash_item_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+    v_item public.trash_items%ROWTYPE;
+    v_task_ids UUID[];
+    v_paths TEXT[];
+BEGIN
+    SELECT * INTO v_item FROM public.trash_items WHERE id = p_trash_item_id;
+    IF NOT FOUND THEN
+        RETURN ARRAY[]::TEXT[];
+    END IF;
+
+    -- Every task the cascade will take, including ones trashed separately
+    -- inside a project or phase that is now being purged
+    SELECT array_agg(id) INTO v_task_ids
+    FROM public.tasks
+    WHERE trash_id = p_trash_item_id
+    OR (v_item.item_type = 'project' AND project_id = v_item.item_id)
+    OR (v_item.item_type = 'phase' AND phase_id = v_item.item_id);
+
+    SELECT coalesce(array_agg(file_url), ARRAY[]::TEXT[]) INTO v_paths
+    FROM public.task_attachments
+    WHERE task_id = ANY(coalesce(v_task_ids, ARRAY[]::UUID[]));
+
+    DELETE FROM public.trash_items
+    WHERE item_type = 'task' AND item_id = ANY(coalesce(v_task_ids, ARRAY[]::UUID[]));
+    IF v_item.item_type = 'phase' THEN
+        DELETE FROM public.trash_items WHERE item_type = 'phase' AND item_id = v_item.item_id;
+    END IF;
+
+    DELETE FROM public.tasks WHERE id = ANY(coalesce(v_task_ids, ARRAY[]::UUID[]));
+    DELETE FROM public.project_phases
+    WHERE trash_id = p_trash_item_id
+    OR (v_item.item_type = 'project' AND project_id = v_item.item_id);
+    IF v_item.item_type = 'project' THEN
+        -- Members, documents, activity logs and the project's other trash
+        -- entries cascade from here
+        DELETE FROM public.projects WHERE id = v_item.item_id;
+    END IF;
+
+    DELETE FROM public.trash_items WHERE id = p_trash_item_id;
+
+    RETURN v_paths;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash_item(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_trash_item(UUID) TO service_role;
+
+-- Enable RLS
+ALTER TABLE public.trash_items ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Managers can view trash" ON public.trash_items;
+
+-- RLS Policies for trash_items; rows are written by the functions above
+CREATE POLICY "Managers can view trash"
+    ON public.trash_items FOR SELECT
+    USING (public.can_manage_project_trash(project_id));
+
+-- Purge expired trash once a day when pg_cron and pg_net are available.
+-- Expects app.settings.supabase_url and app.settings.service_role_key to be set.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule(
+            'purge-trash',
+            '0 3 * * *',
+            $cron$
+            SELECT net.http_post(
+                url := current_setting('app.settings.supabase_url') || '/functions/v1/purge-trash',
+                headers := jsonb_build_object(
+                    'Content-Type', 'application/json',
+                    'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+                ),
+                body := '{}'::jsonb
+            );
+            $cron$
+        );
+    END IF;
+END $$;
@@ -0,0 +1,261 @@
+-- Admin-defined roles made of named permissions. Every role sits on one of the
+-- three built-in tiers (base_role), which users.role keeps mirroring so older
+-- policies that compare users.role still behave.
+CREATE TABLE IF NOT EXISTS public.roles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    description TEXT,
+    base_role user_role NOT NULL DEFAULT 'employee',
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    is_system BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- The built-in roles start with what the hard-coded checks allowed
+INSERT INTO public.roles (key, name, description, base_role, permissions, is_system) VALUES
+    ('admin', 'Admin', 'Full access to every project and setting', 'admin', ARRAY[
+        'manage_users', 'manage_admins', 'manage_roles', 'create_projects', 'manage_projects',
+        'delete_projects', 'manage_members', 'manage_all_tasks', 'edit_assigned_tasks',
+        'view_analytics', 'edit_knowledge_base', 'use_ai_features', 'view_budget',
+        'access_settings', 'manage_trash', 'view_audit_log'
+    ], true),
+    ('project_manager', 'Project Manager', 'Runs projects and their teams', 'project_manager', ARRAY[
+        'manage_users', 'create_projects', 'manage_projects', 'manage_members', 'manage_all_tasks',
+        'edit_assigned_tasks', 'view_analytics', 'edit_knowledge_base', 'use_ai_features',
+        'view_budget', 'access_settings', 'manage_trash'
+    ], true),
+    ('employee', 'Employee', 'Works on the tasks assigned to them', 'employee', ARRAY[
+        'edit_assigned_tasks'
+    ], true)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES public.roles(id) ON DELETE SET NULL;
+
+-- Per-project override: when set, the member's permissions inside this project
+-- come from this role instead of their own
+ALTER TABLE public.project_members
+    ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES public.roles(id) ON DELETE SET NULL;
+
+UPDATE public.users
+SET role_id = roles.id
+FROM public.roles
+WHERE roles.key = users.role::text AND users.role_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_role_id ON public.users(role_id);
+
+-- Keeps users.role and users.role_id in step whichever one a write changes
+CREATE OR REPLACE FUNCTION public.sync_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.role_id IS DISTINCT FROM OLD.role_id) THEN
+        SELECT base_role INTO NEW.role FROM public.roles WHERE id = NEW.role_id;
+    ELSIF TG_OP = 'INSERT' OR NEW.role IS DISTINCT FROM OLD.role OR NEW.role_id IS NULL THEN
+        SELECT id INTO NEW.role_id FROM public.roles WHERE key = NEW.role::text AND is_system;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_user_role ON public.users;
+CREATE TRIGGER sync_user_role
+    BEFORE INSERT OR UPDATE OF role, role_id ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_user_role();
+
+DROP TRIGGER IF EXISTS update_roles_updated_at ON public.roles;
+CREATE TRIGGER update_roles_updated_at
+    BEFORE UPDATE ON public.roles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Permissions granted by a user's own role, falling back to their tier's
+-- built-in role
+CREATE OR REPLACE FUNCTION public.user_permissions(p_user_id UUID)
+RETURNS TEXT[] AS $$
+    SELECT coalesce(
+        (SELECT roles.permissions FROM public.users JOIN public.roles ON roles.id = users.role_id WHERE users.id = p_user_id),
+        (SELECT roles.permissions FROM public.users JOIN public.roles ON roles.key = users.role::text AND roles.is_system WHERE users.id = p_user_id),
+        ARRAY[]::TEXT[]
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The single permission check. Inside a project a member's override role, if
+-- any, replaces their own role.
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT, p_project_id UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+    SELECT p_permission = ANY(coalesce(
+        (
+            SELECT roles.permissions
+            FROM public.project_members
+            JOIN public.roles ON roles.id = project_members.role_id
+            WHERE project_members.project_id = p_project_id
+            AND project_members.user_id = auth.uid()
+        ),
+        public.user_permissions(auth.uid())
+    ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Everything the client needs to answer permission checks without a round trip
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'role_id', (SELECT role_id FROM public.users WHERE id = auth.uid()),
+        'permissions', to_jsonb(public.user_permissions(auth.uid())),
+        'projects', coalesce((
+            SELECT jsonb_object_agg(project_members.project_id, to_jsonb(roles.permissions))
+            FROM public.project_members
+            JOIN public.roles ON roles.id = project_members.role_id
+            WHERE project_members.user_id = auth.uid()
+        ), '{}'::jsonb)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Project managers may manage members, but handing out override roles is a
+-- role decision
+CREATE OR REPLACE FUNCTION public.check_member_role_override()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.role_id END)
+       AND auth.uid() IS NOT NULL
+       AND NOT public.has_permission('manage_roles') THEN
+        RAISE EXCEPTION 'You do not have permission to change project role overrides' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_member_role_override ON public.project_members;
+CREATE TRIGGER check_member_role_override
+    BEFORE INSERT OR UPDATE OF role_id ON public.project_members
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_member_role_override();
+
+-- Enable RLS
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Authenticated users can view roles" ON public.roles;
+DROP POLICY IF EXISTS "Role managers can create roles" ON public.roles;
+DROP POLICY IF EXISTS "Role managers can update roles" ON public.roles;
+DROP POLICY IF EXISTS "Role managers can delete custom roles" ON public.roles;
+
+-- RLS Policies for roles
+CREATE POLICY "Authenticated users can view roles"
+    ON public.roles FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Role managers can create roles"
+    ON public.roles FOR INSERT
+    WITH CHECK (public.has_permission('manage_roles') AND NOT is_system);
+
+-- The admin role always keeps manage_roles so nobody can lock themselves out
+CREATE POLICY "Role managers can update roles"
+    ON public.roles FOR UPDATE
+    USING (public.has_permission('manage_roles'))
+    WITH CHECK (
+        public.has_permission('manage_roles')
+        AND (key <> 'admin' OR 'manage_roles' = ANY(permissions))
+    );
+
+CREATE POLICY "Role managers can delete custom roles"
+    ON public.roles FOR DELETE
+    USING (public.has_permission('manage_roles') AND NOT is_system);
+
+-- Mirror the permissions in the policies that used to check users.role
+
+-- Budget: see salaries/budget
+DROP POLICY IF EXISTS "Managers can view project expenses" ON public.project_expenses;
+DROP POLICY IF EXISTS "Managers can manage project expenses" ON public.project_expenses;
+
+CREATE POLICY "Managers can view project expenses"
+    ON public.project_expenses FOR SELECT
+    USING (public.has_permission('view_budget', project_id));
+
+CREATE POLICY "Managers can manage project expenses"
+    ON public.project_expenses FOR ALL
+    USING (public.has_permission('view_budget', project_id))
+    WITH CHECK (public.has_permission('view_budget', project_id));
+
+-- Knowledge base: project managers by membership keep their access
+DROP POLICY IF EXISTS "Project members with manager role and admins can insert documents" ON project_documents;
+DROP POLICY IF EXISTS "Project members with manager role and admins can update documents" ON project_documents;
+DROP POLICY IF EXISTS "Project members with manager role and admins can delete documents" ON project_documents;
+DROP POLICY IF EXISTS "Project members with manager role and admins can insert FAQs" ON project_faqs;
+DROP POLICY IF EXISTS "Project members with manager role and admins can update FAQs" ON project_faqs;
+DROP POLICY IF EXISTS "Project members with manager role and admins can delete FAQs" ON project_faqs;
+DROP POLICY IF EXISTS "Project members with manager role and admins can insert resources" ON project_resources;
+DROP POLICY IF EXISTS "Project members with manager role and admins can update resources" ON project_resources;
+DROP POLICY IF EXISTS "Project members with manager role and admins can delete resources" ON project_resources;
+DROP POLICY IF EXISTS "Knowledge base editors can manage documents" ON project_documents;
+DROP POLICY IF EXISTS "Knowledge base editors can manage FAQs" ON project_faqs;
+DROP POLICY IF EXISTS "Knowledge base editors can manage resources" ON project_resources;
+
+CREATE OR REPLACE FUNCTION public.can_edit_knowledge_base(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.has_permission('edit_knowledge_base', p_project_id)
+    OR EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = p_project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+        AND project_members.role_id IS NULL
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Knowledge base editors can manage documents"
+    ON project_documents FOR ALL
+    USING (public.can_edit_knowledge_base(project_id))
+    WITH CHECK (public.can_edit_knowledge_base(project_id));
+
+CREATE POLICY "Knowledge base editors can manage FAQs"
+    ON project_faqs FOR ALL
+    USING (public.can_edit_knowledge_base(project_id))
+    WITH CHECK (public.can_edit_knowledge_base(project_id));
+
+CREATE POLICY "Knowledge base editors can manage resources"
+    ON project_resources FOR ALL
+    USING (public.can_edit_knowledge_base(project_id))
+    WITH CHECK (public.can_edit_knowledge_base(project_id));
+
+-- Members: owners and managers of the project, or anyone with manage_members
+DROP POLICY IF EXISTS "project_members_manage_policy" ON public.project_members;
+CREATE POLICY "project_members_manage_policy"
+ON public.project_members
+FOR ALL
+TO authenticated
+USING (
+    public.has_permission('manage_members', project_members.project_id)
+    OR EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = project_members.project_id
+        AND (p.owner_id = auth.uid() OR p.manager_id = auth.uid())
+    )
+);
+
+-- Audit log
+DROP POLICY IF EXISTS "Admins can view all audit logs" ON public.audit_logs;
+CREATE POLICY "Admins can view all audit logs"
+    ON public.audit_logs FOR SELECT
+    USING (public.has_permission('view_audit_log'));
+
+-- Trash
+CREATE OR REPLACE FUNCTION public.can_manage_project_trash(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.has_permission('manage_trash', p_project_id)
+    OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = p_project_id
+        AND auth.uid() IN (projects.owner_id, projects.manager_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = p_project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+        AND project_members.role_id IS NULL
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,4 @@
+-- External guests (clients) invited to selected projects. A new enum value
+-- can't be used in the transaction that adds it, so the guest policies live in
+-- the next migration.
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'guest';
@@ -0,0 +1,282 @@
+-- Guest (client) access to selected projects. Guests are users with the guest
+-- role who are invited to individual projects; they read what the project's
+-- managers expose and can comment on shared tasks, nothing more.
+
+INSERT INTO public.roles (key, name, description, base_role, permissions, is_system) VALUES
+    ('guest', 'Guest', 'External client who follows the projects shared with them', 'guest', ARRAY[]::TEXT[], true)
+ON CONFLICT (key) DO NOTHING;
+
+-- What a project shows its guests besides progress and the shared tasks
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS guest_phases_visible BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS guest_faqs_visible BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS guest_resources_visible BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.tasks
+    ADD COLUMN IF NOT EXISTS visible_to_guests BOOLEAN NOT NULL DEFAULT false;
+
+-- Kept apart from project_members so guests never count as team members in
+-- staffing, workload or analytics
+CREATE TABLE IF NOT EXISTS public.project_guests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    invited_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_guests_user_id ON public.project_guests(user_id);
+
+CREATE OR REPLACE FUNCTION public.is_guest()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role = 'guest'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.is_project_guest(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.project_guests
+        WHERE project_guests.project_id = p_project_id
+        AND project_guests.user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.guest_can_view_task(p_task_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.tasks
+        WHERE tasks.id = p_task_id
+        AND tasks.visible_to_guests
+        AND tasks.deleted_at IS NULL
+        AND public.is_project_guest(tasks.project_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whoever may manage the team may also decide who sees the project from outside
+CREATE OR REPLACE FUNCTION public.can_manage_project_guests(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.has_permission('manage_members', p_project_id)
+    OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = p_project_id
+        AND auth.uid() IN (projects.owner_id, projects.manager_id)
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = p_project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+        AND project_members.role_id IS NULL
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Names and avatars of everyone a guest may meet in a project's comments.
+-- Guests can't read the users table itself, which also holds hourly rates.
+CREATE OR REPLACE FUNCTION public.get_project_people(p_project_id UUID)
+RETURNS TABLE (id UUID, full_name TEXT, avatar_url TEXT) AS $$
+    SELECT users.id, users.full_name::TEXT, users.avatar_url::TEXT
+    FROM public.users
+    WHERE (NOT public.is_guest() OR public.is_project_guest(p_project_id))
+    AND (
+        users.id IN (SELECT user_id FROM public.project_members WHERE project_id = p_project_id)
+        OR users.id IN (SELECT user_id FROM public.project_guests WHERE project_id = p_project_id)
+        OR users.id IN (SELECT owner_id FROM public.projects WHERE projects.id = p_project_id)
+        OR users.id IN (SELECT manager_id FROM public.projects WHERE projects.id = p_project_id)
+    )
+    ORDER BY users.full_name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE public.project_guests ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Guests and managers can view project guests" ON public.project_guests;
+DROP POLICY IF EXISTS "Managers can invite project guests" ON public.project_guests;
+DROP POLICY IF EXISTS "Managers can remove project guests" ON public.project_guests;
+
+-- RLS Policies for project_guests
+CREATE POLICY "Guests and managers can view project guests"
+    ON public.project_guests FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.can_manage_project_guests(project_id));
+
+CREATE POLICY "Managers can invite project guests"
+    ON public.project_guests FOR INSERT
+    TO authenticated
+    WITH CHECK (public.can_manage_project_guests(project_id));
+
+CREATE POLICY "Managers can remove project guests"
+    ON public.project_guests FOR DELETE
+    TO authenticated
+    USING (public.can_manage_project_guests(project_id));
+
+-- What guests may read. Each table gets a permissive policy that lets a guest
+-- in and a restrictive one that keeps them to exactly that and read-only.
+DROP POLICY IF EXISTS "Guests can view shared projects" ON public.projects;
+DROP POLICY IF EXISTS "Guests only see shared projects" ON public.projects;
+DROP POLICY IF EXISTS "Guests can view shared phases" ON public.project_phases;
+DROP POLICY IF EXISTS "Guests only see shared phases" ON public.project_phases;
+DROP POLICY IF EXISTS "Guests can view shared tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Guests only see shared tasks" ON public.tasks;
+DROP POLICY IF EXISTS "Guests can view shared FAQs" ON public.project_faqs;
+DROP POLICY IF EXISTS "Guests only see shared FAQs" ON public.project_faqs;
+DROP POLICY IF EXISTS "Guests can view shared resources" ON public.project_resources;
+DROP POLICY IF EXISTS "Guests only see shared resources" ON public.project_resources;
+DROP POLICY IF EXISTS "Guests can view shared task comments" ON public.task_comments;
+DROP POLICY IF EXISTS "Guests can comment on shared tasks" ON public.task_comments;
+DROP POLICY IF EXISTS "Guests only see shared task comments" ON public.task_comments;
+DROP POLICY IF EXISTS "Guests only see themselves" ON public.users;
+
+CREATE POLICY "Guests can view shared projects"
+    ON public.projects FOR SELECT
+    TO authenticated
+    USING (public.is_project_guest(id));
+
+CREATE POLICY "Guests only see shared projects"
+    ON public.projects AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (NOT public.is_guest() OR public.is_project_guest(id))
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared phases"
+    ON public.project_phases FOR SELECT
+    TO authenticated
+    USING (
+        public.is_project_guest(project_id)
+        AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_phases.project_id AND projects.guest_phases_visible)
+    );
+
+CREATE POLICY "Guests only see shared phases"
+    ON public.project_phases AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_phases.project_id AND projects.guest_phases_visible)
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared tasks"
+    ON public.tasks FOR SELECT
+    TO authenticated
+    USING (visible_to_guests AND public.is_project_guest(project_id));
+
+CREATE POLICY "Guests only see shared tasks"
+    ON public.tasks AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (NOT public.is_guest() OR (visible_to_guests AND public.is_project_guest(project_id)))
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared FAQs"
+    ON public.project_faqs FOR SELECT
+    TO authenticated
+    USING (
+        public.is_project_guest(project_id)
+        AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_faqs.project_id AND projects.guest_faqs_visible)
+    );
+
+CREATE POLICY "Guests only see shared FAQs"
+    ON public.project_faqs AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_faqs.project_id AND projects.guest_faqs_visible)
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared resources"
+    ON public.project_resources FOR SELECT
+    TO authenticated
+    USING (
+        public.is_project_guest(project_id)
+        AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_resources.project_id AND projects.guest_resources_visible)
+    );
+
+CREATE POLICY "Guests only see shared resources"
+    ON public.project_resources AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND EXISTS (SELECT 1 FROM public.projects WHERE projects.id = project_resources.project_id AND projects.guest_resources_visible)
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
+
+-- Guests can comment and reply, but not edit or delete what's there
+CREATE POLICY "Guests can view shared task comments"
+    ON public.task_comments FOR SELECT
+    TO authenticated
+    USING (public.guest_can_view_task(task_id));
+
+CREATE POLICY "Guests can comment on shared tasks"
+    ON public.task_comments FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = user_id AND public.guest_can_view_task(task_id));
+
+CREATE POLICY "Guests only see shared task comments"
+    ON public.task_comments AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (NOT public.is_guest() OR public.guest_can_view_task(task_id))
+    WITH CHECK (NOT public.is_guest() OR (auth.uid() = user_id AND public.guest_can_view_task(task_id)));
+
+CREATE POLICY "Guests only see themselves"
+    ON public.users AS RESTRICTIVE FOR SELECT
+    TO authenticated
+    USING (NOT public.is_guest() OR id = auth.uid());
+
+-- A USING clause alone doesn't stop deletes of rows a guest can see
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['projects', 'project_phases', 'tasks', 'project_faqs', 'project_resources', 'task_comments', 'project_guests']
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Guests cannot update" ON public.%I', t);
+        EXECUTE format('DROP POLICY IF EXISTS "Guests cannot delete" ON public.%I', t);
+        EXECUTE format(
+            'CREATE POLICY "Guests cannot update" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated USING (NOT public.is_guest())',
+            t
+        );
+        EXECUTE format(
+            'CREATE POLICY "Guests cannot delete" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated USING (NOT public.is_guest())',
+            t
+        );
+    END LOOP;
+END $$;
+
+-- Staff-only data: CVs, interviews, notes, skills, budget, time, team and
+-- internal project records. Tables missing from older schemas are skipped.
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY[
+        'cv_parsed_data', 'user_cvs', 'user_interviews', 'user_notes', 'user_analysis',
+        'skills', 'certifications', 'education_history', 'work_experience', 'language_proficiency',
+        'project_members', 'team_member_records', 'user_projects', 'project_interview_results',
+        'project_education', 'project_experience', 'project_expenses', 'time_entries',
+        'project_documents', 'project_knowledge_base', 'project_files', 'project_activities',
+        'project_activity_logs', 'task_activities', 'task_assignments', 'task_attachments',
+        'task_checklist_items', 'task_dependencies', 'task_recurrences', 'task_templates',
+        'phase_tasks', 'saved_task_views', 'deepsearch_conversations', 'deepsearch_messages',
+        'ai_usage', 'ai_analysis_cache', 'audit_logs', 'trash_items'
+    ]
+    LOOP
+        IF to_regclass('public.' || t) IS NOT NULL THEN
+            EXECUTE format('DROP POLICY IF EXISTS "No guest access" ON public.%I', t);
+            EXECUTE format(
+                'CREATE POLICY "No guest access" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING (NOT public.is_guest()) WITH CHECK (NOT public.is_guest())',
+                t
+            );
+        END IF;
+    END LOOP;
+END $$;
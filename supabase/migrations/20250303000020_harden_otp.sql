@@ -0,0 +1,37 @@
+-- Login codes are issued and checked by the login-otp edge function only.
+-- Codes are kept as salted hashes, and the rows stay around for a day so the
+-- function can count requests and failures for its rate limits.
+
+-- Plaintext codes from the old client-side flow are useless from here on
+DELETE FROM public.user_otps;
+
+ALTER TABLE public.user_otps
+    DROP COLUMN IF EXISTS code,
+    ADD COLUMN IF NOT EXISTS code_hash TEXT NOT NULL,
+    ADD COLUMN IF NOT EXISTS salt TEXT NOT NULL,
+    ADD COLUMN IF NOT EXISTS ip_address TEXT,
+    ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_user_otps_user_created ON public.user_otps(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_otps_ip_created ON public.user_otps(ip_address, created_at DESC);
+
+-- Drop existing policies. Without any policy only the service role, which
+-- bypasses RLS, can read or write codes.
+DROP POLICY IF EXISTS "User can manage their own OTPs" ON public.user_otps;
+DROP POLICY IF EXISTS "Service role can manage all OTPs" ON public.user_otps;
+
+REVOKE ALL ON public.user_otps FROM anon, authenticated;
+
+-- Expired codes used to be deleted on every insert, which also erased the
+-- history the rate limits are counted from
+CREATE OR REPLACE FUNCTION clean_expired_otps()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.user_otps
+  WHERE created_at < NOW() - INTERVAL '1 day';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_action ON public.auth_audit_log(action, created_at);
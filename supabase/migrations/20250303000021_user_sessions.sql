@@ -0,0 +1,115 @@
+-- Device details for each sign-in. auth.sessions stays the source of truth for
+-- which sessions are alive; this table adds what the track-session function
+-- works out from the request: device, browser and approximate location.
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+    session_id UUID PRIMARY KEY, -- auth.sessions.id; kept after revocation
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    ip_address TEXT,
+    user_agent TEXT,
+    device TEXT,
+    browser TEXT,
+    location TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_device ON public.user_sessions(user_id, device, browser);
+
+-- Enable RLS
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Users can view their own sessions" ON public.user_sessions;
+DROP POLICY IF EXISTS "Admins can view all sessions" ON public.user_sessions;
+
+-- RLS Policies for user_sessions; rows are only written by the track-session
+-- function and revoke_user_session
+CREATE POLICY "Users can view their own sessions"
+    ON public.user_sessions FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all sessions"
+    ON public.user_sessions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Live sessions of a user, most recently active first. Sessions from before
+-- tracking started have no device row and fall back to what auth recorded.
+CREATE OR REPLACE FUNCTION public.get_user_sessions(p_user_id UUID)
+RETURNS TABLE (
+    id UUID,
+    ip_address TEXT,
+    user_agent TEXT,
+    device TEXT,
+    browser TEXT,
+    location TEXT,
+    first_seen_at TIMESTAMPTZ,
+    last_active_at TIMESTAMPTZ,
+    is_current BOOLEAN
+) AS $$
+    SELECT
+        sessions.id,
+        coalesce(user_sessions.ip_address, host(sessions.ip)),
+        coalesce(user_sessions.user_agent, sessions.user_agent),
+        user_sessions.device,
+        user_sessions.browser,
+        user_sessions.location,
+        sessions.created_at,
+        greatest(sessions.created_at, sessions.updated_at, sessions.refreshed_at::timestamptz),
+        sessions.id::text = auth.jwt() ->> 'session_id'
+    FROM auth.sessions
+    LEFT JOIN public.user_sessions ON user_sessions.session_id = sessions.id
+    WHERE sessions.user_id = p_user_id
+    AND (sessions.not_after IS NULL OR sessions.not_after > now())
+    AND (
+        p_user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    )
+    ORDER BY 8 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Ends one session. Deleting it from auth.sessions takes its refresh tokens
+-- with it, so the device is signed out as soon as its access token expires.
+CREATE OR REPLACE FUNCTION public.revoke_user_session(p_session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    SELECT user_id INTO v_user_id FROM auth.sessions WHERE id = p_session_id;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Session not found or already signed out';
+    END IF;
+
+    IF v_user_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'You do not have permission to revoke this session' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM auth.sessions WHERE id = p_session_id;
+
+    UPDATE public.user_sessions
+    SET revoked_at = now(), revoked_by = auth.uid()
+    WHERE session_id = p_session_id;
+
+    INSERT INTO public.auth_audit_log (user_id, action, metadata)
+    VALUES (
+        v_user_id,
+        'session_revoked',
+        jsonb_build_object('session_id', p_session_id, 'revoked_by', auth.uid())
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
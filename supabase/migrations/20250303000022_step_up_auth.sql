@@ -0,0 +1,231 @@
+-- Step-up authentication. Sensitive actions need a 2FA check from the last few
+-- minutes when the user has turned on "Require 2FA for sensitive actions", or
+-- when they are an admin or project manager and the organization requires 2FA
+-- for those roles. A fresh TOTP shows up in the session's amr claim; backup
+-- codes are checked here and recorded against the session.
+
+-- Organization-wide security settings; always exactly one row
+CREATE TABLE IF NOT EXISTS public.security_policies (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    require_mfa_for_privileged_roles BOOLEAN NOT NULL DEFAULT false,
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+INSERT INTO public.security_policies (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.step_up_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL,
+    method TEXT NOT NULL CHECK (method IN ('backup_code')),
+    verified_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_up_verifications_session ON public.step_up_verifications(user_id, session_id, verified_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.security_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.step_up_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Authenticated users can view the security policy" ON public.security_policies;
+DROP POLICY IF EXISTS "Admins can update the security policy" ON public.security_policies;
+
+-- RLS Policies for security_policies
+CREATE POLICY "Authenticated users can view the security policy"
+    ON public.security_policies FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update the security policy"
+    ON public.security_policies FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- step_up_verifications has no policies: it is only written by
+-- verify_step_up_backup_code and read by has_recent_step_up
+REVOKE ALL ON public.step_up_verifications FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.step_up_required(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce((
+        SELECT (settings ->> 'requireMFAForSensitiveActions')::boolean
+        FROM public.user_security_settings
+        WHERE user_id = p_user_id
+    ), false)
+    OR (
+        coalesce((SELECT require_mfa_for_privileged_roles FROM public.security_policies), false)
+        AND EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = p_user_id
+            AND users.role IN ('admin', 'project_manager')
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Five minutes, matching STEP_UP_WINDOW_SECONDS in src/lib/services/stepUp.ts
+CREATE OR REPLACE FUNCTION public.has_recent_step_up()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(coalesce(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'totp'
+        AND to_timestamp((amr ->> 'timestamp')::bigint) > now() - INTERVAL '5 minutes'
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.step_up_verifications
+        WHERE user_id = auth.uid()
+        AND session_id::text = auth.jwt() ->> 'session_id'
+        AND verified_at > now() - INTERVAL '5 minutes'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The hint tells this apart from other permission errors
+CREATE OR REPLACE FUNCTION public.assert_step_up()
+RETURNS VOID AS $$
+BEGIN
+    -- Service role calls have no user to ask
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF public.step_up_required(auth.uid()) AND NOT public.has_recent_step_up() THEN
+        RAISE EXCEPTION 'Confirm it''s you with two-factor authentication to continue'
+            USING ERRCODE = '42501', HINT = 'step_up_required';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.enforce_step_up()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.assert_step_up();
+    RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Consumes one of the user's backup codes as the step-up check for their
+-- current session. Returns when the check was recorded, or NULL for a wrong
+-- code; repeated wrong codes lock the check for 15 minutes.
+CREATE OR REPLACE FUNCTION public.verify_step_up_backup_code(p_code TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_session_id UUID := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+    v_verified_at TIMESTAMPTZ;
+BEGIN
+    IF auth.uid() IS NULL OR v_session_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM public.auth_audit_log
+        WHERE user_id = auth.uid()
+        AND action = 'step_up_failed'
+        AND created_at > now() - INTERVAL '15 minutes'
+    ) >= 5 THEN
+        RAISE EXCEPTION 'Too many incorrect codes. Try again in 15 minutes.';
+    END IF;
+
+    IF NOT public.use_backup_code(auth.uid(), trim(p_code)) THEN
+        INSERT INTO public.auth_audit_log (user_id, action, metadata)
+        VALUES (auth.uid(), 'step_up_failed', jsonb_build_object('method', 'backup_code'));
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.step_up_verifications (user_id, session_id, method)
+    VALUES (auth.uid(), v_session_id, 'backup_code')
+    RETURNING verified_at INTO v_verified_at;
+
+    INSERT INTO public.auth_audit_log (user_id, action, metadata)
+    VALUES (auth.uid(), 'step_up_verified', jsonb_build_object('method', 'backup_code'));
+
+    RETURN v_verified_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Codes used to be generated for any user id and handed back to the caller
+CREATE OR REPLACE FUNCTION generate_backup_codes(p_user_id UUID, p_count INTEGER DEFAULT 10)
+RETURNS SETOF backup_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_code TEXT;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'You can only generate your own backup codes' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM public.assert_step_up();
+
+    -- Delete existing unused backup codes
+    DELETE FROM public.backup_codes
+    WHERE user_id = p_user_id AND used = false;
+
+    -- Generate new backup codes
+    FOR i IN 1..p_count LOOP
+        -- Generate a random 8-character code
+        v_code := upper(substring(encode(gen_random_bytes(6), 'hex') from 1 for 8));
+
+        -- Insert the code
+        RETURN QUERY
+        INSERT INTO public.backup_codes (user_id, code)
+        VALUES (p_user_id, v_code)
+        RETURNING *;
+    END LOOP;
+END;
+$$;
+
+-- Backup codes are only checked through verify_step_up_backup_code now
+REVOKE EXECUTE ON FUNCTION use_backup_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sensitive changes made with the user's own session. Deleting users and
+-- changing their role or email go through the admin-users function, which
+-- checks step-up with the caller's session before using the service role.
+DROP TRIGGER IF EXISTS enforce_step_up_on_project_trash ON public.trash_items;
+CREATE TRIGGER enforce_step_up_on_project_trash
+    BEFORE INSERT ON public.trash_items
+    FOR EACH ROW
+    WHEN (NEW.item_type = 'project')
+    EXECUTE FUNCTION public.enforce_step_up();
+
+DROP TRIGGER IF EXISTS enforce_step_up_on_roles ON public.roles;
+CREATE TRIGGER enforce_step_up_on_roles
+    BEFORE INSERT OR UPDATE OR DELETE ON public.roles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_step_up();
+
+DROP TRIGGER IF EXISTS enforce_step_up_on_user_role ON public.users;
+CREATE TRIGGER enforce_step_up_on_user_role
+    BEFORE UPDATE OF role, role_id ON public.users
+    FOR EACH ROW
+    WHEN (OLD.role IS DISTINCT FROM NEW.role OR OLD.role_id IS DISTINCT FROM NEW.role_id)
+    EXECUTE FUNCTION public.enforce_step_up();
+
+DROP TRIGGER IF EXISTS enforce_step_up_on_user_delete ON public.users;
+CREATE TRIGGER enforce_step_up_on_user_delete
+    BEFORE DELETE ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_step_up();
+
+-- Turning the requirement off is itself a sensitive action
+DROP TRIGGER IF EXISTS enforce_step_up_on_security_settings ON public.user_security_settings;
+CREATE TRIGGER enforce_step_up_on_security_settings
+    BEFORE UPDATE ON public.user_security_settings
+    FOR EACH ROW
+    WHEN (
+        coalesce((OLD.settings ->> 'requireMFAForSensitiveActions')::boolean, false)
+        AND NOT coalesce((NEW.settings ->> 'requireMFAForSensitiveActions')::boolean, false)
+    )
+    EXECUTE FUNCTION public.enforce_step_up();
+
+DROP TRIGGER IF EXISTS enforce_step_up_on_security_policies ON public.security_policies;
+CREATE TRIGGER enforce_step_up_on_security_policies
+    BEFORE UPDATE ON public.security_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_step_up();
@@ -0,0 +1,37 @@
+-- "users_update_own" lets anyone update their own row, and sync_user_role
+-- turns a new role_id into the matching tier, so setting role_id on your own
+-- profile was enough to become an admin. Roles can now only be handed out by
+-- role managers, or by the service role (no auth.uid()).
+CREATE OR REPLACE FUNCTION public.check_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.has_permission('manage_roles') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        RAISE EXCEPTION 'You do not have permission to change user roles' USING ERRCODE = '42501';
+    END IF;
+
+    -- A profile created with the user's own session starts on the lowest tier
+    IF NEW.role_id IS NOT NULL OR NEW.role::text IN ('admin', 'project_manager') THEN
+        RAISE EXCEPTION 'You do not have permission to choose a role' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to sort before sync_user_role, so it sees the columns as written
+DROP TRIGGER IF EXISTS check_user_role_change ON public.users;
+CREATE TRIGGER check_user_role_change
+    BEFORE UPDATE OF role, role_id ON public.users
+    FOR EACH ROW
+    WHEN (OLD.role IS DISTINCT FROM NEW.role OR OLD.role_id IS DISTINCT FROM NEW.role_id)
+    EXECUTE FUNCTION public.check_user_role_change();
+
+DROP TRIGGER IF EXISTS check_user_role_on_insert ON public.users;
+CREATE TRIGGER check_user_role_on_insert
+    BEFORE INSERT ON public.users
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_user_role_change();
@@ -0,0 +1,40 @@
+-- Notifications could be inserted for any user with any content. Mentions and
+-- guest invites only ever go to someone on one of the sender's projects, so
+-- that is all a user may send now; admins may still notify anyone.
+CREATE OR REPLACE FUNCTION public.shares_project_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    WITH participants AS (
+        SELECT project_id, user_id FROM public.project_members
+        UNION
+        SELECT project_id, user_id FROM public.project_guests
+        UNION
+        SELECT id, owner_id FROM public.projects WHERE owner_id IS NOT NULL
+        UNION
+        SELECT id, manager_id FROM public.projects WHERE manager_id IS NOT NULL
+    )
+    SELECT EXISTS (
+        SELECT 1
+        FROM participants AS mine
+        JOIN participants AS theirs ON theirs.project_id = mine.project_id
+        WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = p_user_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Authenticated users can send notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users can notify people they share a project with" ON public.notifications;
+
+-- RLS Policies for notifications
+CREATE POLICY "Users can notify people they share a project with"
+    ON public.notifications FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        OR public.shares_project_with(user_id)
+        OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,19 @@
+-- Any project member could delete any attachment file, while only the uploader,
+-- admins and project managers may delete the attachment itself. Files now
+-- follow the same rule; the storage owner is the uploader.
+DROP POLICY IF EXISTS "Project members can delete task attachment files" ON storage.objects;
+DROP POLICY IF EXISTS "Uploaders and managers can delete task attachment files" ON storage.objects;
+
+CREATE POLICY "Uploaders and managers can delete task attachment files"
+    ON storage.objects FOR DELETE
+    USING (
+        bucket_id = 'task-attachments'
+        AND (
+            owner = auth.uid()
+            OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role IN ('admin', 'project_manager')
+            )
+        )
+    );
@@ -0,0 +1,165 @@
+-- Hourly rates are pay data, but users_view_all let every signed-in user read
+-- them off the users table. They now live in their own table that only people
+-- who may see budgets can read.
+CREATE TABLE IF NOT EXISTS public.user_rates (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    hourly_rate DECIMAL(10,2) NOT NULL CHECK (hourly_rate >= 0),
+    updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.user_rates (user_id, hourly_rate)
+SELECT id, hourly_rate FROM public.users WHERE hourly_rate IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE public.users DROP COLUMN IF EXISTS hourly_rate;
+
+-- Enable RLS
+ALTER TABLE public.user_rates ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies
+DROP POLICY IF EXISTS "Budget viewers can view hourly rates" ON public.user_rates;
+DROP POLICY IF EXISTS "User managers who see budgets can set hourly rates" ON public.user_rates;
+
+-- RLS Policies for user_rates
+CREATE POLICY "Budget viewers can view hourly rates"
+    ON public.user_rates FOR SELECT
+    USING (public.has_permission('view_budget'));
+
+CREATE POLICY "User managers who see budgets can set hourly rates"
+    ON public.user_rates FOR ALL
+    USING (public.has_permission('view_budget') AND public.has_permission('manage_users'))
+    WITH CHECK (public.has_permission('view_budget') AND public.has_permission('manage_users'));
+
+-- Budget alerts used to be evaluated in the browser when someone opened the
+-- Budget tab. They are now checked whenever costs, the budget or its
+-- thresholds change, and sent through the budget-alert edge function.
+
+-- Labour priced at each user's rate plus expenses, as on the Budget tab
+CREATE OR REPLACE FUNCTION public.project_spend(p_project_id UUID)
+RETURNS NUMERIC AS $$
+    SELECT coalesce((
+        SELECT sum(round(time_entries.duration_minutes / 60.0 * user_rates.hourly_rate, 2))
+        FROM public.time_entries
+        JOIN public.tasks ON tasks.id = time_entries.task_id
+        JOIN public.user_rates ON user_rates.user_id = time_entries.user_id
+        WHERE tasks.project_id = p_project_id
+        AND time_entries.duration_minutes IS NOT NULL
+    ), 0) + coalesce((
+        SELECT sum(amount) FROM public.project_expenses
+        WHERE project_id = p_project_id
+    ), 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Expects app.settings.supabase_url and app.settings.service_role_key to be
+-- set, like the scheduled functions. pg_net sends once the transaction commits.
+CREATE OR REPLACE FUNCTION public.send_budget_alert(p_project_id UUID, p_level INTEGER, p_spent NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+       OR current_setting('app.settings.supabase_url', true) IS NULL THEN
+        RAISE WARNING 'Budget alert for project % not sent: pg_net or app.settings.supabase_url is missing', p_project_id;
+        RETURN;
+    END IF;
+
+    PERFORM net.http_post(
+        url := current_setting('app.settings.supabase_url') || '/functions/v1/budget-alert',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+        ),
+        body := jsonb_build_object('projectId', p_project_id, 'level', p_level, 'spent', p_spent)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.project_spend(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.send_budget_alert(UUID, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- The highest crossed threshold is stored on the project so each one only
+-- fires once; if spending drops back below it the marker is lowered so
+-- crossing it again alerts again. Raising the marker is a compare-and-set, so
+-- of two writes crossing the same threshold only one sends the alert.
+CREATE OR REPLACE FUNCTION public.check_budget_thresholds(p_project_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_project RECORD;
+    v_spent NUMERIC;
+    v_level INTEGER;
+BEGIN
+    SELECT budget, budget_alert_thresholds, budget_alerted_threshold
+    INTO v_project
+    FROM public.projects
+    WHERE id = p_project_id;
+
+    IF NOT FOUND OR coalesce(v_project.budget, 0) <= 0 THEN
+        RETURN;
+    END IF;
+
+    v_spent := public.project_spend(p_project_id);
+
+    SELECT coalesce(max(threshold), 0) INTO v_level
+    FROM unnest(coalesce(nullif(v_project.budget_alert_thresholds, '{}'), '{50,75,90,100}'::INTEGER[])) AS threshold
+    WHERE threshold <= v_spent / v_project.budget * 100;
+
+    IF v_level < v_project.budget_alerted_threshold THEN
+        UPDATE public.projects
+        SET budget_alerted_threshold = v_level
+        WHERE id = p_project_id
+        AND budget_alerted_threshold > v_level;
+    ELSIF v_level > v_project.budget_alerted_threshold THEN
+        UPDATE public.projects
+        SET budget_alerted_threshold = v_level
+        WHERE id = p_project_id
+        AND budget_alerted_threshold < v_level;
+
+        IF FOUND THEN
+            PERFORM public.send_budget_alert(p_project_id, v_level, v_spent);
+        END IF;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.check_budget_on_cost_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_row RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_row := OLD;
+    ELSE
+        v_row := NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'project_expenses' THEN
+        PERFORM public.check_budget_thresholds(v_row.project_id);
+    ELSIF TG_TABLE_NAME = 'time_entries' THEN
+        PERFORM public.check_budget_thresholds(tasks.project_id)
+        FROM public.tasks
+        WHERE tasks.id = v_row.task_id;
+    ELSE
+        PERFORM public.check_budget_thresholds(v_row.id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A running timer has no duration yet; it is costed once it stops
+DROP TRIGGER IF EXISTS check_budget_on_time_entries ON public.time_entries;
+CREATE TRIGGER check_budget_on_time_entries
+    AFTER INSERT OR UPDATE OF duration_minutes OR DELETE ON public.time_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_budget_on_cost_change();
+
+DROP TRIGGER IF EXISTS check_budget_on_project_expenses ON public.project_expenses;
+CREATE TRIGGER check_budget_on_project_expenses
+    AFTER INSERT OR UPDATE OF amount OR DELETE ON public.project_expenses
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_budget_on_cost_change();
+
+DROP TRIGGER IF EXISTS check_budget_on_project_budget ON public.projects;
+CREATE TRIGGER check_budget_on_project_budget
+    AFTER UPDATE OF budget, budget_alert_thresholds ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_budget_on_cost_change();
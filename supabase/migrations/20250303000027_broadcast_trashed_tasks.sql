@@ -0,0 +1,40 @@
+-- Moving a task to the trash is an update that hides the row from everyone's
+-- RLS, so realtime subscribers never see it go. Whenever tasks are trashed
+-- (on their own, with a phase or with a project), their ids are broadcast to
+-- the project-tasks:<project_id> channel the task board listens on.
+CREATE OR REPLACE FUNCTION public.broadcast_trashed_tasks()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_project RECORD;
+BEGIN
+    -- Realtime broadcasts from the database need a recent Supabase
+    IF to_regprocedure('realtime.send(jsonb, text, text, boolean)') IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    FOR v_project IN
+        SELECT new_rows.project_id, array_agg(new_rows.id) AS task_ids
+        FROM new_rows
+        JOIN old_rows ON old_rows.id = new_rows.id
+        WHERE new_rows.deleted_at IS NOT NULL
+        AND old_rows.deleted_at IS NULL
+        GROUP BY new_rows.project_id
+    LOOP
+        PERFORM realtime.send(
+            jsonb_build_object('task_ids', v_project.task_ids),
+            'tasks_trashed',
+            'project-tasks:' || v_project.project_id,
+            false
+        );
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS broadcast_trashed_tasks ON public.tasks;
+CREATE TRIGGER broadcast_trashed_tasks
+    AFTER UPDATE ON public.tasks
+    REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION public.broadcast_trashed_tasks();
@@ -0,0 +1,60 @@
+-- Sessions were recorded, and new-device alerts sent, only when the browser
+-- called track-session after signing in, so any other client skipped both.
+-- Every new auth session is now recorded here, and the track-session function
+-- is asked to describe the device and send the alert.
+--
+-- GoTrue may fill in a session's user agent and IP just after creating it, so
+-- the function is called once they are known. Expects app.settings.supabase_url
+-- and app.settings.service_role_key to be set, like the scheduled functions.
+CREATE OR REPLACE FUNCTION public.record_auth_session()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Never let tracking get in the way of signing in
+    BEGIN
+        INSERT INTO public.user_sessions (session_id, user_id, ip_address, user_agent)
+        VALUES (NEW.id, NEW.user_id, host(NEW.ip), NEW.user_agent)
+        ON CONFLICT (session_id) DO UPDATE SET
+            ip_address = coalesce(user_sessions.ip_address, EXCLUDED.ip_address),
+            user_agent = coalesce(user_sessions.user_agent, EXCLUDED.user_agent);
+
+        IF NEW.user_agent IS NULL THEN
+            RETURN NEW;
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+           OR current_setting('app.settings.supabase_url', true) IS NULL THEN
+            RAISE WARNING 'Session % not described: pg_net or app.settings.supabase_url is missing', NEW.id;
+            RETURN NEW;
+        END IF;
+
+        PERFORM net.http_post(
+            url := current_setting('app.settings.supabase_url') || '/functions/v1/track-session',
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+            ),
+            body := jsonb_build_object('sessionId', NEW.id)
+        );
+    EXCEPTION
+        WHEN OTHERS THEN
+            RAISE WARNING 'Error recording session %: %', NEW.id, SQLERRM;
+    END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_auth_session_on_insert ON auth.sessions;
+CREATE TRIGGER record_auth_session_on_insert
+    AFTER INSERT ON auth.sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_auth_session();
+
+DROP TRIGGER IF EXISTS record_auth_session_on_update ON auth.sessions;
+CREATE TRIGGER record_auth_session_on_update
+    AFTER UPDATE OF user_agent ON auth.sessions
+    FOR EACH ROW
+    WHEN (OLD.user_agent IS NULL AND NEW.user_agent IS NOT NULL)
+    EXECUTE FUNCTION public.record_auth_session();
+
+REVOKE EXECUTE ON FUNCTION public.record_auth_session() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,72 @@
+-- Exports and the organization 2FA policy were only enforced in the browser.
+-- Exports now go through a function that requires a recent step-up, and admins
+-- and project managers without 2FA can't reach any data while the policy is on.
+
+-- The audit log page's filters; rows still come through audit_logs' policies
+CREATE OR REPLACE FUNCTION public.export_audit_logs(
+    p_table_name TEXT DEFAULT NULL,
+    p_action TEXT DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL,
+    p_field TEXT DEFAULT NULL,
+    p_search TEXT DEFAULT NULL,
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_limit INTEGER DEFAULT 1000
+)
+RETURNS SETOF public.audit_logs AS $$
+BEGIN
+    PERFORM public.assert_step_up();
+
+    RETURN QUERY
+    SELECT *
+    FROM public.audit_logs
+    WHERE (p_table_name IS NULL OR audit_logs.table_name = p_table_name)
+    AND (p_action IS NULL OR audit_logs.action::text = p_action)
+    AND (p_actor_id IS NULL OR audit_logs.user_id = p_actor_id)
+    AND (p_field IS NULL OR audit_logs.changes @> jsonb_build_object(p_field, '{}'::jsonb))
+    AND (p_search IS NULL OR audit_logs.record_label ILIKE '%' || p_search || '%')
+    AND (p_from IS NULL OR audit_logs.created_at >= p_from)
+    AND (p_to IS NULL OR audit_logs.created_at <= p_to)
+    ORDER BY audit_logs.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- False only for an admin or project manager without a verified authenticator
+-- while the organization requires one
+CREATE OR REPLACE FUNCTION public.mfa_policy_satisfied()
+RETURNS BOOLEAN AS $$
+    SELECT auth.uid() IS NULL
+    OR NOT coalesce((SELECT require_mfa_for_privileged_roles FROM public.security_policies), false)
+    OR NOT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role IN ('admin', 'project_manager')
+    )
+    OR EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE mfa_factors.user_id = auth.uid()
+        AND mfa_factors.status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every table with RLS except the policy itself, which the app reads to ask
+-- for enrollment. Tables added later need the same policy.
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOR t IN
+        SELECT relname FROM pg_class
+        WHERE relnamespace = 'public'::regnamespace
+        AND relkind = 'r'
+        AND relrowsecurity
+        AND relname <> 'security_policies'
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Organization 2FA policy is met" ON public.%I', t);
+        EXECUTE format(
+            'CREATE POLICY "Organization 2FA policy is met" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING ((SELECT public.mfa_policy_satisfied())) WITH CHECK ((SELECT public.mfa_policy_satisfied()))',
+            t
+        );
+    END LOOP;
+END $$;
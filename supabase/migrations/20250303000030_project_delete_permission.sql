@@ -0,0 +1,53 @@
+-- Trashing a project ends in the purge deleting it for good, but it used the
+-- phase and task check, which lets any project manager or project 'manager'
+-- member in. Projects keep the rule they had before the trash: only their
+-- owner or an admin may delete them.
+CREATE OR REPLACE FUNCTION public.can_delete_project(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = p_project_id
+        AND projects.owner_id = auth.uid()
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role = 'admin'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.trash_project(p_project_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_name TEXT;
+    v_trash_id UUID;
+BEGIN
+    SELECT name INTO v_name FROM public.projects WHERE id = p_project_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project not found or already in the trash';
+    END IF;
+    IF NOT public.can_delete_project(p_project_id) THEN
+        RAISE EXCEPTION 'You do not have permission to delete this project' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.trash_items (item_type, item_id, project_id, label, project_name, deleted_by)
+    VALUES ('project', p_project_id, p_project_id, v_name, v_name, auth.uid())
+    RETURNING id INTO v_trash_id;
+
+    UPDATE public.tasks SET deleted_at = now(), trash_id = v_trash_id
+    WHERE project_id = p_project_id AND deleted_at IS NULL;
+
+    UPDATE public.project_phases SET deleted_at = now(), trash_id = v_trash_id
+    WHERE project_id = p_project_id AND deleted_at IS NULL;
+
+    UPDATE public.projects SET deleted_at = now(), trash_id = v_trash_id
+    WHERE id = p_project_id;
+
+    UPDATE public.trash_items SET
+        phase_count = (SELECT count(*) FROM public.project_phases WHERE trash_id = v_trash_id),
+        task_count = (SELECT count(*) FROM public.tasks WHERE trash_id = v_trash_id)
+    WHERE id = v_trash_id;
+
+    RETURN v_trash_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,11 @@
+-- delete_projects was granted by roles but never checked. Owners can still
+-- delete their own projects; anyone else needs the permission.
+CREATE OR REPLACE FUNCTION public.can_delete_project(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT public.has_permission('delete_projects', p_project_id)
+    OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = p_project_id
+        AND projects.owner_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,5 @@
+-- user_permissions takes any user id, so calling it directly revealed
+-- everyone's permissions. has_permission() and get_my_permissions() still use
+-- it as definers, and edge functions call it with the service role.
+REVOKE EXECUTE ON FUNCTION public.user_permissions(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_permissions(UUID) TO service_role;
@@ -0,0 +1,58 @@
+-- A task couldn't be started or completed while blocked only in the app, and
+-- any project manager could edit dependencies in projects they don't run.
+
+-- Matches BLOCKED_STATUSES in src/lib/services/taskDependencies.ts. Trashed
+-- blockers don't count, as they are hidden from the app too.
+CREATE OR REPLACE FUNCTION public.check_task_blockers()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_blockers TEXT;
+BEGIN
+    SELECT string_agg(blocker.title, ', ' ORDER BY blocker.title) INTO v_blockers
+    FROM public.task_dependencies
+    JOIN public.tasks AS blocker ON blocker.id = task_dependencies.dependency_task_id
+    WHERE task_dependencies.dependent_task_id = NEW.id
+    AND blocker.status <> 'completed'
+    AND blocker.deleted_at IS NULL;
+
+    IF v_blockers IS NOT NULL THEN
+        RAISE EXCEPTION 'This task is blocked by unfinished tasks: %', v_blockers
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_task_blockers ON public.tasks;
+CREATE TRIGGER check_task_blockers
+    BEFORE UPDATE OF status ON public.tasks
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('in_progress', 'completed'))
+    EXECUTE FUNCTION public.check_task_blockers();
+
+-- Admins, or whoever runs the dependent task's project
+DROP POLICY IF EXISTS "Managers and admins can manage task dependencies" ON public.task_dependencies;
+CREATE POLICY "Managers and admins can manage task dependencies"
+    ON public.task_dependencies
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.projects ON projects.id = tasks.project_id
+            WHERE tasks.id = task_dependencies.dependent_task_id
+            AND (
+                auth.uid() IN (projects.owner_id, projects.manager_id)
+                OR EXISTS (
+                    SELECT 1 FROM public.project_members
+                    WHERE project_members.project_id = tasks.project_id
+                    AND project_members.user_id = auth.uid()
+                    AND project_members.role = 'manager'
+                )
+            )
+        ) OR EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
@@ -0,0 +1,22 @@
+-- Updates only checked whose entry it was, so an entry could be moved onto a
+-- task in a project its author isn't on. Updates now need the same membership
+-- as logging time.
+DROP POLICY IF EXISTS "Users can update their own time entries" ON public.time_entries;
+CREATE POLICY "Users can update their own time entries"
+    ON public.time_entries FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.tasks
+                JOIN public.project_members ON project_members.project_id = tasks.project_id
+                WHERE tasks.id = time_entries.task_id
+                AND project_members.user_id = auth.uid()
+            ) OR EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role = 'admin'
+            )
+        )
+    );
@@ -0,0 +1,20 @@
+-- Seeing the budget also allowed changing it. Writes now need manage_budget,
+-- which the built-in admin and project manager roles keep.
+UPDATE public.roles
+SET permissions = array_append(permissions, 'manage_budget')
+WHERE is_system
+AND key IN ('admin', 'project_manager')
+AND NOT 'manage_budget' = ANY(permissions);
+
+DROP POLICY IF EXISTS "Managers can manage project expenses" ON public.project_expenses;
+CREATE POLICY "Managers can manage project expenses"
+    ON public.project_expenses FOR ALL
+    USING (public.has_permission('manage_budget', project_id))
+    WITH CHECK (public.has_permission('manage_budget', project_id));
+
+DROP POLICY IF EXISTS "User managers who see budgets can set hourly rates" ON public.user_rates;
+DROP POLICY IF EXISTS "User managers who manage budgets can set hourly rates" ON public.user_rates;
+CREATE POLICY "User managers who manage budgets can set hourly rates"
+    ON public.user_rates FOR ALL
+    USING (public.has_permission('manage_budget') AND public.has_permission('manage_users'))
+    WITH CHECK (public.has_permission('manage_budget') AND public.has_permission('manage_users'));
@@ -0,0 +1,115 @@
+-- Guests could read every column of a shared project straight from the API,
+-- budget and alert thresholds included. They now get shared projects only
+-- through get_guest_projects(), which returns the columns the guest pages show.
+
+-- Whether a project shows guests one of its optional sections. The guest
+-- policies below use it because guests can no longer read projects themselves.
+CREATE OR REPLACE FUNCTION public.guest_section_visible(p_project_id UUID, p_section TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce((
+        SELECT CASE p_section
+            WHEN 'phases' THEN projects.guest_phases_visible
+            WHEN 'faqs' THEN projects.guest_faqs_visible
+            WHEN 'resources' THEN projects.guest_resources_visible
+        END
+        FROM public.projects
+        WHERE projects.id = p_project_id
+    ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Projects shared with the signed-in guest, or just one of them
+CREATE OR REPLACE FUNCTION public.get_guest_projects(p_project_id UUID DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    description TEXT,
+    status TEXT,
+    start_date DATE,
+    end_date DATE,
+    progress INTEGER,
+    guest_phases_visible BOOLEAN,
+    guest_faqs_visible BOOLEAN,
+    guest_resources_visible BOOLEAN
+) AS $$
+    SELECT
+        projects.id,
+        projects.name::TEXT,
+        projects.description::TEXT,
+        projects.status::TEXT,
+        projects.start_date,
+        projects.end_date,
+        projects.progress,
+        projects.guest_phases_visible,
+        projects.guest_faqs_visible,
+        projects.guest_resources_visible
+    FROM public.projects
+    WHERE public.is_project_guest(projects.id)
+    AND projects.deleted_at IS NULL
+    AND (p_project_id IS NULL OR projects.id = p_project_id)
+    ORDER BY projects.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Guests can view shared projects" ON public.projects;
+DROP POLICY IF EXISTS "Guests only see shared projects" ON public.projects;
+DROP POLICY IF EXISTS "Guests cannot read projects" ON public.projects;
+
+CREATE POLICY "Guests cannot read projects"
+    ON public.projects AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (NOT public.is_guest())
+    WITH CHECK (NOT public.is_guest());
+
+DROP POLICY IF EXISTS "Guests can view shared phases" ON public.project_phases;
+DROP POLICY IF EXISTS "Guests only see shared phases" ON public.project_phases;
+DROP POLICY IF EXISTS "Guests can view shared FAQs" ON public.project_faqs;
+DROP POLICY IF EXISTS "Guests only see shared FAQs" ON public.project_faqs;
+DROP POLICY IF EXISTS "Guests can view shared resources" ON public.project_resources;
+DROP POLICY IF EXISTS "Guests only see shared resources" ON public.project_resources;
+
+CREATE POLICY "Guests can view shared phases"
+    ON public.project_phases FOR SELECT
+    TO authenticated
+    USING (public.is_project_guest(project_id) AND public.guest_section_visible(project_id, 'phases'));
+
+CREATE POLICY "Guests only see shared phases"
+    ON public.project_phases AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND public.guest_section_visible(project_id, 'phases')
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared FAQs"
+    ON public.project_faqs FOR SELECT
+    TO authenticated
+    USING (public.is_project_guest(project_id) AND public.guest_section_visible(project_id, 'faqs'));
+
+CREATE POLICY "Guests only see shared FAQs"
+    ON public.project_faqs AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND public.guest_section_visible(project_id, 'faqs')
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
+
+CREATE POLICY "Guests can view shared resources"
+    ON public.project_resources FOR SELECT
+    TO authenticated
+    USING (public.is_project_guest(project_id) AND public.guest_section_visible(project_id, 'resources'));
+
+CREATE POLICY "Guests only see shared resources"
+    ON public.project_resources AS RESTRICTIVE FOR ALL
+    TO authenticated
+    USING (
+        NOT public.is_guest() OR (
+            public.is_project_guest(project_id)
+            AND public.guest_section_visible(project_id, 'resources')
+        )
+    )
+    WITH CHECK (NOT public.is_guest());
@@ -0,0 +1,87 @@
+-- Other users' sessions were open to anyone whose built-in role was admin,
+-- whatever their assigned role allowed. Seeing and revoking them now takes
+-- manage_users, and manage_admins as well when the sessions are an admin's,
+-- like the other user management actions.
+CREATE OR REPLACE FUNCTION public.can_manage_user_sessions(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT p_user_id = auth.uid()
+    OR (
+        public.has_permission('manage_users')
+        AND (
+            public.has_permission('manage_admins')
+            OR NOT EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = p_user_id
+                AND users.role = 'admin'
+            )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can view their own sessions" ON public.user_sessions;
+DROP POLICY IF EXISTS "Admins can view all sessions" ON public.user_sessions;
+DROP POLICY IF EXISTS "Users and user managers can view sessions" ON public.user_sessions;
+
+CREATE POLICY "Users and user managers can view sessions"
+    ON public.user_sessions FOR SELECT
+    USING (public.can_manage_user_sessions(user_id));
+
+CREATE OR REPLACE FUNCTION public.get_user_sessions(p_user_id UUID)
+RETURNS TABLE (
+    id UUID,
+    ip_address TEXT,
+    user_agent TEXT,
+    device TEXT,
+    browser TEXT,
+    location TEXT,
+    first_seen_at TIMESTAMPTZ,
+    last_active_at TIMESTAMPTZ,
+    is_current BOOLEAN
+) AS $$
+    SELECT
+        sessions.id,
+        coalesce(user_sessions.ip_address, host(sessions.ip)),
+        coalesce(user_sessions.user_agent, sessions.user_agent),
+        user_sessions.device,
+        user_sessions.browser,
+        user_sessions.location,
+        sessions.created_at,
+        greatest(sessions.created_at, sessions.updated_at, sessions.refreshed_at::timestamptz),
+        sessions.id::text = auth.jwt() ->> 'session_id'
+    FROM auth.sessions
+    LEFT JOIN public.user_sessions ON user_sessions.session_id = sessions.id
+    WHERE sessions.user_id = p_user_id
+    AND (sessions.not_after IS NULL OR sessions.not_after > now())
+    AND public.can_manage_user_sessions(p_user_id)
+    ORDER BY 8 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_session(p_session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    SELECT user_id INTO v_user_id FROM auth.sessions WHERE id = p_session_id;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Session not found or already signed out';
+    END IF;
+
+    IF NOT public.can_manage_user_sessions(v_user_id) THEN
+        RAISE EXCEPTION 'You do not have permission to revoke this session' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM auth.sessions WHERE id = p_session_id;
+
+    UPDATE public.user_sessions
+    SET revoked_at = now(), revoked_by = auth.uid()
+    WHERE session_id = p_session_id;
+
+    INSERT INTO public.auth_audit_log (user_id, action, metadata)
+    VALUES (
+        v_user_id,
+        'session_revoked',
+        jsonb_build_object('session_id', p_session_id, 'revoked_by', auth.uid())
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
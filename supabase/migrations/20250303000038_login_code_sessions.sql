@@ -0,0 +1,57 @@
+-- Signing in with a password creates a full session before the emailed login
+-- code is entered, and only the browser held the user back until then. The
+-- login-otp function now records which session entered the code, and a
+-- password session can't reach any data until it has.
+
+-- Codes belong to the session that asked for them
+ALTER TABLE public.user_otps
+    ADD COLUMN IF NOT EXISTS session_id UUID;
+
+CREATE TABLE IF NOT EXISTS public.login_code_verifications (
+    session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    verified_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.login_code_verifications ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only the login-otp function writes rows, with the service role
+REVOKE ALL ON public.login_code_verifications FROM anon, authenticated;
+
+-- True unless the session signed in with a password and hasn't entered its
+-- code. Google sign-in, email links and password recovery already prove the
+-- user holds the mailbox or account the code would go to.
+CREATE OR REPLACE FUNCTION public.login_code_verified()
+RETURNS BOOLEAN AS $$
+    SELECT auth.uid() IS NULL
+    OR NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(coalesce(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'password'
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.login_code_verifications
+        WHERE login_code_verifications.session_id::text = auth.jwt() ->> 'session_id'
+        AND login_code_verifications.user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every table with RLS. Tables added later need the same policy.
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOR t IN
+        SELECT relname FROM pg_class
+        WHERE relnamespace = 'public'::regnamespace
+        AND relkind = 'r'
+        AND relrowsecurity
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Login code entered for this session" ON public.%I', t);
+        EXECUTE format(
+            'CREATE POLICY "Login code entered for this session" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING ((SELECT public.login_code_verified())) WITH CHECK ((SELECT public.login_code_verified()))',
+            t
+        );
+    END LOOP;
+END $$;
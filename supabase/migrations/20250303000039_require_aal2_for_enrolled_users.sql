@@ -0,0 +1,44 @@
+-- Having an authenticator only counted as enrollment: a session signed in with
+-- the password alone still reached everything. A user with a verified
+-- authenticator now needs a session that passed it (aal2), or a backup code
+-- entered for the session, before any data comes back.
+
+-- True when the session has passed the user's authenticator, or they have none
+CREATE OR REPLACE FUNCTION public.login_mfa_verified()
+RETURNS BOOLEAN AS $$
+    SELECT auth.uid() IS NULL
+    OR auth.jwt() ->> 'aal' = 'aal2'
+    OR NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors
+        WHERE mfa_factors.user_id = auth.uid()
+        AND mfa_factors.status = 'verified'
+    )
+    -- Backup codes can't raise the session's aal, so they are recorded here
+    OR EXISTS (
+        SELECT 1 FROM public.step_up_verifications
+        WHERE step_up_verifications.user_id = auth.uid()
+        AND step_up_verifications.session_id::text = auth.jwt() ->> 'session_id'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The "Organization 2FA policy is met" policies already call this
+CREATE OR REPLACE FUNCTION public.mfa_policy_satisfied()
+RETURNS BOOLEAN AS $$
+    SELECT auth.uid() IS NULL
+    OR (
+        public.login_mfa_verified()
+        AND (
+            NOT coalesce((SELECT require_mfa_for_privileged_roles FROM public.security_policies), false)
+            OR NOT EXISTS (
+                SELECT 1 FROM public.users
+                WHERE users.id = auth.uid()
+                AND users.role IN ('admin', 'project_manager')
+            )
+            OR EXISTS (
+                SELECT 1 FROM auth.mfa_factors
+                WHERE mfa_factors.user_id = auth.uid()
+                AND mfa_factors.status = 'verified'
+            )
+        )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,54 @@
+-- Run with `supabase test db`. A guest or employee must not be able to move
+-- themselves to another role: is_guest() and most policies read users.role.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+    ('00000000-0000-4000-8000-000000000001', 'guest@example.com'),
+    ('00000000-0000-4000-8000-000000000002', 'employee@example.com');
+
+INSERT INTO public.users (id, email, full_name, role, status) VALUES
+    ('00000000-0000-4000-8000-000000000001', 'guest@example.com', 'Guest', 'guest', 'active'),
+    ('00000000-0000-4000-8000-000000000002', 'employee@example.com', 'Employee', 'employee', 'active')
+ON CONFLICT (id) DO UPDATE SET role = EXCLUDED.role, status = EXCLUDED.status;
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+    $$ UPDATE public.users SET role = 'employee' WHERE id = '00000000-0000-4000-8000-000000000001' $$,
+    '42501', NULL,
+    'A guest cannot change their own role'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.users SET role_id = (SELECT id FROM public.roles WHERE key = 'admin') WHERE id = '00000000-0000-4000-8000-000000000001' $$,
+    '42501', NULL,
+    'A guest cannot pick their own role_id'
+);
+
+SELECT lives_ok(
+    $$ UPDATE public.users SET full_name = 'Renamed Guest' WHERE id = '00000000-0000-4000-8000-000000000001' $$,
+    'A guest can still edit the rest of their profile'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+    $$ UPDATE public.users SET role_id = (SELECT id FROM public.roles WHERE key = 'admin') WHERE id = '00000000-0000-4000-8000-000000000002' $$,
+    '42501', NULL,
+    'An employee cannot make themselves an admin'
+);
+
+RESET role;
+
+SELECT results_eq(
+    $$ SELECT role::text FROM public.users WHERE id IN ('00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002') ORDER BY email $$,
+    ARRAY['employee', 'guest'],
+    'Both users keep their roles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;